@@ -1,306 +1,549 @@
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { P2PQuakeData, EEWState, WolfxEEWData, JMASeismicIntensity } from './types';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { P2PQuakeData, EEWState, EEWEvent, WolfxEEWData, FeedStatus, P2PMessage, TsunamiForecast, P2PUserquakeData, P2PUserquakeEvaluationData, UserLocation, QuakeEvent, MapSettings, ArchivedMessage, ReplayRecording, ReplayState, Scenario, AlertChannel, AlertProfile, AlertSubject, Announcement } from './types';
 import { MapComponent } from './components/MapComponent';
 import { InfoPanel } from './components/InfoPanel';
 import { EEWBanner } from './components/EEWBanner';
+import { TsunamiBanner } from './components/TsunamiBanner';
 import { SettingsModal } from './components/SettingsModal';
+import { FeedStatusIndicator } from './components/FeedStatusIndicator';
+import { UserquakePanel } from './components/UserquakePanel';
+import { EventTimeline } from './components/EventTimeline';
+import { ReplayControls } from './components/ReplayControls';
 import { soundService } from './services/SoundService';
-import { Wifi, WifiOff, Settings, Home, TestTube, History as HistoryIcon, Volume2, VolumeX } from 'lucide-react';
-
-const P2P_WS_URL = 'wss://api.p2pquake.net/v2/ws';
-const P2P_API_HISTORY = 'https://api.p2pquake.net/v2/history?codes=551&limit=1';
-const WOLFX_WS_URL = 'wss://ws-api.wolfx.jp/jma_eew';
-
-type ViewMode = 'live' | 'history' | 'simulation';
+import { announcementService } from './services/AnnouncementService';
+import { voicePackStore } from './services/voicePacks';
+import { createDefaultFeeds, FeedMessageMeta, parseP2PTime } from './services/feeds';
+import { mapP2PEEW, mapP2PEEWDetection, mapWolfxEEW } from './services/eewMappers';
+import { applyEEWUpdate, expireEEWEvents, getActiveEEWs, selectPrimaryEEW } from './services/eewStore';
+import { parseP2PTsunami } from './services/tsunami';
+import { computeLocalImpact } from './services/seismology';
+import { loadUserLocation, saveUserLocation } from './services/userLocation';
+import { nearestPlaceName } from './services/spatialIndex';
+import { loadMapSettings, saveMapSettings } from './services/mapSettings';
+import { eventArchive, toEEWEvent, toQuakeEvent, toTsunamiEvent } from './services/archive';
+import { applyQuakeReport, findQuakeEventByReport } from './services/quakeEvents';
+import { ReplayEngine, serializeRecording } from './services/replay';
+import { scenarioToRecording } from './services/scenario';
+import { displayNow, setDisplayClock } from './services/displayClock';
+import { downloadTextFile } from './services/download';
+import { loadAlertProfiles, saveAlertProfiles } from './services/alertProfiles';
+import { eewAlertSubject, quakeAlertSubject, resolveAlertChannels, tsunamiAlertSubject } from './services/alertRules';
+import { showAnnouncementNotification } from './services/desktopNotifications';
+import { Wifi, WifiOff, Crosshair, Settings, Home, TestTube, History as HistoryIcon, Film, Volume2, VolumeX } from 'lucide-react';
+
+const P2P_API_HISTORY = 'https://api.p2pquake.net/v2/history?codes=551&limit=20';
+
+// How long a live arrival stays highlighted in the timeline (unless opened)
+const NEW_ARRIVAL_HIGHLIGHT_MS = 3 * 60 * 1000;
+
+// User felt reports (561) older than this are dropped
+const USERQUAKE_WINDOW_MS = 10 * 60 * 1000;
+
+// Archived tsunami forecasts older than this are not restored on startup
+const TSUNAMI_REHYDRATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Spoken S-wave countdown: seconds remaining at which the countdown is announced
+const COUNTDOWN_ANNOUNCE_SECONDS = [60, 50, 40, 30, 20, 10, 5, 4, 3, 2, 1, 0];
+// Countdown is only spoken when the estimated intensity at the user location reaches 3
+const COUNTDOWN_MIN_INTENSITY = 2.5;
+
+const INITIAL_FEED_STATUS: FeedStatus = { state: 'disconnected', messageCount: 0, reconnectAttempts: 0 };
+
+type ViewMode = 'live' | 'history' | 'simulation' | 'replay';
+
+// Space reserved under the fixed EEW banner (the user location row adds a line)
+const getBannerOffsetClass = (eewCount: number, hasUserLocation: boolean) => {
+  if (eewCount === 0) return '';
+  const extra = hasUserLocation ? 1 : 0;
+  return ['mt-14', 'mt-20', 'mt-24'][Math.min(2, (eewCount > 1 ? 1 : 0) + extra)];
+};
 
 const App: React.FC = () => {
   // --- Data Stores ---
   // "Live" holds the real-time data from WebSockets
-  const [liveQuake, setLiveQuake] = useState<P2PQuakeData | null>(null);
-  const [liveEEW, setLiveEEW] = useState<EEWState>({ isActive: false, isWarning: false, isFinal: false, areas: [] });
+  // 551 reports are grouped per earthquake; the live quake is the event of the latest report
+  const [quakeEvents, setQuakeEvents] = useState<QuakeEvent[]>([]);
+  const [liveQuakeReportId, setLiveQuakeReportId] = useState<string | null>(null);
+  const [newQuakeIds, setNewQuakeIds] = useState<string[]>([]); // Report ids
+  // Timeline event shown instead of the latest one (live mode only)
+  const [selectedQuakeId, setSelectedQuakeId] = useState<string | null>(null);
+  const [liveEEWEvents, setLiveEEWEvents] = useState<EEWEvent[]>([]);
+  const [liveTsunami, setLiveTsunami] = useState<TsunamiForecast | null>(null);
+  const [userquakeReports, setUserquakeReports] = useState<P2PUserquakeData[]>([]);
+  const [userquakeEvaluation, setUserquakeEvaluation] = useState<P2PUserquakeEvaluationData | null>(null);
+  const [peerCount, setPeerCount] = useState<number | null>(null);
+
+  // "Replay" mirrors the live stores for a recording played back in virtual time
+  const [replayRecording, setReplayRecording] = useState<ReplayRecording | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const [replayQuakeEvents, setReplayQuakeEvents] = useState<QuakeEvent[]>([]);
+  const [replayQuakeReportId, setReplayQuakeReportId] = useState<string | null>(null);
+  const [replayEEWEvents, setReplayEEWEvents] = useState<EEWEvent[]>([]);
+  const [replayTsunami, setReplayTsunami] = useState<TsunamiForecast | null>(null);
   
   // "Display" is what is passed to components (switched based on mode)
   const [displayQuake, setDisplayQuake] = useState<P2PQuakeData | null>(null);
   const [displayEEW, setDisplayEEW] = useState<EEWState>({ isActive: false, isWarning: false, isFinal: false, areas: [] });
+  const [displayTsunami, setDisplayTsunami] = useState<TsunamiForecast | null>(null);
 
   const [mode, setMode] = useState<ViewMode>('live');
 
-  const [p2pStatus, setP2pStatus] = useState<'connected' | 'disconnected'>('disconnected');
-  const [wolfxStatus, setWolfxStatus] = useState<'connected' | 'disconnected'>('disconnected');
+  const [p2pStatus, setP2pStatus] = useState<FeedStatus>(INITIAL_FEED_STATUS);
+  const [wolfxStatus, setWolfxStatus] = useState<FeedStatus>(INITIAL_FEED_STATUS);
   
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isDebugMode, setIsDebugMode] = useState(false);
   const [isAutoZoomEnabled, setIsAutoZoomEnabled] = useState(true);
   const [isSoundEnabled, setIsSoundEnabled] = useState(false);
+  const [userLocation, setUserLocation] = useState<UserLocation | null>(() => loadUserLocation());
+  const [mapSettings, setMapSettings] = useState<MapSettings>(() => loadMapSettings());
+  const [alertProfiles, setAlertProfiles] = useState<AlertProfile[]>(() => loadAlertProfiles());
+  const [isPickingLocation, setIsPickingLocation] = useState(false);
   
-  const p2pWsRef = useRef<WebSocket | null>(null);
-  const wolfxWsRef = useRef<WebSocket | null>(null);
-  const simulationTimersRef = useRef<number[]>([]);
+  const replayEngineRef = useRef<ReplayEngine | null>(null);
   
   // Refs for tracking changes
   const prevEEWRef = useRef<EEWState>({ isActive: false, isWarning: false, isFinal: false, areas: [] });
-  const prevQuakeIdRef = useRef<string>("");
-
-  // 1. Initial Data Fetch
+  // Reports already announced (re-selecting one from the timeline stays silent)
+  const announcedQuakeIdsRef = useRef<Set<string>>(new Set());
+  const prevTsunamiIdRef = useRef<string>("");
+  // EEW event the alert profiles matched, and the channels used for its later reports
+  const alertedEEWRef = useRef<{ key: string; channels: AlertChannel[] } | null>(null);
+  // Reports recovered by gap backfill: shown, but never announced
+  const replayedIdsRef = useRef<Set<string>>(new Set());
+  // Issue time of the report shown as the live quake; older backfilled reports must not replace it
+  const liveQuakeTimeRef = useRef<number>(0);
+  // Last countdown value seen per EEW, so each announcement threshold is spoken once
+  const countdownRef = useRef<{ key: string; remaining: number | null }>({ key: "", remaining: null });
+
+  // 1. Initial Data: restore the last known state from the local archive
+  // (works offline), then fetch the latest report.
   useEffect(() => {
+    const rehydrate = async () => {
+      await eventArchive.prune();
+
+      const archivedQuakes = (await eventArchive.queryEvents({ kinds: ['quake'], limit: 20 }))
+        .map(e => e.data as P2PQuakeData);
+      if (archivedQuakes.length > 0) {
+        archivedQuakes.forEach(q => replayedIdsRef.current.add(q._id));
+        setQuakeEvents(prev => archivedQuakes.reduce((events, q) => applyQuakeReport(events, q), prev));
+        setLiveQuakeReportId(prev => prev ?? archivedQuakes[0]._id);
+      }
+
+      const [lastTsunami] = await eventArchive.queryEvents({
+        kinds: ['tsunami'],
+        from: Date.now() - TSUNAMI_REHYDRATE_WINDOW_MS,
+        limit: 1,
+      });
+      if (lastTsunami) {
+        const forecast = lastTsunami.data as TsunamiForecast;
+        if (!forecast.cancelled) {
+          replayedIdsRef.current.add(forecast.id);
+          setLiveTsunami(prev => prev ?? forecast);
+        }
+      }
+    };
+
     const fetchHistory = async () => {
       try {
         const res = await fetch(P2P_API_HISTORY);
         const data = await res.json();
         if (data && data.length > 0) {
-          setLiveQuake(data[0]);
+          // Only the latest report may be announced; older ones just fill the timeline
+          data.slice(1).forEach((q: P2PQuakeData) => replayedIdsRef.current.add(q._id));
+          setQuakeEvents(prev => data.reduce((events: QuakeEvent[], q: P2PQuakeData) => applyQuakeReport(events, q), prev));
+          liveQuakeTimeRef.current = Math.max(liveQuakeTimeRef.current, parseP2PTime(data[0].time) || 0);
+          setLiveQuakeReportId(data[0]._id);
+          data.forEach((q: P2PQuakeData) => {
+            eventArchive.putP2PMessage(q);
+            eventArchive.putEvent(toQuakeEvent(q));
+          });
         }
       } catch (e) {
         console.error("Failed to fetch history", e);
       }
     };
+    rehydrate();
     fetchHistory();
   }, []);
 
+  // Recorded voice clips, if a voice pack was selected in settings
+  useEffect(() => {
+    voicePackStore.loadActive().then(pack => soundService.setVoicePack(pack));
+  }, []);
+
+  // Concurrent EEWs are tracked per EventID; the primary one drives audio and layout
+  const liveEEW = useMemo(() => selectPrimaryEEW(liveEEWEvents), [liveEEWEvents]);
+  const liveActiveEEWs = useMemo(() => getActiveEEWs(liveEEWEvents), [liveEEWEvents]);
+  const displayQuakeEvent = mode === 'live' && displayQuake ? quakeEvents.find(e => e.id === displayQuake._id) ?? null : null;
+  const replayEEW = useMemo(() => selectPrimaryEEW(replayEEWEvents), [replayEEWEvents]);
+  const replayActiveEEWs = useMemo(() => getActiveEEWs(replayEEWEvents), [replayEEWEvents]);
+  const isPlayback = mode === 'replay' || mode === 'simulation';
+  const displayEEWs = mode === 'live' ? liveActiveEEWs
+    : isPlayback ? replayActiveEEWs
+    : displayEEW.isActive ? [displayEEW] : [];
+
+  const liveQuake = useMemo(
+    () => liveQuakeReportId ? findQuakeEventByReport(quakeEvents, liveQuakeReportId)?.merged ?? null : null,
+    [quakeEvents, liveQuakeReportId]
+  );
+  const selectedQuake = selectedQuakeId ? quakeEvents.find(e => e.id === selectedQuakeId)?.merged ?? null : null;
+  const replayQuake = useMemo(
+    () => replayQuakeReportId ? findQuakeEventByReport(replayQuakeEvents, replayQuakeReportId)?.merged ?? null : null,
+    [replayQuakeEvents, replayQuakeReportId]
+  );
+
   // 2. Sync Display Data with Live Data when in 'live' mode
   useEffect(() => {
     if (mode === 'live') {
-      setDisplayQuake(liveQuake);
+      setDisplayQuake(selectedQuake ?? liveQuake);
       setDisplayEEW(liveEEW);
+      setDisplayTsunami(liveTsunami);
     }
-  }, [liveQuake, liveEEW, mode]);
+  }, [liveQuake, selectedQuake, liveEEW, liveTsunami, mode]);
 
-  // EEW Timeout Logic (20 seconds inactivity)
+  // Same for the replay stores while a recording or scenario plays
   useEffect(() => {
-      if (mode !== 'live' || !liveEEW.isActive) return;
+    if (isPlayback) {
+      setDisplayQuake(replayQuake);
+      setDisplayEEW(replayEEW);
+      setDisplayTsunami(replayTsunami);
+    }
+  }, [replayQuake, replayEEW, replayTsunami, isPlayback]);
+
+  // EEW Timeout Logic (20 seconds inactivity, per event)
+  useEffect(() => {
+      if (mode !== 'live' || liveActiveEEWs.length === 0) return;
 
       const timer = setInterval(() => {
-          if (liveEEW.updatedTime && Date.now() - liveEEW.updatedTime > 20000) {
-              setLiveEEW(prev => ({ ...prev, isActive: false, areas: [] }));
-          }
+          setLiveEEWEvents(prev => expireEEWEvents(prev));
       }, 1000);
 
       return () => clearInterval(timer);
-  }, [liveEEW, mode]);
+  }, [liveActiveEEWs.length, mode]);
 
 
   // 3. Audio Logic Monitoring
+  // Alert profiles decide which events sound, speak or notify; banners always update
   useEffect(() => {
-      if (!isSoundEnabled) return;
-
       const currentEEW = displayEEW;
       const prevEEW = prevEEWRef.current;
+      const resolveChannels = (subject: AlertSubject) =>
+          resolveAlertChannels(alertProfiles, subject, { now: new Date(), userLocation });
+      const dispatchAlert = (announcement: Announcement, channels: AlertChannel[]) => {
+          if (isSoundEnabled) announcementService.announce(announcement, channels);
+          // Desktop notifications can't be told apart from real ones, so replays and drills skip them
+          if (mode === 'live' && channels.includes('notification')) showAnnouncementNotification(announcement);
+      };
+
+      // --- EEW ---
+      // An event alerts once it matches a profile (possibly on a later, stronger report)
+      const eewKey = currentEEW.eventId || currentEEW.occurredTime || "";
+      const alerted = alertedEEWRef.current?.key === eewKey ? alertedEEWRef.current : null;
+
+      if (currentEEW.isActive && !alerted) {
+          const channels = resolveChannels(eewAlertSubject(currentEEW));
+          if (channels.length > 0) {
+              alertedEEWRef.current = { key: eewKey, channels };
+              dispatchAlert({ kind: 'eew', phase: 'start', eew: currentEEW }, channels);
+          }
+      } else if (alerted && currentEEW.isActive && currentEEW.isWarning && !prevEEW.isWarning && !currentEEW.isFinal) {
+          alerted.channels = Array.from(new Set([...alerted.channels, ...resolveChannels(eewAlertSubject(currentEEW))]));
+          dispatchAlert({ kind: 'eew', phase: 'update', eew: currentEEW }, alerted.channels);
+      }
+
+      if (alerted && currentEEW.isFinal && !prevEEW.isFinal && currentEEW.isActive) {
+          soundService.stopAlarm();
+          dispatchAlert({ kind: 'eew', phase: 'final', eew: currentEEW }, alerted.channels);
+      }
+
+      if (alerted && currentEEW.isCancelled && !prevEEW.isCancelled && prevEEW.isActive) {
+          dispatchAlert({ kind: 'eew', phase: 'cancel', eew: currentEEW }, alerted.channels);
+      }
 
       // --- EEW Warning Loop Logic ---
-      // Start Loop if Warning active and NOT final
-      if (currentEEW.isActive && currentEEW.isWarning && !currentEEW.isFinal) {
+      // Loop while a warning the profiles sound for is active and NOT final
+      const eewAlert = alertedEEWRef.current?.key === eewKey ? alertedEEWRef.current : null;
+      if (isSoundEnabled && eewAlert?.channels.includes('sound') && currentEEW.isActive && currentEEW.isWarning && !currentEEW.isFinal) {
           soundService.startAlarm();
       } else {
           // Stop Loop if not warning, or if final, or if inactive
           soundService.stopAlarm();
       }
 
-      // --- Single Sound Logic ---
-      
-      // Case A: EEW Forecast Started (only if not warning)
-      if (currentEEW.isActive && !prevEEW.isActive && !currentEEW.isWarning) {
-          soundService.playForecast();
-      }
-
-      // Case B: Final Report Reached
-      if (currentEEW.isFinal && !prevEEW.isFinal && currentEEW.isActive) {
-          soundService.stopAlarm();
-          soundService.playNotification(); // "Resolved" sound
+      // --- New Quake Report ---
+      // Like the EEW, an event is re-checked as later reports add the hypocenter and magnitude,
+      // and counts as announced once it matches a profile
+      if (displayQuake && !announcedQuakeIdsRef.current.has(displayQuake._id)) {
+          const isRecent = new Date(displayQuake.time).getTime() > displayNow() - 1000 * 60 * 10;
+          const isReplayed = replayedIdsRef.current.has(displayQuake._id);
+          if (isReplayed || !(isRecent || mode === 'simulation')) {
+              announcedQuakeIdsRef.current.add(displayQuake._id);
+          } else {
+              const channels = resolveChannels(quakeAlertSubject(displayQuake));
+              if (channels.length > 0) {
+                  announcedQuakeIdsRef.current.add(displayQuake._id);
+                  dispatchAlert({ kind: 'quake', quake: displayQuake }, channels);
+              }
+          }
       }
 
-      // Case C: New Quake Report
-      if (displayQuake && displayQuake._id !== prevQuakeIdRef.current) {
-          const isRecent = new Date(displayQuake.time).getTime() > Date.now() - 1000 * 60 * 10;
-          if (isRecent || mode === 'simulation') {
-              soundService.playQuakeInfo();
+      // --- New Tsunami Forecast (cancellations are silent) ---
+      if (displayTsunami && displayTsunami.id !== prevTsunamiIdRef.current) {
+          if (displayTsunami.maxGrade && !replayedIdsRef.current.has(displayTsunami.id)) {
+              dispatchAlert({ kind: 'tsunami', forecast: displayTsunami }, resolveChannels(tsunamiAlertSubject(displayTsunami)));
           }
-          prevQuakeIdRef.current = displayQuake._id;
+          prevTsunamiIdRef.current = displayTsunami.id;
       }
 
       prevEEWRef.current = currentEEW;
-  }, [displayEEW, displayQuake, isSoundEnabled, mode]);
+  }, [displayEEW, displayQuake, displayTsunami, isSoundEnabled, mode, alertProfiles, userLocation]);
+
+  // S-wave countdown for the user location
+  useEffect(() => {
+      if (!isSoundEnabled || !userLocation || !displayEEW.isActive || displayEEW.source === 'p2p-detection') return;
+
+      const impact = computeLocalImpact(displayEEW, userLocation.latitude, userLocation.longitude);
+      if (!impact || impact.sArrivalTime === null) return;
+      if (impact.intensity !== null && impact.intensity < COUNTDOWN_MIN_INTENSITY) return;
+      const arrivalTime = impact.sArrivalTime;
+
+      const key = displayEEW.eventId || displayEEW.occurredTime || "";
+      if (countdownRef.current.key !== key) countdownRef.current = { key, remaining: null };
+
+      const tick = () => {
+          const remaining = Math.ceil((arrivalTime - displayNow()) / 1000);
+          const prev = countdownRef.current.remaining;
+          countdownRef.current.remaining = remaining;
+          // Announce only when a threshold is crossed (not when joining mid-countdown)
+          if (prev === null || remaining >= prev) return;
+          const crossed = COUNTDOWN_ANNOUNCE_SECONDS.find(t => remaining <= t && prev > t);
+          // Spoken only for an EEW the alert profiles matched with speech
+          const alerted = alertedEEWRef.current;
+          if (crossed !== undefined && alerted?.key === key) {
+              announcementService.announce({ kind: 'countdown', seconds: crossed }, alerted.channels);
+          }
+      };
+
+      tick();
+      const timer = window.setInterval(tick, 200);
+      return () => window.clearInterval(timer);
+  }, [displayEEW, userLocation, isSoundEnabled]);
 
   // 4. WS Handlers
-  const handleNewLiveQuake = useCallback((data: P2PQuakeData) => {
-    setLiveQuake(data);
+  const handleNewLiveQuake = useCallback((data: P2PQuakeData, meta?: FeedMessageMeta) => {
+    setQuakeEvents(prev => applyQuakeReport(prev, data));
+    const time = parseP2PTime(data.time);
+    if (meta?.replayed) {
+      replayedIdsRef.current.add(data._id);
+      // Backfill can finish after a newer report arrived live; then it only fills the timeline
+      if (time < liveQuakeTimeRef.current) return;
+    } else {
+      // A new report takes over the panel and is highlighted in the timeline
+      setSelectedQuakeId(null);
+      setNewQuakeIds(prev => [...prev, data._id]);
+      window.setTimeout(() => setNewQuakeIds(prev => prev.filter(id => id !== data._id)), NEW_ARRIVAL_HIGHLIGHT_MS);
+    }
+    if (!isNaN(time)) liveQuakeTimeRef.current = Math.max(liveQuakeTimeRef.current, time);
+    setLiveQuakeReportId(data._id);
   }, []);
 
   const handleLiveWolfxEEW = useCallback((data: WolfxEEWData) => {
-    if (data.isCancel || data.Title.includes("取消")) {
-        setLiveEEW({ isActive: false, isWarning: false, isFinal: true, areas: [] });
-        return;
-    }
-    const isWarning = data.Title.includes("警報") || data.Title.includes("Warning");
-    
-    // Parse Magnitude safely
-    let mag: number | undefined = undefined;
-    if (data.Magnitude) {
-        const m = parseFloat(data.Magnitude);
-        if (!isNaN(m)) mag = m;
-    }
+    eventArchive.putWolfxMessage(data);
+    if (data.isTraining) return;
+    setLiveEEWEvents(prev => applyEEWUpdate(prev, mapWolfxEEW(data)));
+  }, []);
 
-    // Parse Depth safely (e.g. "10km" -> 10)
-    let depth: number | undefined = undefined;
-    if (data.Depth) {
-        const d = parseInt(data.Depth.replace(/[^0-9]/g, ''), 10);
-        if (!isNaN(d)) depth = d;
+  const handleLiveP2PMessage = useCallback((data: P2PMessage, meta?: FeedMessageMeta) => {
+    eventArchive.putP2PMessage(data);
+    switch (data.code) {
+      case 551:
+        eventArchive.putEvent(toQuakeEvent(data));
+        handleNewLiveQuake(data, meta);
+        break;
+      case 552: {
+        if (meta?.replayed) replayedIdsRef.current.add(data._id);
+        const forecast = parseP2PTsunami(data);
+        eventArchive.putEvent(toTsunamiEvent(forecast));
+        // A backfilled forecast is only shown if nothing newer arrived in the meantime
+        setLiveTsunami(prev => meta?.replayed && prev && Date.parse(prev.issuedAt) > Date.parse(forecast.issuedAt)
+          ? prev
+          : forecast);
+        break;
+      }
+      case 554:
+        // Detection only: the store ignores it while an EEW with actual parameters is active
+        setLiveEEWEvents(prev => applyEEWUpdate(prev, mapP2PEEWDetection(data)));
+        break;
+      case 555:
+        setPeerCount(data.areas.reduce((sum, a) => sum + a.peer, 0));
+        break;
+      case 556: {
+        if (data.test) break;
+        setLiveEEWEvents(prev => applyEEWUpdate(prev, mapP2PEEW(data)));
+        break;
+      }
+      case 561: {
+        const cutoff = Date.now() - USERQUAKE_WINDOW_MS;
+        setUserquakeReports(prev => [...prev.filter(r => parseP2PTime(r.time) > cutoff), data]);
+        break;
+      }
+      case 9611:
+        setUserquakeEvaluation(data);
+        break;
     }
+  }, [handleNewLiveQuake]);
 
-    setLiveEEW({
-        isActive: true,
-        isWarning: isWarning,
-        isFinal: data.isFinal || false,
-        hypocenterName: data.Hypocenter,
-        magnitude: mag,
-        depth: depth,
-        maxIntensity: data.MaxIntensity,
-        areas: [],
-        occurredTime: data.AnnouncedTime, 
-        title: data.Title,
-        updatedTime: Date.now() // Track for timeout
-    });
-  }, []);
-
-  // 5. WebSocket Connections
+  // Archive EEW events (one record per EventID, rewritten on every report)
   useEffect(() => {
-    const connectP2P = () => {
-      const ws = new WebSocket(P2P_WS_URL);
-      p2pWsRef.current = ws;
-      ws.onopen = () => setP2pStatus('connected');
-      ws.onmessage = (event) => {
-        const data = JSON.parse(event.data) as P2PQuakeData;
-        if (data.code === 551) handleNewLiveQuake(data);
-      };
-      ws.onclose = () => { setP2pStatus('disconnected'); setTimeout(connectP2P, 5000); };
-      ws.onerror = () => ws.close();
-    };
-
-    const connectWolfx = () => {
-      const ws = new WebSocket(WOLFX_WS_URL);
-      wolfxWsRef.current = ws;
-      ws.onopen = () => setWolfxStatus('connected');
-      ws.onmessage = (event) => {
-        try {
-            const data = JSON.parse(event.data);
-            if (data.Type === 'jma_eew' || data.type === 'jma_eew') {
-                handleLiveWolfxEEW(data as WolfxEEWData);
-            }
-        } catch (e) { console.error("Wolfx Parse Error", e); }
-      };
-      ws.onclose = () => { setWolfxStatus('disconnected'); setTimeout(connectWolfx, 5000); };
-      ws.onerror = () => ws.close();
-    };
+    liveEEWEvents
+      .filter(e => e.eventId !== 'p2p-detection')
+      .forEach(e => eventArchive.putEvent(toEEWEvent(e)));
+  }, [liveEEWEvents]);
 
-    connectP2P();
-    connectWolfx();
-    return () => { 
-        if (p2pWsRef.current) p2pWsRef.current.close();
-        if (wolfxWsRef.current) wolfxWsRef.current.close();
+  // 5. Live Feed Connections
+  useEffect(() => {
+    const feeds = createDefaultFeeds();
+    const unsubscribers = [
+      feeds.p2p.onStatusChange(setP2pStatus),
+      feeds.p2p.onMessage(handleLiveP2PMessage),
+      feeds.wolfx.onStatusChange(setWolfxStatus),
+      feeds.wolfx.onMessage(handleLiveWolfxEEW),
+    ];
+
+    feeds.p2p.connect();
+    feeds.wolfx.connect();
+    return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        feeds.p2p.disconnect();
+        feeds.wolfx.disconnect();
     };
-  }, [handleNewLiveQuake, handleLiveWolfxEEW]);
+  }, [handleLiveP2PMessage, handleLiveWolfxEEW]);
 
   // --- Actions ---
 
   const handleReturnHome = () => {
-    simulationTimersRef.current.forEach(t => window.clearTimeout(t));
-    simulationTimersRef.current = [];
+    replayEngineRef.current?.destroy();
+    replayEngineRef.current = null;
+    setDisplayClock(null);
+    setReplayRecording(null);
+    setReplayState(null);
     
-    // Stop any alarm
+    // Stop any alarm and pending announcements
     soundService.stopAlarm();
+    announcementService.clear();
 
     setMode('live');
+    setSelectedQuakeId(null);
     prevEEWRef.current = { isActive: false, isWarning: false, isFinal: false, areas: [] };
+    alertedEEWRef.current = null;
+  };
+
+  // Timeline selection stays in live mode; selecting the latest event follows the feed again
+  const handleSelectTimelineQuake = (event: QuakeEvent) => {
+    setSelectedQuakeId(event.id === liveQuake?._id ? null : event.id);
+    setNewQuakeIds(prev => prev.filter(id => !event.reports.some(r => r._id === id)));
   };
 
   const handleSelectHistoryQuake = (data: P2PQuakeData) => {
     setMode('history');
     setDisplayQuake(data);
     setDisplayEEW({ isActive: false, isWarning: false, isFinal: false, areas: [] });
+    setDisplayTsunami(null);
+  };
+
+  // Replay: recorded messages go through the same mappers and stores as live ones,
+  // stamped with their receive time so timeouts behave as they did
+  const handleReplayMessage = (message: ArchivedMessage, now: number, silent: boolean) => {
+    if (message.source === 'wolfx') {
+      const data = message.payload as WolfxEEWData;
+      if (data.isTraining) return;
+      setReplayEEWEvents(prev => applyEEWUpdate(prev, { ...mapWolfxEEW(data), updatedTime: now }, now));
+      return;
+    }
+    const data = message.payload as P2PMessage;
+    switch (data.code) {
+      case 551:
+        if (silent) replayedIdsRef.current.add(data._id);
+        setReplayQuakeEvents(prev => applyQuakeReport(prev, data, now));
+        setReplayQuakeReportId(data._id);
+        break;
+      case 552:
+        if (silent) replayedIdsRef.current.add(data._id);
+        setReplayTsunami(parseP2PTsunami(data));
+        break;
+      case 554:
+        setReplayEEWEvents(prev => applyEEWUpdate(prev, { ...mapP2PEEWDetection(data), updatedTime: now }, now));
+        break;
+      case 556:
+        if (data.test) break;
+        setReplayEEWEvents(prev => applyEEWUpdate(prev, { ...mapP2PEEW(data), updatedTime: now }, now));
+        break;
+    }
   };
 
-  const startSimulation = () => {
+  const resetReplayStores = () => {
+    setReplayQuakeEvents([]);
+    setReplayQuakeReportId(null);
+    setReplayEEWEvents([]);
+    setReplayTsunami(null);
+    soundService.stopAlarm();
+    announcementService.clear();
+    alertedEEWRef.current = null;
+  };
+
+  const handleStartReplay = (recording: ReplayRecording, playbackMode: 'replay' | 'simulation' = 'replay') => {
     handleReturnHome();
-    setMode('simulation');
-    
-    prevEEWRef.current = { isActive: false, isWarning: false, isFinal: false, areas: [] };
-    
-    const now = new Date();
-    const originTime = new Date(now.getTime() - 2000).toISOString(); 
-
-    // Step 1: Initial EEW (Forecast)
-    setDisplayEEW({
-        isActive: true,
-        isWarning: false,
-        isFinal: false,
-        hypocenterName: "和歌山県北部",
-        magnitude: 4.5,
-        depth: 10,
-        maxIntensity: "3",
-        areas: ["和歌山県"],
-        occurredTime: originTime,
-        title: "緊急地震速報（予報）",
-        updatedTime: Date.now()
+    resetReplayStores();
+    setMode(playbackMode);
+
+    const engine = new ReplayEngine(recording, {
+      onReset: resetReplayStores,
+      onMessage: handleReplayMessage,
+      onTick: (now) => setReplayEEWEvents(prev => expireEEWEvents(prev, now)),
+      onStateChange: setReplayState,
     });
-    setDisplayQuake(null);
-
-    // Step 2: Update EEW (Warning)
-    const t1 = window.setTimeout(() => {
-        setDisplayEEW({
-            isActive: true,
-            isWarning: true,
-            isFinal: false,
-            hypocenterName: "和歌山県北部",
-            magnitude: 7.2,
-            depth: 10,
-            maxIntensity: "6強",
-            areas: ["和歌山県", "大阪府", "奈良県", "徳島県", "兵庫県"],
-            occurredTime: originTime,
-            title: "緊急地震速報（警報）",
-            updatedTime: Date.now()
-        });
-    }, 6000);
-
-    // Step 3: Final Report (Simulated) - Stops sound
-    const t2 = window.setTimeout(() => {
-        setDisplayEEW(prev => ({ ...prev, isFinal: true, updatedTime: Date.now() }));
-    }, 12000);
-
-    // Step 4: Final Quake Report
-    const t3 = window.setTimeout(() => {
-        const mockQuake: P2PQuakeData = {
-            _id: "sim_" + Date.now(),
-            code: 551,
-            time: new Date().toISOString(),
-            issue: { time: new Date().toISOString(), type: "Focus" },
-            earthquake: {
-                time: originTime,
-                hypocenter: {
-                    name: "和歌山県北部",
-                    latitude: 34.23,
-                    longitude: 135.17,
-                    depth: 10,
-                    magnitude: 7.2
-                },
-                maxScale: JMASeismicIntensity.Scale60, 
-                domesticTsunami: "Checking"
-            },
-            points: [
-                { pref: "和歌山県", addr: "和歌山市", isArea: false, scale: 60 },
-                { pref: "大阪府", addr: "大阪市", isArea: false, scale: 55 },
-                { pref: "奈良県", addr: "奈良市", isArea: false, scale: 50 },
-                { pref: "徳島県", addr: "徳島市", isArea: false, scale: 45 },
-            ]
-        };
-        setDisplayQuake(mockQuake);
-    }, 15000);
-
-    const t4 = window.setTimeout(() => {
-        setDisplayEEW({ isActive: false, isWarning: false, isFinal: false, areas: [] });
-    }, 25000);
-
-    simulationTimersRef.current.push(t1, t2, t3, t4);
+    replayEngineRef.current = engine;
+    setDisplayClock(() => engine.now());
+    setReplayRecording(recording);
+    engine.play();
+  };
+
+  const handleExportReplay = () => {
+    if (!replayRecording) return;
+    const stamp = new Date(replayRecording.messages[0]?.receivedAt ?? Date.now()).toISOString().slice(0, 19).replace(/[-:T]/g, '');
+    downloadTextFile(`replay-${stamp}.json`, serializeRecording(replayRecording));
+  };
+
+  // Drill scenarios run through the replay engine as synthetic feed messages
+  const startSimulation = (scenario: Scenario) => {
+    handleStartReplay(scenarioToRecording(scenario), 'simulation');
+  };
+
+  const handleChangeUserLocation = (location: UserLocation | null) => {
+      if (location && !location.label) {
+          const label = nearestPlaceName(location.latitude, location.longitude);
+          if (label) location = { ...location, label };
+      }
+      setUserLocation(location);
+      saveUserLocation(location);
+  };
+
+  const handleChangeMapSettings = (settings: MapSettings) => {
+      setMapSettings(settings);
+      saveMapSettings(settings);
+  };
+
+  const handleChangeAlertProfiles = (profiles: AlertProfile[]) => {
+      setAlertProfiles(profiles);
+      saveAlertProfiles(profiles);
+  };
+
+  const handlePickLocation = (latitude: number, longitude: number) => {
+      handleChangeUserLocation({ latitude, longitude });
+      setIsPickingLocation(false);
   };
 
   const toggleSound = () => {
@@ -310,13 +553,15 @@ const App: React.FC = () => {
       
       if (newState) {
           soundService.playNotification(); // Feedback
+      } else {
+          announcementService.clear();
       }
   };
 
   return (
     <div className="flex flex-col h-[100dvh] bg-slate-950 text-slate-200 font-sans relative overflow-hidden">
       
-      <EEWBanner eew={displayEEW} />
+      <EEWBanner eews={displayEEWs} userLocation={userLocation} />
       
       <SettingsModal 
         isOpen={isSettingsOpen} 
@@ -327,17 +572,30 @@ const App: React.FC = () => {
         setAutoZoomEnabled={setIsAutoZoomEnabled}
         onSelectQuake={handleSelectHistoryQuake}
         onStartSimulation={startSimulation}
+        onStartReplay={handleStartReplay}
+        userLocation={userLocation}
+        onChangeUserLocation={handleChangeUserLocation}
+        onPickLocationOnMap={() => setIsPickingLocation(true)}
+        mapSettings={mapSettings}
+        onChangeMapSettings={handleChangeMapSettings}
+        alertProfiles={alertProfiles}
+        onChangeAlertProfiles={handleChangeAlertProfiles}
       />
 
-      <header className={`flex items-center justify-between px-4 md:px-5 py-3 border-b border-slate-900 bg-slate-950 z-20 ${displayEEW.isActive ? 'mt-14' : ''} transition-all duration-300 flex-shrink-0`}>
+      <div className={`${getBannerOffsetClass(displayEEWs.length, !!userLocation)} transition-all duration-300 flex-shrink-0`}>
+        <TsunamiBanner tsunami={displayTsunami} />
+      </div>
+
+      <header className="flex items-center justify-between px-4 md:px-5 py-3 border-b border-slate-900 bg-slate-950 z-20 flex-shrink-0">
         <div className="flex items-center gap-3">
-             <div className={`w-2 h-2 rounded-full ${mode === 'live' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]' : mode === 'simulation' ? 'bg-amber-500' : 'bg-blue-500'}`}></div>
+             <div className={`w-2 h-2 rounded-full ${mode === 'live' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]' : mode === 'simulation' ? 'bg-amber-500' : mode === 'replay' ? 'bg-violet-500' : 'bg-blue-500'}`}></div>
              <h1 className="text-base font-medium text-slate-300 tracking-tight">Quake Monitor AI</h1>
              
              {mode !== 'live' && (
                 <div className="flex items-center gap-1.5 px-2 py-0.5 bg-slate-900 rounded text-[10px] font-semibold tracking-wider text-slate-400 uppercase">
                     {mode === 'simulation' && <TestTube className="w-3 h-3" />}
                     {mode === 'history' && <HistoryIcon className="w-3 h-3" />}
+                    {mode === 'replay' && <Film className="w-3 h-3" />}
                     {mode}
                 </div>
              )}
@@ -345,9 +603,12 @@ const App: React.FC = () => {
 
         <div className="flex items-center gap-4">
             {mode === 'live' && (
-                <div className="flex items-center gap-1" title="Data Stream Status">
-                    <div className={`w-1.5 h-1.5 rounded-full ${p2pStatus === 'connected' ? 'bg-slate-700' : 'bg-red-800'}`} />
-                    <div className={`w-1.5 h-1.5 rounded-full ${wolfxStatus === 'connected' ? 'bg-slate-700' : 'bg-red-800'}`} />
+                <div className="flex items-center gap-1">
+                    {(p2pStatus.state === 'stale' || wolfxStatus.state === 'stale') && (
+                        <span className="mr-1 text-[10px] font-semibold tracking-wider text-amber-500 uppercase">Feed Stale</span>
+                    )}
+                    <FeedStatusIndicator label="P2P" status={p2pStatus} detail={peerCount !== null ? `ピア数: ${peerCount}` : undefined} />
+                    <FeedStatusIndicator label="Wolfx" status={wolfxStatus} />
                 </div>
             )}
             
@@ -381,10 +642,36 @@ const App: React.FC = () => {
         <div className="flex-1 relative bg-slate-950 min-h-0">
             <MapComponent 
               latestQuake={displayQuake} 
-              eew={displayEEW} 
+              eews={displayEEWs}
+              tsunami={displayTsunami}
               isDebugMode={isDebugMode} 
               isAutoZoomEnabled={isAutoZoomEnabled}
+              userLocation={userLocation}
+              isPickingLocation={isPickingLocation}
+              onPickLocation={handlePickLocation}
+              renderer={mapSettings.renderer}
+              showIntensityEstimate={mapSettings.showIntensityEstimate}
             />
+            {isPickingLocation && (
+                <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 px-3 py-1.5 bg-slate-900/90 border border-sky-700 rounded-full text-xs text-sky-200 shadow-lg">
+                    <Crosshair className="w-3.5 h-3.5" />
+                    地図をクリックして現在地を選択
+                    <button onClick={() => setIsPickingLocation(false)} className="text-slate-400 hover:text-white">キャンセル</button>
+                </div>
+            )}
+            {isPlayback && replayRecording && replayState && (
+                <ReplayControls
+                    title={replayRecording.title}
+                    state={replayState}
+                    onPlay={() => replayEngineRef.current?.play()}
+                    onPause={() => replayEngineRef.current?.pause()}
+                    onSeek={(position) => replayEngineRef.current?.seek(position)}
+                    onSkipNext={() => replayEngineRef.current?.skipToNext()}
+                    onChangeSpeed={(speed) => replayEngineRef.current?.setSpeed(speed)}
+                    onExport={handleExportReplay}
+                    onClose={handleReturnHome}
+                />
+            )}
         </div>
 
         <div className="
@@ -392,7 +679,22 @@ const App: React.FC = () => {
             w-full h-[50vh] shadow-[0_-8px_30px_rgba(0,0,0,0.6)] rounded-t-3xl border-t border-slate-800/50 -mt-6
             md:mt-0 md:h-auto md:w-[400px] md:rounded-none md:border-t-0 md:border-l md:border-slate-900 md:shadow-none
         ">
-            <InfoPanel data={displayQuake} />
+            {mode === 'live' && (
+                <UserquakePanel reports={userquakeReports} evaluation={userquakeEvaluation} />
+            )}
+            <div className="flex-1 min-h-0">
+                <InfoPanel data={displayQuake} tsunami={displayTsunami} event={displayQuakeEvent} />
+            </div>
+            {mode === 'live' && quakeEvents.length > 0 && (
+                <div className="h-[30%] md:h-[35%] flex-shrink-0 flex flex-col min-h-0">
+                    <EventTimeline
+                        events={quakeEvents}
+                        selectedId={displayQuake?._id ?? null}
+                        newIds={newQuakeIds}
+                        onSelect={handleSelectTimelineQuake}
+                    />
+                </div>
+            )}
         </div>
       </main>
     </div>
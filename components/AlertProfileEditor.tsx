@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronRight } from 'lucide-react';
+import { AlertArea, AlertChannel, AlertEventKind, AlertProfile, JMASeismicIntensity, UserLocation } from '../types';
+import { INTENSITY_REGIONS } from '../constants/intensityRegions';
+import { createAlertProfile } from '../services/alertProfiles';
+import { isNotificationSupported, requestNotificationPermission } from '../services/desktopNotifications';
+
+interface Props {
+  profiles: AlertProfile[];
+  onChange: (profiles: AlertProfile[]) => void;
+  userLocation: UserLocation | null;
+}
+
+const PREFECTURES = Array.from(new Set(INTENSITY_REGIONS.features.map(f => f.properties.pref)));
+
+const KIND_LABELS: { [kind in AlertEventKind]: string } = {
+  eew: '緊急地震速報',
+  quake: '地震情報',
+  tsunami: '津波情報',
+};
+
+const CHANNEL_LABELS: { [channel in AlertChannel]: string } = {
+  sound: '効果音',
+  speech: '読み上げ',
+  notification: 'デスクトップ通知',
+};
+
+const SCALE_OPTIONS: { value: JMASeismicIntensity; label: string }[] = [
+  { value: 10, label: '1' }, { value: 20, label: '2' }, { value: 30, label: '3' }, { value: 40, label: '4' },
+  { value: 45, label: '5弱' }, { value: 50, label: '5強' }, { value: 55, label: '6弱' }, { value: 60, label: '6強' },
+  { value: 70, label: '7' },
+];
+
+const toggle = <T,>(list: T[], item: T, on: boolean): T[] =>
+  on ? (list.includes(item) ? list : [...list, item]) : list.filter(i => i !== item);
+
+const summarize = (profile: AlertProfile): string => {
+  const parts: string[] = [];
+  const scale = SCALE_OPTIONS.find(o => o.value === profile.minScale);
+  if (scale) parts.push(`震度${scale.label}以上`);
+  if (profile.minMagnitude !== undefined) parts.push(`M${profile.minMagnitude}以上`);
+  if (profile.area.type === 'prefectures') parts.push(`${profile.area.prefectures.length}都道府県`);
+  if (profile.area.type === 'radius') parts.push(`半径${profile.area.radiusKm}km`);
+  if (profile.quietHours) parts.push(`休止 ${profile.quietHours.start}〜${profile.quietHours.end}`);
+  parts.push(profile.channels.length > 0 ? profile.channels.map(c => CHANNEL_LABELS[c]).join('・') : 'バナーのみ');
+  return parts.join(' / ');
+};
+
+// Alert profiles: which events sound, speak or notify (evaluated in services/alertRules.ts)
+export const AlertProfileEditor: React.FC<Props> = ({ profiles, onChange, userLocation }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const update = (id: string, patch: Partial<AlertProfile>) => {
+      onChange(profiles.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const handleAdd = () => {
+      const profile = createAlertProfile();
+      onChange([...profiles, profile]);
+      setExpandedId(profile.id);
+  };
+
+  const handleDelete = (profile: AlertProfile) => {
+      if (!window.confirm(`プロファイル「${profile.name}」を削除しますか？`)) return;
+      onChange(profiles.filter(p => p.id !== profile.id));
+  };
+
+  const handleChannel = async (profile: AlertProfile, channel: AlertChannel, on: boolean) => {
+      if (channel === 'notification' && on) {
+          const granted = await requestNotificationPermission();
+          setPermissionDenied(!granted);
+          if (!granted) return;
+      }
+      update(profile.id, { channels: toggle(profile.channels, channel, on) });
+  };
+
+  const handleAreaType = (profile: AlertProfile, type: AlertArea['type']) => {
+      const area: AlertArea = type === 'prefectures' ? { type, prefectures: [] }
+        : type === 'radius' ? { type, radiusKm: 100 }
+        : { type: 'all' };
+      update(profile.id, { area });
+  };
+
+  return (
+    <div>
+      <div className="space-y-2">
+          {profiles.map(profile => {
+              const isExpanded = expandedId === profile.id;
+              const area = profile.area;
+              return (
+                  <div key={profile.id} className="rounded border border-slate-700 bg-slate-800/50">
+                      <div className="flex items-center gap-2 p-2">
+                          <input
+                            type="checkbox"
+                            checked={profile.enabled}
+                            onChange={(e) => update(profile.id, { enabled: e.target.checked })}
+                            className="accent-orange-500"
+                            title="有効"
+                          />
+                          <button onClick={() => setExpandedId(isExpanded ? null : profile.id)} className="flex-1 min-w-0 text-left">
+                              <div className={`text-sm font-medium truncate ${profile.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{profile.name}</div>
+                              <div className="text-[11px] text-slate-500 truncate">{summarize(profile)}</div>
+                          </button>
+                          <ChevronRight className={`w-4 h-4 text-slate-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                      </div>
+
+                      {isExpanded && (
+                          <div className="px-3 pb-3 space-y-3 text-xs text-slate-300 border-t border-slate-700 pt-3">
+                              <label className="block">
+                                  <span className="text-slate-400">名前</span>
+                                  <input
+                                    value={profile.name}
+                                    onChange={(e) => update(profile.id, { name: e.target.value })}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-orange-500"
+                                  />
+                              </label>
+
+                              <div>
+                                  <span className="text-slate-400">対象の情報</span>
+                                  <div className="flex flex-wrap gap-3 mt-1">
+                                      {(Object.keys(KIND_LABELS) as AlertEventKind[]).map(kind => (
+                                          <label key={kind} className="flex items-center gap-1 cursor-pointer">
+                                              <input
+                                                type="checkbox"
+                                                checked={profile.kinds.includes(kind)}
+                                                onChange={(e) => update(profile.id, { kinds: toggle(profile.kinds, kind, e.target.checked) })}
+                                                className="accent-orange-500"
+                                              />
+                                              {KIND_LABELS[kind]}
+                                          </label>
+                                      ))}
+                                  </div>
+                              </div>
+
+                              <div className="grid grid-cols-2 gap-2">
+                                  <label className="block">
+                                      <span className="text-slate-400">最大震度（予想を含む）</span>
+                                      <select
+                                        value={profile.minScale ?? -1}
+                                        onChange={(e) => update(profile.id, { minScale: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white"
+                                      >
+                                          <option value={-1}>指定なし</option>
+                                          {SCALE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}以上</option>)}
+                                      </select>
+                                  </label>
+                                  <label className="block">
+                                      <span className="text-slate-400">マグニチュード</span>
+                                      <input
+                                        type="number"
+                                        step="0.1"
+                                        min="0"
+                                        value={profile.minMagnitude ?? ''}
+                                        placeholder="指定なし"
+                                        onChange={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            update(profile.id, { minMagnitude: isNaN(value) ? undefined : value });
+                                        }}
+                                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white font-mono"
+                                      />
+                                  </label>
+                              </div>
+                              <p className="text-[11px] text-slate-500">値のない情報（震度速報のマグニチュード、津波情報の震度など）には条件を適用しません。</p>
+
+                              <div>
+                                  <span className="text-slate-400">地域</span>
+                                  <div className="flex bg-slate-900 rounded p-0.5 border border-slate-600 mt-1 w-fit">
+                                      {([['all', 'すべて'], ['prefectures', '都道府県'], ['radius', '現在地から']] as [AlertArea['type'], string][]).map(([type, label]) => (
+                                          <button
+                                            key={type}
+                                            onClick={() => handleAreaType(profile, type)}
+                                            className={`px-3 py-1 rounded font-medium transition-colors ${area.type === type ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                                          >
+                                              {label}
+                                          </button>
+                                      ))}
+                                  </div>
+                                  {area.type === 'prefectures' && (
+                                      <div className="grid grid-cols-3 gap-x-2 gap-y-0.5 mt-2 max-h-32 overflow-y-auto bg-slate-900/60 rounded p-2">
+                                          {PREFECTURES.map(pref => (
+                                              <label key={pref} className="flex items-center gap-1 cursor-pointer">
+                                                  <input
+                                                    type="checkbox"
+                                                    checked={area.prefectures.includes(pref)}
+                                                    onChange={(e) => update(profile.id, { area: { type: 'prefectures', prefectures: toggle(area.prefectures, pref, e.target.checked) } })}
+                                                    className="accent-orange-500"
+                                                  />
+                                                  {pref}
+                                              </label>
+                                          ))}
+                                      </div>
+                                  )}
+                                  {area.type === 'radius' && (
+                                      <div className="mt-2">
+                                          <label className="flex items-center gap-2">
+                                              震央が半径
+                                              <input
+                                                type="number"
+                                                min="1"
+                                                value={area.radiusKm}
+                                                onChange={(e) => update(profile.id, { area: { type: 'radius', radiusKm: Math.max(1, parseFloat(e.target.value) || 1) } })}
+                                                className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white font-mono"
+                                              />
+                                              km以内
+                                          </label>
+                                          {!userLocation && <p className="text-[11px] text-amber-400 mt-1">現在地が設定されていないため、この条件には一致しません。</p>}
+                                      </div>
+                                  )}
+                              </div>
+
+                              <div>
+                                  <label className="flex items-center gap-1 cursor-pointer text-slate-400">
+                                      <input
+                                        type="checkbox"
+                                        checked={!!profile.quietHours}
+                                        onChange={(e) => update(profile.id, { quietHours: e.target.checked ? { start: '22:00', end: '07:00' } : undefined })}
+                                        className="accent-orange-500"
+                                      />
+                                      休止する時間帯
+                                  </label>
+                                  {profile.quietHours && (
+                                      <div className="flex items-center gap-2 mt-1">
+                                          <input
+                                            type="time"
+                                            value={profile.quietHours.start}
+                                            onChange={(e) => update(profile.id, { quietHours: { ...profile.quietHours!, start: e.target.value } })}
+                                            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white"
+                                          />
+                                          〜
+                                          <input
+                                            type="time"
+                                            value={profile.quietHours.end}
+                                            onChange={(e) => update(profile.id, { quietHours: { ...profile.quietHours!, end: e.target.value } })}
+                                            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white"
+                                          />
+                                      </div>
+                                  )}
+                              </div>
+
+                              <div>
+                                  <span className="text-slate-400">通知方法</span>
+                                  <div className="flex flex-wrap gap-3 mt-1">
+                                      {(Object.keys(CHANNEL_LABELS) as AlertChannel[])
+                                        .filter(channel => channel !== 'notification' || isNotificationSupported())
+                                        .map(channel => (
+                                          <label key={channel} className="flex items-center gap-1 cursor-pointer">
+                                              <input
+                                                type="checkbox"
+                                                checked={profile.channels.includes(channel)}
+                                                onChange={(e) => handleChannel(profile, channel, e.target.checked)}
+                                                className="accent-orange-500"
+                                              />
+                                              {CHANNEL_LABELS[channel]}
+                                          </label>
+                                      ))}
+                                  </div>
+                                  {profile.channels.length === 0 && <p className="text-[11px] text-slate-500 mt-1">バナー表示のみ（音・通知なし）</p>}
+                                  {permissionDenied && <p className="text-[11px] text-red-400 mt-1">ブラウザで通知が許可されていません</p>}
+                              </div>
+
+                              <button
+                                onClick={() => handleDelete(profile)}
+                                className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-red-900/60 rounded text-slate-300"
+                              >
+                                  <Trash2 className="w-3.5 h-3.5" /> 削除
+                              </button>
+                          </div>
+                      )}
+                  </div>
+              );
+          })}
+      </div>
+
+      {profiles.length === 0 && <p className="text-xs text-slate-500">プロファイルがないため、音と通知は鳴りません。</p>}
+
+      <button
+        onClick={handleAdd}
+        className="w-full mt-3 flex items-center justify-center gap-1 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-xs font-bold transition-colors"
+      >
+          <Plus className="w-3 h-3" /> プロファイルを追加
+      </button>
+    </div>
+  );
+};
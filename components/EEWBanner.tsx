@@ -1,18 +1,59 @@
-import React from 'react';
-import { EEWState } from '../types';
-import { AlertTriangle, BellRing } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { EEWForecastArea, EEWState, UserLocation } from '../types';
+import { AlertTriangle, BellRing, MapPin } from 'lucide-react';
+import { computeLocalImpact } from '../services/seismology';
+import { displayNow } from '../services/displayClock';
 
 interface Props {
-  eew: EEWState;
+  eews: EEWState[]; // Active events, most important first
+  userLocation?: UserLocation | null;
 }
 
-export const EEWBanner: React.FC<Props> = ({ eew }) => {
-  if (!eew.isActive) return null;
+const formatArrival = (area: EEWForecastArea) => {
+  if (area.hasArrived) return '到達';
+  if (!area.arrivalTime) return '';
+  const d = new Date(area.arrivalTime);
+  // Wolfx may send a bare "HH:mm:ss"
+  if (isNaN(d.getTime())) return area.arrivalTime.slice(0, 8);
+  return `${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}:${d.getSeconds().toString().padStart(2, '0')}`;
+};
+
+const formatIntensityRange = (area: EEWForecastArea) => {
+  if (area.intensityTo === '以上') return `${area.intensityFrom ?? '?'}以上`;
+  if (area.intensityFrom && area.intensityTo && area.intensityFrom !== area.intensityTo) {
+    return `${area.intensityFrom}〜${area.intensityTo}`;
+  }
+  return area.intensityTo ?? area.intensityFrom ?? '?';
+};
+
+export const EEWBanner: React.FC<Props> = ({ eews, userLocation }) => {
+  const eew = eews.find(e => e.isActive);
+  const [now, setNow] = useState(displayNow());
+
+  // Tick for the S-wave countdown
+  const isCountingDown = !!eew && !!userLocation;
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = window.setInterval(() => setNow(displayNow()), 250);
+    return () => window.clearInterval(timer);
+  }, [isCountingDown]);
+
+  if (!eew) return null;
+
+  const others = eews.filter(e => e !== eew && e.isActive);
 
   const isWarning = eew.isWarning;
+  // P2P 554 carries no parameters, only the fact that an EEW was issued
+  const isDetectionOnly = eew.source === 'p2p-detection';
   const mag = eew.magnitude ? `M${eew.magnitude.toFixed(1)}` : 'M不明';
   const depth = eew.depth ? `${eew.depth}km` : '深さ不明';
   const intensity = eew.maxIntensity ? `最大震度${eew.maxIntensity}` : '';
+  const serial = eew.isFinal ? '最終報' : eew.serial ? `第${eew.serial}報` : '';
+
+  const localImpact = userLocation && !isDetectionOnly
+    ? computeLocalImpact(eew, userLocation.latitude, userLocation.longitude)
+    : null;
+  const remainingSec = localImpact?.sArrivalTime ? Math.ceil((localImpact.sArrivalTime - now) / 1000) : null;
 
   return (
     <div className={`fixed top-0 left-0 w-full z-50 ${isWarning ? 'bg-red-600' : 'bg-yellow-500'} text-white shadow-xl`}>
@@ -21,11 +62,14 @@ export const EEWBanner: React.FC<Props> = ({ eew }) => {
             {isWarning ? <BellRing className="w-6 h-6 md:w-8 md:h-8 animate-bounce" /> : <AlertTriangle className="w-6 h-6 md:w-8 md:h-8" />}
             <div>
                 <h2 className="text-base md:text-xl font-bold leading-none mb-1">
-                    {isWarning ? '緊急地震速報（警報）' : '緊急地震速報（予報）'}
+                    {isDetectionOnly ? eew.title : isWarning ? '緊急地震速報（警報）' : '緊急地震速報（予報）'}
+                    {serial && <span className="ml-2 text-xs md:text-sm font-medium opacity-80">{serial}</span>}
                 </h2>
                 <div className="text-xs md:text-sm font-medium opacity-90">
-                   {isWarning ? '強い揺れに警戒' : '今後の情報に注意'}
+                   {isDetectionOnly ? '詳細な情報を待っています' : isWarning ? '強い揺れに警戒' : '今後の情報に注意'}
                    {intensity && <span className="ml-2 font-bold bg-white/20 px-1.5 rounded">{intensity}</span>}
+                   {eew.isAssumedHypocenter && <span className="ml-2 text-[10px] font-bold bg-black/20 px-1.5 rounded">仮定震源</span>}
+                   {eew.source === 'p2p' && <span className="ml-2 text-[10px] opacity-75">via P2P</span>}
                 </div>
             </div>
         </div>
@@ -41,7 +85,44 @@ export const EEWBanner: React.FC<Props> = ({ eew }) => {
         </div>
       </div>
       
-      {eew.areas.length > 0 && (
+      {/* User location: estimated intensity and S-wave countdown */}
+      {localImpact && (
+          <div className="bg-black/30 px-4 md:px-6 py-1.5 text-xs md:text-sm flex items-center gap-4 whitespace-nowrap">
+              <span className="flex items-center gap-1 font-bold opacity-90">
+                  <MapPin className="w-3.5 h-3.5" />
+                  {userLocation?.label || '現在地'}
+              </span>
+              <span>
+                  予想震度 <span className="font-bold text-base md:text-lg">{localImpact.intensityLabel ?? '不明'}</span>
+              </span>
+              {remainingSec !== null && (
+                  remainingSec > 0 ? (
+                      <span>
+                          主要動到達まで <span className="font-mono font-bold text-base md:text-lg">{remainingSec}</span> 秒
+                      </span>
+                  ) : (
+                      <span className="font-bold animate-pulse">主要動到達</span>
+                  )
+              )}
+              <span className="font-mono opacity-75">震央距離 {Math.round(localImpact.epicentralDistanceKm)}km</span>
+          </div>
+      )}
+
+      {eew.forecastAreas && eew.forecastAreas.length > 0 ? (
+          <div className={`${isWarning ? 'bg-red-700' : 'bg-yellow-600'} px-4 md:px-6 py-1.5 text-xs overflow-hidden whitespace-nowrap flex items-center`}>
+              <span className="font-bold mr-2 opacity-75">TARGET:</span>
+              <div className="inline-flex gap-3 font-medium">
+                  {eew.forecastAreas.map(area => (
+                      <span key={area.name} className={area.hasArrived ? 'opacity-60' : ''}>
+                          {area.isWarning && <span className="mr-0.5">●</span>}
+                          {area.name}
+                          <span className="ml-1 font-bold">{formatIntensityRange(area)}</span>
+                          {formatArrival(area) && <span className="ml-1 font-mono opacity-80">{formatArrival(area)}</span>}
+                      </span>
+                  ))}
+              </div>
+          </div>
+      ) : eew.areas.length > 0 && (
           <div className={`${isWarning ? 'bg-red-700' : 'bg-yellow-600'} px-4 md:px-6 py-1.5 text-xs overflow-hidden whitespace-nowrap flex items-center`}>
               <span className="font-bold mr-2 opacity-75">TARGET:</span>
               <div className="inline-block font-medium">
@@ -49,6 +130,20 @@ export const EEWBanner: React.FC<Props> = ({ eew }) => {
               </div>
           </div>
       )}
+
+      {/* Concurrent events (aftershock sequences etc.) */}
+      {others.map(other => (
+          <div
+            key={other.eventId}
+            className={`${other.isWarning ? 'bg-red-800' : 'bg-yellow-700'} px-4 md:px-6 py-1 text-xs flex items-center gap-3 whitespace-nowrap overflow-hidden border-t border-black/10`}
+          >
+              <span className="font-bold">{other.isWarning ? '警報' : '予報'}</span>
+              <span className="font-medium">{other.hypocenterName || "調査中"}</span>
+              <span className="font-mono opacity-90">{other.magnitude ? `M${other.magnitude.toFixed(1)}` : 'M不明'}</span>
+              {other.maxIntensity && <span className="font-bold bg-white/20 px-1.5 rounded">最大震度{other.maxIntensity}</span>}
+              <span className="opacity-75">{other.isFinal ? '最終報' : other.serial ? `第${other.serial}報` : ''}</span>
+          </div>
+      ))}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { QuakeEvent } from '../types';
+import { IntensityBadge } from './IntensityBadge';
+import { parseP2PTime } from '../services/feeds';
+import { ListOrdered } from 'lucide-react';
+
+interface Props {
+  events: QuakeEvent[]; // Newest first
+  selectedId: string | null; // Currently displayed event
+  newIds: string[]; // Report ids of arrivals not yet looked at
+  onSelect: (event: QuakeEvent) => void;
+}
+
+const formatTime = (timeStr: string) => {
+    const d = new Date(parseP2PTime(timeStr));
+    return `${d.getMonth() + 1}/${d.getDate()} ${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}`;
+};
+
+/**
+ * Scrollable list of recent earthquakes (one row per event, however many
+ * reports it has). Selecting an item shows it on the map and in the info panel.
+ */
+export const EventTimeline: React.FC<Props> = ({ events, selectedId, newIds, onSelect }) => {
+  if (events.length === 0) return null;
+  const newEventCount = events.filter(e => e.reports.some(r => newIds.includes(r._id))).length;
+
+  return (
+    <div className="flex flex-col h-full min-h-0 border-t border-slate-900">
+      <div className="px-5 md:px-6 py-2 flex items-center justify-between flex-shrink-0">
+        <span className="flex items-center gap-1.5 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+          <ListOrdered className="w-3 h-3" />
+          Recent Events
+        </span>
+        {newEventCount > 0 && (
+          <span className="text-[10px] px-1.5 rounded bg-emerald-900/40 text-emerald-300">新着 {newEventCount}</span>
+        )}
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar pb-2">
+        {events.map(event => {
+          const quake = event.merged;
+          const hypo = quake.earthquake.hypocenter;
+          const isSelected = event.id === selectedId;
+          const isNew = event.reports.some(r => newIds.includes(r._id));
+          return (
+            <button
+              key={event.id}
+              onClick={() => onSelect(event)}
+              className={`w-full text-left px-5 md:px-6 py-2 flex items-center gap-3 transition-colors border-l-2 ${
+                isSelected ? 'bg-slate-800/70 border-blue-500' : isNew ? 'bg-emerald-950/40 border-emerald-500 hover:bg-slate-800/50' : 'border-transparent hover:bg-slate-900'
+              }`}
+            >
+              <IntensityBadge scale={quake.earthquake.maxScale} size="sm" />
+              <div className="min-w-0 flex-1">
+                <div className="text-xs text-slate-200 truncate">{hypo?.name || "震源調査中"}</div>
+                <div className="text-[10px] text-slate-500 font-mono">{formatTime(quake.earthquake.time)}</div>
+              </div>
+              {hypo && hypo.magnitude > 0 && (
+                <span className="text-[10px] text-slate-400 font-mono">M{hypo.magnitude.toFixed(1)}</span>
+              )}
+              {isNew && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
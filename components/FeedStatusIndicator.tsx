@@ -0,0 +1,46 @@
+import React from 'react';
+import { FeedStatus } from '../types';
+
+interface Props {
+  label: string;
+  status: FeedStatus;
+  detail?: string; // Extra tooltip line (e.g. peer count)
+}
+
+const formatClock = (epochMs?: number) => {
+    if (!epochMs) return '-';
+    const d = new Date(epochMs);
+    return `${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}:${d.getSeconds().toString().padStart(2, '0')}`;
+};
+
+const STATE_LABEL: { [key in FeedStatus['state']]: string } = {
+  connecting: '接続中',
+  connected: '接続済み',
+  stale: '無通信 (データ途絶の可能性)',
+  backoff: '再接続待ち',
+  disconnected: '切断',
+};
+
+export const FeedStatusIndicator: React.FC<Props> = ({ label, status, detail }) => {
+  let dotClass = 'bg-red-800';
+  switch (status.state) {
+    case 'connected': dotClass = 'bg-slate-700'; break;
+    case 'connecting': dotClass = 'bg-amber-700 animate-pulse'; break;
+    case 'stale': dotClass = 'bg-amber-500 shadow-[0_0_6px_rgba(245,158,11,0.6)]'; break;
+    case 'backoff': dotClass = 'bg-red-800 animate-pulse'; break;
+  }
+
+  const lines = [
+    `${label}: ${STATE_LABEL[status.state]}`,
+    `受信数: ${status.messageCount}`,
+    `最終受信: ${formatClock(status.lastMessageAt)}`,
+  ];
+  if (detail) lines.push(detail);
+  if (status.state === 'backoff' && status.nextRetryAt) {
+    lines.push(`次回再接続: ${formatClock(status.nextRetryAt)} (試行${status.reconnectAttempts}回目)`);
+  }
+
+  return (
+    <div className={`w-1.5 h-1.5 rounded-full ${dotClass}`} title={lines.join('\n')} />
+  );
+};
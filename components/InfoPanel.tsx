@@ -1,18 +1,35 @@
 import React, { useMemo } from 'react';
-import { P2PQuakeData, JMASeismicIntensity } from '../types';
+import { P2PQuakeData, JMASeismicIntensity, TsunamiForecast, QuakeEvent, QuakeReportType } from '../types';
 import { IntensityBadge } from './IntensityBadge';
-import { Activity, Globe, Info } from 'lucide-react';
+import { TSUNAMI_GRADE_COLORS, TSUNAMI_GRADE_LABELS, getDomesticTsunamiLabel } from '../services/tsunami';
+import { getReportType } from '../services/quakeEvents';
+import { parseP2PTime } from '../services/feeds';
+import { Activity, ChevronRight, Globe, Info, Waves } from 'lucide-react';
 
 interface Props {
   data: P2PQuakeData | null;
+  tsunami?: TsunamiForecast | null;
+  event?: QuakeEvent | null; // Report history of the displayed earthquake (live only)
 }
 
+// 速報 → 震源 → 詳細: which report types complete each stage
+const REPORT_STAGES: { label: string; types: QuakeReportType[] }[] = [
+  { label: "速報", types: ['ScalePrompt', 'ScaleAndDestination'] },
+  { label: "震源", types: ['Destination', 'ScaleAndDestination'] },
+  { label: "詳細", types: ['DetailScale'] },
+];
+
+const formatIssueTime = (timeStr: string) => {
+    const d = new Date(parseP2PTime(timeStr));
+    return `${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}:${d.getSeconds().toString().padStart(2, '0')}`;
+};
+
 const formatTime = (timeStr: string) => {
     const d = new Date(timeStr);
     return `${d.getMonth() + 1}/${d.getDate()} ${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}`;
 };
 
-export const InfoPanel: React.FC<Props> = ({ data }) => {
+export const InfoPanel: React.FC<Props> = ({ data, tsunami, event }) => {
   const intensityGroups = useMemo(() => {
     if (!data || !data.points) return [];
     
@@ -63,6 +80,7 @@ export const InfoPanel: React.FC<Props> = ({ data }) => {
 
   const { earthquake } = data;
   const hypocenter = earthquake.hypocenter;
+  const tsunamiLabel = getDomesticTsunamiLabel(earthquake.domesticTsunami);
 
   const displayDepth = hypocenter?.depth === -1 || hypocenter?.depth === undefined
     ? "不明" 
@@ -85,9 +103,9 @@ export const InfoPanel: React.FC<Props> = ({ data }) => {
                 <span className="text-xs font-mono text-slate-500 tracking-wider">
                     {formatTime(earthquake.time)}
                 </span>
-                {earthquake.domesticTsunami !== 'None' && (
+                {tsunamiLabel && (
                     <span className="text-[10px] px-2 py-0.5 rounded-full bg-blue-900/30 text-blue-300 border border-blue-900/50">
-                        {earthquake.domesticTsunami}
+                        {tsunamiLabel}
                     </span>
                 )}
             </div>
@@ -118,6 +136,62 @@ export const InfoPanel: React.FC<Props> = ({ data }) => {
         </div>
       </div>
 
+      {/* Report Progression (one earthquake, several 551 reports) */}
+      {event && (
+        <div className="px-5 md:px-6 py-3 border-b border-slate-900 flex-shrink-0">
+            {event.reportTypes.includes('Foreign') ? (
+                <div className="text-xs text-slate-400">遠地地震に関する情報</div>
+            ) : (
+                <div className="flex items-center gap-1.5">
+                    {REPORT_STAGES.map((stage, i) => {
+                        const report = event.reports.find(r => stage.types.includes(getReportType(r)));
+                        return (
+                            <React.Fragment key={stage.label}>
+                                {i > 0 && <ChevronRight className={`w-3 h-3 ${report ? 'text-slate-500' : 'text-slate-800'}`} />}
+                                <div className={`px-2 py-0.5 rounded text-[11px] border ${report ? 'bg-slate-800 text-slate-200 border-slate-700' : 'text-slate-700 border-slate-900'}`}>
+                                    {stage.label}
+                                    {report && <span className="ml-1.5 font-mono text-[10px] text-slate-500">{formatIssueTime(report.issue.time)}</span>}
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+                    {event.reports.length > 1 && (
+                        <span className="ml-auto text-[10px] text-slate-600">{event.reports.length}報</span>
+                    )}
+                </div>
+            )}
+        </div>
+      )}
+
+      {/* Tsunami Section (P2P code 552) */}
+      {tsunami && tsunami.maxGrade && (
+        <div className="p-5 md:p-6 border-b border-slate-900 flex-shrink-0">
+            <div className="text-[10px] font-mono text-slate-600 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Waves className="w-3 h-3" />
+                Tsunami
+            </div>
+            <div className="space-y-1.5">
+                {tsunami.areas.map(area => (
+                    <div key={area.name} className="flex items-center gap-2 text-xs">
+                        <span
+                            className={`px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0 ${area.grade === 'Advisory' ? 'text-black' : 'text-white'}`}
+                            style={{ backgroundColor: TSUNAMI_GRADE_COLORS[area.grade] }}
+                        >
+                            {TSUNAMI_GRADE_LABELS[area.grade]}
+                        </span>
+                        <span className="text-slate-300 flex-1 min-w-0 truncate">{area.name}</span>
+                        <span className="text-slate-500 font-mono shrink-0">
+                            {area.immediate ? "直ちに来襲" : area.arrivalTime ? `${formatTime(area.arrivalTime)}頃` : ""}
+                        </span>
+                        {area.maxHeightDescription && (
+                            <span className="text-slate-300 font-mono shrink-0 w-10 text-right">{area.maxHeightDescription}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+      )}
+
       {/* Bottom Section: Area List OR Details */}
       {intensityGroups.length > 0 ? (
         <div className="p-5 md:p-6 bg-slate-950/50">
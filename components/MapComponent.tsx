@@ -1,61 +1,136 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { P2PQuakeData, JMASeismicIntensity, EEWState } from '../types';
-import { STATION_COORDINATES } from '../constants/stationCoordinates';
+import type { FeatureCollection, Geometry } from 'geojson';
+import { P2PQuakeData, JMASeismicIntensity, EEWState, TsunamiForecast, UserLocation, MapRenderer, JapanBaseMap, BaseMapLOD } from '../types';
+import { TSUNAMI_FORECAST_AREAS } from '../constants/tsunamiForecastAreas';
+import { INTENSITY_REGIONS, INTENSITY_REGIONS_OFFICIAL } from '../constants/intensityRegions';
+import { TSUNAMI_GRADE_COLORS, compareTsunamiGrade } from '../services/tsunami';
+import { getWaveFrontRadius } from '../services/travelTime';
+import { stationResolver } from '../services/stationResolver';
+import { SCALE_LABELS } from '../services/intensityScale';
+import { stationIndex, BBox } from '../services/spatialIndex';
+import { CanvasMapRenderer, MapLine, MapMarker, getIntensityMarkerStyle } from '../services/canvasMapRenderer';
+import { loadJapanBaseMap, loadWorldBaseMap, getLODForZoom } from '../services/baseMap';
+import { estimateIntensityGrid } from '../services/intensityEstimate';
+import { intensityToLabel } from '../services/seismology';
+import { displayNow } from '../services/displayClock';
+import { UnresolvedPointsPanel, UnresolvedPoint } from './UnresolvedPointsPanel';
 
 interface Props {
   latestQuake: P2PQuakeData | null;
-  eew: EEWState;
+  eews: EEWState[]; // Active EEWs, most important first
+  tsunami?: TsunamiForecast | null;
   isDebugMode?: boolean;
   isAutoZoomEnabled?: boolean;
+  userLocation?: UserLocation | null;
+  isPickingLocation?: boolean; // Next click on the map sets the user location
+  onPickLocation?: (latitude: number, longitude: number) => void;
+  renderer?: MapRenderer;
+  showIntensityEstimate?: boolean; // 推計震度 grid for earthquake reports
 }
 
-const JAPAN_GEOJSON_URL = 'https://raw.githubusercontent.com/dataofjapan/land/master/japan.geojson';
-const WORLD_GEOJSON_URL = 'https://raw.githubusercontent.com/holtzy/D3-graph-gallery/master/DATA/world.geojson';
+// Intensity regions by name, for ScalePrompt (isArea) points
+const INTENSITY_REGION_CENTERS = new Map<string, [number, number]>(
+  INTENSITY_REGIONS.features.map(f => [f.properties.name, f.properties.center])
+);
 
-// Approximate wave velocities in km/s
-const V_P_WAVE = 6.5; 
-const V_S_WAVE = 3.5;
+// Assumed focal depth when the report has none
+const DEFAULT_DEPTH_KM = 10;
+// An epicenter alone is framed together with the closest station within this distance
+const AUTO_ZOOM_CONTEXT_KM = 300;
 // Earth radius approximation for degree conversion (1 deg approx 111km)
 const KM_PER_DEG = 111.32;
 
-export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode = false, isAutoZoomEnabled = true }) => {
+export const MapComponent: React.FC<Props> = ({ latestQuake, eews, tsunami = null, isDebugMode = false, isAutoZoomEnabled = true, userLocation = null, isPickingLocation = false, onPickLocation, renderer = 'svg', showIntensityEstimate = false }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Data State
-  const [japanGeoData, setJapanGeoData] = useState<any>(null);
-  const [worldGeoData, setWorldGeoData] = useState<any>(null);
+  const [japanBaseMap, setJapanBaseMap] = useState<JapanBaseMap | null>(null);
+  const [worldGeoData, setWorldGeoData] = useState<FeatureCollection<Geometry | null> | null>(null);
+  const japanGeoData = japanBaseMap?.prefectures ?? null;
+  const [mapLoadError, setMapLoadError] = useState<string | null>(null);
+  const [mapLoadAttempt, setMapLoadAttempt] = useState(0);
+  // Level of detail for the current zoom, updated when a zoom gesture ends
+  const [lod, setLod] = useState<BaseMapLOD>('low');
+  const lodRef = useRef<BaseMapLOD>('low');
+  // Report points that only resolved to a prefecture (or not at all), for the debug view
+  const [unresolvedPoints, setUnresolvedPoints] = useState<UnresolvedPoint[]>([]);
+  // Visible area, updated when a zoom gesture ends; the debug layer only draws stations inside it
+  const [viewBBox, setViewBBox] = useState<BBox | null>(null);
   
   // Refs to persist D3 objects across renders
   const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
   const projectionRef = useRef<d3.GeoProjection | null>(null);
   const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Set in canvas mode; the SVG then only carries zoom/click handling
+  const canvasRendererRef = useRef<CanvasMapRenderer | null>(null);
   const isAutoZoomRef = useRef(isAutoZoomEnabled);
-  
+  const isPickingRef = useRef(isPickingLocation);
+  const onPickLocationRef = useRef(onPickLocation);
+
   // Animation Ref
   const animationFrameRef = useRef<number | null>(null);
 
+  const activeEEWs = eews.filter(e => e.isActive);
+  const isEEWActive = activeEEWs.length > 0;
+  // Changes whenever any event is added, removed or updated
+  const eewKey = activeEEWs.map(e => `${e.eventId}:${e.occurredTime}:${e.updatedTime}`).join('|');
+
+  const intensityGrid = useMemo(
+    () => showIntensityEstimate && latestQuake && !isEEWActive ? estimateIntensityGrid(latestQuake) : null,
+    [latestQuake, showIntensityEstimate, isEEWActive]
+  );
+
   // Keep ref updated
   useEffect(() => {
     isAutoZoomRef.current = isAutoZoomEnabled;
   }, [isAutoZoomEnabled]);
 
-  // Load Map Data
   useEffect(() => {
-    // Load Japan Map
-    fetch(JAPAN_GEOJSON_URL)
-      .then(res => res.json())
-      .then(data => setJapanGeoData(data))
-      .catch(err => console.error("Failed to load Japan map data", err));
-
-    // Load World Map
-    fetch(WORLD_GEOJSON_URL)
-        .then(res => res.json())
-        .then(data => setWorldGeoData(data))
-        .catch(err => console.error("Failed to load World map data", err));
-  }, []);
+    isPickingRef.current = isPickingLocation;
+    onPickLocationRef.current = onPickLocation;
+  }, [isPickingLocation, onPickLocation]);
+
+  useEffect(() => () => canvasRendererRef.current?.destroy(), []);
+
+  // Load Map Data (bundled TopoJSON)
+  useEffect(() => {
+    let cancelled = false;
+    setMapLoadError(null);
+    const failures: string[] = [];
+    const fail = (label: string) => (err: unknown) => {
+      console.error(`Failed to load ${label} map data`, err);
+      if (cancelled) return;
+      failures.push(label);
+      setMapLoadError(`${failures.join('・')}の地図データを読み込めませんでした`);
+    };
+
+    // Retry at the current LOD keeps the view sharp; finer levels fall back to the low one
+    const initialLod = lodRef.current;
+    loadJapanBaseMap(initialLod)
+      .catch(err => initialLod === 'low' ? Promise.reject(err) : loadJapanBaseMap('low'))
+      .then(map => { if (!cancelled) setJapanBaseMap(map); })
+      .catch(fail('日本'));
+
+    loadWorldBaseMap()
+      .then(data => { if (!cancelled) setWorldGeoData(data); })
+      .catch(fail('世界'));
+
+    return () => { cancelled = true; };
+  }, [mapLoadAttempt]);
+
+  // Level of detail: swap in finer Japan outlines when zoomed in
+  useEffect(() => {
+    if (!japanBaseMap || japanBaseMap.lod === lod) return;
+    let cancelled = false;
+    loadJapanBaseMap(lod)
+      .then(map => { if (!cancelled && lodRef.current === map.lod) setJapanBaseMap(map); })
+      .catch(err => console.warn(`Base map LOD "${lod}" not available`, err));
+    return () => { cancelled = true; };
+  }, [lod, japanBaseMap]);
 
   // Initialize Map Structure & Zoom (Re-run when data changes)
   useEffect(() => {
@@ -71,7 +146,8 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     // but in this effect we usually want to redraw paths if data arrived.
     svg.selectAll("*").remove();
 
-    const g = svg.append("g");
+    // Keep the current view when redrawing (e.g. after switching renderers)
+    const g = svg.append("g").attr("transform", d3.zoomTransform(svgRef.current).toString());
     gRef.current = g;
 
     // Unified Projection: Mercator Centered on Japan
@@ -85,39 +161,108 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
 
     const pathGenerator = d3.geoPath().projection(projection);
 
-    // 1. Draw World Map (Filtered)
-    // Exclude Japan from world map to prevent overlap with detailed Japan map
-    if (worldGeoData) {
-        // "JPN" is the standard ISO code for Japan.
-        // Some datasets use "Japan" in properties.name.
-        const filteredWorldFeatures = worldGeoData.features.filter((f: any) => {
-             return f.id !== 'JPN' && f.properties?.name !== 'Japan';
+    // "JPN" is the standard ISO code for Japan.
+    // Some datasets use "Japan" in properties.name.
+    const filteredWorldFeatures = worldGeoData ? worldGeoData.features.filter(f => {
+         return f.id !== 'JPN' && f.properties?.name !== 'Japan';
+    }) : [];
+
+    canvasRendererRef.current?.destroy();
+    canvasRendererRef.current = null;
+    const canvasRenderer = renderer === 'canvas' && canvasRef.current
+        ? new CanvasMapRenderer(canvasRef.current, projection)
+        : null;
+    if (canvasRenderer) {
+        canvasRenderer.setBaseMap(filteredWorldFeatures, japanGeoData?.features ?? [], INTENSITY_REGIONS.features, {
+            coastline: japanBaseMap?.coastline ?? null,
+            municipalities: japanBaseMap?.municipalities ?? null,
         });
+        canvasRenderer.setTransform(d3.zoomTransform(svgRef.current));
+        canvasRendererRef.current = canvasRenderer;
+    }
 
+    // 1. Draw World Map (Filtered)
+    // Exclude Japan from world map to prevent overlap with detailed Japan map
+    if (worldGeoData && !canvasRenderer) {
         g.selectAll("path.world")
             .data(filteredWorldFeatures)
             .enter()
             .append("path")
             .attr("class", "world-path")
-            .attr("d", pathGenerator as any)
+            .attr("d", pathGenerator)
             .attr("stroke", "#334155") // Slightly lighter/thinner for world context
             .attr("stroke-width", 0.5) 
             .attr("fill", "#1e293b"); // Slate 800 for world (darker/receded)
     }
 
     // 2. Draw Detailed Japan Map
-    if (japanGeoData) {
+    if (japanGeoData && !canvasRenderer) {
         g.selectAll("path.japan")
             .data(japanGeoData.features)
             .enter()
             .append("path")
             .attr("class", "pref-path")
-            .attr("d", pathGenerator as any)
+            .attr("d", pathGenerator)
             .attr("stroke", "#475569") 
             .attr("stroke-width", 0.8) 
             .attr("fill", "#0f172a"); // Slate 900 for Japan (focus)
     }
 
+    // 3. Estimated intensity grid, clipped to the whole Japan outline
+    if (japanGeoData && !canvasRenderer) {
+        const japanClip = svg.append("defs").append("clipPath").attr("id", "japan-clip");
+        japanGeoData.features.forEach((feature: any) => japanClip.append("path").attr("d", pathGenerator(feature)));
+        g.append("g").attr("class", "intensity-estimate").attr("clip-path", "url(#japan-clip)");
+    }
+
+    // 4. Intensity Regions (細分区域), each clipped to its prefecture outline
+    if (japanGeoData && !canvasRenderer) {
+        const defs = svg.append("defs");
+        const clipIds = new Map<string, string>();
+        japanGeoData.features.forEach((feature: any, i: number) => {
+            const prefName: string | undefined = feature.properties.nam_ja || feature.properties.name_ja;
+            if (!prefName) return;
+            const id = `pref-clip-${i}`;
+            defs.append("clipPath").attr("id", id).append("path").attr("d", pathGenerator(feature));
+            clipIds.set(prefName, id);
+        });
+
+        g.append("g").attr("class", "intensity-regions")
+            .selectAll("path")
+            .data(INTENSITY_REGIONS.features.filter(f => clipIds.has(f.properties.pref)))
+            .enter()
+            .append("path")
+            .attr("class", "region-path")
+            .attr("d", (d: any) => pathGenerator(d))
+            .attr("clip-path", (d: any) => `url(#${clipIds.get(d.properties.pref)})`)
+            .attr("fill", "none")
+            .attr("stroke", "none")
+            .attr("stroke-width", 0.5);
+    }
+
+    // 5. Municipality boundaries (finest LOD) and coastlines, above region fills
+    if (japanBaseMap && !canvasRenderer) {
+        if (japanBaseMap.municipalities) {
+            g.append("path")
+                .attr("class", "municipality-path")
+                .attr("d", pathGenerator(japanBaseMap.municipalities))
+                .attr("fill", "none")
+                .attr("stroke", "#334155")
+                .attr("stroke-width", 0.3 / d3.zoomTransform(svgRef.current).k);
+        }
+        if (japanBaseMap.coastline) {
+            g.append("path")
+                .attr("class", "coast-path")
+                .attr("d", pathGenerator(japanBaseMap.coastline))
+                .attr("fill", "none")
+                .attr("stroke", "#64748b")
+                .attr("stroke-width", 0.8 / d3.zoomTransform(svgRef.current).k);
+        }
+    }
+
+    // Tsunami Coastline Container (below waves and markers)
+    g.append("g").attr("class", "tsunami-coast");
+
     // EEW Circles Container
     g.append("g").attr("class", "eew-waves");
 
@@ -126,6 +271,10 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
       .scaleExtent([0.1, 150]) // Allow zooming out further for world view
       .on('zoom', (event) => {
         g.attr('transform', event.transform);
+        if (canvasRenderer) {
+            canvasRenderer.setTransform(event.transform);
+            return;
+        }
         const k = event.transform.k;
         
         // Counter-scale markers
@@ -134,29 +283,84 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
           
         g.selectAll(".wave-circle")
            .attr("stroke-width", 2 / k);
+
+        g.selectAll(".tsunami-line")
+           .attr("stroke-width", 4 / k);
         
         // Semantic stroke width
         g.selectAll(".pref-path").attr("stroke-width", 0.8 / k);
         g.selectAll(".world-path").attr("stroke-width", 0.5 / k);
+        g.selectAll(".region-path").attr("stroke-width", 0.5 / k);
+        g.selectAll(".municipality-path").attr("stroke-width", 0.3 / k);
+        g.selectAll(".coast-path").attr("stroke-width", 0.8 / k);
+      })
+      .on('end', (event) => {
+        const nextLod = getLODForZoom(event.transform.k);
+        if (nextLod !== lodRef.current) {
+            lodRef.current = nextLod;
+            setLod(nextLod);
+        }
+        setViewBBox(getViewBBox(projection, event.transform, width, height));
       });
     
     zoomBehaviorRef.current = zoom;
     svg.call(zoom);
+    setViewBBox(getViewBBox(projection, d3.zoomTransform(svgRef.current), width, height));
+
+    // Location picking (d3-zoom suppresses the click that ends a drag)
+    svg.on("click", (event) => {
+      if (!isPickingRef.current || !onPickLocationRef.current) return;
+      const [x, y] = d3.pointer(event, g.node());
+      const lonLat = projection.invert?.([x, y]);
+      if (lonLat) onPickLocationRef.current(lonLat[1], lonLat[0]);
+    });
 
-  }, [japanGeoData, worldGeoData]);
+  }, [japanBaseMap, worldGeoData, renderer]);
 
-  // Helper: Find Coordinate by name
-  const findCoordinate = (name: string): [number, number] | null => {
-    const keys = Object.keys(STATION_COORDINATES);
-    let match = keys.find(k => k === name);
-    if (!match) match = keys.find(k => name.startsWith(k));
-    if (!match) match = keys.find(k => name.includes(k));
-    
-    if (match) {
-        const [lat, lon] = STATION_COORDINATES[match];
-        return [lon, lat];
+  // Resolve each report point once per report; misses are recorded in the resolver's unmatched list
+  useEffect(() => {
+    if (!latestQuake?.points) {
+        setUnresolvedPoints([]);
+        return;
     }
-    return null;
+    const misses: UnresolvedPoint[] = [];
+    latestQuake.points.forEach(p => {
+        if (p.isArea && INTENSITY_REGION_CENTERS.has(p.addr)) return;
+        const r = stationResolver.resolve(p.addr, { pref: p.pref, track: true });
+        if (!r || (r.level === 'prefecture' && !r.isExact)) {
+            misses.push({ addr: p.addr, pref: p.pref, scale: p.scale, fallback: r?.name ?? null });
+        }
+    });
+    setUnresolvedPoints(misses);
+  }, [latestQuake]);
+
+  // Helper: Find Coordinate by name, as [lon, lat]
+  const findCoordinate = (name: string, pref?: string): [number, number] | null =>
+    stationResolver.resolveLonLat(name, { pref });
+
+  // Helper: Lat/lon box of the screen area under a zoom transform
+  const getViewBBox = (projection: d3.GeoProjection, transform: d3.ZoomTransform, width: number, height: number): BBox | null => {
+    const corners = [transform.invert([0, 0]), transform.invert([width, height])]
+        .map(c => projection.invert?.(c))
+        .filter((c): c is [number, number] => !!c);
+    if (corners.length < 2) return null;
+    const [lons, lats] = [corners.map(c => c[0]), corners.map(c => c[1])];
+    return { minLat: Math.min(...lats), minLon: Math.min(...lons), maxLat: Math.max(...lats), maxLon: Math.max(...lons) };
+  };
+
+  // Helper: A lone epicenter gives fitBounds nothing to frame; add the closest station so offshore events show the coast
+  const withNearestStation = (coordinates: [number, number][]): [number, number][] => {
+    if (coordinates.length !== 1) return coordinates;
+    const [lon, lat] = coordinates[0];
+    const hit = stationIndex.nearest(lat, lon, AUTO_ZOOM_CONTEXT_KM);
+    return hit ? [...coordinates, [hit.point.lon, hit.point.lat]] : coordinates;
+  };
+
+  // Helper: EEW epicenter, preferring the coordinates sent with the report
+  // (name lookup fails for offshore regions such as "三陸沖")
+  const getEEWOrigin = (e: EEWState): [number, number] | null => {
+    if (e.latitude !== undefined && e.longitude !== undefined) return [e.longitude, e.latitude];
+    return e.hypocenterName ? findCoordinate(e.hypocenterName) : null;
   };
 
   // Helper: Fit Bounds
@@ -227,19 +431,27 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
       }
   };
 
+  // Helper: Order of intensity strings ("5弱" < "5強"), -1 if unknown
+  const intensityRank = (intensity: string | undefined): number => {
+      if (!intensity) return -1;
+      const i = intensity.replace('弱', '-').replace('強', '+');
+      return ['1', '2', '3', '4', '5-', '5+', '6-', '6+', '7'].indexOf(i);
+  };
+
   // Auto Zoom for Earthquake Reports (Points + Epicenter)
   // Depend on latestQuake.time to force update even if user moved map
   useEffect(() => {
     // We only skip if autoZoom is disabled globally. 
     // If it is enabled, we force move on new data.
-    if (!isAutoZoomEnabled || !latestQuake || eew.isActive) return;
+    if (!isAutoZoomEnabled || !latestQuake || isEEWActive) return;
 
-    const coords: [number, number][] = [];
+    let coords: [number, number][] = [];
     
     // 1. Epicenter
     if (latestQuake.earthquake.hypocenter) {
         const { longitude, latitude, name } = latestQuake.earthquake.hypocenter;
-        if (longitude !== -1 && latitude !== -1) {
+        // -200 (P2P) / -1 mean unknown, e.g. ScalePrompt reports
+        if (longitude > -200 && latitude > -200 && longitude !== -1 && latitude !== -1) {
             coords.push([longitude, latitude]);
         } else if (name) {
             const c = findCoordinate(name);
@@ -250,12 +462,13 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     // 2. Points (Only relevant for Japan map usually)
     if (latestQuake.points) {
         latestQuake.points.forEach(p => {
-             const c = findCoordinate(p.addr) || findCoordinate(p.pref);
+             const c = (p.isArea && INTENSITY_REGION_CENTERS.get(p.addr)) || findCoordinate(p.addr, p.pref);
              if (c) coords.push(c);
         });
     }
 
     if (coords.length > 0) {
+        coords = withNearestStation(coords);
         const isFarAway = coords.length === 1 && (coords[0][0] < 120 || coords[0][0] > 155 || coords[0][1] < 20 || coords[0][1] > 50);
         
         if (isFarAway) {
@@ -274,66 +487,86 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     }
   }, [latestQuake?.time, latestQuake?._id, isAutoZoomEnabled]); // Force trigger on new timestamp/ID
 
-  // EEW Logic: Warning Areas & Wave Animation
+  // EEW Logic: Warning Areas & Wave Animation (one P/S pair per concurrent event)
   useEffect(() => {
-    if (!eew.isActive || !eew.occurredTime || !eew.hypocenterName || !gRef.current || !projectionRef.current) {
+    if (activeEEWs.length === 0 || !gRef.current || !projectionRef.current) {
         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
         gRef.current?.select(".eew-waves").selectAll("*").remove();
+        canvasRendererRef.current?.setWaves([]);
+        return;
+    }
+
+    const sources = activeEEWs
+        .filter(e => e.occurredTime && (e.hypocenterName || e.latitude !== undefined))
+        .map(e => ({
+            id: e.eventId || 'eew',
+            origin: getEEWOrigin(e),
+            depth: e.depth ?? DEFAULT_DEPTH_KM,
+            startTime: new Date(e.occurredTime!).getTime()
+        }))
+        .filter((src): src is { id: string; origin: [number, number]; depth: number; startTime: number } => src.origin !== null);
+
+    if (sources.length === 0) {
+        if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+        gRef.current.select(".eew-waves").selectAll("*").remove();
+        canvasRendererRef.current?.setWaves([]);
         return;
     }
-    
-    const origin = findCoordinate(eew.hypocenterName);
-    if (!origin) return;
 
     // --- 1. Initial/Area Zoom Logic ---
     // Only trigger fitBounds if this specific EEW update is new (or first render of it)
-    // We rely on eew.occurredTime or eew.updatedTime changing
+    // We rely on the events' occurredTime/updatedTime changing
     if (isAutoZoomEnabled) {
-        if (eew.areas.length > 0 && japanGeoData) {
-            const areaCoords: [number, number][] = [];
-            areaCoords.push(origin);
-            eew.areas.forEach(areaName => {
+        const areaCoords: [number, number][] = sources.map(src => src.origin);
+        if (japanGeoData) {
+            activeEEWs.forEach(e => e.areas.forEach(areaName => {
                 const c = findCoordinate(areaName);
                 if (c) areaCoords.push(c);
-            });
-            fitBounds(areaCoords, 0.35);
-        } else {
-             fitBounds([origin], 0.35); 
+            }));
         }
+        fitBounds(withNearestStation(areaCoords), 0.35);
     }
 
     // --- 2. Wave Animation Loop ---
-    const startTime = new Date(eew.occurredTime).getTime();
-    const gWaves = gRef.current.select(".eew-waves");
-    const projection = projectionRef.current;
-    const svg = d3.select(svgRef.current);
-    const zoom = zoomBehaviorRef.current;
-
+    // The wave group and projection are looked up every frame: a base map LOD switch
+    // (e.g. after the auto-zoom above) rebuilds the SVG layers under the running loop
     const animate = () => {
-        const now = Date.now();
-        const elapsedSec = (now - startTime) / 1000;
-        
-        if (elapsedSec < 0) {
+        const now = displayNow();
+        const geoCircle = d3.geoCircle();
+
+        const waves: { key: string; center: [number, number]; radius: number; color: string }[] = [];
+        sources.forEach(src => {
+            const elapsedSec = (now - src.startTime) / 1000;
+            if (elapsedSec < 0) return;
+
+            // Surface wave fronts from the travel-time table; nothing is drawn until a phase reaches the surface
+            const pRadiusKm = getWaveFrontRadius('P', src.depth, elapsedSec);
+            const sRadiusKm = getWaveFrontRadius('S', src.depth, elapsedSec);
+            if (pRadiusKm !== null) {
+                waves.push({ key: `${src.id}-P`, center: src.origin, radius: pRadiusKm / KM_PER_DEG, color: '#3b82f6' });
+            }
+            if (sRadiusKm !== null) {
+                waves.push({ key: `${src.id}-S`, center: src.origin, radius: sRadiusKm / KM_PER_DEG, color: '#ef4444' });
+            }
+        });
+
+        const canvasRenderer = canvasRendererRef.current;
+        if (canvasRenderer) {
+            canvasRenderer.setWaves(waves.map(d => ({ geometry: geoCircle.center(d.center).radius(d.radius)(), color: d.color })));
             animationFrameRef.current = requestAnimationFrame(animate);
             return;
         }
 
-        const pRadiusKm = elapsedSec * V_P_WAVE;
-        const sRadiusKm = elapsedSec * V_S_WAVE;
-        const pRadiusDeg = pRadiusKm / KM_PER_DEG;
-        const sRadiusDeg = sRadiusKm / KM_PER_DEG;
-
-        const geoCircle = d3.geoCircle().center(origin);
-        const waves = [
-            { type: 'P', radius: pRadiusDeg, color: '#3b82f6', opacity: 0.3 }, 
-            { type: 'S', radius: sRadiusDeg, color: '#ef4444', opacity: 0.4 }  
-        ];
-
-        const pathGenerator = d3.geoPath().projection(projection);
+        const gWaves = gRef.current?.select(".eew-waves");
+        if (!gWaves || !projectionRef.current) {
+            animationFrameRef.current = requestAnimationFrame(animate);
+            return;
+        }
+        const pathGenerator = d3.geoPath().projection(projectionRef.current);
         
         // Draw Waves
-        const paths = gWaves.selectAll<SVGPathElement, any>("path")
-            .data(waves, d => d.type);
+        const paths = gWaves.selectAll<SVGPathElement, typeof waves[number]>("path")
+            .data(waves, d => d.key);
 
         paths.enter()
             .append("path")
@@ -343,7 +576,7 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
             .attr("stroke-width", 2)
             .merge(paths)
             .attr("d", d => {
-                return pathGenerator(geoCircle.radius(d.radius)());
+                return pathGenerator(geoCircle.center(d.center).radius(d.radius)());
             });
             
         paths.exit().remove();
@@ -357,11 +590,6 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
         // Note: Disabling continuous zoom for now based on user request to "not zoom too much"
         // and to keep it stable around prefectures.
         // We only fitBounds initially.
-        /* 
-        if (isAutoZoomRef.current && zoom && containerRef.current) {
-             ... removed continuous follow logic to keep view stable on context ...
-        }
-        */
 
         animationFrameRef.current = requestAnimationFrame(animate);
     };
@@ -371,7 +599,53 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     return () => {
         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [eew.occurredTime, eew.updatedTime, eew.isActive]); // Trigger on updates
+  }, [eewKey, renderer]); // Trigger on updates of any event
+
+  // Tsunami Coastline Overlay
+  useEffect(() => {
+    const g = gRef.current;
+    const projection = projectionRef.current;
+    if (!g || !projection || !svgRef.current) return;
+
+    const k = d3.zoomTransform(svgRef.current).k;
+    const pathGenerator = d3.geoPath().projection(projection);
+
+    // Draw lower grades first so higher grades stay on top where areas meet
+    const lines = (tsunami?.areas || [])
+        .filter(area => TSUNAMI_FORECAST_AREAS[area.name])
+        .sort((a, b) => compareTsunamiGrade(b.grade, a.grade))
+        .map((area): MapLine & { id: string } => ({
+            id: area.name,
+            color: TSUNAMI_GRADE_COLORS[area.grade],
+            geometry: {
+                type: 'LineString',
+                coordinates: TSUNAMI_FORECAST_AREAS[area.name].map(([lat, lon]) => [lon, lat])
+            }
+        }));
+
+    if (canvasRendererRef.current) {
+        canvasRendererRef.current.setTsunamiLines(lines);
+        return;
+    }
+
+    const selection = g.select(".tsunami-coast")
+        .selectAll<SVGPathElement, typeof lines[number]>("path")
+        .data(lines, d => d.id);
+
+    selection.exit().remove();
+
+    selection.enter()
+        .append("path")
+        .attr("class", "tsunami-line")
+        .attr("fill", "none")
+        .attr("stroke-linecap", "round")
+        .attr("stroke-linejoin", "round")
+        .merge(selection)
+        .attr("d", d => pathGenerator(d.geometry))
+        .attr("stroke", d => d.color)
+        .attr("stroke-width", 4 / k)
+        .order();
+  }, [tsunami, japanGeoData, worldGeoData, renderer]);
 
   // Update Map Content (Colors, Markers)
   useEffect(() => {
@@ -383,63 +657,107 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     const currentTransform = d3.zoomTransform(svgRef.current);
     const k = currentTransform.k;
 
+    const canvasRenderer = canvasRendererRef.current;
+
     // 1. Update Colors (Japan only usually)
-    g.selectAll<SVGPathElement, any>(".pref-path")
-      .attr("fill", (feature) => {
-        if (eew.isActive && eew.areas.length > 0) {
-           const prefName = feature.properties.nam_ja || feature.properties.name_ja;
-           const isTargeted = eew.areas.some(area => prefName && (prefName.includes(area) || area.includes(prefName)));
-           if (isTargeted) {
-               if (eew.isWarning) {
-                   return '#7f1d1d';
-               } else {
-                   return getIntensityColor(eew.maxIntensity);
-               }
+    const getPrefFill = (feature: any): string => {
+        const prefName: string | undefined = feature.properties.nam_ja || feature.properties.name_ja;
+        if (!prefName) return "#0f172a";
+        const matchesPref = (area: string) => prefName.includes(area) || area.includes(prefName);
+
+        // Per-region forecast intensities: color by the strongest one in this prefecture
+        let strongest: string | undefined;
+        activeEEWs.forEach(e => e.forecastAreas?.forEach(a => {
+            if (!matchesPref(a.name)) return;
+            const intensity = a.intensityTo && a.intensityTo !== '以上' ? a.intensityTo : a.intensityFrom;
+            if (intensity && intensityRank(intensity) > intensityRank(strongest)) strongest = intensity;
+        }));
+        if (strongest) return getIntensityColor(strongest);
+
+        // Events are ordered most important first, so the first match wins
+        const targeting = activeEEWs.find(e => e.areas.some(matchesPref));
+        if (targeting) {
+           if (targeting.isWarning) {
+               return '#7f1d1d';
+           } else {
+               return getIntensityColor(targeting.maxIntensity);
            }
         }
         return "#0f172a"; // Slate-900
-      });
+    };
+    if (canvasRenderer) {
+        canvasRenderer.setPrefectureFills(japanGeoData ? japanGeoData.features.map(getPrefFill) : []);
+    } else {
+        g.selectAll<SVGPathElement, any>(".pref-path").attr("fill", getPrefFill);
+    }
 
-    // --- Prepare Data for Markers ---
-    interface MarkerData {
-      id: string;
-      x: number;
-      y: number;
-      type: 'intensity' | 'epicenter';
-      scale?: number;
+    // 2. Estimated intensity grid (cells are lat/lon squares, projected corner to corner)
+    const estimateCells = (intensityGrid?.cells ?? []).flatMap(c => {
+        const half = intensityGrid!.cellDeg / 2;
+        const topLeft = projection([c.lon - half, c.lat + half]);
+        const bottomRight = projection([c.lon + half, c.lat - half]);
+        if (!topLeft || !bottomRight) return [];
+        return [{
+            x: topLeft[0], y: topLeft[1],
+            width: bottomRight[0] - topLeft[0], height: bottomRight[1] - topLeft[1],
+            color: getIntensityColor(intensityToLabel(c.intensity)),
+        }];
+    });
+    if (canvasRenderer) {
+        canvasRenderer.setIntensityCells(estimateCells);
+    } else {
+        const cellSelection = g.select(".intensity-estimate")
+            .selectAll<SVGRectElement, typeof estimateCells[number]>("rect")
+            .data(estimateCells);
+        cellSelection.exit().remove();
+        cellSelection.enter()
+            .append("rect")
+            .attr("fill-opacity", 0.55)
+            .merge(cellSelection)
+            .attr("x", d => d.x).attr("y", d => d.y)
+            .attr("width", d => d.width).attr("height", d => d.height)
+            .attr("fill", d => d.color);
+    }
+
+    // 3. Intensity Regions: ScalePrompt-style area points, filled by their maximum intensity
+    const regionScales = new Map<string, JMASeismicIntensity>();
+    if (latestQuake && latestQuake.points && !isEEWActive) {
+        latestQuake.points.forEach(p => {
+            if (!p.isArea || !INTENSITY_REGION_CENTERS.has(p.addr)) return;
+            if (p.scale > (regionScales.get(p.addr) ?? -1)) regionScales.set(p.addr, p.scale);
+        });
+    }
+    const regionFills = new Map<string, string>();
+    regionScales.forEach((scale, name) => {
+        if (SCALE_LABELS[scale]) regionFills.set(name, getIntensityColor(SCALE_LABELS[scale]));
+    });
+    if (canvasRenderer) {
+        canvasRenderer.setRegionFills(regionFills, INTENSITY_REGIONS_OFFICIAL);
+    } else {
+        g.selectAll<SVGPathElement, any>(".region-path")
+          .attr("fill", d => regionFills.get(d.properties.name) ?? "none")
+          .attr("fill-opacity", 0.8)
+          .attr("stroke", d => INTENSITY_REGIONS_OFFICIAL && regionFills.has(d.properties.name) ? "#0f172a" : "none");
     }
 
-    const markers: MarkerData[] = [];
+    // --- Prepare Data for Markers ---
+    const markers: MapMarker[] = [];
 
     // Points (Japan Stations)
-    if (latestQuake && latestQuake.points && !eew.isActive) {
-        const plotData = new Map<string, JMASeismicIntensity>();
+    if (latestQuake && latestQuake.points && !isEEWActive) {
+        // Strongest scale per resolved location
+        const plotData = new Map<string, { scale: JMASeismicIntensity, lat: number, lon: number }>();
         latestQuake.points.forEach(p => {
-            let matchedKey = "";
-            let coords: [number, number] | undefined;
-            const keys = Object.keys(STATION_COORDINATES);
-            const cityMatch = keys.find(k => p.addr.startsWith(k));
-            if (cityMatch) {
-                matchedKey = cityMatch;
-                coords = STATION_COORDINATES[cityMatch];
-            } else {
-                const prefMatch = keys.find(k => p.pref === k);
-                if (prefMatch) {
-                     matchedKey = prefMatch;
-                     coords = STATION_COORDINATES[prefMatch];
-                }
-            }
-
-            if (coords && matchedKey) {
-                const currentMax = plotData.get(matchedKey) || -1;
-                if (p.scale > currentMax) plotData.set(matchedKey, p.scale);
-            }
+            // Regions are drawn as filled areas instead
+            if (p.isArea && INTENSITY_REGION_CENTERS.has(p.addr)) return;
+            const match = stationResolver.resolve(p.addr, { pref: p.pref });
+            if (!match) return;
+            const key = `${match.level}-${match.name}`;
+            const current = plotData.get(key);
+            if (!current || p.scale > current.scale) plotData.set(key, { scale: p.scale, lat: match.lat, lon: match.lon });
         });
 
-        plotData.forEach((scale, key) => {
-            const coordsVal = STATION_COORDINATES[key];
-            if (!coordsVal) return;
-            const [lat, lon] = coordsVal;
+        plotData.forEach(({ scale, lat, lon }, key) => {
             const screenCoords = projection([lon, lat]);
             if (screenCoords && scale >= 10) {
                  markers.push({
@@ -454,18 +772,18 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
     }
 
     // Epicenter Logic (Both EEW and Regular)
-    if (eew.isActive && eew.hypocenterName) {
-        let match = Object.keys(STATION_COORDINATES).find(k => eew.hypocenterName?.includes(k));
-        if (match) {
-            const [lat, lon] = STATION_COORDINATES[match];
-            const coords = projection([lon, lat]);
+    if (isEEWActive) {
+        activeEEWs.forEach((e, i) => {
+            const origin = getEEWOrigin(e);
+            if (!origin) return;
+            const coords = projection(origin);
             if (coords) {
-                markers.push({ id: 'epicenter', x: coords[0], y: coords[1], type: 'epicenter' });
+                markers.push({ id: `epicenter-${e.eventId || i}`, x: coords[0], y: coords[1], type: 'epicenter' });
             }
-        }
+        });
     } else if (latestQuake && latestQuake.earthquake && latestQuake.earthquake.hypocenter) {
         const { latitude, longitude } = latestQuake.earthquake.hypocenter;
-        if (latitude !== -1 && longitude !== -1) {
+        if (latitude > -200 && longitude > -200 && latitude !== -1 && longitude !== -1) {
             const coords = projection([longitude, latitude]);
             if (coords) {
                 markers.push({ id: 'epicenter', x: coords[0], y: coords[1], type: 'epicenter' });
@@ -473,7 +791,20 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
         }
     }
 
-    const updateSelection = g.selectAll<SVGGElement, MarkerData>(".dynamic-marker")
+    // User Location
+    if (userLocation) {
+        const coords = projection([userLocation.longitude, userLocation.latitude]);
+        if (coords) {
+            markers.push({ id: 'user-location', x: coords[0], y: coords[1], type: 'user' });
+        }
+    }
+
+    if (canvasRenderer) {
+        canvasRenderer.setMarkers(markers);
+        return;
+    }
+
+    const updateSelection = g.selectAll<SVGGElement, MapMarker>(".dynamic-marker")
       .data(markers, d => d.id);
 
     updateSelection.exit().remove();
@@ -506,52 +837,70 @@ export const MapComponent: React.FC<Props> = ({ latestQuake, eew, isDebugMode =
       .style("paint-order", "stroke")
       .attr("fill", "#ef4444");
 
+    // User Location Marker
+    const userGroups = enterGroup.filter(d => d.type === 'user');
+    userGroups.append("circle")
+      .attr("r", 12)
+      .attr("fill", "#0ea5e9")
+      .attr("fill-opacity", 0.25);
+    userGroups.append("circle")
+      .attr("r", 5)
+      .attr("fill", "#0ea5e9")
+      .attr("stroke", "white")
+      .attr("stroke-width", 2);
+
     const allMarkers = enterGroup.merge(updateSelection);
     allMarkers.attr("transform", d => `translate(${d.x}, ${d.y}) scale(${1 / k})`);
 
     allMarkers.filter(d => d.type === 'intensity').each(function(d) {
         const sel = d3.select(this);
-        const intensity = d.scale!;
-        let color = '#334155'; let text = '?'; let textColor = '#fff';
-        switch(intensity) {
-             case 10: color = '#64748b'; text="1"; break;
-             case 20: color = '#3b82f6'; text="2"; break;
-             case 30: color = '#1d4ed8'; text="3"; break;
-             case 40: color = '#facc15'; text="4"; textColor="#0f172a"; break;
-             case 45: color = '#f97316'; text="5-"; textColor="#0f172a"; break;
-             case 50: color = '#ea580c'; text="5+"; textColor="#0f172a"; break;
-             case 55: color = '#dc2626'; text="6-"; break;
-             case 60: color = '#b91c1c'; text="6+"; break;
-             case 70: color = '#7e22ce'; text="7"; break;
-        }
+        const { color, text, textColor } = getIntensityMarkerStyle(d.scale!);
         sel.select("rect").attr("fill", color);
         sel.select("text").text(text).attr("fill", textColor);
     });
 
-    // Debug Markers (Only relevant for Japan map stations)
-    if (isDebugMode) {
-       const keys = Object.keys(STATION_COORDINATES);
-       const debugData: {id: string, x: number, y: number, name: string}[] = [];
-       keys.forEach(key => {
-          const [lat, lon] = STATION_COORDINATES[key];
-          const coords = projection([lon, lat]);
-          if (coords) debugData.push({ id: `debug-${key}`, x: coords[0], y: coords[1], name: key });
+  }, [latestQuake, eewKey, japanGeoData, worldGeoData, userLocation?.latitude, userLocation?.longitude, renderer, intensityGrid]);
+
+  // Debug Markers: stations and municipalities in view, looked up through the spatial index
+  useEffect(() => {
+    const g = gRef.current;
+    const projection = projectionRef.current;
+    if (!g || !projection || !svgRef.current) return;
+
+    const debugData: { id: string, x: number, y: number, name: string }[] = [];
+    if (isDebugMode && viewBBox) {
+       stationIndex.inBBox(viewBBox).forEach(r => {
+          const coords = projection([r.lon, r.lat]);
+          const label = r.code ? `${r.name} (${r.code})` : r.name;
+          if (coords) debugData.push({ id: `debug-${r.kind}-${r.pref}-${r.name}`, x: coords[0], y: coords[1], name: label });
        });
-       const debugSelection = g.selectAll<SVGGElement, any>(".debug-marker").data(debugData, d => d.id);
-       debugSelection.exit().remove();
-       const debugEnter = debugSelection.enter().append("g").attr("class", "debug-marker");
-       debugEnter.append("circle").attr("r", 3).attr("fill", "#06b6d4").attr("stroke", "#fff").attr("stroke-width", 0.5);
-       debugEnter.append("title").text(d => d.name);
-       debugEnter.merge(debugSelection).attr("transform", d => `translate(${d.x}, ${d.y}) scale(${1/k})`);
-    } else {
-       g.selectAll(".debug-marker").remove();
     }
 
-  }, [latestQuake, eew, japanGeoData, worldGeoData, isDebugMode]);
+    if (canvasRendererRef.current) {
+        canvasRendererRef.current.setDebugMarkers(debugData);
+        return;
+    }
+
+    const k = d3.zoomTransform(svgRef.current).k;
+    const debugSelection = g.selectAll<SVGGElement, typeof debugData[number]>(".debug-marker").data(debugData, d => d.id);
+    debugSelection.exit().remove();
+    const debugEnter = debugSelection.enter().append("g").attr("class", "debug-marker");
+    debugEnter.append("circle").attr("r", 3).attr("fill", "#06b6d4").attr("stroke", "#fff").attr("stroke-width", 0.5);
+    debugEnter.append("title").text(d => d.name);
+    debugEnter.merge(debugSelection).attr("transform", d => `translate(${d.x}, ${d.y}) scale(${1/k})`);
+  }, [isDebugMode, viewBBox, japanGeoData, worldGeoData, renderer]);
 
   return (
     <div ref={containerRef} className="w-full h-full bg-slate-950 overflow-hidden relative">
-      <svg ref={svgRef} className="w-full h-full cursor-move touch-none"></svg>
+      {renderer === 'canvas' && <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />}
+      <svg ref={svgRef} className={`relative w-full h-full touch-none ${isPickingLocation ? 'cursor-crosshair' : 'cursor-move'}`}></svg>
+      {isDebugMode && <UnresolvedPointsPanel points={unresolvedPoints} />}
+      {mapLoadError && (
+        <div className={`absolute z-10 flex items-center gap-3 px-3 py-2 bg-slate-900/95 border border-red-900 rounded-md text-xs text-red-300 shadow-lg ${!japanGeoData && !worldGeoData ? 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2' : 'bottom-12 left-4'}`}>
+          <span>{mapLoadError}</span>
+          <button onClick={() => setMapLoadAttempt(n => n + 1)} className="text-slate-300 hover:text-white underline underline-offset-2">再試行</button>
+        </div>
+      )}
       {/* Minimal Legend */}
       <div className="absolute bottom-4 left-4 flex gap-1.5 opacity-60 hover:opacity-100 transition-opacity pointer-events-none select-none">
            {[
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Play, Pause, SkipForward, X, Download } from 'lucide-react';
+import { ReplayState } from '../types';
+import { REPLAY_SPEEDS } from '../services/replay';
+
+interface Props {
+  title: string;
+  state: ReplayState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (position: number) => void;
+  onSkipNext: () => void;
+  onChangeSpeed: (speed: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const formatClock = (epochMs: number) => {
+  const d = new Date(epochMs);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const formatElapsed = (ms: number) => {
+  const sec = Math.floor(ms / 1000);
+  return `${Math.floor(sec / 60)}:${(sec % 60).toString().padStart(2, '0')}`;
+};
+
+// Transport bar shown over the map while a recording is replayed
+export const ReplayControls: React.FC<Props> = ({ title, state, onPlay, onPause, onSeek, onSkipNext, onChangeSpeed, onExport, onClose }) => {
+  const isPlaying = state.status === 'playing';
+
+  return (
+    <div className="absolute bottom-8 md:bottom-4 left-1/2 -translate-x-1/2 z-20 w-[min(560px,calc(100%-1.5rem))] bg-slate-900/90 border border-violet-800/60 rounded-lg px-3 py-2 shadow-lg text-xs text-slate-300">
+      <div className="flex items-center justify-between gap-2 mb-1.5">
+        <span className="truncate font-medium text-slate-200">{title}</span>
+        <span className="flex-shrink-0 font-mono text-violet-300">{formatClock(state.startTime + state.position)}</span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={state.duration}
+        step={1000}
+        value={state.position}
+        onChange={(e) => onSeek(parseInt(e.target.value))}
+        className="w-full accent-violet-500"
+      />
+
+      <div className="flex items-center gap-2 mt-1">
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="p-1.5 rounded bg-violet-700 hover:bg-violet-600 text-white"
+          title={isPlaying ? '一時停止' : '再生'}
+        >
+          {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </button>
+        <button onClick={onSkipNext} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="次の情報へ">
+          <SkipForward className="w-3.5 h-3.5" />
+        </button>
+        <span className="font-mono text-slate-500">{formatElapsed(state.position)} / {formatElapsed(state.duration)}</span>
+
+        <div className="ml-auto flex items-center gap-1">
+          <select
+            value={state.speed}
+            onChange={(e) => onChangeSpeed(parseFloat(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+          >
+            {REPLAY_SPEEDS.map(s => <option key={s} value={s}>×{s}</option>)}
+          </select>
+          <button onClick={onExport} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="ファイルに保存">
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="終了">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Play, Plus, Pencil, Copy, Trash2, Upload, Download, FileJson } from 'lucide-react';
+import { Scenario } from '../types';
+import { BUILTIN_SCENARIOS } from '../constants/scenarios';
+import {
+  SCENARIO_SCHEMA, createScenarioTemplate, describeScenarioStep, loadUserScenarios,
+  parseScenarioFile, saveUserScenarios, serializeScenario,
+} from '../services/scenario';
+import { downloadTextFile } from '../services/download';
+
+interface Props {
+  onRun: (scenario: Scenario) => void;
+}
+
+const BUILTIN_IDS = new Set(BUILTIN_SCENARIOS.map(s => s.id));
+
+const formatOffset = (sec: number) =>
+  sec < 60 ? `+${sec}s` : `+${Math.floor(sec / 60)}m${sec % 60 ? `${sec % 60}s` : ''}`;
+
+// Drill scenarios: bundled and user-authored (JSON, stored in localStorage)
+export const ScenarioEditor: React.FC<Props> = ({ onRun }) => {
+  const [userScenarios, setUserScenarios] = useState<Scenario[]>(() => loadUserScenarios());
+  const [selectedId, setSelectedId] = useState<string>(BUILTIN_SCENARIOS[0].id);
+  const [draft, setDraft] = useState<string | null>(null); // JSON being edited
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const scenarios = useMemo(() => [...BUILTIN_SCENARIOS, ...userScenarios], [userScenarios]);
+  const selected = scenarios.find(s => s.id === selectedId) ?? scenarios[0];
+  const isUserScenario = !BUILTIN_IDS.has(selected.id);
+  const validation = useMemo(() => draft !== null ? parseScenarioFile(draft) : null, [draft]);
+
+  const updateUserScenarios = (next: Scenario[]) => {
+      setUserScenarios(next);
+      saveUserScenarios(next);
+  };
+
+  const storeScenario = (scenario: Scenario) => {
+      const exists = userScenarios.some(s => s.id === scenario.id);
+      updateUserScenarios(exists ? userScenarios.map(s => s.id === scenario.id ? scenario : s) : [...userScenarios, scenario]);
+      setSelectedId(scenario.id);
+  };
+
+  const handleSaveDraft = () => {
+      if (!validation?.scenario) return;
+      if (BUILTIN_IDS.has(validation.scenario.id)) return;
+      storeScenario(validation.scenario);
+      setDraft(null);
+  };
+
+  const handleDuplicate = () => {
+      setDraft(serializeScenario({ ...selected, id: `${selected.id}-copy-${Date.now()}`, title: `${selected.title}（コピー）` }));
+  };
+
+  const handleDelete = () => {
+      if (!window.confirm(`シナリオ「${selected.title}」を削除しますか？`)) return;
+      updateUserScenarios(userScenarios.filter(s => s.id !== selected.id));
+      setSelectedId(BUILTIN_SCENARIOS[0].id);
+  };
+
+  const handleImport = async (file: File) => {
+      setImportError(null);
+      const { scenario, errors } = parseScenarioFile(await file.text());
+      if (!scenario) {
+          setImportError(`読み込みに失敗しました: ${errors.slice(0, 3).join(' / ')}`);
+          return;
+      }
+      if (BUILTIN_IDS.has(scenario.id)) {
+          setImportError(`組み込みシナリオと同じID (${scenario.id}) は使えません`);
+          return;
+      }
+      storeScenario(scenario);
+  };
+
+  if (draft !== null) {
+      const idConflict = validation?.scenario && BUILTIN_IDS.has(validation.scenario.id);
+      return (
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-64 bg-slate-900 border border-slate-600 rounded p-2 text-[11px] leading-snug font-mono text-slate-200 focus:outline-none focus:border-yellow-500"
+          />
+          {validation && validation.errors.length > 0 && (
+              <ul className="mt-2 max-h-24 overflow-y-auto text-[11px] text-red-400 font-mono space-y-0.5">
+                  {validation.errors.map((e, i) => <li key={i}>{e}</li>)}
+              </ul>
+          )}
+          {idConflict && <p className="mt-2 text-[11px] text-red-400">組み込みシナリオと同じIDは使えません</p>}
+          <div className="flex gap-2 mt-3">
+              <button
+                onClick={handleSaveDraft}
+                disabled={!validation?.scenario || !!idConflict}
+                className="flex-1 py-2 bg-yellow-600 hover:bg-yellow-500 disabled:opacity-40 disabled:hover:bg-yellow-600 text-white rounded text-sm font-medium"
+              >
+                  保存
+              </button>
+              <button onClick={() => setDraft(null)} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm">
+                  キャンセル
+              </button>
+          </div>
+        </div>
+      );
+  }
+
+  return (
+    <div>
+      <select
+        value={selected.id}
+        onChange={(e) => setSelectedId(e.target.value)}
+        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-2 text-white text-sm mb-2"
+      >
+          <optgroup label="組み込み">
+              {BUILTIN_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+          </optgroup>
+          {userScenarios.length > 0 && (
+              <optgroup label="ユーザー作成">
+                  {userScenarios.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+              </optgroup>
+          )}
+      </select>
+
+      {selected.description && <p className="text-slate-400 text-sm mb-2">{selected.description}</p>}
+
+      <ul className="mb-4 max-h-32 overflow-y-auto text-xs text-slate-400 font-mono space-y-0.5">
+          {[...selected.steps].sort((a, b) => a.at - b.at).map((step, i) => (
+              <li key={i} className="flex gap-2">
+                  <span className="w-14 shrink-0 text-right text-slate-500">{formatOffset(step.at)}</span>
+                  <span className="truncate">{describeScenarioStep(step)}</span>
+              </li>
+          ))}
+      </ul>
+
+      <button
+        onClick={() => onRun(selected)}
+        className="w-full flex items-center justify-center gap-2 py-3 px-4 bg-yellow-600 hover:bg-yellow-500 text-white rounded-lg transition-colors font-bold shadow-lg shadow-yellow-900/20"
+      >
+          <Play className="w-4 h-4 fill-current" />
+          シミュレーション開始
+      </button>
+
+      <div className="flex flex-wrap gap-1 mt-3 text-xs">
+          <button onClick={() => setDraft(serializeScenario(createScenarioTemplate()))} className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200" title="新規作成">
+              <Plus className="w-3.5 h-3.5" /> 新規
+          </button>
+          {isUserScenario ? (
+              <button onClick={() => setDraft(serializeScenario(selected))} className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200">
+                  <Pencil className="w-3.5 h-3.5" /> 編集
+              </button>
+          ) : (
+              <button onClick={handleDuplicate} className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200">
+                  <Copy className="w-3.5 h-3.5" /> 複製して編集
+              </button>
+          )}
+          <label className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200 cursor-pointer">
+              <Upload className="w-3.5 h-3.5" /> インポート
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImport(file);
+                }}
+              />
+          </label>
+          <button onClick={() => downloadTextFile(`${selected.id}.json`, serializeScenario(selected))} className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200">
+              <Download className="w-3.5 h-3.5" /> エクスポート
+          </button>
+          <button onClick={() => downloadTextFile('scenario.schema.json', JSON.stringify(SCENARIO_SCHEMA, null, 2))} className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200" title="JSON Schema を保存">
+              <FileJson className="w-3.5 h-3.5" /> スキーマ
+          </button>
+          {isUserScenario && (
+              <button onClick={handleDelete} className="ml-auto flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-red-900/60 rounded text-slate-300">
+                  <Trash2 className="w-3.5 h-3.5" /> 削除
+              </button>
+          )}
+      </div>
+
+      {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+    </div>
+  );
+};
@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import { X, Scan, Database, Search, ChevronRight, TestTube, Play, History, RefreshCw, Filter, Calendar, BarChart } from 'lucide-react';
-import { P2PQuakeData, JMASeismicIntensity } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, Scan, Database, Search, ChevronRight, TestTube, History, RefreshCw, Filter, Calendar, BarChart, MapPin, Crosshair, Archive, Trash2, Film, Upload, Volume2, Bell } from 'lucide-react';
+import { P2PQuakeData, JMASeismicIntensity, UserLocation, ArchivedEvent, ArchiveSettings, MapSettings, MapRenderer, ReplayRecording, Scenario, AlertProfile } from '../types';
+import { isValidLocation } from '../services/userLocation';
+import { eventArchive } from '../services/archive';
+import { loadArchiveRecording, parseReplayFile } from '../services/replay';
+import { ScenarioEditor } from './ScenarioEditor';
+import { VoicePackManager } from './VoicePackManager';
+import { AlertProfileEditor } from './AlertProfileEditor';
 
 interface Props {
   isOpen: boolean;
@@ -10,7 +16,15 @@ interface Props {
   isAutoZoomEnabled: boolean;
   setAutoZoomEnabled: (val: boolean) => void;
   onSelectQuake: (data: P2PQuakeData) => void;
-  onStartSimulation: () => void;
+  onStartSimulation: (scenario: Scenario) => void;
+  onStartReplay: (recording: ReplayRecording) => void;
+  userLocation: UserLocation | null;
+  onChangeUserLocation: (location: UserLocation | null) => void;
+  onPickLocationOnMap: () => void;
+  mapSettings: MapSettings;
+  onChangeMapSettings: (settings: MapSettings) => void;
+  alertProfiles: AlertProfile[];
+  onChangeAlertProfiles: (profiles: AlertProfile[]) => void;
 }
 
 const formatHistoryTime = (timeStr: string) => {
@@ -48,7 +62,7 @@ const convertMMItoJMA = (mmi: number): JMASeismicIntensity => {
 
 type SearchMode = 'ranking' | 'recent' | 'year';
 
-export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, setDebugMode, isAutoZoomEnabled, setAutoZoomEnabled, onSelectQuake, onStartSimulation }) => {
+export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, setDebugMode, isAutoZoomEnabled, setAutoZoomEnabled, onSelectQuake, onStartSimulation, onStartReplay, userLocation, onChangeUserLocation, onPickLocationOnMap, mapSettings, onChangeMapSettings, alertProfiles, onChangeAlertProfiles }) => {
   const [history, setHistory] = useState<P2PQuakeData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -61,8 +75,95 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, s
   const [searchError, setSearchError] = useState<string | null>(null);
   const [searchResults, setSearchResults] = useState<P2PQuakeData[]>([]);
 
+  // User Location State
+  const [latInput, setLatInput] = useState('');
+  const [lonInput, setLonInput] = useState('');
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  // Local Archive State
+  const [archiveSettings, setArchiveSettings] = useState<ArchiveSettings>(eventArchive.getSettings());
+  const [archiveCount, setArchiveCount] = useState<number | null>(null);
+  const [archiveRegion, setArchiveRegion] = useState('');
+  const [archiveMinScale, setArchiveMinScale] = useState<number>(-1);
+  const [archiveMinMag, setArchiveMinMag] = useState<number>(0);
+  const [archiveResults, setArchiveResults] = useState<ArchivedEvent[] | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLatInput(userLocation ? userLocation.latitude.toFixed(4) : '');
+    setLonInput(userLocation ? userLocation.longitude.toFixed(4) : '');
+    setLocationError(null);
+  }, [isOpen, userLocation]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    eventArchive.countEvents().then(setArchiveCount);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const handleSaveLocation = () => {
+      const latitude = parseFloat(latInput);
+      const longitude = parseFloat(lonInput);
+      if (!isValidLocation(latitude, longitude)) {
+          setLocationError("緯度・経度を正しく入力してください");
+          return;
+      }
+      setLocationError(null);
+      onChangeUserLocation({ latitude, longitude });
+  };
+
+  const handleArchiveSettingsChange = (settings: ArchiveSettings) => {
+      setArchiveSettings(settings);
+      eventArchive.updateSettings(settings);
+  };
+
+  const searchArchive = async () => {
+      const results = await eventArchive.queryEvents({
+          kinds: ['quake'],
+          region: archiveRegion.trim() || undefined,
+          minScale: archiveMinScale > 0 ? archiveMinScale : undefined,
+          minMagnitude: archiveMinMag > 0 ? archiveMinMag : undefined,
+          limit: 100,
+      });
+      setArchiveResults(results);
+  };
+
+  const clearArchive = async () => {
+      if (!window.confirm("保存されたすべての受信データを削除しますか？")) return;
+      await eventArchive.clear();
+      setArchiveResults(null);
+      setArchiveCount(0);
+  };
+
+  const startArchiveReplay = async (event: ArchivedEvent) => {
+      setReplayError(null);
+      const recording = await loadArchiveRecording(event.time, `${formatHistoryTime(new Date(event.time).toISOString())} ${event.hypocenterName || "震源調査中"}`);
+      if (recording.messages.length === 0) {
+          setReplayError("この地震の受信記録は残っていません");
+          return;
+      }
+      onStartReplay(recording);
+      onClose();
+  };
+
+  const importReplayFile = async (file: File) => {
+      setReplayError(null);
+      try {
+          const recording = parseReplayFile(await file.text(), file.name.replace(/\.json$/i, ''));
+          onStartReplay(recording);
+          onClose();
+      } catch (e) {
+          setReplayError(`読み込みに失敗しました: ${e instanceof Error ? e.message : e}`);
+      }
+  };
+
+  const handlePickOnMap = () => {
+      onPickLocationOnMap();
+      onClose();
+  };
+
   const fetchHistory = async () => {
     setIsLoading(true);
     setError(null);
@@ -78,8 +179,8 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, s
     }
   };
 
-  const handleStartSim = () => {
-      onStartSimulation();
+  const handleStartSim = (scenario: Scenario) => {
+      onStartSimulation(scenario);
       onClose();
   };
 
@@ -218,9 +319,134 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, s
                         <div className="w-11 h-6 bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                     </div>
                 </label>
+
+                {/* Estimated Intensity Overlay */}
+                <label className="flex items-center cursor-pointer gap-3 p-2 hover:bg-slate-700/50 rounded transition-colors justify-between">
+                    <div className="flex-1">
+                        <span className="block text-slate-200 font-medium select-none">推計震度分布</span>
+                        <span className="block text-xs text-slate-400 mt-1">
+                            観測震度と距離減衰から推計した震度を格子状に表示します。
+                        </span>
+                    </div>
+                    <div className="relative">
+                        <input 
+                        type="checkbox" 
+                        className="sr-only peer"
+                        checked={mapSettings.showIntensityEstimate}
+                        onChange={(e) => onChangeMapSettings({ ...mapSettings, showIntensityEstimate: e.target.checked })}
+                        />
+                        <div className="w-11 h-6 bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-600"></div>
+                    </div>
+                </label>
+
+                {/* Map Renderer */}
+                <div className="flex items-center gap-3 p-2 justify-between">
+                    <div className="flex-1">
+                        <span className="block text-slate-200 font-medium select-none">地図描画方式</span>
+                        <span className="block text-xs text-slate-400 mt-1">
+                            Canvasは低性能な端末や常時表示向けの軽量描画です。
+                        </span>
+                    </div>
+                    <div className="flex bg-slate-900 rounded p-0.5 border border-slate-600">
+                        {(['svg', 'canvas'] as MapRenderer[]).map(r => (
+                            <button
+                                key={r}
+                                onClick={() => onChangeMapSettings({ ...mapSettings, renderer: r })}
+                                className={`px-3 py-1 rounded text-xs font-medium transition-colors ${mapSettings.renderer === r ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {r === 'svg' ? 'SVG' : 'Canvas'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
              </div>
           </div>
 
+          {/* User Location */}
+          <div className="bg-slate-700/30 p-4 rounded-lg border border-slate-700">
+             <h3 className="text-slate-200 font-semibold mb-2 flex items-center gap-2">
+                 <MapPin className="w-4 h-4 text-sky-400" />
+                 現在地設定
+             </h3>
+             <p className="text-xs text-slate-400 mb-4">
+                 緊急地震速報の発表時に、この地点の予想震度と主要動(S波)到達までの秒数を表示します。
+             </p>
+
+             <div className="grid grid-cols-2 gap-2 mb-2">
+                 <label className="block">
+                     <span className="text-xs text-slate-400">緯度</span>
+                     <input
+                        type="number"
+                        step="0.0001"
+                        value={latInput}
+                        onChange={(e) => setLatInput(e.target.value)}
+                        placeholder="35.6812"
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-sky-500"
+                     />
+                 </label>
+                 <label className="block">
+                     <span className="text-xs text-slate-400">経度</span>
+                     <input
+                        type="number"
+                        step="0.0001"
+                        value={lonInput}
+                        onChange={(e) => setLonInput(e.target.value)}
+                        placeholder="139.7671"
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-sky-500"
+                     />
+                 </label>
+             </div>
+             {locationError && <p className="text-xs text-red-400 mb-2">{locationError}</p>}
+
+             <div className="flex gap-2">
+                 <button
+                    onClick={handleSaveLocation}
+                    className="flex-1 py-1.5 bg-sky-700 hover:bg-sky-600 text-white rounded text-xs font-bold transition-colors"
+                 >
+                    保存
+                 </button>
+                 <button
+                    onClick={handlePickOnMap}
+                    className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-xs font-bold transition-colors flex items-center justify-center gap-1"
+                 >
+                    <Crosshair className="w-3 h-3" />
+                    地図上で選択
+                 </button>
+                 {userLocation && (
+                     <button
+                        onClick={() => onChangeUserLocation(null)}
+                        className="py-1.5 px-3 bg-slate-700 hover:bg-red-900/60 text-slate-300 rounded text-xs transition-colors"
+                     >
+                        解除
+                     </button>
+                 )}
+             </div>
+          </div>
+
+          {/* Alert Profiles */}
+          <div className="bg-slate-700/30 p-4 rounded-lg border border-slate-700">
+             <h3 className="text-slate-200 font-semibold mb-2 flex items-center gap-2">
+                 <Bell className="w-4 h-4 text-orange-400" />
+                 通知プロファイル
+             </h3>
+             <p className="text-xs text-slate-400 mb-4">
+                 震度・規模・地域・時間帯の条件ごとに、音・読み上げ・デスクトップ通知を使うかを設定します。いずれかのプロファイルに一致した情報が通知されます。
+             </p>
+             <AlertProfileEditor profiles={alertProfiles} onChange={onChangeAlertProfiles} userLocation={userLocation} />
+          </div>
+
+          {/* Voice Packs */}
+          <div className="bg-slate-700/30 p-4 rounded-lg border border-slate-700">
+             <h3 className="text-slate-200 font-semibold mb-2 flex items-center gap-2">
+                 <Volume2 className="w-4 h-4 text-pink-400" />
+                 音声パック
+             </h3>
+             <p className="text-xs text-slate-400 mb-4">
+                 録音した音声素材で読み上げます。素材のない部分はブラウザの音声合成で補います。
+             </p>
+             <VoicePackManager />
+          </div>
+
           {/* Historical Data Section (USGS) */}
           <div className="bg-slate-700/30 p-4 rounded-lg border border-slate-700">
              <h3 className="text-slate-200 font-semibold mb-4 flex items-center gap-2">
@@ -352,15 +578,155 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, isDebugMode, s
                緊急地震速報シミュレーション
              </h3>
              <p className="text-slate-400 text-sm mb-4">
-                和歌山県を震源とする大規模な地震（震度6強）の緊急地震速報と地震発生をシミュレーションします。
+                訓練用のシナリオに沿って、緊急地震速報・地震情報・津波予報の発表をシミュレーションします。
              </p>
-             <button 
-                onClick={handleStartSim}
-                className="w-full flex items-center justify-center gap-2 py-3 px-4 bg-yellow-600 hover:bg-yellow-500 text-white rounded-lg transition-colors font-bold shadow-lg shadow-yellow-900/20"
-             >
-                <Play className="w-4 h-4 fill-current" />
-                テストシミュレーション開始
-             </button>
+             <ScenarioEditor onRun={handleStartSim} />
+          </div>
+
+          {/* Local Archive Section */}
+          <div className="bg-slate-700/30 p-4 rounded-lg border border-slate-700">
+             <h3 className="text-slate-200 font-semibold mb-2 flex items-center gap-2">
+               <Archive className="w-4 h-4 text-amber-400" />
+               受信データアーカイブ
+             </h3>
+             <p className="text-xs text-slate-400 mb-4">
+                 受信したすべての情報をこの端末に保存しています。{archiveCount !== null && `(${archiveCount}件)`}
+             </p>
+
+             <div className="grid grid-cols-2 gap-2 mb-4">
+                 <label className="block">
+                     <span className="text-[10px] text-slate-500 block mb-1">保存期間</span>
+                     <select
+                        value={archiveSettings.retentionDays}
+                        onChange={(e) => handleArchiveSettingsChange({ ...archiveSettings, retentionDays: parseInt(e.target.value) })}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white text-sm"
+                     >
+                         <option value="7">7日</option>
+                         <option value="30">30日</option>
+                         <option value="90">90日</option>
+                         <option value="365">1年</option>
+                     </select>
+                 </label>
+                 <label className="block">
+                     <span className="text-[10px] text-slate-500 block mb-1">ピア数・感知情報</span>
+                     <select
+                        value={archiveSettings.highVolumeRetentionHours}
+                        onChange={(e) => handleArchiveSettingsChange({ ...archiveSettings, highVolumeRetentionHours: parseInt(e.target.value) })}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white text-sm"
+                     >
+                         <option value="1">1時間</option>
+                         <option value="24">24時間</option>
+                         <option value="168">7日</option>
+                     </select>
+                 </label>
+             </div>
+
+             <div className="flex gap-2 mb-2">
+                 <input
+                    type="text"
+                    value={archiveRegion}
+                    onChange={(e) => setArchiveRegion(e.target.value)}
+                    placeholder="地域 (例: 石川県)"
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white text-sm"
+                 />
+                 <select
+                    value={archiveMinScale}
+                    onChange={(e) => setArchiveMinScale(parseInt(e.target.value))}
+                    className="w-20 bg-slate-900 border border-slate-600 rounded px-1 py-1.5 text-white text-sm"
+                 >
+                     <option value="-1">震度</option>
+                     <option value="10">1+</option>
+                     <option value="30">3+</option>
+                     <option value="40">4+</option>
+                     <option value="45">5弱+</option>
+                     <option value="55">6弱+</option>
+                 </select>
+                 <select
+                    value={archiveMinMag}
+                    onChange={(e) => setArchiveMinMag(parseInt(e.target.value))}
+                    className="w-20 bg-slate-900 border border-slate-600 rounded px-1 py-1.5 text-white text-sm"
+                 >
+                     <option value="0">規模</option>
+                     <option value="3">M3+</option>
+                     <option value="5">M5+</option>
+                     <option value="6">M6+</option>
+                     <option value="7">M7+</option>
+                 </select>
+             </div>
+
+             <div className="flex gap-2">
+                 <button
+                    onClick={searchArchive}
+                    className="flex-1 py-2 bg-amber-700 hover:bg-amber-600 text-white rounded font-medium text-sm flex items-center justify-center gap-2"
+                 >
+                     <Search className="w-4 h-4" />
+                     アーカイブを検索
+                 </button>
+                 <button
+                    onClick={clearArchive}
+                    className="py-2 px-3 bg-slate-700 hover:bg-red-900/60 text-slate-300 rounded text-sm transition-colors"
+                    title="アーカイブを削除"
+                 >
+                     <Trash2 className="w-4 h-4" />
+                 </button>
+             </div>
+
+             <label className="mt-2 w-full py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm flex items-center justify-center gap-2 cursor-pointer transition-colors">
+                 <Upload className="w-4 h-4" />
+                 記録ファイルからリプレイ
+                 <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) importReplayFile(file);
+                    }}
+                 />
+             </label>
+
+             {replayError && <p className="text-xs text-red-400 text-center mt-2">{replayError}</p>}
+
+             {archiveResults && archiveResults.length === 0 && (
+                 <p className="text-xs text-slate-500 text-center mt-3">条件に一致する記録はありません。</p>
+             )}
+
+             {archiveResults && archiveResults.length > 0 && (
+                 <div className="space-y-2 mt-3 max-h-[200px] overflow-y-auto pr-1">
+                     {archiveResults.map((event) => {
+                         const quake = event.data as P2PQuakeData;
+                         const intensity = getIntensityLabel(event.maxScale ?? JMASeismicIntensity.Unknown);
+                         return (
+                             <div key={event.id} className="flex gap-1">
+                                 <button
+                                    onClick={() => { onSelectQuake(quake); onClose(); }}
+                                    className="flex-1 min-w-0 text-left bg-slate-800 hover:bg-slate-700 p-2 rounded border border-slate-600 flex items-center gap-3 transition-colors"
+                                 >
+                                     <div className={`w-7 h-7 rounded flex items-center justify-center font-bold text-white text-xs shrink-0 ${intensity.color}`}>
+                                         {intensity.label}
+                                     </div>
+                                     <div className="min-w-0 flex-1">
+                                         <div className="text-sm text-slate-200 line-clamp-1">{event.hypocenterName || "震源調査中"}</div>
+                                         <div className="flex justify-between text-xs text-slate-400">
+                                             <span>{formatHistoryTime(new Date(event.time).toISOString())}</span>
+                                             {event.magnitude !== undefined && <span className="text-amber-300 font-bold">M{event.magnitude.toFixed(1)}</span>}
+                                         </div>
+                                     </div>
+                                     <ChevronRight className="w-4 h-4 text-slate-500 shrink-0" />
+                                 </button>
+                                 <button
+                                    onClick={() => startArchiveReplay(event)}
+                                    className="px-2 bg-slate-800 hover:bg-violet-900/60 text-violet-300 rounded border border-slate-600 transition-colors"
+                                    title="受信した速報・情報をリプレイ"
+                                 >
+                                     <Film className="w-4 h-4" />
+                                 </button>
+                             </div>
+                         );
+                     })}
+                 </div>
+             )}
           </div>
 
           {/* Recent History Section */}
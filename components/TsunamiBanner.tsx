@@ -0,0 +1,42 @@
+import React from 'react';
+import { TsunamiForecast } from '../types';
+import { TSUNAMI_GRADE_COLORS, TSUNAMI_GRADE_LABELS } from '../services/tsunami';
+import { Waves } from 'lucide-react';
+
+interface Props {
+  tsunami: TsunamiForecast | null;
+}
+
+export const TsunamiBanner: React.FC<Props> = ({ tsunami }) => {
+  if (!tsunami || !tsunami.maxGrade) return null;
+
+  const grade = tsunami.maxGrade;
+  const isAdvisory = grade === 'Advisory' || grade === 'Forecast';
+  const topAreas = tsunami.areas.filter(a => a.grade === grade);
+  const hasImmediate = tsunami.areas.some(a => a.immediate);
+
+  return (
+    <div
+      className={`w-full z-40 ${isAdvisory ? 'text-black' : 'text-white'} shadow-lg flex-shrink-0`}
+      style={{ backgroundColor: TSUNAMI_GRADE_COLORS[grade] }}
+    >
+      <div className="flex items-center gap-3 px-4 md:px-6 py-2">
+        <Waves className={`w-5 h-5 md:w-6 md:h-6 shrink-0 ${grade === 'MajorWarning' ? 'animate-pulse' : ''}`} />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-baseline gap-2">
+            <h2 className="text-sm md:text-lg font-bold leading-none">{TSUNAMI_GRADE_LABELS[grade]}</h2>
+            {hasImmediate && (
+              <span className="text-[10px] md:text-xs font-bold bg-black/20 px-1.5 rounded">直ちに避難</span>
+            )}
+          </div>
+          <div className="text-xs font-medium opacity-90 truncate mt-0.5">
+            {topAreas.map(a => a.maxHeightDescription ? `${a.name}(${a.maxHeightDescription})` : a.name).join(" ")}
+          </div>
+        </div>
+        <div className="text-[10px] opacity-75 shrink-0 text-right">
+          {tsunami.areas.length}区域
+        </div>
+      </div>
+    </div>
+  );
+};
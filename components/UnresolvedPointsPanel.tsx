@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { stationResolver } from '../services/stationResolver';
+
+export interface UnresolvedPoint {
+  addr: string;
+  pref: string;
+  scale: number;
+  fallback: string | null; // Prefecture used instead, or null when dropped
+}
+
+interface Props {
+  points: UnresolvedPoint[]; // Misses in the displayed report
+}
+
+// Debug overlay: report points the station resolver couldn't place below prefecture level
+export const UnresolvedPointsPanel: React.FC<Props> = ({ points }) => {
+  const [, setClearedAt] = useState(0);
+  const history = stationResolver.getUnmatchedNames();
+
+  const handleClear = () => {
+    stationResolver.clearUnmatchedNames();
+    setClearedAt(Date.now());
+  };
+
+  return (
+    <div className="absolute top-3 right-3 z-10 w-64 max-h-[60%] overflow-y-auto bg-slate-900/90 border border-slate-800 rounded-md p-2.5 text-[10px] text-slate-400 font-mono shadow-lg">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="font-semibold text-slate-300 tracking-wider uppercase">Unresolved Points</span>
+        <span className="text-slate-500">{points.length}件</span>
+      </div>
+      {points.length === 0 ? (
+        <div className="text-slate-600">この報では全地点を解決</div>
+      ) : (
+        <ul className="space-y-0.5">
+          {points.map((p, i) => (
+            <li key={`${p.pref}-${p.addr}-${i}`} className="flex justify-between gap-2">
+              <span className="truncate text-amber-400">{p.addr}</span>
+              <span className="flex-shrink-0 text-slate-500">{p.fallback ? `→${p.fallback}` : '破棄'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mt-2.5 mb-1.5 pt-2 border-t border-slate-800">
+        <span className="font-semibold text-slate-300 tracking-wider uppercase">Unmatched Names</span>
+        <button onClick={handleClear} className="text-slate-500 hover:text-slate-300">クリア</button>
+      </div>
+      {history.length === 0 ? (
+        <div className="text-slate-600">なし</div>
+      ) : (
+        <ul className="space-y-0.5">
+          {history.slice(0, 50).map(u => (
+            <li key={`${u.pref ?? ''}-${u.name}`} className="flex justify-between gap-2">
+              <span className="truncate">{u.pref ? `${u.pref} ${u.name}` : u.name}</span>
+              <span className="flex-shrink-0 text-slate-500">×{u.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
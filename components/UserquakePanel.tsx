@@ -0,0 +1,72 @@
+import React from 'react';
+import { P2PUserquakeData, P2PUserquakeEvaluationData, P2PUserquakeAreaConfidence } from '../types';
+import { parseP2PTime } from '../services/feeds';
+import { Users } from 'lucide-react';
+
+interface Props {
+  reports: P2PUserquakeData[];
+  evaluation: P2PUserquakeEvaluationData | null;
+}
+
+// An evaluation is only shown while it is still being updated
+const EVALUATION_TTL_MS = 10 * 60 * 1000;
+
+const formatTime = (timeStr: string) => {
+    const d = new Date(parseP2PTime(timeStr));
+    return `${d.getHours()}:${d.getMinutes().toString().padStart(2, '0')}:${d.getSeconds().toString().padStart(2, '0')}`;
+};
+
+/**
+ * P2P 地震感知情報 (561 user felt reports, 9611 evaluation).
+ * Hidden when nothing recent has been reported.
+ */
+export const UserquakePanel: React.FC<Props> = ({ reports, evaluation }) => {
+  const activeEvaluation = evaluation && Date.now() - parseP2PTime(evaluation.updated_at) < EVALUATION_TTL_MS
+    ? evaluation
+    : null;
+
+  if (reports.length === 0 && !activeEvaluation) return null;
+
+  // Strongest areas first ("A" is the most reliable grade)
+  const topAreas = activeEvaluation
+    ? (Object.entries(activeEvaluation.area_confidences) as [string, P2PUserquakeAreaConfidence][])
+        .filter(([, a]) => a.display !== 'F')
+        .sort(([, a], [, b]) => a.display.localeCompare(b.display) || b.count - a.count)
+        .slice(0, 6)
+    : [];
+
+  return (
+    <div className="px-5 md:px-6 py-3 border-b border-slate-900 bg-slate-900/40 flex-shrink-0">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="flex items-center gap-1.5 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+          <Users className="w-3 h-3" />
+          Felt Reports
+        </span>
+        <span className="text-[10px] text-slate-500">
+          直近10分 {reports.length}件
+        </span>
+      </div>
+
+      {activeEvaluation ? (
+        <div className="space-y-1.5">
+          <div className="flex items-baseline gap-3 text-xs text-slate-300">
+            <span>揺れの可能性 <span className="font-bold text-amber-400">{Math.round(activeEvaluation.confidence * 100)}%</span></span>
+            <span className="text-slate-500">{activeEvaluation.count}件</span>
+            <span className="text-slate-600 font-mono">{formatTime(activeEvaluation.started_at)}〜</span>
+          </div>
+          {topAreas.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {topAreas.map(([code, a]) => (
+                <span key={code} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700" title={`地域コード ${code}: ${a.count}件`}>
+                  {code} <span className="font-bold text-slate-200">{a.display}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500">揺れを感じたという報告を受信しています（未解析）</div>
+      )}
+    </div>
+  );
+};
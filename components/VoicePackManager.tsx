@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Upload, FolderOpen, Trash2 } from 'lucide-react';
+import { VoicePack } from '../types';
+import { VOICE_CLIP_KEYS } from '../constants/voiceKeys';
+import { getMissingVoiceKeys, importVoicePack, MANIFEST_FILE, voicePackStore } from '../services/voicePacks';
+import { soundService } from '../services/SoundService';
+
+// 「緊急地震速報、警報。予想される最大震度は 震度5弱。強い揺れに警戒してください」
+const SAMPLE_KEYS = ["eew_keihou", "yosou_saidai", "shindo", "5", "jaku", "keikai"];
+
+// Recorded voice clips used for announcements instead of speech synthesis
+export const VoicePackManager: React.FC = () => {
+  const [packs, setPacks] = useState<VoicePack[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => voicePackStore.getActiveId());
+  const [previewKeys, setPreviewKeys] = useState<{ [packId: string]: string }>({});
+  const [importMessage, setImportMessage] = useState<{ text: string; warnings: string[]; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    voicePackStore.list().then(setPacks);
+  }, []);
+
+  const activate = (pack: VoicePack | null) => {
+      voicePackStore.setActiveId(pack?.id ?? null);
+      soundService.setVoicePack(pack);
+      setActiveId(pack?.id ?? null);
+  };
+
+  const handleImport = async (files: FileList) => {
+      setImportMessage(null);
+      try {
+          const { pack, warnings } = await importVoicePack(files);
+          await voicePackStore.put(pack);
+          setPacks(await voicePackStore.list());
+          if (pack.id === activeId) activate(pack);
+          setImportMessage({ text: `「${pack.name}」を読み込みました（${Object.keys(pack.clips).length}件）`, warnings, isError: false });
+      } catch (e) {
+          setImportMessage({ text: `読み込みに失敗しました: ${(e as Error).message}`, warnings: [], isError: true });
+      }
+  };
+
+  const handleDelete = async (pack: VoicePack) => {
+      if (!window.confirm(`音声パック「${pack.name}」を削除しますか？`)) return;
+      await voicePackStore.delete(pack.id);
+      if (pack.id === activeId) activate(null);
+      setPacks(packs.filter(p => p.id !== pack.id));
+  };
+
+  const fileInput = (children: React.ReactNode, directory: boolean) => (
+      <label className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-xs font-bold transition-colors cursor-pointer">
+          {children}
+          <input
+            type="file"
+            multiple={directory}
+            accept={directory ? undefined : '.zip,application/zip'}
+            className="hidden"
+            // Folder selection is non-standard (not in React's input props) but supported by all current browsers
+            ref={directory ? (input: HTMLInputElement | null) => { if (input) input.webkitdirectory = true; } : undefined}
+            onChange={(e) => {
+                const files = e.target.files;
+                if (files && files.length > 0) handleImport(files).finally(() => { e.target.value = ''; });
+            }}
+          />
+      </label>
+  );
+
+  return (
+    <div>
+      <div className="space-y-2 mb-3">
+          <label className="flex items-center gap-2 p-2 rounded hover:bg-slate-700/50 cursor-pointer">
+              <input type="radio" name="voicePack" checked={activeId === null} onChange={() => activate(null)} className="accent-pink-500" />
+              <span className="text-sm text-slate-200">使用しない（音声合成で読み上げ）</span>
+          </label>
+
+          {packs.map(pack => {
+              const missing = getMissingVoiceKeys(pack);
+              const clipKeys = Object.keys(pack.clips);
+              const previewKey = previewKeys[pack.id] ?? clipKeys[0];
+              return (
+                  <div key={pack.id} className="p-2 rounded border border-slate-700 bg-slate-800/50">
+                      <label className="flex items-start gap-2 cursor-pointer">
+                          <input type="radio" name="voicePack" checked={activeId === pack.id} onChange={() => activate(pack)} className="mt-1 accent-pink-500" />
+                          <div className="flex-1 min-w-0">
+                              <div className="text-sm text-slate-200 font-medium truncate">{pack.name}</div>
+                              <div className="text-[11px] text-slate-500">
+                                  {pack.author && `${pack.author} / `}{clipKeys.length}件
+                                  {missing.length > 0 && <span className="text-amber-400">（不足 {missing.length}件）</span>}
+                              </div>
+                              {pack.description && <div className="text-xs text-slate-400 mt-0.5">{pack.description}</div>}
+                          </div>
+                      </label>
+
+                      <div className="flex items-center gap-1 mt-2 text-xs">
+                          <button
+                            onClick={() => soundService.previewClips(pack, SAMPLE_KEYS)}
+                            className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200"
+                            title="サンプル文を再生"
+                          >
+                              <Play className="w-3 h-3" /> サンプル
+                          </button>
+                          <select
+                            value={previewKey}
+                            onChange={(e) => setPreviewKeys({ ...previewKeys, [pack.id]: e.target.value })}
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 py-1 text-slate-200"
+                          >
+                              {clipKeys.map(key => (
+                                  <option key={key} value={key}>{VOICE_CLIP_KEYS[key] ? `${key}（${VOICE_CLIP_KEYS[key]}）` : key}</option>
+                              ))}
+                          </select>
+                          <button
+                            onClick={() => soundService.previewClips(pack, [previewKey])}
+                            className="p-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200"
+                            title="試聴"
+                          >
+                              <Play className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(pack)}
+                            className="p-1 bg-slate-700 hover:bg-red-900/60 rounded text-slate-300"
+                            title="削除"
+                          >
+                              <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+
+                      {missing.length > 0 && (
+                          <details className="mt-2 text-[11px] text-slate-400">
+                              <summary className="cursor-pointer select-none">素材のないキー（音声合成で補います）</summary>
+                              <ul className="mt-1 max-h-24 overflow-y-auto font-mono space-y-0.5">
+                                  {missing.map(key => <li key={key}>{key}: {VOICE_CLIP_KEYS[key]}</li>)}
+                              </ul>
+                          </details>
+                      )}
+                  </div>
+              );
+          })}
+      </div>
+
+      <div className="flex gap-2">
+          {fileInput(<><Upload className="w-3 h-3" /> ZIPを読み込む</>, false)}
+          {fileInput(<><FolderOpen className="w-3 h-3" /> フォルダを読み込む</>, true)}
+      </div>
+      <p className="text-[11px] text-slate-500 mt-2">{MANIFEST_FILE} で各キーと音声ファイルを対応付けます（書式は README を参照）。</p>
+
+      {importMessage && (
+          <div className={`text-xs mt-2 ${importMessage.isError ? 'text-red-400' : 'text-emerald-400'}`}>
+              <p>{importMessage.text}</p>
+              {importMessage.warnings.length > 0 && (
+                  <ul className="mt-1 max-h-20 overflow-y-auto text-amber-400 font-mono space-y-0.5">
+                      {importMessage.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                  </ul>
+              )}
+          </div>
+      )}
+    </div>
+  );
+};
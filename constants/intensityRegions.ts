@@ -0,0 +1,203 @@
+// Generated by scripts/generate-intensity-regions.mjs -- do not edit by hand.
+//
+// JMA seismic-intensity regions (地震情報／細分区域) as GeoJSON. Polygons are
+// approximate cells that must be clipped to their prefecture outline when drawn.
+
+import { IntensityRegionCollection } from '../types';
+
+// Approximate cells meet along lines that are not the official borders, so the map
+// fills them without drawing outlines
+export const INTENSITY_REGIONS_OFFICIAL = false;
+
+export const INTENSITY_REGIONS: IntensityRegionCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {"type":"Feature","properties":{"name":"石狩地方北部","pref":"北海道","center":[141.45,43.45]},"geometry":{"type":"Polygon","coordinates":[[[141.65,43.63],[141.65,43.28],[141.59,43.21],[141.08,43.34],[140.8,44.01],[141.65,43.63]]]}},
+    {"type":"Feature","properties":{"name":"石狩地方中部","pref":"北海道","center":[141.35,43.06]},"geometry":{"type":"Polygon","coordinates":[[[141.59,43.21],[141.6,43.1],[141.23,42.66],[141.12,42.77],[141.03,43],[141.08,43.34],[141.59,43.21]]]}},
+    {"type":"Feature","properties":{"name":"石狩地方南部","pref":"北海道","center":[141.6,42.85]},"geometry":{"type":"Polygon","coordinates":[[[141.8,42.9],[141.38,42.35],[141.23,42.66],[141.6,43.1],[141.8,42.9]]]}},
+    {"type":"Feature","properties":{"name":"渡島地方北部","pref":"北海道","center":[140.35,42.25]},"geometry":{"type":"Polygon","coordinates":[[[140.49,42.59],[140.69,42.19],[140.45,41.95],[140.08,42.32],[140.44,42.63],[140.49,42.59]]]}},
+    {"type":"Feature","properties":{"name":"渡島地方東部","pref":"北海道","center":[140.75,41.85]},"geometry":{"type":"Polygon","coordinates":[[[141.44,42.08],[141.63,41.83],[141.74,41.61],[142.08,40.47],[142.33,38.55],[142.03,38.55],[140.4,41.8],[140.45,41.95],[140.69,42.19],[141.44,42.08]]]}},
+    {"type":"Feature","properties":{"name":"渡島地方西部","pref":"北海道","center":[140.15,41.55]},"geometry":{"type":"Polygon","coordinates":[[[137.05,38.55],[137.05,41.78],[137.21,41.8],[140.4,41.8],[142.03,38.55],[137.05,38.55]]]}},
+    {"type":"Feature","properties":{"name":"檜山地方","pref":"北海道","center":[140.15,42.05]},"geometry":{"type":"Polygon","coordinates":[[[140.45,41.95],[140.4,41.8],[137.21,41.8],[140.08,42.32],[140.45,41.95]]]}},
+    {"type":"Feature","properties":{"name":"後志地方北部","pref":"北海道","center":[140.75,43.15]},"geometry":{"type":"Polygon","coordinates":[[[141.08,43.34],[141.03,43],[140.3,43],[139.08,44.56],[140.58,44.27],[140.8,44.01],[141.08,43.34]]]}},
+    {"type":"Feature","properties":{"name":"後志地方東部","pref":"北海道","center":[140.75,42.85]},"geometry":{"type":"Polygon","coordinates":[[[141.03,43],[141.12,42.77],[140.49,42.59],[140.44,42.63],[140.3,43],[141.03,43]]]}},
+    {"type":"Feature","properties":{"name":"後志地方西部","pref":"北海道","center":[140.05,42.6]},"geometry":{"type":"Polygon","coordinates":[[[137.05,41.78],[137.05,45.4],[139.08,44.56],[140.3,43],[140.44,42.63],[140.08,42.32],[137.21,41.8],[137.05,41.78]]]}},
+    {"type":"Feature","properties":{"name":"空知地方北部","pref":"北海道","center":[141.95,43.85]},"geometry":{"type":"Polygon","coordinates":[[[142.21,43.57],[141.77,43.68],[141.85,44.2],[142.06,44.24],[142.29,44.01],[142.21,43.57]]]}},
+    {"type":"Feature","properties":{"name":"空知地方中部","pref":"北海道","center":[141.85,43.45]},"geometry":{"type":"Polygon","coordinates":[[[142.23,43.53],[142.15,43.28],[141.65,43.28],[141.65,43.63],[141.77,43.68],[142.21,43.57],[142.23,43.53]]]}},
+    {"type":"Feature","properties":{"name":"空知地方南部","pref":"北海道","center":[141.85,43.1]},"geometry":{"type":"Polygon","coordinates":[[[142.15,43.28],[142.23,42.95],[142.08,42.87],[141.8,42.9],[141.6,43.1],[141.59,43.21],[141.65,43.28],[142.15,43.28]]]}},
+    {"type":"Feature","properties":{"name":"上川地方北部","pref":"北海道","center":[142.45,44.35]},"geometry":{"type":"Polygon","coordinates":[[[142.29,44.01],[142.06,44.24],[142.16,44.55],[142.9,44.7],[142.83,44.1],[142.29,44.01]]]}},
+    {"type":"Feature","properties":{"name":"上川地方中部","pref":"北海道","center":[142.55,43.75]},"geometry":{"type":"Polygon","coordinates":[[[142.23,43.53],[142.21,43.57],[142.29,44.01],[142.83,44.1],[143.07,43.76],[142.85,43.47],[142.23,43.53]]]}},
+    {"type":"Feature","properties":{"name":"上川地方南部","pref":"北海道","center":[142.5,43.25]},"geometry":{"type":"Polygon","coordinates":[[[142.23,43.53],[142.85,43.47],[142.85,43.08],[142.71,42.79],[142.53,42.8],[142.23,42.95],[142.15,43.28],[142.23,43.53]]]}},
+    {"type":"Feature","properties":{"name":"留萌地方中北部","pref":"北海道","center":[141.8,44.55]},"geometry":{"type":"Polygon","coordinates":[[[142.06,44.24],[141.85,44.2],[140.94,44.41],[141.52,44.95],[141.96,44.92],[142.16,44.55],[142.06,44.24]]]}},
+    {"type":"Feature","properties":{"name":"留萌地方南部","pref":"北海道","center":[141.65,43.9]},"geometry":{"type":"Polygon","coordinates":[[[141.77,43.68],[141.65,43.63],[140.8,44.01],[140.58,44.27],[140.94,44.41],[141.85,44.2],[141.77,43.68]]]}},
+    {"type":"Feature","properties":{"name":"宗谷地方北部","pref":"北海道","center":[141.85,45.3]},"geometry":{"type":"Polygon","coordinates":[[[141.28,48.3],[145,48.3],[145,48.29],[141.96,44.92],[141.52,44.95],[141.28,48.3]]]}},
+    {"type":"Feature","properties":{"name":"宗谷地方南部","pref":"北海道","center":[142.35,44.85]},"geometry":{"type":"Polygon","coordinates":[[[142.9,44.7],[142.16,44.55],[141.96,44.92],[145,48.29],[144.69,47.38],[142.9,44.7]]]}},
+    {"type":"Feature","properties":{"name":"北海道利尻礼文","pref":"北海道","center":[141.15,45.25]},"geometry":{"type":"Polygon","coordinates":[[[137.05,48.3],[141.28,48.3],[141.52,44.95],[140.94,44.41],[140.58,44.27],[139.08,44.56],[137.05,45.4],[137.05,48.3]]]}},
+    {"type":"Feature","properties":{"name":"網走地方","pref":"北海道","center":[144.3,43.85]},"geometry":{"type":"Polygon","coordinates":[[[144.4,45.68],[144.67,43.73],[144.65,43.69],[144.05,43.56],[143.96,44.54],[144.4,45.68]]]}},
+    {"type":"Feature","properties":{"name":"北見地方","pref":"北海道","center":[143.75,43.8]},"geometry":{"type":"Polygon","coordinates":[[[143.25,43.75],[143.96,44.54],[144.05,43.56],[143.9,43.31],[143.77,43.23],[143.25,43.75]]]}},
+    {"type":"Feature","properties":{"name":"紋別地方","pref":"北海道","center":[143.25,44.25]},"geometry":{"type":"Polygon","coordinates":[[[143.07,43.76],[142.83,44.1],[142.9,44.7],[144.69,47.38],[144.4,45.68],[143.96,44.54],[143.25,43.75],[143.07,43.76]]]}},
+    {"type":"Feature","properties":{"name":"胆振地方西部","pref":"北海道","center":[140.85,42.5]},"geometry":{"type":"Polygon","coordinates":[[[141.44,42.08],[140.69,42.19],[140.49,42.59],[141.12,42.77],[141.23,42.66],[141.38,42.35],[141.44,42.08]]]}},
+    {"type":"Feature","properties":{"name":"胆振地方中東部","pref":"北海道","center":[141.8,42.7]},"geometry":{"type":"Polygon","coordinates":[[[141.8,42.9],[142.08,42.87],[141.63,41.83],[141.44,42.08],[141.38,42.35],[141.8,42.9]]]}},
+    {"type":"Feature","properties":{"name":"日高地方西部","pref":"北海道","center":[142.15,42.55]},"geometry":{"type":"Polygon","coordinates":[[[142.08,42.87],[142.23,42.95],[142.53,42.8],[141.74,41.61],[141.63,41.83],[142.08,42.87]]]}},
+    {"type":"Feature","properties":{"name":"日高地方中部","pref":"北海道","center":[142.45,42.35]},"geometry":{"type":"Polygon","coordinates":[[[142.53,42.8],[142.71,42.79],[142.85,42.59],[142.08,40.47],[141.74,41.61],[142.53,42.8]]]}},
+    {"type":"Feature","properties":{"name":"日高地方東部","pref":"北海道","center":[143,42.15]},"geometry":{"type":"Polygon","coordinates":[[[146.16,38.55],[142.33,38.55],[142.08,40.47],[142.85,42.59],[142.86,42.59],[145.11,40.34],[145.88,39.16],[146.16,38.55]]]}},
+    {"type":"Feature","properties":{"name":"十勝地方北部","pref":"北海道","center":[143.2,43.25]},"geometry":{"type":"Polygon","coordinates":[[[143.07,43.76],[143.25,43.75],[143.77,43.23],[143.74,43.08],[142.85,43.08],[142.85,43.47],[143.07,43.76]]]}},
+    {"type":"Feature","properties":{"name":"十勝地方中部","pref":"北海道","center":[143.2,42.9]},"geometry":{"type":"Polygon","coordinates":[[[142.85,43.08],[143.74,43.08],[143.76,42.79],[142.86,42.59],[142.85,42.59],[142.71,42.79],[142.85,43.08]]]}},
+    {"type":"Feature","properties":{"name":"十勝地方南部","pref":"北海道","center":[143.3,42.45]},"geometry":{"type":"Polygon","coordinates":[[[143.76,42.79],[145.11,40.34],[142.86,42.59],[143.76,42.79]]]}},
+    {"type":"Feature","properties":{"name":"釧路地方北部","pref":"北海道","center":[144.4,43.4]},"geometry":{"type":"Polygon","coordinates":[[[143.9,43.31],[144.05,43.56],[144.65,43.69],[144.7,43.11],[143.9,43.31]]]}},
+    {"type":"Feature","properties":{"name":"釧路地方中南部","pref":"北海道","center":[144.3,43]},"geometry":{"type":"Polygon","coordinates":[[[143.76,42.79],[143.74,43.08],[143.77,43.23],[143.9,43.31],[144.7,43.11],[145.06,42.6],[145.88,39.16],[145.11,40.34],[143.76,42.79]]]}},
+    {"type":"Feature","properties":{"name":"根室地方北部","pref":"北海道","center":[145,43.95]},"geometry":{"type":"Polygon","coordinates":[[[148.55,48.3],[148.55,46.4],[145.32,43.67],[144.67,43.73],[144.4,45.68],[144.69,47.38],[145,48.29],[145,48.3],[148.55,48.3]]]}},
+    {"type":"Feature","properties":{"name":"根室地方中部","pref":"北海道","center":[144.95,43.45]},"geometry":{"type":"Polygon","coordinates":[[[144.65,43.69],[144.67,43.73],[145.32,43.67],[145.06,42.6],[144.7,43.11],[144.65,43.69]]]}},
+    {"type":"Feature","properties":{"name":"根室地方南部","pref":"北海道","center":[145.55,43.3]},"geometry":{"type":"Polygon","coordinates":[[[148.55,38.55],[146.16,38.55],[145.88,39.16],[145.06,42.6],[145.32,43.67],[148.55,46.4],[148.55,38.55]]]}},
+    {"type":"Feature","properties":{"name":"青森県津軽北部","pref":"青森県","center":[140.55,40.95]},"geometry":{"type":"Polygon","coordinates":[[[137.4,44.3],[138.8,44.3],[141,40.85],[140.88,40.6],[137.4,41.9],[137.4,44.3]]]}},
+    {"type":"Feature","properties":{"name":"青森県津軽南部","pref":"青森県","center":[140.4,40.55]},"geometry":{"type":"Polygon","coordinates":[[[137.4,37.55],[137.4,41.9],[140.88,40.6],[140.88,37.55],[137.4,37.55]]]}},
+    {"type":"Feature","properties":{"name":"青森県三八上北","pref":"青森県","center":[141.35,40.55]},"geometry":{"type":"Polygon","coordinates":[[[144.35,37.55],[140.88,37.55],[140.88,40.6],[141,40.85],[144.35,41.97],[144.35,37.55]]]}},
+    {"type":"Feature","properties":{"name":"青森県下北","pref":"青森県","center":[141.1,41.3]},"geometry":{"type":"Polygon","coordinates":[[[144.35,44.3],[144.35,41.97],[141,40.85],[138.8,44.3],[144.35,44.3]]]}},
+    {"type":"Feature","properties":{"name":"岩手県沿岸北部","pref":"岩手県","center":[141.75,40]},"geometry":{"type":"Polygon","coordinates":[[[144.75,43],[144.75,39.58],[141.54,39.58],[140.68,43],[144.75,43]]]}},
+    {"type":"Feature","properties":{"name":"岩手県沿岸南部","pref":"岩手県","center":[141.75,39.15]},"geometry":{"type":"Polygon","coordinates":[[[144.75,36.15],[141.43,36.15],[141.43,39.48],[141.54,39.58],[144.75,39.58],[144.75,36.15]]]}},
+    {"type":"Feature","properties":{"name":"岩手県内陸北部","pref":"岩手県","center":[141.15,39.85]},"geometry":{"type":"Polygon","coordinates":[[[138.1,43],[140.68,43],[141.54,39.58],[141.43,39.48],[138.1,39.72],[138.1,43]]]}},
+    {"type":"Feature","properties":{"name":"岩手県内陸南部","pref":"岩手県","center":[141.1,39.15]},"geometry":{"type":"Polygon","coordinates":[[[138.1,36.15],[138.1,39.72],[141.43,39.48],[141.43,36.15],[138.1,36.15]]]}},
+    {"type":"Feature","properties":{"name":"宮城県北部","pref":"宮城県","center":[141.1,38.65]},"geometry":{"type":"Polygon","coordinates":[[[144.1,41.65],[144.1,36.47],[142.5,37.39],[137.7,40.81],[137.7,41.65],[144.1,41.65]]]}},
+    {"type":"Feature","properties":{"name":"宮城県中部","pref":"宮城県","center":[140.85,38.3]},"geometry":{"type":"Polygon","coordinates":[[[137.7,39.44],[137.7,40.81],[142.5,37.39],[137.7,39.44]]]}},
+    {"type":"Feature","properties":{"name":"宮城県南部","pref":"宮城県","center":[140.7,37.95]},"geometry":{"type":"Polygon","coordinates":[[[137.7,34.95],[137.7,39.44],[142.5,37.39],[144.1,36.47],[144.1,34.95],[137.7,34.95]]]}},
+    {"type":"Feature","properties":{"name":"秋田県沿岸北部","pref":"秋田県","center":[140.1,40.15]},"geometry":{"type":"Polygon","coordinates":[[[137.1,43.2],[140.05,43.2],[140.38,39.85],[140.34,39.83],[137.1,39.83],[137.1,43.2]]]}},
+    {"type":"Feature","properties":{"name":"秋田県沿岸南部","pref":"秋田県","center":[140.1,39.5]},"geometry":{"type":"Polygon","coordinates":[[[137.1,36.45],[137.1,39.83],[140.34,39.83],[139.92,36.45],[137.1,36.45]]]}},
+    {"type":"Feature","properties":{"name":"秋田県内陸北部","pref":"秋田県","center":[140.6,40.2]},"geometry":{"type":"Polygon","coordinates":[[[143.6,43.2],[143.6,39.42],[140.38,39.85],[140.05,43.2],[143.6,43.2]]]}},
+    {"type":"Feature","properties":{"name":"秋田県内陸南部","pref":"秋田県","center":[140.5,39.45]},"geometry":{"type":"Polygon","coordinates":[[[143.6,36.45],[139.92,36.45],[140.34,39.83],[140.38,39.85],[143.6,39.42],[143.6,36.45]]]}},
+    {"type":"Feature","properties":{"name":"山形県庄内","pref":"山形県","center":[139.85,38.8]},"geometry":{"type":"Polygon","coordinates":[[[136.85,41.8],[140.41,41.8],[140.05,38.55],[139.85,38.35],[136.85,37.65],[136.85,41.8]]]}},
+    {"type":"Feature","properties":{"name":"山形県最上","pref":"山形県","center":[140.3,38.75]},"geometry":{"type":"Polygon","coordinates":[[[143.3,41.8],[143.3,38.55],[140.05,38.55],[140.41,41.8],[143.3,41.8]]]}},
+    {"type":"Feature","properties":{"name":"山形県村山","pref":"山形県","center":[140.3,38.35]},"geometry":{"type":"Polygon","coordinates":[[[143.3,38.55],[143.3,36.2],[139.85,38.35],[140.05,38.55],[143.3,38.55]]]}},
+    {"type":"Feature","properties":{"name":"山形県置賜","pref":"山形県","center":[140.05,37.95]},"geometry":{"type":"Polygon","coordinates":[[[136.85,34.95],[136.85,37.65],[139.85,38.35],[143.3,36.2],[143.3,34.95],[136.85,34.95]]]}},
+    {"type":"Feature","properties":{"name":"福島県中通り","pref":"福島県","center":[140.4,37.4]},"geometry":{"type":"Polygon","coordinates":[[[140.07,40.4],[140.95,40.4],[140.35,34.35],[140.07,34.35],[140.07,40.4]]]}},
+    {"type":"Feature","properties":{"name":"福島県浜通り","pref":"福島県","center":[140.9,37.35]},"geometry":{"type":"Polygon","coordinates":[[[143.9,34.35],[140.35,34.35],[140.95,40.4],[143.9,40.4],[143.9,34.35]]]}},
+    {"type":"Feature","properties":{"name":"福島県会津","pref":"福島県","center":[139.75,37.4]},"geometry":{"type":"Polygon","coordinates":[[[140.07,34.35],[136.75,34.35],[136.75,40.4],[140.07,40.4],[140.07,34.35]]]}},
+    {"type":"Feature","properties":{"name":"茨城県北部","pref":"茨城県","center":[140.4,36.55]},"geometry":{"type":"Polygon","coordinates":[[[143.4,39.55],[143.4,34.74],[140.28,36.3],[137.15,37.86],[137.15,39.55],[143.4,39.55]]]}},
+    {"type":"Feature","properties":{"name":"茨城県南部","pref":"茨城県","center":[140.15,36.05]},"geometry":{"type":"Polygon","coordinates":[[[137.15,33.05],[137.15,37.86],[140.28,36.3],[143.4,34.74],[143.4,33.05],[137.15,33.05]]]}},
+    {"type":"Feature","properties":{"name":"栃木県北部","pref":"栃木県","center":[139.75,36.85]},"geometry":{"type":"Polygon","coordinates":[[[136.75,36.27],[136.75,39.85],[142.8,39.85],[142.8,37.03],[136.75,36.27]]]}},
+    {"type":"Feature","properties":{"name":"栃木県南部","pref":"栃木県","center":[139.8,36.45]},"geometry":{"type":"Polygon","coordinates":[[[136.75,33.45],[136.75,36.27],[142.8,37.03],[142.8,33.45],[136.75,33.45]]]}},
+    {"type":"Feature","properties":{"name":"群馬県北部","pref":"群馬県","center":[138.95,36.7]},"geometry":{"type":"Polygon","coordinates":[[[135.95,35.65],[135.95,39.7],[142.05,39.7],[142.05,37.4],[135.95,35.65]]]}},
+    {"type":"Feature","properties":{"name":"群馬県南部","pref":"群馬県","center":[139.05,36.35]},"geometry":{"type":"Polygon","coordinates":[[[135.95,33.35],[135.95,35.65],[142.05,37.4],[142.05,33.35],[135.95,33.35]]]}},
+    {"type":"Feature","properties":{"name":"埼玉県北部","pref":"埼玉県","center":[139.4,36.1]},"geometry":{"type":"Polygon","coordinates":[[[142.6,39.1],[142.6,39.1],[139.29,35.79],[138.05,39.1],[142.6,39.1]]]}},
+    {"type":"Feature","properties":{"name":"埼玉県南部","pref":"埼玉県","center":[139.6,35.9]},"geometry":{"type":"Polygon","coordinates":[[[142.6,32.9],[139.05,32.9],[139.29,35.79],[142.6,39.1],[142.6,32.9]]]}},
+    {"type":"Feature","properties":{"name":"埼玉県秩父","pref":"埼玉県","center":[139,35.95]},"geometry":{"type":"Polygon","coordinates":[[[136,39.1],[138.05,39.1],[139.29,35.79],[139.05,32.9],[136,32.9],[136,39.1]]]}},
+    {"type":"Feature","properties":{"name":"千葉県北東部","pref":"千葉県","center":[140.5,35.7]},"geometry":{"type":"Polygon","coordinates":[[[143.5,38.7],[143.5,32.79],[140.28,35.42],[140.28,38.7],[143.5,38.7]]]}},
+    {"type":"Feature","properties":{"name":"千葉県北西部","pref":"千葉県","center":[140.05,35.7]},"geometry":{"type":"Polygon","coordinates":[[[137.05,38.7],[140.28,38.7],[140.28,35.42],[137.05,35.42],[137.05,38.7]]]}},
+    {"type":"Feature","properties":{"name":"千葉県南部","pref":"千葉県","center":[140.05,35.15]},"geometry":{"type":"Polygon","coordinates":[[[137.05,32.15],[137.05,35.42],[140.28,35.42],[143.5,32.79],[143.5,32.15],[137.05,32.15]]]}},
+    {"type":"Feature","properties":{"name":"東京都２３区","pref":"東京都","center":[139.75,35.69]},"geometry":{"type":"Polygon","coordinates":[[[145.19,38.78],[145.19,34.48],[142.84,34.45],[140.89,34.71],[139.62,35.2],[139.57,36.54],[139.91,38.78],[145.19,38.78]]]}},
+    {"type":"Feature","properties":{"name":"東京都多摩東部","pref":"東京都","center":[139.45,35.68]},"geometry":{"type":"Polygon","coordinates":[[[139.13,35.23],[139.57,36.54],[139.62,35.2],[139.13,35.23]]]}},
+    {"type":"Feature","properties":{"name":"東京都多摩西部","pref":"東京都","center":[139.15,35.78]},"geometry":{"type":"Polygon","coordinates":[[[136.14,38.78],[139.91,38.78],[139.57,36.54],[139.13,35.23],[138.15,35],[136.14,35.01],[136.14,38.78]]]}},
+    {"type":"Feature","properties":{"name":"伊豆大島","pref":"東京都","center":[139.39,34.74]},"geometry":{"type":"Polygon","coordinates":[[[138.43,34.87],[138.15,35],[139.13,35.23],[139.62,35.2],[140.89,34.71],[139.63,34.45],[138.43,34.87]]]}},
+    {"type":"Feature","properties":{"name":"新島","pref":"東京都","center":[139.26,34.37]},"geometry":{"type":"Polygon","coordinates":[[[139.35,34.18],[138.43,34.87],[139.63,34.45],[139.35,34.18]]]}},
+    {"type":"Feature","properties":{"name":"神津島","pref":"東京都","center":[139.14,34.21]},"geometry":{"type":"Polygon","coordinates":[[[136.14,31.7],[136.14,35.01],[138.15,35],[138.43,34.87],[139.35,34.18],[139.1,33.45],[136.14,31.7]]]}},
+    {"type":"Feature","properties":{"name":"三宅島","pref":"東京都","center":[139.53,34.08]},"geometry":{"type":"Polygon","coordinates":[[[139.1,33.45],[139.35,34.18],[139.63,34.45],[140.89,34.71],[142.84,34.45],[139.1,33.45]]]}},
+    {"type":"Feature","properties":{"name":"八丈島","pref":"東京都","center":[139.79,33.11]},"geometry":{"type":"Polygon","coordinates":[[[139.1,33.45],[142.84,34.45],[145.19,34.48],[145.19,31.77],[136.14,28.17],[136.14,31.7],[139.1,33.45]]]}},
+    {"type":"Feature","properties":{"name":"小笠原","pref":"東京都","center":[142.19,27.09]},"geometry":{"type":"Polygon","coordinates":[[[136.14,24.09],[136.14,28.17],[145.19,31.77],[145.19,24.09],[136.14,24.09]]]}},
+    {"type":"Feature","properties":{"name":"神奈川県東部","pref":"神奈川県","center":[139.55,35.45]},"geometry":{"type":"Polygon","coordinates":[[[142.55,32.35],[140.11,32.35],[139.35,35.4],[138.59,38.45],[142.55,38.45],[142.55,32.35]]]}},
+    {"type":"Feature","properties":{"name":"神奈川県西部","pref":"神奈川県","center":[139.15,35.35]},"geometry":{"type":"Polygon","coordinates":[[[136.15,38.45],[138.59,38.45],[139.35,35.4],[140.11,32.35],[136.15,32.35],[136.15,38.45]]]}},
+    {"type":"Feature","properties":{"name":"新潟県上越","pref":"新潟県","center":[138.25,37.1]},"geometry":{"type":"Polygon","coordinates":[[[135.25,34.1],[135.25,38.06],[138.41,37.56],[139.85,34.1],[135.25,34.1]]]}},
+    {"type":"Feature","properties":{"name":"新潟県中越","pref":"新潟県","center":[138.85,37.35]},"geometry":{"type":"Polygon","coordinates":[[[142.35,34.1],[139.85,34.1],[138.41,37.56],[138.85,37.85],[142.35,34.35],[142.35,34.1]]]}},
+    {"type":"Feature","properties":{"name":"新潟県下越","pref":"新潟県","center":[139.35,37.85]},"geometry":{"type":"Polygon","coordinates":[[[142.35,41.05],[142.35,34.35],[138.85,37.85],[139.53,41.05],[142.35,41.05]]]}},
+    {"type":"Feature","properties":{"name":"新潟県佐渡","pref":"新潟県","center":[138.4,38.05]},"geometry":{"type":"Polygon","coordinates":[[[135.25,41.05],[139.53,41.05],[138.85,37.85],[138.41,37.56],[135.25,38.06],[135.25,41.05]]]}},
+    {"type":"Feature","properties":{"name":"富山県東部","pref":"富山県","center":[137.35,36.7]},"geometry":{"type":"Polygon","coordinates":[[[136.77,39.7],[140.35,39.7],[140.35,33.65],[137.53,33.65],[136.77,39.7]]]}},
+    {"type":"Feature","properties":{"name":"富山県西部","pref":"富山県","center":[136.95,36.65]},"geometry":{"type":"Polygon","coordinates":[[[133.95,39.7],[136.77,39.7],[137.53,33.65],[133.95,33.65],[133.95,39.7]]]}},
+    {"type":"Feature","properties":{"name":"石川県能登","pref":"石川県","center":[136.9,37.15]},"geometry":{"type":"Polygon","coordinates":[[[133.55,38.39],[133.55,40.15],[139.9,40.15],[139.9,35.21],[133.55,38.39]]]}},
+    {"type":"Feature","properties":{"name":"石川県加賀","pref":"石川県","center":[136.55,36.45]},"geometry":{"type":"Polygon","coordinates":[[[133.55,33.45],[133.55,38.39],[139.9,35.21],[139.9,33.45],[133.55,33.45]]]}},
+    {"type":"Feature","properties":{"name":"福井県嶺北","pref":"福井県","center":[136.3,36.05]},"geometry":{"type":"Polygon","coordinates":[[[139.3,39.05],[139.3,33.14],[132.85,38.41],[132.85,39.05],[139.3,39.05]]]}},
+    {"type":"Feature","properties":{"name":"福井県嶺南","pref":"福井県","center":[135.85,35.5]},"geometry":{"type":"Polygon","coordinates":[[[139.3,33.14],[139.3,32.5],[132.85,32.5],[132.85,38.41],[139.3,33.14]]]}},
+    {"type":"Feature","properties":{"name":"山梨県中・西部","pref":"山梨県","center":[138.5,35.6]},"geometry":{"type":"Polygon","coordinates":[[[138.24,32.55],[135.5,32.55],[135.5,38.6],[139.11,38.6],[138.24,32.55]]]}},
+    {"type":"Feature","properties":{"name":"山梨県東部・富士五湖","pref":"山梨県","center":[138.85,35.55]},"geometry":{"type":"Polygon","coordinates":[[[141.85,32.55],[138.24,32.55],[139.11,38.6],[141.85,38.6],[141.85,32.55]]]}},
+    {"type":"Feature","properties":{"name":"長野県北部","pref":"長野県","center":[138.2,36.65]},"geometry":{"type":"Polygon","coordinates":[[[141.2,39.65],[141.2,35.04],[139.5,35.63],[134.85,38.22],[134.85,39.65],[141.2,39.65]]]}},
+    {"type":"Feature","properties":{"name":"長野県中部","pref":"長野県","center":[137.95,36.2]},"geometry":{"type":"Polygon","coordinates":[[[134.85,36.48],[134.85,38.22],[139.5,35.63],[134.85,36.48]]]}},
+    {"type":"Feature","properties":{"name":"長野県南部","pref":"長野県","center":[137.85,35.65]},"geometry":{"type":"Polygon","coordinates":[[[134.85,32.65],[134.85,36.48],[139.5,35.63],[141.2,35.04],[141.2,32.65],[134.85,32.65]]]}},
+    {"type":"Feature","properties":{"name":"岐阜県飛騨","pref":"岐阜県","center":[137.2,36.1]},"geometry":{"type":"Polygon","coordinates":[[[140.35,39.1],[140.35,36.48],[137.07,35.73],[133.75,38.22],[133.75,39.1],[140.35,39.1]]]}},
+    {"type":"Feature","properties":{"name":"岐阜県美濃東部","pref":"岐阜県","center":[137.35,35.45]},"geometry":{"type":"Polygon","coordinates":[[[140.35,32.45],[136.8,32.45],[137.07,35.73],[140.35,36.48],[140.35,32.45]]]}},
+    {"type":"Feature","properties":{"name":"岐阜県美濃中西部","pref":"岐阜県","center":[136.75,35.5]},"geometry":{"type":"Polygon","coordinates":[[[133.75,32.45],[133.75,38.22],[137.07,35.73],[136.8,32.45],[133.75,32.45]]]}},
+    {"type":"Feature","properties":{"name":"静岡県伊豆","pref":"静岡県","center":[138.95,34.85]},"geometry":{"type":"Polygon","coordinates":[[[141.95,31.8],[138.51,31.8],[138.41,34],[138.6,34.84],[141.95,37.07],[141.95,31.8]]]}},
+    {"type":"Feature","properties":{"name":"静岡県東部","pref":"静岡県","center":[138.75,35.15]},"geometry":{"type":"Polygon","coordinates":[[[141.95,38.15],[141.95,37.07],[138.6,34.84],[137.5,38.15],[141.95,38.15]]]}},
+    {"type":"Feature","properties":{"name":"静岡県中部","pref":"静岡県","center":[138.3,35]},"geometry":{"type":"Polygon","coordinates":[[[136.75,38.15],[137.5,38.15],[138.6,34.84],[138.41,34],[136.75,38.15]]]}},
+    {"type":"Feature","properties":{"name":"静岡県西部","pref":"静岡県","center":[137.8,34.8]},"geometry":{"type":"Polygon","coordinates":[[[134.8,38.15],[136.75,38.15],[138.41,34],[138.51,31.8],[134.8,31.8],[134.8,38.15]]]}},
+    {"type":"Feature","properties":{"name":"愛知県東部","pref":"愛知県","center":[137.45,34.85]},"geometry":{"type":"Polygon","coordinates":[[[140.45,31.85],[135.64,31.85],[137.2,34.98],[138.76,38.1],[140.45,38.1],[140.45,31.85]]]}},
+    {"type":"Feature","properties":{"name":"愛知県西部","pref":"愛知県","center":[136.95,35.1]},"geometry":{"type":"Polygon","coordinates":[[[133.95,38.1],[138.76,38.1],[137.2,34.98],[135.64,31.85],[133.95,31.85],[133.95,38.1]]]}},
+    {"type":"Feature","properties":{"name":"三重県北部","pref":"三重県","center":[136.5,35]},"geometry":{"type":"Polygon","coordinates":[[[139.5,38],[139.5,34.04],[133.74,35.48],[133.15,35.69],[133.15,38],[139.5,38]]]}},
+    {"type":"Feature","properties":{"name":"三重県中部","pref":"三重県","center":[136.4,34.6]},"geometry":{"type":"Polygon","coordinates":[[[139.5,34.04],[139.5,32.86],[133.74,35.48],[139.5,34.04]]]}},
+    {"type":"Feature","properties":{"name":"三重県南部","pref":"三重県","center":[136.15,34.05]},"geometry":{"type":"Polygon","coordinates":[[[133.15,31.05],[133.15,35.69],[133.74,35.48],[139.5,32.86],[139.5,31.05],[133.15,31.05]]]}},
+    {"type":"Feature","properties":{"name":"滋賀県北部","pref":"滋賀県","center":[136.2,35.45]},"geometry":{"type":"Polygon","coordinates":[[[139.2,38.45],[139.2,34.49],[133.1,36.01],[133.1,38.45],[139.2,38.45]]]}},
+    {"type":"Feature","properties":{"name":"滋賀県南部","pref":"滋賀県","center":[136.1,35.05]},"geometry":{"type":"Polygon","coordinates":[[[139.2,34.49],[139.2,32.05],[133.1,32.05],[133.1,36.01],[139.2,34.49]]]}},
+    {"type":"Feature","properties":{"name":"京都府北部","pref":"京都府","center":[135.25,35.5]},"geometry":{"type":"Polygon","coordinates":[[[138.7,38.5],[138.7,38.15],[135.48,35.25],[132.25,32.35],[132.25,38.5],[138.7,38.5]]]}},
+    {"type":"Feature","properties":{"name":"京都府南部","pref":"京都府","center":[135.7,35]},"geometry":{"type":"Polygon","coordinates":[[[132.25,32],[132.25,32.35],[135.48,35.25],[138.7,38.15],[138.7,32],[132.25,32]]]}},
+    {"type":"Feature","properties":{"name":"大阪府北部","pref":"大阪府","center":[135.5,34.78]},"geometry":{"type":"Polygon","coordinates":[[[138.5,37.78],[138.5,34.16],[135.48,34.62],[132.45,35.07],[132.45,37.78],[138.5,37.78]]]}},
+    {"type":"Feature","properties":{"name":"大阪府南部","pref":"大阪府","center":[135.45,34.45]},"geometry":{"type":"Polygon","coordinates":[[[132.45,31.45],[132.45,35.07],[135.48,34.62],[138.5,34.16],[138.5,31.45],[132.45,31.45]]]}},
+    {"type":"Feature","properties":{"name":"兵庫県北部","pref":"兵庫県","center":[134.8,35.45]},"geometry":{"type":"Polygon","coordinates":[[[138.15,38.45],[138.15,36.83],[134.92,35.1],[131.6,36.3],[131.6,38.45],[138.15,38.45]]]}},
+    {"type":"Feature","properties":{"name":"兵庫県南東部","pref":"兵庫県","center":[135.15,34.8]},"geometry":{"type":"Polygon","coordinates":[[[138.15,36.83],[138.15,32.24],[134.85,34.71],[134.92,35.1],[138.15,36.83]]]}},
+    {"type":"Feature","properties":{"name":"兵庫県南西部","pref":"兵庫県","center":[134.6,34.9]},"geometry":{"type":"Polygon","coordinates":[[[131.6,33.09],[131.6,36.3],[134.92,35.1],[134.85,34.71],[131.6,33.09]]]}},
+    {"type":"Feature","properties":{"name":"兵庫県淡路島","pref":"兵庫県","center":[134.85,34.4]},"geometry":{"type":"Polygon","coordinates":[[[131.6,31.4],[131.6,33.09],[134.85,34.71],[138.15,32.24],[138.15,31.4],[131.6,31.4]]]}},
+    {"type":"Feature","properties":{"name":"奈良県","pref":"奈良県","center":[135.85,34.45]},"geometry":{"type":"Polygon","coordinates":[[[132.85,31.45],[132.85,37.45],[138.85,37.45],[138.85,31.45],[132.85,31.45]]]}},
+    {"type":"Feature","properties":{"name":"和歌山県北部","pref":"和歌山県","center":[135.35,34.1]},"geometry":{"type":"Polygon","coordinates":[[[138.55,37.1],[138.55,35.45],[132.35,32.35],[132.35,37.1],[138.55,37.1]]]}},
+    {"type":"Feature","properties":{"name":"和歌山県南部","pref":"和歌山県","center":[135.55,33.7]},"geometry":{"type":"Polygon","coordinates":[[[138.55,35.45],[138.55,30.7],[132.35,30.7],[132.35,32.35],[138.55,35.45]]]}},
+    {"type":"Feature","properties":{"name":"鳥取県東部","pref":"鳥取県","center":[134.3,35.4]},"geometry":{"type":"Polygon","coordinates":[[[134.05,32.35],[134.05,38.4],[137.3,38.4],[137.3,32.35],[134.05,32.35]]]}},
+    {"type":"Feature","properties":{"name":"鳥取県中部","pref":"鳥取県","center":[133.8,35.4]},"geometry":{"type":"Polygon","coordinates":[[[133.22,38.4],[134.05,38.4],[134.05,32.35],[133.98,32.35],[133.22,38.4]]]}},
+    {"type":"Feature","properties":{"name":"鳥取県西部","pref":"鳥取県","center":[133.4,35.35]},"geometry":{"type":"Polygon","coordinates":[[[133.98,32.35],[130.4,32.35],[130.4,38.4],[133.22,38.4],[133.98,32.35]]]}},
+    {"type":"Feature","properties":{"name":"島根県東部","pref":"島根県","center":[132.9,35.3]},"geometry":{"type":"Polygon","coordinates":[[[136.2,31.8],[134.53,31.8],[131.8,36.17],[136.2,34.7],[136.2,31.8]]]}},
+    {"type":"Feature","properties":{"name":"島根県西部","pref":"島根県","center":[132.1,34.8]},"geometry":{"type":"Polygon","coordinates":[[[129.1,31.8],[129.1,38.29],[131.8,36.17],[134.53,31.8],[129.1,31.8]]]}},
+    {"type":"Feature","properties":{"name":"島根県隠岐","pref":"島根県","center":[133.2,36.2]},"geometry":{"type":"Polygon","coordinates":[[[136.2,39.2],[136.2,34.7],[131.8,36.17],[129.1,38.29],[129.1,39.2],[136.2,39.2]]]}},
+    {"type":"Feature","properties":{"name":"岡山県北部","pref":"岡山県","center":[133.8,35.05]},"geometry":{"type":"Polygon","coordinates":[[[136.85,38.05],[136.85,35.31],[130.8,34.44],[130.8,38.05],[136.85,38.05]]]}},
+    {"type":"Feature","properties":{"name":"岡山県南部","pref":"岡山県","center":[133.85,34.7]},"geometry":{"type":"Polygon","coordinates":[[[136.85,35.31],[136.85,31.7],[130.8,31.7],[130.8,34.44],[136.85,35.31]]]}},
+    {"type":"Feature","properties":{"name":"広島県北部","pref":"広島県","center":[132.8,34.8]},"geometry":{"type":"Polygon","coordinates":[[[129.45,37.8],[135.36,37.8],[132.83,34.42],[129.45,37.38],[129.45,37.8]]]}},
+    {"type":"Feature","properties":{"name":"広島県南東部","pref":"広島県","center":[133.2,34.5]},"geometry":{"type":"Polygon","coordinates":[[[136.2,31.4],[133.23,31.4],[132.83,34.42],[135.36,37.8],[136.2,37.8],[136.2,31.4]]]}},
+    {"type":"Feature","properties":{"name":"広島県南西部","pref":"広島県","center":[132.45,34.4]},"geometry":{"type":"Polygon","coordinates":[[[129.45,31.4],[129.45,37.38],[132.83,34.42],[133.23,31.4],[129.45,31.4]]]}},
+    {"type":"Feature","properties":{"name":"山口県北部","pref":"山口県","center":[131.45,34.35]},"geometry":{"type":"Polygon","coordinates":[[[129.12,37.35],[133.44,37.35],[131.81,34.35],[131.27,34.13],[129.12,37.35]]]}},
+    {"type":"Feature","properties":{"name":"山口県東部","pref":"山口県","center":[132,34.05]},"geometry":{"type":"Polygon","coordinates":[[[135,31.05],[131.5,31.05],[131.5,31.6],[131.81,34.35],[133.44,37.35],[135,37.35],[135,31.05]]]}},
+    {"type":"Feature","properties":{"name":"山口県中部","pref":"山口県","center":[131.55,34.1]},"geometry":{"type":"Polygon","coordinates":[[[131.27,34.13],[131.81,34.35],[131.5,31.6],[131.27,34.13]]]}},
+    {"type":"Feature","properties":{"name":"山口県西部","pref":"山口県","center":[131,34.05]},"geometry":{"type":"Polygon","coordinates":[[[128,37.35],[129.12,37.35],[131.27,34.13],[131.5,31.6],[131.5,31.05],[128,31.05],[128,37.35]]]}},
+    {"type":"Feature","properties":{"name":"徳島県北部","pref":"徳島県","center":[134.35,34.05]},"geometry":{"type":"Polygon","coordinates":[[[137.45,37.05],[137.45,34.92],[131.35,32.88],[131.35,37.05],[137.45,37.05]]]}},
+    {"type":"Feature","properties":{"name":"徳島県南部","pref":"徳島県","center":[134.45,33.75]},"geometry":{"type":"Polygon","coordinates":[[[137.45,34.92],[137.45,30.75],[131.35,30.75],[131.35,32.88],[137.45,34.92]]]}},
+    {"type":"Feature","properties":{"name":"香川県東部","pref":"香川県","center":[134.15,34.3]},"geometry":{"type":"Polygon","coordinates":[[[133.1,37.3],[137.15,37.3],[137.15,31.2],[134.85,31.2],[133.1,37.3]]]}},
+    {"type":"Feature","properties":{"name":"香川県西部","pref":"香川県","center":[133.8,34.2]},"geometry":{"type":"Polygon","coordinates":[[[130.8,37.3],[133.1,37.3],[134.85,31.2],[130.8,31.2],[130.8,37.3]]]}},
+    {"type":"Feature","properties":{"name":"愛媛県東予","pref":"愛媛県","center":[133.2,33.95]},"geometry":{"type":"Polygon","coordinates":[[[136.2,36.95],[136.2,30.3],[133.23,33.27],[131.85,36.95],[136.2,36.95]]]}},
+    {"type":"Feature","properties":{"name":"愛媛県中予","pref":"愛媛県","center":[132.8,33.8]},"geometry":{"type":"Polygon","coordinates":[[[129.55,36.95],[131.85,36.95],[133.23,33.27],[129.55,35.11],[129.55,36.95]]]}},
+    {"type":"Feature","properties":{"name":"愛媛県南予","pref":"愛媛県","center":[132.55,33.3]},"geometry":{"type":"Polygon","coordinates":[[[129.55,30.3],[129.55,35.11],[133.23,33.27],[136.2,30.3],[136.2,30.3],[129.55,30.3]]]}},
+    {"type":"Feature","properties":{"name":"高知県東部","pref":"高知県","center":[134.05,33.55]},"geometry":{"type":"Polygon","coordinates":[[[137.05,30.05],[134.89,30.05],[133.7,32.78],[134.05,36.6],[137.05,36.6],[137.05,30.05]]]}},
+    {"type":"Feature","properties":{"name":"高知県中部","pref":"高知県","center":[133.5,33.6]},"geometry":{"type":"Polygon","coordinates":[[[130.2,36.6],[134.05,36.6],[133.7,32.78],[130.2,36.6]]]}},
+    {"type":"Feature","properties":{"name":"高知県西部","pref":"高知県","center":[132.9,33.05]},"geometry":{"type":"Polygon","coordinates":[[[129.9,36.6],[130.2,36.6],[133.7,32.78],[134.89,30.05],[129.9,30.05],[129.9,36.6]]]}},
+    {"type":"Feature","properties":{"name":"福岡県福岡","pref":"福岡県","center":[130.4,33.58]},"geometry":{"type":"Polygon","coordinates":[[[127.4,36.85],[128.74,36.85],[130.52,33.89],[130.6,33.47],[127.4,32.02],[127.4,36.85]]]}},
+    {"type":"Feature","properties":{"name":"福岡県北九州","pref":"福岡県","center":[130.85,33.85]},"geometry":{"type":"Polygon","coordinates":[[[133.85,36.85],[133.85,32.23],[130.52,33.89],[128.74,36.85],[133.85,36.85]]]}},
+    {"type":"Feature","properties":{"name":"福岡県筑豊","pref":"福岡県","center":[130.75,33.65]},"geometry":{"type":"Polygon","coordinates":[[[133.85,32.23],[133.85,31.85],[130.6,33.47],[130.52,33.89],[133.85,32.23]]]}},
+    {"type":"Feature","properties":{"name":"福岡県筑後","pref":"福岡県","center":[130.55,33.25]},"geometry":{"type":"Polygon","coordinates":[[[127.4,30.25],[127.4,32.02],[130.6,33.47],[133.85,31.85],[133.85,30.25],[127.4,30.25]]]}},
+    {"type":"Feature","properties":{"name":"佐賀県北部","pref":"佐賀県","center":[129.95,33.4]},"geometry":{"type":"Polygon","coordinates":[[[128.56,30.25],[126.95,30.25],[126.95,36.4],[131.64,36.4],[128.56,30.25]]]}},
+    {"type":"Feature","properties":{"name":"佐賀県南部","pref":"佐賀県","center":[130.25,33.25]},"geometry":{"type":"Polygon","coordinates":[[[133.25,30.25],[128.56,30.25],[131.64,36.4],[133.25,36.4],[133.25,30.25]]]}},
+    {"type":"Feature","properties":{"name":"長崎県北部","pref":"長崎県","center":[129.7,33.2]},"geometry":{"type":"Polygon","coordinates":[[[130.38,33.47],[130.13,33.17],[129.37,32.79],[128.99,33.51],[130.38,33.47]]]}},
+    {"type":"Feature","properties":{"name":"長崎県南西部","pref":"長崎県","center":[129.9,32.8]},"geometry":{"type":"Polygon","coordinates":[[[129.64,29.75],[129.52,29.75],[129.37,32.79],[130.13,33.17],[129.64,29.75]]]}},
+    {"type":"Feature","properties":{"name":"長崎県島原半島","pref":"長崎県","center":[130.25,32.75]},"geometry":{"type":"Polygon","coordinates":[[[133.25,29.75],[129.64,29.75],[130.13,33.17],[130.38,33.47],[133.25,34.95],[133.25,29.75]]]}},
+    {"type":"Feature","properties":{"name":"長崎県対馬","pref":"長崎県","center":[129.3,34.4]},"geometry":{"type":"Polygon","coordinates":[[[133.25,37.4],[133.25,36.62],[128.84,33.64],[125.85,34.45],[125.85,37.4],[133.25,37.4]]]}},
+    {"type":"Feature","properties":{"name":"長崎県壱岐","pref":"長崎県","center":[129.72,33.78]},"geometry":{"type":"Polygon","coordinates":[[[133.25,36.62],[133.25,34.95],[130.38,33.47],[128.99,33.51],[128.84,33.64],[133.25,36.62]]]}},
+    {"type":"Feature","properties":{"name":"長崎県五島","pref":"長崎県","center":[128.85,32.75]},"geometry":{"type":"Polygon","coordinates":[[[125.85,29.75],[125.85,34.45],[128.84,33.64],[128.99,33.51],[129.37,32.79],[129.52,29.75],[125.85,29.75]]]}},
+    {"type":"Feature","properties":{"name":"熊本県阿蘇","pref":"熊本県","center":[131.1,32.95]},"geometry":{"type":"Polygon","coordinates":[[[134.1,35.95],[134.1,31.48],[131.09,32.56],[129.15,35.95],[134.1,35.95]]]}},
+    {"type":"Feature","properties":{"name":"熊本県熊本","pref":"熊本県","center":[130.75,32.75]},"geometry":{"type":"Polygon","coordinates":[[[128.14,35.95],[129.15,35.95],[131.09,32.56],[130.58,32.46],[128.14,35.95]]]}},
+    {"type":"Feature","properties":{"name":"熊本県球磨","pref":"熊本県","center":[130.85,32.25]},"geometry":{"type":"Polygon","coordinates":[[[134.1,29.25],[129.78,29.25],[130.58,32.46],[131.09,32.56],[134.1,31.48],[134.1,29.25]]]}},
+    {"type":"Feature","properties":{"name":"熊本県天草・芦北","pref":"熊本県","center":[130.25,32.4]},"geometry":{"type":"Polygon","coordinates":[[[127.25,35.95],[128.14,35.95],[130.58,32.46],[129.78,29.25],[127.25,29.25],[127.25,35.95]]]}},
+    {"type":"Feature","properties":{"name":"大分県北部","pref":"大分県","center":[131.45,33.5]},"geometry":{"type":"Polygon","coordinates":[[[134.75,36.5],[134.75,34.78],[132.7,33.75],[131.33,33.29],[128.57,36.5],[134.75,36.5]]]}},
+    {"type":"Feature","properties":{"name":"大分県中部","pref":"大分県","center":[131.55,33.2]},"geometry":{"type":"Polygon","coordinates":[[[131.33,33.29],[132.7,33.75],[131.32,32.83],[131.33,33.29]]]}},
+    {"type":"Feature","properties":{"name":"大分県南部","pref":"大分県","center":[131.75,32.9]},"geometry":{"type":"Polygon","coordinates":[[[134.75,29.9],[129.97,29.9],[131.32,32.83],[132.7,33.75],[134.75,34.78],[134.75,29.9]]]}},
+    {"type":"Feature","properties":{"name":"大分県西部","pref":"大分県","center":[131.1,33.2]},"geometry":{"type":"Polygon","coordinates":[[[128.1,36.5],[128.57,36.5],[131.33,33.29],[131.32,32.83],[129.97,29.9],[128.1,29.9],[128.1,36.5]]]}},
+    {"type":"Feature","properties":{"name":"宮崎県北部平野部","pref":"宮崎県","center":[131.55,32.45]},"geometry":{"type":"Polygon","coordinates":[[[134.55,35.6],[134.55,31.05],[131.26,32.24],[131.26,32.25],[132.69,35.6],[134.55,35.6]]]}},
+    {"type":"Feature","properties":{"name":"宮崎県北部山沿い","pref":"宮崎県","center":[131.2,32.6]},"geometry":{"type":"Polygon","coordinates":[[[128,35.6],[132.69,35.6],[131.26,32.25],[128,33.33],[128,35.6]]]}},
+    {"type":"Feature","properties":{"name":"宮崎県南部平野部","pref":"宮崎県","center":[131.35,31.9]},"geometry":{"type":"Polygon","coordinates":[[[134.55,28.9],[130.3,28.9],[131.26,32.24],[134.55,31.05],[134.55,28.9]]]}},
+    {"type":"Feature","properties":{"name":"宮崎県南部山沿い","pref":"宮崎県","center":[131,32]},"geometry":{"type":"Polygon","coordinates":[[[128,28.9],[128,33.33],[131.26,32.25],[131.26,32.24],[130.3,28.9],[128,28.9]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県薩摩","pref":"鹿児島県","center":[130.45,31.7]},"geometry":{"type":"Polygon","coordinates":[[[130.36,34.75],[133.18,34.75],[130.27,31.01],[130.07,30.99],[130.36,34.75]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県大隅","pref":"鹿児島県","center":[130.9,31.35]},"geometry":{"type":"Polygon","coordinates":[[[133.95,34.75],[133.95,31.14],[130.51,30.92],[130.27,31.01],[133.18,34.75],[133.95,34.75]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県十島村","pref":"鹿児島県","center":[129.9,29.8]},"geometry":{"type":"Polygon","coordinates":[[[129.64,30.76],[131.57,28.49],[126.93,29.93],[125.9,30.42],[125.9,30.57],[129.64,30.76]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県甑島","pref":"鹿児島県","center":[129.8,31.75]},"geometry":{"type":"Polygon","coordinates":[[[125.9,34.75],[130.36,34.75],[130.07,30.99],[129.64,30.76],[125.9,30.57],[125.9,34.75]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県種子島","pref":"鹿児島県","center":[130.95,30.55]},"geometry":{"type":"Polygon","coordinates":[[[133.95,31.14],[133.95,26.89],[131.79,28.36],[130.51,30.92],[133.95,31.14]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県屋久島","pref":"鹿児島県","center":[130.55,30.35]},"geometry":{"type":"Polygon","coordinates":[[[129.64,30.76],[130.07,30.99],[130.27,31.01],[130.51,30.92],[131.79,28.36],[131.57,28.49],[129.64,30.76]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県奄美北部","pref":"鹿児島県","center":[129.45,28.35]},"geometry":{"type":"Polygon","coordinates":[[[133.95,24.7],[133.1,24.7],[126.93,29.93],[131.57,28.49],[131.79,28.36],[133.95,26.89],[133.95,24.7]]]}},
+    {"type":"Feature","properties":{"name":"鹿児島県奄美南部","pref":"鹿児島県","center":[128.9,27.7]},"geometry":{"type":"Polygon","coordinates":[[[125.9,24.7],[125.9,30.42],[126.93,29.93],[133.1,24.7],[125.9,24.7]]]}},
+    {"type":"Feature","properties":{"name":"沖縄県本島北部","pref":"沖縄県","center":[128.05,26.65]},"geometry":{"type":"Polygon","coordinates":[[[126.67,29.65],[130.5,29.65],[129.39,25.2],[127.31,26.98],[126.67,29.65]]]}},
+    {"type":"Feature","properties":{"name":"沖縄県本島中南部","pref":"沖縄県","center":[127.75,26.3]},"geometry":{"type":"Polygon","coordinates":[[[127.31,26.98],[129.39,25.2],[128.93,21.66],[127.18,24.49],[127.31,26.98]]]}},
+    {"type":"Feature","properties":{"name":"沖縄県久米島","pref":"沖縄県","center":[126.8,26.35]},"geometry":{"type":"Polygon","coordinates":[[[122.8,29.65],[126.67,29.65],[127.31,26.98],[127.18,24.49],[123.72,27.79],[122.8,29.65]]]}},
+    {"type":"Feature","properties":{"name":"大東島","pref":"沖縄県","center":[131.25,25.85]},"geometry":{"type":"Polygon","coordinates":[[[134.25,21.33],[128.99,21.33],[128.93,21.66],[129.39,25.2],[130.5,29.65],[134.25,29.65],[134.25,21.33]]]}},
+    {"type":"Feature","properties":{"name":"宮古島","pref":"沖縄県","center":[125.3,24.78]},"geometry":{"type":"Polygon","coordinates":[[[127.18,24.49],[128.93,21.66],[128.99,21.33],[125.85,21.33],[123.77,27.45],[123.72,27.79],[127.18,24.49]]]}},
+    {"type":"Feature","properties":{"name":"石垣島","pref":"沖縄県","center":[124.18,24.4]},"geometry":{"type":"Polygon","coordinates":[[[125.85,21.33],[124.59,21.33],[123.68,26],[123.77,27.45],[125.85,21.33]]]}},
+    {"type":"Feature","properties":{"name":"与那国島","pref":"沖縄県","center":[123,24.47]},"geometry":{"type":"Polygon","coordinates":[[[120,29.65],[122.8,29.65],[123.72,27.79],[123.77,27.45],[123.68,26],[122.89,21.33],[120,21.33],[120,29.65]]]}},
+    {"type":"Feature","properties":{"name":"西表島","pref":"沖縄県","center":[123.82,24.33]},"geometry":{"type":"Polygon","coordinates":[[[124.59,21.33],[122.89,21.33],[123.68,26],[124.59,21.33]]]}}
+  ],
+};
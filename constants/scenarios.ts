@@ -0,0 +1,255 @@
+import { Scenario } from '../types';
+
+// Bundled drill scenarios. Step times are seconds after the origin time.
+// Intensities, areas and tsunami grades are plausible values for drills, not
+// official damage estimates.
+
+export const BUILTIN_SCENARIOS: Scenario[] = [
+  {
+    id: "wakayama-north",
+    title: "和歌山県北部 M7.2",
+    description: "和歌山県北部を震源とする内陸直下の地震。予報から警報への切り替え、最終報、震度速報までの基本的な流れを確認します。",
+    hypocenter: { name: "和歌山県北部", latitude: 34.23, longitude: 135.17, depth: 10 },
+    magnitude: 7.2,
+    steps: [
+      { type: "eew", at: 2, magnitude: 4.5, maxIntensity: "3", warning: false, areas: [{ name: "和歌山県北部", intensity: "3" }] },
+      {
+        type: "eew", at: 8, magnitude: 7.2, maxIntensity: "6強", warning: true,
+        areas: [
+          { name: "和歌山県北部", intensity: "6強", arrival: 4 },
+          { name: "大阪府南部", intensity: "6弱", arrival: 10 },
+          { name: "奈良県", intensity: "5強", arrival: 13 },
+          { name: "和歌山県南部", intensity: "5強", arrival: 14 },
+          { name: "徳島県北部", intensity: "5弱", arrival: 15 },
+          { name: "兵庫県淡路島", intensity: "5弱", arrival: 15 },
+        ],
+      },
+      { type: "eew", at: 14, magnitude: 7.2, maxIntensity: "6強", warning: true, final: true },
+      {
+        type: "quake", at: 17, reportType: "DetailScale", maxIntensity: "6強", tsunami: "Checking",
+        points: [
+          { pref: "和歌山県", addr: "和歌山市", intensity: "6強" },
+          { pref: "大阪府", addr: "大阪市", intensity: "6弱" },
+          { pref: "奈良県", addr: "奈良市", intensity: "5強" },
+          { pref: "徳島県", addr: "徳島市", intensity: "5弱" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "nankai-trough",
+    title: "南海トラフ巨大地震 M8.7",
+    description: "紀伊半島沖から四国沖にかけての巨大地震。マグニチュードが段階的に引き上げられ、広範囲に大津波警報が発表される想定です。",
+    hypocenter: { name: "紀伊半島沖", latitude: 33.4, longitude: 136.4, depth: 20 },
+    magnitude: 8.7,
+    steps: [
+      { type: "eew", at: 5, magnitude: 6.9, maxIntensity: "4", warning: false, areas: [{ name: "三重県南部", intensity: "4" }, { name: "和歌山県南部", intensity: "4" }] },
+      {
+        type: "eew", at: 9, magnitude: 7.8, maxIntensity: "6弱", warning: true,
+        areas: [
+          { name: "三重県南部", intensity: "6弱", arrival: 12 },
+          { name: "和歌山県南部", intensity: "6弱", arrival: 14 },
+          { name: "奈良県", intensity: "5強", arrival: 20 },
+          { name: "大阪府南部", intensity: "5強", arrival: 24 },
+          { name: "愛知県西部", intensity: "5弱", arrival: 28 },
+          { name: "徳島県南部", intensity: "5強", arrival: 26 },
+        ],
+      },
+      {
+        type: "eew", at: 30, magnitude: 8.5, maxIntensity: "7", warning: true,
+        areas: [
+          { name: "和歌山県南部", intensity: "7", arrival: 14 },
+          { name: "三重県南部", intensity: "6強", arrival: 12 },
+          { name: "高知県東部", intensity: "6強", arrival: 32 },
+          { name: "高知県中部", intensity: "6強", arrival: 38 },
+          { name: "徳島県南部", intensity: "6強", arrival: 26 },
+          { name: "静岡県西部", intensity: "6弱", arrival: 36 },
+          { name: "愛知県東部", intensity: "6弱", arrival: 34 },
+          { name: "大阪府南部", intensity: "6弱", arrival: 24 },
+          { name: "奈良県", intensity: "6弱", arrival: 20 },
+          { name: "兵庫県南東部", intensity: "5強", arrival: 30 },
+          { name: "香川県東部", intensity: "5強", arrival: 36 },
+          { name: "愛媛県南予", intensity: "5強", arrival: 50 },
+        ],
+      },
+      { type: "eew", at: 75, magnitude: 8.7, maxIntensity: "7", warning: true, final: true },
+      {
+        type: "quake", at: 100, reportType: "ScalePrompt", maxIntensity: "7",
+        points: [
+          { pref: "和歌山県", addr: "和歌山県南部", intensity: "7" },
+          { pref: "三重県", addr: "三重県南部", intensity: "6強" },
+          { pref: "高知県", addr: "高知県東部", intensity: "6強" },
+          { pref: "高知県", addr: "高知県中部", intensity: "6強" },
+          { pref: "徳島県", addr: "徳島県南部", intensity: "6強" },
+          { pref: "静岡県", addr: "静岡県西部", intensity: "6弱" },
+          { pref: "愛知県", addr: "愛知県東部", intensity: "6弱" },
+          { pref: "奈良県", addr: "奈良県", intensity: "6弱" },
+          { pref: "大阪府", addr: "大阪府南部", intensity: "6弱" },
+          { pref: "兵庫県", addr: "兵庫県南東部", intensity: "5強" },
+        ],
+      },
+      {
+        type: "tsunami", at: 180,
+        areas: [
+          { name: "和歌山県", grade: "MajorWarning", immediate: true, maxHeight: "10ｍ超" },
+          { name: "三重県南部", grade: "MajorWarning", immediate: true, maxHeight: "10ｍ超" },
+          { name: "高知県", grade: "MajorWarning", immediate: true, maxHeight: "10ｍ超" },
+          { name: "徳島県", grade: "MajorWarning", maxHeight: "10ｍ", arrival: 900 },
+          { name: "静岡県", grade: "MajorWarning", maxHeight: "10ｍ", arrival: 600 },
+          { name: "愛知県外海", grade: "MajorWarning", maxHeight: "5ｍ", arrival: 1200 },
+          { name: "宮崎県", grade: "MajorWarning", maxHeight: "5ｍ", arrival: 1500 },
+          { name: "大阪府", grade: "Warning", maxHeight: "３ｍ", arrival: 3600 },
+          { name: "伊勢・三河湾", grade: "Warning", maxHeight: "３ｍ", arrival: 2400 },
+          { name: "大分県豊後水道沿岸", grade: "Warning", maxHeight: "３ｍ", arrival: 2700 },
+          { name: "愛媛県宇和海沿岸", grade: "Warning", maxHeight: "３ｍ", arrival: 2400 },
+          { name: "伊豆諸島", grade: "Warning", maxHeight: "３ｍ", arrival: 1800 },
+          { name: "千葉県九十九里・外房", grade: "Watch", maxHeight: "１ｍ", arrival: 3000 },
+          { name: "相模湾・三浦半島", grade: "Watch", maxHeight: "１ｍ", arrival: 2700 },
+          { name: "兵庫県瀬戸内海沿岸", grade: "Watch", maxHeight: "１ｍ", arrival: 4800 },
+          { name: "鹿児島県東部", grade: "Watch", maxHeight: "１ｍ", arrival: 2400 },
+        ],
+      },
+      { type: "quake", at: 240, reportType: "ScaleAndDestination", maxIntensity: "7", tsunami: "MajorWarning" },
+      {
+        type: "quake", at: 600, reportType: "DetailScale", maxIntensity: "7", tsunami: "MajorWarning",
+        points: [
+          { pref: "和歌山県", addr: "新宮市", intensity: "7" },
+          { pref: "和歌山県", addr: "串本町", intensity: "6強" },
+          { pref: "三重県", addr: "尾鷲市", intensity: "6強" },
+          { pref: "高知県", addr: "室戸市", intensity: "6強" },
+          { pref: "高知県", addr: "高知市", intensity: "6弱" },
+          { pref: "徳島県", addr: "美波町", intensity: "6強" },
+          { pref: "静岡県", addr: "浜松市中区", intensity: "6弱" },
+          { pref: "愛知県", addr: "豊橋市", intensity: "6弱" },
+          { pref: "奈良県", addr: "十津川村", intensity: "6弱" },
+          { pref: "大阪府", addr: "堺市堺区", intensity: "5強" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "tokyo-inland",
+    title: "首都直下地震（都心南部直下）M7.3",
+    description: "東京都２３区直下の地震。猶予時間がほとんどなく、緊急地震速報の直後に強い揺れが到達する想定です。",
+    hypocenter: { name: "東京都２３区", latitude: 35.6, longitude: 139.75, depth: 30 },
+    magnitude: 7.3,
+    steps: [
+      { type: "eew", at: 3, magnitude: 5.8, maxIntensity: "5弱", warning: true, areas: [{ name: "東京都２３区", intensity: "5弱", arrival: 3 }] },
+      {
+        type: "eew", at: 6, magnitude: 7.0, maxIntensity: "6強", warning: true,
+        areas: [
+          { name: "東京都２３区", intensity: "6強", arrival: 3 },
+          { name: "神奈川県東部", intensity: "6弱", arrival: 6 },
+          { name: "千葉県北西部", intensity: "6弱", arrival: 6 },
+          { name: "埼玉県南部", intensity: "6弱", arrival: 7 },
+          { name: "東京都多摩東部", intensity: "5強", arrival: 7 },
+        ],
+      },
+      {
+        type: "eew", at: 12, magnitude: 7.3, maxIntensity: "7", warning: true,
+        areas: [
+          { name: "東京都２３区", intensity: "7", arrival: 3 },
+          { name: "神奈川県東部", intensity: "6強", arrival: 6 },
+          { name: "千葉県北西部", intensity: "6強", arrival: 6 },
+          { name: "埼玉県南部", intensity: "6弱", arrival: 7 },
+          { name: "東京都多摩東部", intensity: "6弱", arrival: 7 },
+          { name: "茨城県南部", intensity: "5強", arrival: 12 },
+          { name: "神奈川県西部", intensity: "5弱", arrival: 13 },
+        ],
+      },
+      { type: "eew", at: 40, magnitude: 7.3, maxIntensity: "7", warning: true, final: true },
+      {
+        type: "quake", at: 90, reportType: "ScalePrompt", maxIntensity: "7",
+        points: [
+          { pref: "東京都", addr: "東京都２３区", intensity: "7" },
+          { pref: "神奈川県", addr: "神奈川県東部", intensity: "6強" },
+          { pref: "千葉県", addr: "千葉県北西部", intensity: "6強" },
+          { pref: "埼玉県", addr: "埼玉県南部", intensity: "6弱" },
+          { pref: "東京都", addr: "東京都多摩東部", intensity: "6弱" },
+          { pref: "茨城県", addr: "茨城県南部", intensity: "5強" },
+        ],
+      },
+      { type: "quake", at: 180, reportType: "ScaleAndDestination", maxIntensity: "7", tsunami: "None" },
+      {
+        type: "quake", at: 480, reportType: "DetailScale", maxIntensity: "7", tsunami: "None",
+        points: [
+          { pref: "東京都", addr: "東京大田区", intensity: "7" },
+          { pref: "東京都", addr: "東京品川区", intensity: "7" },
+          { pref: "東京都", addr: "東京千代田区", intensity: "6強" },
+          { pref: "神奈川県", addr: "川崎市川崎区", intensity: "6強" },
+          { pref: "神奈川県", addr: "横浜中区", intensity: "6弱" },
+          { pref: "千葉県", addr: "市川市", intensity: "6強" },
+          { pref: "埼玉県", addr: "さいたま浦和区", intensity: "6弱" },
+          { pref: "東京都", addr: "調布市", intensity: "6弱" },
+          { pref: "茨城県", addr: "取手市", intensity: "5強" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "sanriku-offshore",
+    title: "三陸沖 M8.1",
+    description: "三陸沖のプレート境界地震。津波警報の発表から、津波注意報への切り替え、解除までを確認します。",
+    hypocenter: { name: "三陸沖", latitude: 38.9, longitude: 143.6, depth: 10 },
+    magnitude: 8.1,
+    steps: [
+      { type: "eew", at: 10, magnitude: 7.2, maxIntensity: "5弱", warning: false, areas: [{ name: "岩手県沿岸南部", intensity: "5弱" }, { name: "宮城県北部", intensity: "4" }] },
+      {
+        type: "eew", at: 18, magnitude: 7.9, maxIntensity: "6弱", warning: true,
+        areas: [
+          { name: "岩手県沿岸南部", intensity: "6弱", arrival: 28 },
+          { name: "宮城県北部", intensity: "6弱", arrival: 32 },
+          { name: "岩手県沿岸北部", intensity: "5強", arrival: 30 },
+          { name: "宮城県中部", intensity: "5強", arrival: 35 },
+          { name: "岩手県内陸南部", intensity: "5強", arrival: 36 },
+          { name: "青森県三八上北", intensity: "5弱", arrival: 38 },
+          { name: "福島県浜通り", intensity: "5弱", arrival: 42 },
+        ],
+      },
+      { type: "eew", at: 60, magnitude: 8.1, maxIntensity: "6弱", warning: true, final: true },
+      {
+        type: "quake", at: 95, reportType: "ScalePrompt", maxIntensity: "6弱",
+        points: [
+          { pref: "岩手県", addr: "岩手県沿岸南部", intensity: "6弱" },
+          { pref: "宮城県", addr: "宮城県北部", intensity: "6弱" },
+          { pref: "岩手県", addr: "岩手県沿岸北部", intensity: "5強" },
+          { pref: "宮城県", addr: "宮城県中部", intensity: "5強" },
+          { pref: "青森県", addr: "青森県三八上北", intensity: "5弱" },
+        ],
+      },
+      {
+        type: "tsunami", at: 180,
+        areas: [
+          { name: "岩手県", grade: "Warning", maxHeight: "３ｍ", arrival: 1500 },
+          { name: "宮城県", grade: "Warning", maxHeight: "３ｍ", arrival: 1800 },
+          { name: "青森県太平洋沿岸", grade: "Watch", maxHeight: "１ｍ", arrival: 2100 },
+          { name: "福島県", grade: "Watch", maxHeight: "１ｍ", arrival: 2400 },
+          { name: "北海道太平洋沿岸東部", grade: "Watch", maxHeight: "１ｍ", arrival: 2700 },
+          { name: "北海道太平洋沿岸中部", grade: "Watch", maxHeight: "１ｍ", arrival: 2700 },
+          { name: "茨城県", grade: "Watch", maxHeight: "１ｍ", arrival: 3000 },
+        ],
+      },
+      { type: "quake", at: 240, reportType: "ScaleAndDestination", maxIntensity: "6弱", tsunami: "Warning" },
+      {
+        type: "tsunami", at: 3600,
+        areas: [
+          { name: "岩手県", grade: "Watch", maxHeight: "１ｍ" },
+          { name: "宮城県", grade: "Watch", maxHeight: "１ｍ" },
+          { name: "福島県", grade: "Watch", maxHeight: "１ｍ" },
+        ],
+      },
+      { type: "tsunami", at: 7200, cancelled: true, areas: [] },
+    ],
+  },
+  {
+    id: "eew-cancel",
+    title: "緊急地震速報の取消",
+    description: "誤って発表された緊急地震速報（予報）が取り消される流れを確認します。",
+    hypocenter: { name: "千葉県東方沖", latitude: 35.7, longitude: 140.9, depth: 40 },
+    magnitude: 5.0,
+    steps: [
+      { type: "eew", at: 3, magnitude: 5.0, maxIntensity: "4", warning: false, areas: [{ name: "千葉県北東部", intensity: "4" }] },
+      { type: "eewCancel", at: 12 },
+    ],
+  },
+];
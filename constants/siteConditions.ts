@@ -0,0 +1,69 @@
+// Coarse ground classes for the estimated intensity grid (services/intensityEstimate.ts).
+// Major alluvial plains and sedimentary basins as [minLat, minLon, maxLat, maxLon] boxes with a
+// representative AVS30 (average S-wave velocity of the top 30m, m/s); land outside them is
+// treated as hills and mountains. A stand-in for the J-SHIS 250m mesh, which is not bundled.
+
+export interface SoftGroundArea {
+  name: string;
+  bbox: [number, number, number, number];
+  avs30: number;
+}
+
+// Hills, mountains and volcanic uplands outside the listed areas
+export const UPLAND_AVS30 = 500;
+
+const PLAIN_AVS30 = 250;
+const BASIN_AVS30 = 300;
+
+export const SOFT_GROUND_AREAS: SoftGroundArea[] = [
+  // --- Hokkaido ---
+  { name: "石狩平野", bbox: [42.90, 141.20, 43.40, 141.90], avs30: PLAIN_AVS30 },
+  { name: "十勝平野", bbox: [42.60, 142.80, 43.20, 143.60], avs30: PLAIN_AVS30 },
+  { name: "釧路平野", bbox: [42.95, 144.20, 43.25, 144.60], avs30: PLAIN_AVS30 },
+
+  // --- Tohoku ---
+  { name: "津軽平野", bbox: [40.55, 140.25, 41.00, 140.60], avs30: PLAIN_AVS30 },
+  { name: "秋田平野", bbox: [39.60, 140.00, 39.90, 140.20], avs30: PLAIN_AVS30 },
+  { name: "庄内平野", bbox: [38.65, 139.75, 39.05, 140.00], avs30: PLAIN_AVS30 },
+  { name: "仙台平野", bbox: [37.90, 140.85, 38.55, 141.35], avs30: PLAIN_AVS30 },
+  { name: "山形盆地", bbox: [38.15, 140.20, 38.50, 140.45], avs30: BASIN_AVS30 },
+  { name: "福島盆地", bbox: [37.70, 140.35, 37.90, 140.60], avs30: BASIN_AVS30 },
+  { name: "郡山盆地", bbox: [37.30, 140.30, 37.50, 140.45], avs30: BASIN_AVS30 },
+
+  // --- Kanto / Chubu ---
+  { name: "関東平野", bbox: [35.40, 139.30, 36.40, 140.60], avs30: PLAIN_AVS30 },
+  { name: "越後平野", bbox: [37.60, 138.80, 38.10, 139.40], avs30: PLAIN_AVS30 },
+  { name: "富山平野", bbox: [36.55, 136.90, 36.85, 137.45], avs30: PLAIN_AVS30 },
+  { name: "金沢平野", bbox: [36.45, 136.50, 36.70, 136.75], avs30: PLAIN_AVS30 },
+  { name: "福井平野", bbox: [35.95, 136.10, 36.25, 136.30], avs30: PLAIN_AVS30 },
+  { name: "甲府盆地", bbox: [35.55, 138.45, 35.75, 138.75], avs30: BASIN_AVS30 },
+  { name: "長野盆地", bbox: [36.55, 138.15, 36.75, 138.35], avs30: BASIN_AVS30 },
+  { name: "松本盆地", bbox: [36.15, 137.85, 36.45, 138.00], avs30: BASIN_AVS30 },
+  { name: "濃尾平野", bbox: [34.95, 136.55, 35.45, 136.95], avs30: PLAIN_AVS30 },
+  { name: "岡崎平野", bbox: [34.80, 137.00, 35.00, 137.25], avs30: PLAIN_AVS30 },
+
+  // --- Kinki ---
+  { name: "伊勢平野", bbox: [34.60, 136.45, 35.10, 136.65], avs30: PLAIN_AVS30 },
+  { name: "近江盆地", bbox: [34.95, 135.95, 35.30, 136.25], avs30: BASIN_AVS30 },
+  { name: "京都盆地", bbox: [34.85, 135.65, 35.05, 135.85], avs30: BASIN_AVS30 },
+  { name: "奈良盆地", bbox: [34.45, 135.70, 34.75, 135.90], avs30: BASIN_AVS30 },
+  { name: "大阪平野", bbox: [34.45, 135.35, 34.85, 135.70], avs30: PLAIN_AVS30 },
+  { name: "播磨平野", bbox: [34.75, 134.50, 34.90, 134.95], avs30: PLAIN_AVS30 },
+
+  // --- Chugoku / Shikoku ---
+  { name: "鳥取平野", bbox: [35.45, 134.15, 35.55, 134.30], avs30: PLAIN_AVS30 },
+  { name: "出雲平野", bbox: [35.30, 132.65, 35.50, 133.10], avs30: PLAIN_AVS30 },
+  { name: "岡山平野", bbox: [34.55, 133.80, 34.75, 134.10], avs30: PLAIN_AVS30 },
+  { name: "広島平野", bbox: [34.33, 132.40, 34.45, 132.52], avs30: PLAIN_AVS30 },
+  { name: "讃岐平野", bbox: [34.15, 133.70, 34.35, 134.20], avs30: PLAIN_AVS30 },
+  { name: "徳島平野", bbox: [34.00, 134.30, 34.15, 134.65], avs30: PLAIN_AVS30 },
+  { name: "松山平野", bbox: [33.75, 132.70, 33.90, 132.85], avs30: PLAIN_AVS30 },
+  { name: "高知平野", bbox: [33.50, 133.45, 33.60, 133.65], avs30: PLAIN_AVS30 },
+
+  // --- Kyushu ---
+  { name: "福岡平野", bbox: [33.50, 130.30, 33.70, 130.50], avs30: PLAIN_AVS30 },
+  { name: "筑紫平野", bbox: [33.05, 130.20, 33.45, 130.70], avs30: PLAIN_AVS30 },
+  { name: "大分平野", bbox: [33.17, 131.55, 33.27, 131.75], avs30: PLAIN_AVS30 },
+  { name: "熊本平野", bbox: [32.70, 130.55, 32.90, 130.80], avs30: PLAIN_AVS30 },
+  { name: "宮崎平野", bbox: [31.80, 131.35, 32.20, 131.50], avs30: PLAIN_AVS30 },
+];
@@ -1,5 +1,7 @@
 // Mapping of City/Municipality/Prefecture names to [lat, lon]
 // Keys should match the start of 'addr' provided by P2P Quake API (e.g., "輪島市" matches "輪島市鳳至町")
+// Hand-maintained supplement merged into constants/stationDatabase.ts by
+// scripts/generate-station-database.mjs; entries follow their prefecture key.
 
 export const STATION_COORDINATES: { [key: string]: [number, number] } = {
   // --- Hokkaido ---
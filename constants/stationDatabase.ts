@@ -0,0 +1,1303 @@
+// Generated by scripts/generate-station-database.mjs -- do not edit by hand.
+// 0 station (0 with code), 1249 municipality (1244 with code), 47 prefecture (47 with code)
+
+import { StationRecord } from '../types';
+
+export const STATION_DATABASE: StationRecord[] = [
+  {"code":"23237","name":"あま市","pref":"愛知県","kind":"municipality","lat":35.19,"lon":136.78},
+  {"code":"23236","name":"みよし市","pref":"愛知県","kind":"municipality","lat":35.08,"lon":137.07},
+  {"code":"23441","name":"阿久比町","pref":"愛知県","kind":"municipality","lat":34.935,"lon":136.913},
+  {"code":"23232","name":"愛西市","pref":"愛知県","kind":"municipality","lat":35.15,"lon":136.73},
+  {"code":"23212","name":"安城市","pref":"愛知県","kind":"municipality","lat":34.96,"lon":137.07},
+  {"code":"23203","name":"一宮市","pref":"愛知県","kind":"municipality","lat":35.3,"lon":136.81},
+  {"code":"23220","name":"稲沢市","pref":"愛知県","kind":"municipality","lat":35.25,"lon":136.78},
+  {"code":"23202","name":"岡崎市","pref":"愛知県","kind":"municipality","lat":34.95,"lon":137.17},
+  {"code":"23425","name":"蟹江町","pref":"愛知県","kind":"municipality","lat":35.133,"lon":136.8},
+  {"code":"23214","name":"蒲郡市","pref":"愛知県","kind":"municipality","lat":34.82,"lon":137.22},
+  {"code":"23210","name":"刈谷市","pref":"愛知県","kind":"municipality","lat":34.99,"lon":137},
+  {"code":"23228","name":"岩倉市","pref":"愛知県","kind":"municipality","lat":35.27,"lon":136.87},
+  {"code":"23215","name":"犬山市","pref":"愛知県","kind":"municipality","lat":35.38,"lon":136.95},
+  {"code":"23501","name":"幸田町","pref":"愛知県","kind":"municipality","lat":34.875,"lon":137.171},
+  {"code":"23217","name":"江南市","pref":"愛知県","kind":"municipality","lat":35.34,"lon":136.87},
+  {"code":"23227","name":"高浜市","pref":"愛知県","kind":"municipality","lat":34.93,"lon":136.99},
+  {"code":"23206","name":"春日井市","pref":"愛知県","kind":"municipality","lat":35.25,"lon":136.97},
+  {"code":"23219","name":"小牧市","pref":"愛知県","kind":"municipality","lat":35.29,"lon":136.91},
+  {"code":"23216","name":"常滑市","pref":"愛知県","kind":"municipality","lat":34.89,"lon":136.83},
+  {"code":"23221","name":"新城市","pref":"愛知県","kind":"municipality","lat":34.9,"lon":137.5},
+  {"code":"23204","name":"瀬戸市","pref":"愛知県","kind":"municipality","lat":35.22,"lon":137.08},
+  {"code":"23233","name":"清須市","pref":"愛知県","kind":"municipality","lat":35.2,"lon":136.85},
+  {"code":"23213","name":"西尾市","pref":"愛知県","kind":"municipality","lat":34.87,"lon":137.05},
+  {"code":"23561","name":"設楽町","pref":"愛知県","kind":"municipality","lat":35.1,"lon":137.567},
+  {"code":"23361","name":"大口町","pref":"愛知県","kind":"municipality","lat":35.341,"lon":136.911},
+  {"code":"23424","name":"大治町","pref":"愛知県","kind":"municipality","lat":35.175,"lon":136.82},
+  {"code":"23223","name":"大府市","pref":"愛知県","kind":"municipality","lat":35.01,"lon":136.96},
+  {"code":"23224","name":"知多市","pref":"愛知県","kind":"municipality","lat":34.99,"lon":136.86},
+  {"code":"23225","name":"知立市","pref":"愛知県","kind":"municipality","lat":35,"lon":137.04},
+  {"code":"23238","name":"長久手市","pref":"愛知県","kind":"municipality","lat":35.17,"lon":137.05},
+  {"code":"23208","name":"津島市","pref":"愛知県","kind":"municipality","lat":35.17,"lon":136.73},
+  {"code":"23231","name":"田原市","pref":"愛知県","kind":"municipality","lat":34.66,"lon":137.26},
+  {"code":"23222","name":"東海市","pref":"愛知県","kind":"municipality","lat":35.02,"lon":136.89},
+  {"code":"23445","name":"南知多町","pref":"愛知県","kind":"municipality","lat":34.676,"lon":137.005},
+  {"code":"23230","name":"日進市","pref":"愛知県","kind":"municipality","lat":35.13,"lon":137.04},
+  {"code":"23205","name":"半田市","pref":"愛知県","kind":"municipality","lat":34.89,"lon":136.93},
+  {"code":"23427","name":"飛島村","pref":"愛知県","kind":"municipality","lat":35.079,"lon":136.791},
+  {"code":"23226","name":"尾張旭市","pref":"愛知県","kind":"municipality","lat":35.21,"lon":137.03},
+  {"code":"23362","name":"扶桑町","pref":"愛知県","kind":"municipality","lat":35.358,"lon":136.91},
+  {"code":"23447","name":"武豊町","pref":"愛知県","kind":"municipality","lat":34.85,"lon":136.917},
+  {"code":"23209","name":"碧南市","pref":"愛知県","kind":"municipality","lat":34.88,"lon":136.99},
+  {"code":"23201","name":"豊橋市","pref":"愛知県","kind":"municipality","lat":34.76,"lon":137.39},
+  {"code":"23563","name":"豊根村","pref":"愛知県","kind":"municipality","lat":35.171,"lon":137.74},
+  {"code":"23342","name":"豊山町","pref":"愛知県","kind":"municipality","lat":35.25,"lon":136.912},
+  {"code":"23207","name":"豊川市","pref":"愛知県","kind":"municipality","lat":34.82,"lon":137.36},
+  {"code":"23211","name":"豊田市","pref":"愛知県","kind":"municipality","lat":35.08,"lon":137.15},
+  {"code":"23229","name":"豊明市","pref":"愛知県","kind":"municipality","lat":35.05,"lon":137.01},
+  {"code":"23234","name":"北名古屋市","pref":"愛知県","kind":"municipality","lat":35.24,"lon":136.87},
+  {"code":"23100","name":"名古屋市","pref":"愛知県","kind":"municipality","lat":35.18,"lon":136.9},
+  {"code":"23235","name":"弥富市","pref":"愛知県","kind":"municipality","lat":35.11,"lon":136.72},
+  {"code":"23","name":"愛知県","pref":"愛知県","kind":"prefecture","lat":35.18,"lon":136.9},
+  {"code":"38442","name":"伊方町","pref":"愛媛県","kind":"municipality","lat":33.488,"lon":132.354},
+  {"code":"38210","name":"伊予市","pref":"愛媛県","kind":"municipality","lat":33.75,"lon":132.7},
+  {"code":"38203","name":"宇和島市","pref":"愛媛県","kind":"municipality","lat":33.22,"lon":132.55},
+  {"code":"38488","name":"鬼北町","pref":"愛媛県","kind":"municipality","lat":33.256,"lon":132.683},
+  {"code":"38202","name":"今治市","pref":"愛媛県","kind":"municipality","lat":34.06,"lon":132.99},
+  {"code":"38213","name":"四国中央市","pref":"愛媛県","kind":"municipality","lat":33.98,"lon":133.54},
+  {"code":"38201","name":"松山市","pref":"愛媛県","kind":"municipality","lat":33.83,"lon":132.76},
+  {"code":"38401","name":"松前町","pref":"愛媛県","kind":"municipality","lat":33.788,"lon":132.711},
+  {"code":"38205","name":"新居浜市","pref":"愛媛県","kind":"municipality","lat":33.96,"lon":133.28},
+  {"code":"38206","name":"西条市","pref":"愛媛県","kind":"municipality","lat":33.91,"lon":133.18},
+  {"code":"38214","name":"西予市","pref":"愛媛県","kind":"municipality","lat":33.36,"lon":132.5},
+  {"code":"38207","name":"大洲市","pref":"愛媛県","kind":"municipality","lat":33.51,"lon":132.54},
+  {"code":"38215","name":"東温市","pref":"愛媛県","kind":"municipality","lat":33.79,"lon":132.87},
+  {"code":"38422","name":"内子町","pref":"愛媛県","kind":"municipality","lat":33.55,"lon":132.647},
+  {"code":"38204","name":"八幡浜市","pref":"愛媛県","kind":"municipality","lat":33.46,"lon":132.42},
+  {"code":"38","name":"愛媛県","pref":"愛媛県","kind":"prefecture","lat":33.83,"lon":132.76},
+  {"code":"08230","name":"かすみがうら市","pref":"茨城県","kind":"municipality","lat":36.153,"lon":140.246},
+  {"code":"08235","name":"つくばみらい市","pref":"茨城県","kind":"municipality","lat":35.984,"lon":140.009},
+  {"code":"08220","name":"つくば市","pref":"茨城県","kind":"municipality","lat":36.08,"lon":140.11},
+  {"code":"08221","name":"ひたちなか市","pref":"茨城県","kind":"municipality","lat":36.39,"lon":140.53},
+  {"code":"08443","name":"阿見町","pref":"茨城県","kind":"municipality","lat":36.033,"lon":140.2},
+  {"code":"08229","name":"稲敷市","pref":"茨城県","kind":"municipality","lat":35.956,"lon":140.324},
+  {"code":"08210","name":"下妻市","pref":"茨城県","kind":"municipality","lat":36.18,"lon":139.96},
+  {"code":"08216","name":"笠間市","pref":"茨城県","kind":"municipality","lat":36.38,"lon":140.26},
+  {"code":"08219","name":"牛久市","pref":"茨城県","kind":"municipality","lat":35.97,"lon":140.15},
+  {"code":"08546","name":"境町","pref":"茨城県","kind":"municipality","lat":36.1,"lon":139.8},
+  {"code":"08207","name":"結城市","pref":"茨城県","kind":"municipality","lat":36.29,"lon":139.88},
+  {"code":"08204","name":"古河市","pref":"茨城県","kind":"municipality","lat":36.19,"lon":139.71},
+  {"code":"08233","name":"行方市","pref":"茨城県","kind":"municipality","lat":36.007,"lon":140.496},
+  {"code":"08214","name":"高萩市","pref":"茨城県","kind":"municipality","lat":36.71,"lon":140.71},
+  {"code":"08228","name":"坂東市","pref":"茨城県","kind":"municipality","lat":36.07,"lon":139.867},
+  {"code":"08231","name":"桜川市","pref":"茨城県","kind":"municipality","lat":36.251,"lon":140.116},
+  {"code":"08222","name":"鹿嶋市","pref":"茨城県","kind":"municipality","lat":35.96,"lon":140.64},
+  {"code":"08217","name":"取手市","pref":"茨城県","kind":"municipality","lat":35.89,"lon":140.06},
+  {"code":"08224","name":"守谷市","pref":"茨城県","kind":"municipality","lat":35.933,"lon":140},
+  {"code":"08236","name":"小美玉市","pref":"茨城県","kind":"municipality","lat":36.254,"lon":140.38},
+  {"code":"08211","name":"常総市","pref":"茨城県","kind":"municipality","lat":36.02,"lon":139.99},
+  {"code":"08212","name":"常陸太田市","pref":"茨城県","kind":"municipality","lat":36.54,"lon":140.52},
+  {"code":"08225","name":"常陸大宮市","pref":"茨城県","kind":"municipality","lat":36.564,"lon":140.403},
+  {"code":"08232","name":"神栖市","pref":"茨城県","kind":"municipality","lat":35.897,"lon":140.667},
+  {"code":"08201","name":"水戸市","pref":"茨城県","kind":"municipality","lat":36.36,"lon":140.47},
+  {"code":"08205","name":"石岡市","pref":"茨城県","kind":"municipality","lat":36.23,"lon":140.28},
+  {"code":"08364","name":"大子町","pref":"茨城県","kind":"municipality","lat":36.767,"lon":140.35},
+  {"code":"08309","name":"大洗町","pref":"茨城県","kind":"municipality","lat":36.314,"lon":140.584},
+  {"code":"08227","name":"筑西市","pref":"茨城県","kind":"municipality","lat":36.316,"lon":139.982},
+  {"code":"08223","name":"潮来市","pref":"茨城県","kind":"municipality","lat":35.933,"lon":140.55},
+  {"code":"08203","name":"土浦市","pref":"茨城県","kind":"municipality","lat":36.07,"lon":140.2},
+  {"code":"08341","name":"東海村","pref":"茨城県","kind":"municipality","lat":36.474,"lon":140.564},
+  {"code":"08226","name":"那珂市","pref":"茨城県","kind":"municipality","lat":36.05,"lon":140.167},
+  {"code":"08202","name":"日立市","pref":"茨城県","kind":"municipality","lat":36.59,"lon":140.65},
+  {"code":"08521","name":"八千代町","pref":"茨城県","kind":"municipality","lat":36.182,"lon":139.891},
+  {"code":"08234","name":"鉾田市","pref":"茨城県","kind":"municipality","lat":36.15,"lon":140.517},
+  {"code":"08215","name":"北茨城市","pref":"茨城県","kind":"municipality","lat":36.8,"lon":140.74},
+  {"code":"08208","name":"龍ケ崎市","pref":"茨城県","kind":"municipality","lat":35.91,"lon":140.18},
+  {"code":"08","name":"茨城県","pref":"茨城県","kind":"prefecture","lat":36.36,"lon":140.47},
+  {"code":"33207","name":"井原市","pref":"岡山県","kind":"municipality","lat":34.59,"lon":133.46},
+  {"code":"33100","name":"岡山市","pref":"岡山県","kind":"municipality","lat":34.65,"lon":133.91},
+  {"code":"33205","name":"笠岡市","pref":"岡山県","kind":"municipality","lat":34.5,"lon":133.51},
+  {"code":"33204","name":"玉野市","pref":"岡山県","kind":"municipality","lat":34.49,"lon":133.94},
+  {"code":"33209","name":"高梁市","pref":"岡山県","kind":"municipality","lat":34.79,"lon":133.61},
+  {"code":"33210","name":"新見市","pref":"岡山県","kind":"municipality","lat":34.97,"lon":133.47},
+  {"code":"33214","name":"真庭市","pref":"岡山県","kind":"municipality","lat":35.08,"lon":133.76},
+  {"code":"33212","name":"瀬戸内市","pref":"岡山県","kind":"municipality","lat":34.66,"lon":134.09},
+  {"code":"33643","name":"西粟倉村","pref":"岡山県","kind":"municipality","lat":35.179,"lon":134.35},
+  {"code":"33213","name":"赤磐市","pref":"岡山県","kind":"municipality","lat":34.77,"lon":134.01},
+  {"code":"33216","name":"浅口市","pref":"岡山県","kind":"municipality","lat":34.52,"lon":133.58},
+  {"code":"33202","name":"倉敷市","pref":"岡山県","kind":"municipality","lat":34.58,"lon":133.77},
+  {"code":"33423","name":"早島町","pref":"岡山県","kind":"municipality","lat":34.604,"lon":133.829},
+  {"code":"33208","name":"総社市","pref":"岡山県","kind":"municipality","lat":34.67,"lon":133.73},
+  {"code":"33203","name":"津山市","pref":"岡山県","kind":"municipality","lat":35.06,"lon":134},
+  {"code":"33623","name":"奈義町","pref":"岡山県","kind":"municipality","lat":35.123,"lon":134.177},
+  {"code":"33211","name":"備前市","pref":"岡山県","kind":"municipality","lat":34.74,"lon":134.18},
+  {"code":"33215","name":"美作市","pref":"岡山県","kind":"municipality","lat":35,"lon":134.14},
+  {"code":"33461","name":"矢掛町","pref":"岡山県","kind":"municipality","lat":34.628,"lon":133.592},
+  {"code":"33445","name":"里庄町","pref":"岡山県","kind":"municipality","lat":34.514,"lon":133.557},
+  {"code":"33346","name":"和気町","pref":"岡山県","kind":"municipality","lat":34.812,"lon":134.143},
+  {"code":"33","name":"岡山県","pref":"岡山県","kind":"prefecture","lat":34.65,"lon":133.91},
+  {"code":"47213","name":"うるま市","pref":"沖縄県","kind":"municipality","lat":26.38,"lon":127.85},
+  {"code":"47315","name":"伊江村","pref":"沖縄県","kind":"municipality","lat":26.71,"lon":127.809},
+  {"code":"47360","name":"伊是名村","pref":"沖縄県","kind":"municipality","lat":26.917,"lon":127.931},
+  {"code":"47359","name":"伊平屋村","pref":"沖縄県","kind":"municipality","lat":27.019,"lon":127.974},
+  {"code":"47208","name":"浦添市","pref":"沖縄県","kind":"municipality","lat":26.25,"lon":127.72},
+  {"code":"47211","name":"沖縄市","pref":"沖縄県","kind":"municipality","lat":26.33,"lon":127.8},
+  {"code":"47311","name":"恩納村","pref":"沖縄県","kind":"municipality","lat":26.495,"lon":127.851},
+  {"code":"47325","name":"嘉手納町","pref":"沖縄県","kind":"municipality","lat":26.365,"lon":127.759},
+  {"code":"47313","name":"宜野座村","pref":"沖縄県","kind":"municipality","lat":26.483,"lon":127.978},
+  {"code":"47205","name":"宜野湾市","pref":"沖縄県","kind":"municipality","lat":26.28,"lon":127.76},
+  {"code":"47361","name":"久米島町","pref":"沖縄県","kind":"municipality","lat":26.341,"lon":126.805},
+  {"code":"47214","name":"宮古島市","pref":"沖縄県","kind":"municipality","lat":24.8,"lon":125.28},
+  {"code":"47314","name":"金武町","pref":"沖縄県","kind":"municipality","lat":26.452,"lon":127.918},
+  {"code":"47301","name":"国頭村","pref":"沖縄県","kind":"municipality","lat":26.759,"lon":128.163},
+  {"code":"47306","name":"今帰仁村","pref":"沖縄県","kind":"municipality","lat":26.676,"lon":127.972},
+  {"code":"47210","name":"糸満市","pref":"沖縄県","kind":"municipality","lat":26.12,"lon":127.67},
+  {"code":"47329","name":"西原町","pref":"沖縄県","kind":"municipality","lat":26.254,"lon":127.744},
+  {"code":"47207","name":"石垣市","pref":"沖縄県","kind":"municipality","lat":24.34,"lon":124.15},
+  {"code":"47375","name":"多良間村","pref":"沖縄県","kind":"municipality","lat":24.669,"lon":124.703},
+  {"code":"47302","name":"大宜味村","pref":"沖縄県","kind":"municipality","lat":26.701,"lon":128.117},
+  {"code":"47328","name":"中城村","pref":"沖縄県","kind":"municipality","lat":26.25,"lon":127.783},
+  {"code":"47324","name":"読谷村","pref":"沖縄県","kind":"municipality","lat":26.402,"lon":127.745},
+  {"code":"47201","name":"那覇市","pref":"沖縄県","kind":"municipality","lat":26.21,"lon":127.68},
+  {"code":"47215","name":"南城市","pref":"沖縄県","kind":"municipality","lat":26.15,"lon":127.77},
+  {"code":"47357","name":"南大東村","pref":"沖縄県","kind":"municipality","lat":25.83,"lon":131.232},
+  {"code":"47362","name":"八重瀬町","pref":"沖縄県","kind":"municipality","lat":26.127,"lon":127.743},
+  {"code":"47212","name":"豊見城市","pref":"沖縄県","kind":"municipality","lat":26.17,"lon":127.68},
+  {"code":"47308","name":"本部町","pref":"沖縄県","kind":"municipality","lat":26.659,"lon":127.907},
+  {"code":"47209","name":"名護市","pref":"沖縄県","kind":"municipality","lat":26.59,"lon":127.97},
+  {"code":"47348","name":"与那原町","pref":"沖縄県","kind":"municipality","lat":26.204,"lon":127.753},
+  {"code":"47","name":"沖縄県","pref":"沖縄県","kind":"prefecture","lat":26.21,"lon":127.68},
+  {"code":"03209","name":"一関市","pref":"岩手県","kind":"municipality","lat":38.93,"lon":141.13},
+  {"code":"03524","name":"一戸町","pref":"岩手県","kind":"municipality","lat":40.22,"lon":141.29},
+  {"code":"03208","name":"遠野市","pref":"岩手県","kind":"municipality","lat":39.32,"lon":141.53},
+  {"code":"03215","name":"奥州市","pref":"岩手県","kind":"municipality","lat":39.14,"lon":141.13},
+  {"code":"03205","name":"花巻市","pref":"岩手県","kind":"municipality","lat":39.39,"lon":141.11},
+  {"code":"03302","name":"葛巻町","pref":"岩手県","kind":"municipality","lat":40.041,"lon":141.44},
+  {"code":"03211","name":"釜石市","pref":"岩手県","kind":"municipality","lat":39.27,"lon":141.88},
+  {"code":"03483","name":"岩泉町","pref":"岩手県","kind":"municipality","lat":39.85,"lon":141.8},
+  {"code":"03207","name":"久慈市","pref":"岩手県","kind":"municipality","lat":40.19,"lon":141.77},
+  {"code":"03202","name":"宮古市","pref":"岩手県","kind":"municipality","lat":39.64,"lon":141.94},
+  {"code":"03381","name":"金ケ崎町","pref":"岩手県","kind":"municipality","lat":39.2,"lon":141.117},
+  {"code":"03501","name":"軽米町","pref":"岩手県","kind":"municipality","lat":40.321,"lon":141.458},
+  {"code":"03482","name":"山田町","pref":"岩手県","kind":"municipality","lat":39.467,"lon":141.95},
+  {"code":"03301","name":"雫石町","pref":"岩手県","kind":"municipality","lat":39.694,"lon":140.984},
+  {"code":"03201","name":"盛岡市","pref":"岩手県","kind":"municipality","lat":39.7,"lon":141.15},
+  {"code":"03203","name":"大船渡市","pref":"岩手県","kind":"municipality","lat":39.08,"lon":141.7},
+  {"code":"03461","name":"大槌町","pref":"岩手県","kind":"municipality","lat":39.367,"lon":141.9},
+  {"code":"03216","name":"滝沢市","pref":"岩手県","kind":"municipality","lat":39.803,"lon":141.135},
+  {"code":"03484","name":"田野畑村","pref":"岩手県","kind":"municipality","lat":39.934,"lon":141.933},
+  {"code":"03213","name":"二戸市","pref":"岩手県","kind":"municipality","lat":40.291,"lon":141.313},
+  {"code":"03214","name":"八幡平市","pref":"岩手県","kind":"municipality","lat":39.9,"lon":141.13},
+  {"code":"03485","name":"普代村","pref":"岩手県","kind":"municipality","lat":40,"lon":141.883},
+  {"code":"03206","name":"北上市","pref":"岩手県","kind":"municipality","lat":39.28,"lon":141.11},
+  {"code":"03503","name":"野田村","pref":"岩手県","kind":"municipality","lat":40.106,"lon":141.818},
+  {"code":"03322","name":"矢巾町","pref":"岩手県","kind":"municipality","lat":39.611,"lon":141.147},
+  {"code":"03210","name":"陸前高田市","pref":"岩手県","kind":"municipality","lat":39.01,"lon":141.62},
+  {"code":"03","name":"岩手県","pref":"岩手県","kind":"prefecture","lat":39.7,"lon":141.15},
+  {"code":"21383","name":"安八町","pref":"岐阜県","kind":"municipality","lat":35.335,"lon":136.665},
+  {"code":"21209","name":"羽島市","pref":"岐阜県","kind":"municipality","lat":35.33,"lon":136.7},
+  {"code":"21220","name":"下呂市","pref":"岐阜県","kind":"municipality","lat":35.8,"lon":137.24},
+  {"code":"21214","name":"可児市","pref":"岐阜県","kind":"municipality","lat":35.42,"lon":137.06},
+  {"code":"21221","name":"海津市","pref":"岐阜県","kind":"municipality","lat":35.202,"lon":136.635},
+  {"code":"21213","name":"各務原市","pref":"岐阜県","kind":"municipality","lat":35.4,"lon":136.83},
+  {"code":"21362","name":"関ケ原町","pref":"岐阜県","kind":"municipality","lat":35.367,"lon":136.467},
+  {"code":"21205","name":"関市","pref":"岐阜県","kind":"municipality","lat":35.48,"lon":136.92},
+  {"code":"21302","name":"岐南町","pref":"岐阜県","kind":"municipality","lat":35.388,"lon":136.785},
+  {"code":"21201","name":"岐阜市","pref":"岐阜県","kind":"municipality","lat":35.42,"lon":136.76},
+  {"code":"21219","name":"郡上市","pref":"岐阜県","kind":"municipality","lat":35.74,"lon":136.96},
+  {"code":"21210","name":"恵那市","pref":"岐阜県","kind":"municipality","lat":35.45,"lon":137.41},
+  {"code":"21521","name":"御嵩町","pref":"岐阜県","kind":"municipality","lat":35.417,"lon":137.133},
+  {"code":"21203","name":"高山市","pref":"岐阜県","kind":"municipality","lat":36.14,"lon":137.25},
+  {"code":"21501","name":"坂祝町","pref":"岐阜県","kind":"municipality","lat":35.427,"lon":136.985},
+  {"code":"21215","name":"山県市","pref":"岐阜県","kind":"municipality","lat":35.5,"lon":136.77},
+  {"code":"21381","name":"神戸町","pref":"岐阜県","kind":"municipality","lat":35.417,"lon":136.6},
+  {"code":"21361","name":"垂井町","pref":"岐阜県","kind":"municipality","lat":35.367,"lon":136.533},
+  {"code":"21216","name":"瑞穂市","pref":"岐阜県","kind":"municipality","lat":35.39,"lon":136.69},
+  {"code":"21208","name":"瑞浪市","pref":"岐阜県","kind":"municipality","lat":35.36,"lon":137.25},
+  {"code":"21204","name":"多治見市","pref":"岐阜県","kind":"municipality","lat":35.33,"lon":137.13},
+  {"code":"21202","name":"大垣市","pref":"岐阜県","kind":"municipality","lat":35.36,"lon":136.61},
+  {"code":"21206","name":"中津川市","pref":"岐阜県","kind":"municipality","lat":35.48,"lon":137.5},
+  {"code":"21212","name":"土岐市","pref":"岐阜県","kind":"municipality","lat":35.35,"lon":137.18},
+  {"code":"21505","name":"八百津町","pref":"岐阜県","kind":"municipality","lat":35.467,"lon":137.15},
+  {"code":"21217","name":"飛騨市","pref":"岐阜県","kind":"municipality","lat":36.23,"lon":137.18},
+  {"code":"21211","name":"美濃加茂市","pref":"岐阜県","kind":"municipality","lat":35.44,"lon":137.01},
+  {"code":"21207","name":"美濃市","pref":"岐阜県","kind":"municipality","lat":35.54,"lon":136.91},
+  {"code":"21502","name":"富加町","pref":"岐阜県","kind":"municipality","lat":35.485,"lon":136.98},
+  {"code":"21421","name":"北方町","pref":"岐阜県","kind":"municipality","lat":35.433,"lon":136.683},
+  {"code":"21218","name":"本巣市","pref":"岐阜県","kind":"municipality","lat":35.48,"lon":136.68},
+  {"code":"21382","name":"輪之内町","pref":"岐阜県","kind":"municipality","lat":35.285,"lon":136.637},
+  {"code":"21","name":"岐阜県","pref":"岐阜県","kind":"prefecture","lat":35.42,"lon":136.76},
+  {"code":"45209","name":"えびの市","pref":"宮崎県","kind":"municipality","lat":32.04,"lon":130.82},
+  {"code":"45383","name":"綾町","pref":"宮崎県","kind":"municipality","lat":31.983,"lon":131.267},
+  {"code":"45203","name":"延岡市","pref":"宮崎県","kind":"municipality","lat":32.58,"lon":131.66},
+  {"code":"45201","name":"宮崎市","pref":"宮崎県","kind":"municipality","lat":31.9,"lon":131.42},
+  {"code":"45207","name":"串間市","pref":"宮崎県","kind":"municipality","lat":31.47,"lon":131.23},
+  {"code":"45361","name":"高原町","pref":"宮崎県","kind":"municipality","lat":31.917,"lon":131.017},
+  {"code":"45401","name":"高鍋町","pref":"宮崎県","kind":"municipality","lat":32.133,"lon":131.5},
+  {"code":"45205","name":"小林市","pref":"宮崎県","kind":"municipality","lat":31.99,"lon":130.97},
+  {"code":"45402","name":"新富町","pref":"宮崎県","kind":"municipality","lat":32.063,"lon":131.487},
+  {"code":"45208","name":"西都市","pref":"宮崎県","kind":"municipality","lat":32.1,"lon":131.4},
+  {"code":"45405","name":"川南町","pref":"宮崎県","kind":"municipality","lat":32.183,"lon":131.517},
+  {"code":"45202","name":"都城市","pref":"宮崎県","kind":"municipality","lat":31.71,"lon":131.06},
+  {"code":"45406","name":"都農町","pref":"宮崎県","kind":"municipality","lat":32.25,"lon":131.567},
+  {"code":"45206","name":"日向市","pref":"宮崎県","kind":"municipality","lat":32.42,"lon":131.62},
+  {"code":"45204","name":"日南市","pref":"宮崎県","kind":"municipality","lat":31.6,"lon":131.37},
+  {"code":"45442","name":"日之影町","pref":"宮崎県","kind":"municipality","lat":32.65,"lon":131.4},
+  {"code":"45421","name":"門川町","pref":"宮崎県","kind":"municipality","lat":32.471,"lon":131.655},
+  {"code":"45","name":"宮崎県","pref":"宮崎県","kind":"prefecture","lat":31.9,"lon":131.42},
+  {"code":"04203","name":"塩竈市","pref":"宮城県","kind":"municipality","lat":38.31,"lon":141.02},
+  {"code":"04208","name":"角田市","pref":"宮城県","kind":"municipality","lat":37.97,"lon":140.78},
+  {"code":"04341","name":"丸森町","pref":"宮城県","kind":"municipality","lat":37.917,"lon":140.767},
+  {"code":"04211","name":"岩沼市","pref":"宮城県","kind":"municipality","lat":38.105,"lon":140.859},
+  {"code":"04205","name":"気仙沼市","pref":"宮城県","kind":"municipality","lat":38.9,"lon":141.57},
+  {"code":"04213","name":"栗原市","pref":"宮城県","kind":"municipality","lat":38.73,"lon":141.01},
+  {"code":"04581","name":"女川町","pref":"宮城県","kind":"municipality","lat":38.447,"lon":141.448},
+  {"code":"04401","name":"松島町","pref":"宮城県","kind":"municipality","lat":38.374,"lon":141.061},
+  {"code":"04444","name":"色麻町","pref":"宮城県","kind":"municipality","lat":38.548,"lon":140.857},
+  {"code":"04202","name":"石巻市","pref":"宮城県","kind":"municipality","lat":38.43,"lon":141.3},
+  {"code":"04100","name":"仙台市","pref":"宮城県","kind":"municipality","lat":38.26,"lon":140.87},
+  {"code":"04324","name":"川崎町","pref":"宮城県","kind":"municipality","lat":38.173,"lon":140.637},
+  {"code":"04322","name":"村田町","pref":"宮城県","kind":"municipality","lat":38.119,"lon":140.724},
+  {"code":"04209","name":"多賀城市","pref":"宮城県","kind":"municipality","lat":38.3,"lon":141},
+  {"code":"04424","name":"大衡村","pref":"宮城県","kind":"municipality","lat":38.471,"lon":140.872},
+  {"code":"04215","name":"大崎市","pref":"宮城県","kind":"municipality","lat":38.57,"lon":140.95},
+  {"code":"04212","name":"登米市","pref":"宮城県","kind":"municipality","lat":38.69,"lon":141.18},
+  {"code":"04214","name":"東松島市","pref":"宮城県","kind":"municipality","lat":38.42,"lon":141.21},
+  {"code":"04606","name":"南三陸町","pref":"宮城県","kind":"municipality","lat":38.678,"lon":141.443},
+  {"code":"04206","name":"白石市","pref":"宮城県","kind":"municipality","lat":38,"lon":140.62},
+  {"code":"04216","name":"富谷市","pref":"宮城県","kind":"municipality","lat":38.393,"lon":140.886},
+  {"code":"04207","name":"名取市","pref":"宮城県","kind":"municipality","lat":38.17,"lon":140.89},
+  {"code":"04501","name":"涌谷町","pref":"宮城県","kind":"municipality","lat":38.545,"lon":141.135},
+  {"code":"04406","name":"利府町","pref":"宮城県","kind":"municipality","lat":38.331,"lon":140.977},
+  {"code":"04361","name":"亘理町","pref":"宮城県","kind":"municipality","lat":38.035,"lon":140.851},
+  {"code":"04","name":"宮城県","pref":"宮城県","kind":"prefecture","lat":38.26,"lon":140.87},
+  {"code":"26203","name":"綾部市","pref":"京都府","kind":"municipality","lat":35.3,"lon":135.26},
+  {"code":"26343","name":"井手町","pref":"京都府","kind":"municipality","lat":34.8,"lon":135.812},
+  {"code":"26204","name":"宇治市","pref":"京都府","kind":"municipality","lat":34.89,"lon":135.8},
+  {"code":"26364","name":"笠置町","pref":"京都府","kind":"municipality","lat":34.75,"lon":135.933},
+  {"code":"26206","name":"亀岡市","pref":"京都府","kind":"municipality","lat":35.01,"lon":135.58},
+  {"code":"26205","name":"宮津市","pref":"京都府","kind":"municipality","lat":35.53,"lon":135.19},
+  {"code":"26212","name":"京丹後市","pref":"京都府","kind":"municipality","lat":35.62,"lon":135.06},
+  {"code":"26407","name":"京丹波町","pref":"京都府","kind":"municipality","lat":35.164,"lon":135.423},
+  {"code":"26211","name":"京田辺市","pref":"京都府","kind":"municipality","lat":34.81,"lon":135.77},
+  {"code":"26100","name":"京都市","pref":"京都府","kind":"municipality","lat":35.01,"lon":135.76},
+  {"code":"26208","name":"向日市","pref":"京都府","kind":"municipality","lat":34.95,"lon":135.7},
+  {"code":"26207","name":"城陽市","pref":"京都府","kind":"municipality","lat":34.85,"lon":135.78},
+  {"code":"26303","name":"大山崎町","pref":"京都府","kind":"municipality","lat":34.894,"lon":135.685},
+  {"code":"26209","name":"長岡京市","pref":"京都府","kind":"municipality","lat":34.92,"lon":135.69},
+  {"code":"26213","name":"南丹市","pref":"京都府","kind":"municipality","lat":35.1,"lon":135.47},
+  {"code":"26210","name":"八幡市","pref":"京都府","kind":"municipality","lat":34.87,"lon":135.7},
+  {"code":"26202","name":"舞鶴市","pref":"京都府","kind":"municipality","lat":35.47,"lon":135.39},
+  {"code":"26201","name":"福知山市","pref":"京都府","kind":"municipality","lat":35.29,"lon":135.12},
+  {"code":"26214","name":"木津川市","pref":"京都府","kind":"municipality","lat":34.73,"lon":135.81},
+  {"code":"26","name":"京都府","pref":"京都府","kind":"prefecture","lat":35.01,"lon":135.76},
+  {"code":"43214","name":"阿蘇市","pref":"熊本県","kind":"municipality","lat":32.93,"lon":131.12},
+  {"code":"43213","name":"宇城市","pref":"熊本県","kind":"municipality","lat":32.64,"lon":130.67},
+  {"code":"43211","name":"宇土市","pref":"熊本県","kind":"municipality","lat":32.68,"lon":130.66},
+  {"code":"43210","name":"菊池市","pref":"熊本県","kind":"municipality","lat":32.97,"lon":130.81},
+  {"code":"43206","name":"玉名市","pref":"熊本県","kind":"municipality","lat":32.92,"lon":130.55},
+  {"code":"43100","name":"熊本市","pref":"熊本県","kind":"municipality","lat":32.8,"lon":130.7},
+  {"code":"43441","name":"御船町","pref":"熊本県","kind":"municipality","lat":32.717,"lon":130.822},
+  {"code":"43204","name":"荒尾市","pref":"熊本県","kind":"municipality","lat":32.98,"lon":130.43},
+  {"code":"43428","name":"高森町","pref":"熊本県","kind":"municipality","lat":32.82,"lon":131.127},
+  {"code":"43216","name":"合志市","pref":"熊本県","kind":"municipality","lat":32.88,"lon":130.78},
+  {"code":"43512","name":"山江村","pref":"熊本県","kind":"municipality","lat":32.247,"lon":130.767},
+  {"code":"43208","name":"山鹿市","pref":"熊本県","kind":"municipality","lat":33.01,"lon":130.69},
+  {"code":"43425","name":"産山村","pref":"熊本県","kind":"municipality","lat":33,"lon":131.239},
+  {"code":"43212","name":"上天草市","pref":"熊本県","kind":"municipality","lat":32.57,"lon":130.44},
+  {"code":"43203","name":"人吉市","pref":"熊本県","kind":"municipality","lat":32.21,"lon":130.75},
+  {"code":"43205","name":"水俣市","pref":"熊本県","kind":"municipality","lat":32.21,"lon":130.4},
+  {"code":"43505","name":"多良木町","pref":"熊本県","kind":"municipality","lat":32.267,"lon":130.933},
+  {"code":"43403","name":"大津町","pref":"熊本県","kind":"municipality","lat":32.88,"lon":130.872},
+  {"code":"43368","name":"長洲町","pref":"熊本県","kind":"municipality","lat":32.933,"lon":130.443},
+  {"code":"43484","name":"津奈木町","pref":"熊本県","kind":"municipality","lat":32.236,"lon":130.476},
+  {"code":"43215","name":"天草市","pref":"熊本県","kind":"municipality","lat":32.45,"lon":130.19},
+  {"code":"43506","name":"湯前町","pref":"熊本県","kind":"municipality","lat":32.283,"lon":130.983},
+  {"code":"43202","name":"八代市","pref":"熊本県","kind":"municipality","lat":32.5,"lon":130.6},
+  {"code":"43","name":"熊本県","pref":"熊本県","kind":"prefecture","lat":32.8,"lon":130.7},
+  {"code":"10212","name":"みどり市","pref":"群馬県","kind":"municipality","lat":36.445,"lon":139.284},
+  {"code":"10449","name":"みなかみ町","pref":"群馬県","kind":"municipality","lat":36.688,"lon":138.986},
+  {"code":"10211","name":"安中市","pref":"群馬県","kind":"municipality","lat":36.33,"lon":138.896},
+  {"code":"10204","name":"伊勢崎市","pref":"群馬県","kind":"municipality","lat":36.31,"lon":139.19},
+  {"code":"10382","name":"下仁田町","pref":"群馬県","kind":"municipality","lat":36.217,"lon":138.783},
+  {"code":"10207","name":"館林市","pref":"群馬県","kind":"municipality","lat":36.24,"lon":139.54},
+  {"code":"10464","name":"玉村町","pref":"群馬県","kind":"municipality","lat":36.3,"lon":139.117},
+  {"code":"10203","name":"桐生市","pref":"群馬県","kind":"municipality","lat":36.4,"lon":139.33},
+  {"code":"10202","name":"高崎市","pref":"群馬県","kind":"municipality","lat":36.32,"lon":139.01},
+  {"code":"10208","name":"渋川市","pref":"群馬県","kind":"municipality","lat":36.49,"lon":138.99},
+  {"code":"10206","name":"沼田市","pref":"群馬県","kind":"municipality","lat":36.64,"lon":139.04},
+  {"code":"10201","name":"前橋市","pref":"群馬県","kind":"municipality","lat":36.38,"lon":139.06},
+  {"code":"10426","name":"草津町","pref":"群馬県","kind":"municipality","lat":36.617,"lon":138.6},
+  {"code":"10205","name":"太田市","pref":"群馬県","kind":"municipality","lat":36.29,"lon":139.37},
+  {"code":"10424","name":"長野原町","pref":"群馬県","kind":"municipality","lat":36.55,"lon":138.633},
+  {"code":"10429","name":"東吾妻町","pref":"群馬県","kind":"municipality","lat":36.573,"lon":138.826},
+  {"code":"10209","name":"藤岡市","pref":"群馬県","kind":"municipality","lat":36.246,"lon":139.072},
+  {"code":"10521","name":"板倉町","pref":"群馬県","kind":"municipality","lat":36.223,"lon":139.61},
+  {"code":"10210","name":"富岡市","pref":"群馬県","kind":"municipality","lat":36.254,"lon":138.898},
+  {"code":"10443","name":"片品村","pref":"群馬県","kind":"municipality","lat":36.839,"lon":139.263},
+  {"code":"10","name":"群馬県","pref":"群馬県","kind":"prefecture","lat":36.38,"lon":139.06},
+  {"code":"34214","name":"安芸高田市","pref":"広島県","kind":"municipality","lat":34.67,"lon":132.7},
+  {"code":"34307","name":"熊野町","pref":"広島県","kind":"municipality","lat":34.333,"lon":132.57},
+  {"code":"34202","name":"呉市","pref":"広島県","kind":"municipality","lat":34.24,"lon":132.56},
+  {"name":"広島県府中市","pref":"広島県","kind":"municipality","lat":34.57,"lon":133.23},
+  {"code":"34100","name":"広島市","pref":"広島県","kind":"municipality","lat":34.38,"lon":132.45},
+  {"code":"34215","name":"江田島市","pref":"広島県","kind":"municipality","lat":34.22,"lon":132.47},
+  {"code":"34309","name":"坂町","pref":"広島県","kind":"municipality","lat":34.333,"lon":132.517},
+  {"code":"34204","name":"三原市","pref":"広島県","kind":"municipality","lat":34.4,"lon":133.08},
+  {"code":"34209","name":"三次市","pref":"広島県","kind":"municipality","lat":34.8,"lon":132.85},
+  {"code":"34210","name":"庄原市","pref":"広島県","kind":"municipality","lat":34.85,"lon":133.01},
+  {"code":"34211","name":"大竹市","pref":"広島県","kind":"municipality","lat":34.21,"lon":132.22},
+  {"code":"34203","name":"竹原市","pref":"広島県","kind":"municipality","lat":34.34,"lon":132.91},
+  {"code":"34212","name":"東広島市","pref":"広島県","kind":"municipality","lat":34.42,"lon":132.74},
+  {"code":"34213","name":"廿日市市","pref":"広島県","kind":"municipality","lat":34.35,"lon":132.33},
+  {"code":"34205","name":"尾道市","pref":"広島県","kind":"municipality","lat":34.4,"lon":133.19},
+  {"code":"34208","name":"府中市","pref":"広島県","kind":"municipality","lat":34.388,"lon":132.51},
+  {"code":"34302","name":"府中町","pref":"広島県","kind":"municipality","lat":34.388,"lon":132.51},
+  {"code":"34207","name":"福山市","pref":"広島県","kind":"municipality","lat":34.48,"lon":133.36},
+  {"code":"34","name":"広島県","pref":"広島県","kind":"prefecture","lat":34.38,"lon":132.45},
+  {"code":"37206","name":"さぬき市","pref":"香川県","kind":"municipality","lat":34.26,"lon":134.17},
+  {"code":"37386","name":"宇多津町","pref":"香川県","kind":"municipality","lat":34.3,"lon":133.817},
+  {"code":"37205","name":"観音寺市","pref":"香川県","kind":"municipality","lat":34.12,"lon":133.65},
+  {"code":"37202","name":"丸亀市","pref":"香川県","kind":"municipality","lat":34.29,"lon":133.79},
+  {"code":"37403","name":"琴平町","pref":"香川県","kind":"municipality","lat":34.183,"lon":133.817},
+  {"code":"37201","name":"高松市","pref":"香川県","kind":"municipality","lat":34.34,"lon":134.04},
+  {"code":"37203","name":"坂出市","pref":"香川県","kind":"municipality","lat":34.31,"lon":133.85},
+  {"code":"37208","name":"三豊市","pref":"香川県","kind":"municipality","lat":34.15,"lon":133.69},
+  {"code":"37204","name":"善通寺市","pref":"香川県","kind":"municipality","lat":34.22,"lon":133.78},
+  {"code":"37404","name":"多度津町","pref":"香川県","kind":"municipality","lat":34.275,"lon":133.75},
+  {"code":"37322","name":"土庄町","pref":"香川県","kind":"municipality","lat":34.48,"lon":134.17},
+  {"code":"37207","name":"東かがわ市","pref":"香川県","kind":"municipality","lat":34.24,"lon":134.26},
+  {"code":"37","name":"香川県","pref":"香川県","kind":"prefecture","lat":34.34,"lon":134.04},
+  {"code":"39386","name":"いの町","pref":"高知県","kind":"municipality","lat":33.55,"lon":133.433},
+  {"code":"39203","name":"安芸市","pref":"高知県","kind":"municipality","lat":33.5,"lon":133.9},
+  {"code":"39304","name":"安田町","pref":"高知県","kind":"municipality","lat":33.436,"lon":133.985},
+  {"code":"39403","name":"越知町","pref":"高知県","kind":"municipality","lat":33.533,"lon":133.25},
+  {"code":"39211","name":"香南市","pref":"高知県","kind":"municipality","lat":33.56,"lon":133.7},
+  {"code":"39212","name":"香美市","pref":"高知県","kind":"municipality","lat":33.61,"lon":133.68},
+  {"code":"39201","name":"高知市","pref":"高知県","kind":"municipality","lat":33.55,"lon":133.53},
+  {"code":"39402","name":"佐川町","pref":"高知県","kind":"municipality","lat":33.507,"lon":133.285},
+  {"code":"39210","name":"四万十市","pref":"高知県","kind":"municipality","lat":32.99,"lon":132.93},
+  {"code":"39412","name":"四万十町","pref":"高知県","kind":"municipality","lat":33.078,"lon":132.852},
+  {"code":"39202","name":"室戸市","pref":"高知県","kind":"municipality","lat":33.29,"lon":134.15},
+  {"code":"39208","name":"宿毛市","pref":"高知県","kind":"municipality","lat":32.94,"lon":132.72},
+  {"code":"39206","name":"須崎市","pref":"高知県","kind":"municipality","lat":33.39,"lon":133.29},
+  {"code":"39303","name":"田野町","pref":"高知県","kind":"municipality","lat":33.417,"lon":134.017},
+  {"code":"39205","name":"土佐市","pref":"高知県","kind":"municipality","lat":33.5,"lon":133.42},
+  {"code":"39209","name":"土佐清水市","pref":"高知県","kind":"municipality","lat":32.77,"lon":132.95},
+  {"code":"39363","name":"土佐町","pref":"高知県","kind":"municipality","lat":33.505,"lon":133.445},
+  {"code":"39405","name":"梼原町","pref":"高知県","kind":"municipality","lat":33.383,"lon":132.917},
+  {"code":"39302","name":"奈半利町","pref":"高知県","kind":"municipality","lat":33.417,"lon":134.017},
+  {"code":"39204","name":"南国市","pref":"高知県","kind":"municipality","lat":33.56,"lon":133.64},
+  {"code":"39410","name":"日高村","pref":"高知県","kind":"municipality","lat":33.535,"lon":133.373},
+  {"code":"39305","name":"北川村","pref":"高知県","kind":"municipality","lat":33.448,"lon":134.042},
+  {"code":"39341","name":"本山町","pref":"高知県","kind":"municipality","lat":33.794,"lon":133.581},
+  {"code":"39","name":"高知県","pref":"高知県","kind":"prefecture","lat":33.55,"lon":133.53},
+  {"code":"41205","name":"伊万里市","pref":"佐賀県","kind":"municipality","lat":33.26,"lon":129.87},
+  {"code":"41209","name":"嬉野市","pref":"佐賀県","kind":"municipality","lat":33.12,"lon":129.97},
+  {"code":"41201","name":"佐賀市","pref":"佐賀県","kind":"municipality","lat":33.26,"lon":130.3},
+  {"code":"41207","name":"鹿島市","pref":"佐賀県","kind":"municipality","lat":33.1,"lon":130.09},
+  {"code":"41208","name":"小城市","pref":"佐賀県","kind":"municipality","lat":33.28,"lon":130.2},
+  {"code":"41210","name":"神埼市","pref":"佐賀県","kind":"municipality","lat":33.31,"lon":130.37},
+  {"code":"41204","name":"多久市","pref":"佐賀県","kind":"municipality","lat":33.28,"lon":130.11},
+  {"code":"41441","name":"太良町","pref":"佐賀県","kind":"municipality","lat":33.024,"lon":130.178},
+  {"code":"41423","name":"大町町","pref":"佐賀県","kind":"municipality","lat":33.219,"lon":130.12},
+  {"code":"41203","name":"鳥栖市","pref":"佐賀県","kind":"municipality","lat":33.37,"lon":130.5},
+  {"code":"41202","name":"唐津市","pref":"佐賀県","kind":"municipality","lat":33.44,"lon":129.96},
+  {"code":"41206","name":"武雄市","pref":"佐賀県","kind":"municipality","lat":33.19,"lon":130.02},
+  {"code":"41401","name":"有田町","pref":"佐賀県","kind":"municipality","lat":33.183,"lon":129.9},
+  {"code":"41","name":"佐賀県","pref":"佐賀県","kind":"prefecture","lat":33.26,"lon":130.3},
+  {"code":"11100","name":"さいたま市","pref":"埼玉県","kind":"municipality","lat":35.86,"lon":139.64},
+  {"code":"11245","name":"ふじみ野市","pref":"埼玉県","kind":"municipality","lat":35.902,"lon":139.525},
+  {"code":"11327","name":"越生町","pref":"埼玉県","kind":"municipality","lat":35.959,"lon":139.29},
+  {"code":"11222","name":"越谷市","pref":"埼玉県","kind":"municipality","lat":35.89,"lon":139.789},
+  {"code":"11361","name":"横瀬町","pref":"埼玉県","kind":"municipality","lat":35.985,"lon":139.095},
+  {"code":"11231","name":"桶川市","pref":"埼玉県","kind":"municipality","lat":36,"lon":139.557},
+  {"code":"11210","name":"加須市","pref":"埼玉県","kind":"municipality","lat":36.13,"lon":139.59},
+  {"code":"11362","name":"皆野町","pref":"埼玉県","kind":"municipality","lat":36.074,"lon":139.1},
+  {"code":"11408","name":"寄居町","pref":"埼玉県","kind":"municipality","lat":36.116,"lon":139.194},
+  {"code":"11243","name":"吉川市","pref":"埼玉県","kind":"municipality","lat":35.892,"lon":139.842},
+  {"code":"11442","name":"宮代町","pref":"埼玉県","kind":"municipality","lat":36.022,"lon":139.73},
+  {"code":"11215","name":"狭山市","pref":"埼玉県","kind":"municipality","lat":35.853,"lon":139.412},
+  {"code":"11202","name":"熊谷市","pref":"埼玉県","kind":"municipality","lat":36.14,"lon":139.38},
+  {"code":"11224","name":"戸田市","pref":"埼玉県","kind":"municipality","lat":35.814,"lon":139.66},
+  {"code":"11240","name":"幸手市","pref":"埼玉県","kind":"municipality","lat":36.073,"lon":139.726},
+  {"code":"11206","name":"行田市","pref":"埼玉県","kind":"municipality","lat":36.14,"lon":139.45},
+  {"code":"11217","name":"鴻巣市","pref":"埼玉県","kind":"municipality","lat":36.069,"lon":139.517},
+  {"code":"11239","name":"坂戸市","pref":"埼玉県","kind":"municipality","lat":35.957,"lon":139.389},
+  {"code":"11228","name":"志木市","pref":"埼玉県","kind":"municipality","lat":35.833,"lon":139.583},
+  {"code":"11214","name":"春日部市","pref":"埼玉県","kind":"municipality","lat":35.97,"lon":139.75},
+  {"code":"11208","name":"所沢市","pref":"埼玉県","kind":"municipality","lat":35.79,"lon":139.46},
+  {"code":"11365","name":"小鹿野町","pref":"埼玉県","kind":"municipality","lat":36.022,"lon":139.003},
+  {"code":"11465","name":"松伏町","pref":"埼玉県","kind":"municipality","lat":35.919,"lon":139.811},
+  {"code":"11219","name":"上尾市","pref":"埼玉県","kind":"municipality","lat":35.971,"lon":139.614},
+  {"code":"11230","name":"新座市","pref":"埼玉県","kind":"municipality","lat":35.821,"lon":139.558},
+  {"code":"11218","name":"深谷市","pref":"埼玉県","kind":"municipality","lat":36.177,"lon":139.26},
+  {"code":"11464","name":"杉戸町","pref":"埼玉県","kind":"municipality","lat":36.031,"lon":139.726},
+  {"code":"11201","name":"川越市","pref":"埼玉県","kind":"municipality","lat":35.92,"lon":139.48},
+  {"code":"11203","name":"川口市","pref":"埼玉県","kind":"municipality","lat":35.8,"lon":139.71},
+  {"code":"11221","name":"草加市","pref":"埼玉県","kind":"municipality","lat":35.836,"lon":139.8},
+  {"code":"11207","name":"秩父市","pref":"埼玉県","kind":"municipality","lat":35.99,"lon":139.08},
+  {"code":"11227","name":"朝霞市","pref":"埼玉県","kind":"municipality","lat":35.805,"lon":139.602},
+  {"code":"11363","name":"長瀞町","pref":"埼玉県","kind":"municipality","lat":36.103,"lon":139.11},
+  {"code":"11241","name":"鶴ヶ島市","pref":"埼玉県","kind":"municipality","lat":35.96,"lon":139.403},
+  {"code":"11212","name":"東松山市","pref":"埼玉県","kind":"municipality","lat":36.03,"lon":139.4},
+  {"code":"11369","name":"東秩父村","pref":"埼玉県","kind":"municipality","lat":36.058,"lon":139.195},
+  {"code":"11242","name":"日高市","pref":"埼玉県","kind":"municipality","lat":35.917,"lon":139.362},
+  {"code":"11225","name":"入間市","pref":"埼玉県","kind":"municipality","lat":35.818,"lon":139.368},
+  {"code":"11246","name":"白岡市","pref":"埼玉県","kind":"municipality","lat":36.018,"lon":139.66},
+  {"code":"11234","name":"八潮市","pref":"埼玉県","kind":"municipality","lat":35.823,"lon":139.839},
+  {"code":"11348","name":"鳩山町","pref":"埼玉県","kind":"municipality","lat":35.981,"lon":139.334},
+  {"code":"11209","name":"飯能市","pref":"埼玉県","kind":"municipality","lat":35.85,"lon":139.32},
+  {"code":"11235","name":"富士見市","pref":"埼玉県","kind":"municipality","lat":35.848,"lon":139.555},
+  {"code":"11233","name":"北本市","pref":"埼玉県","kind":"municipality","lat":36.033,"lon":139.538},
+  {"code":"11211","name":"本庄市","pref":"埼玉県","kind":"municipality","lat":36.24,"lon":139.18},
+  {"code":"11342","name":"嵐山町","pref":"埼玉県","kind":"municipality","lat":36.055,"lon":139.315},
+  {"code":"11238","name":"蓮田市","pref":"埼玉県","kind":"municipality","lat":35.971,"lon":139.649},
+  {"code":"11229","name":"和光市","pref":"埼玉県","kind":"municipality","lat":35.789,"lon":139.623},
+  {"code":"11223","name":"蕨市","pref":"埼玉県","kind":"municipality","lat":35.822,"lon":139.685},
+  {"code":"11","name":"埼玉県","pref":"埼玉県","kind":"prefecture","lat":35.86,"lon":139.64},
+  {"code":"24214","name":"いなべ市","pref":"三重県","kind":"municipality","lat":35.15,"lon":136.5},
+  {"code":"24216","name":"伊賀市","pref":"三重県","kind":"municipality","lat":34.76,"lon":136.13},
+  {"code":"24203","name":"伊勢市","pref":"三重県","kind":"municipality","lat":34.49,"lon":136.7},
+  {"code":"24543","name":"紀北町","pref":"三重県","kind":"municipality","lat":34.211,"lon":136.335},
+  {"code":"24210","name":"亀山市","pref":"三重県","kind":"municipality","lat":34.85,"lon":136.45},
+  {"code":"24212","name":"熊野市","pref":"三重県","kind":"municipality","lat":33.89,"lon":136.09},
+  {"code":"24205","name":"桑名市","pref":"三重県","kind":"municipality","lat":35.06,"lon":136.68},
+  {"code":"24341","name":"菰野町","pref":"三重県","kind":"municipality","lat":35,"lon":136.517},
+  {"code":"24202","name":"四日市市","pref":"三重県","kind":"municipality","lat":34.96,"lon":136.62},
+  {"code":"24215","name":"志摩市","pref":"三重県","kind":"municipality","lat":34.33,"lon":136.82},
+  {"code":"24204","name":"松阪市","pref":"三重県","kind":"municipality","lat":34.57,"lon":136.53},
+  {"code":"24443","name":"大台町","pref":"三重県","kind":"municipality","lat":34.396,"lon":136.407},
+  {"code":"24343","name":"朝日町","pref":"三重県","kind":"municipality","lat":35.034,"lon":136.664},
+  {"code":"24211","name":"鳥羽市","pref":"三重県","kind":"municipality","lat":34.48,"lon":136.84},
+  {"code":"24201","name":"津市","pref":"三重県","kind":"municipality","lat":34.73,"lon":136.5},
+  {"code":"24324","name":"東員町","pref":"三重県","kind":"municipality","lat":35.095,"lon":136.601},
+  {"code":"24472","name":"南伊勢町","pref":"三重県","kind":"municipality","lat":34.35,"lon":136.699},
+  {"code":"24209","name":"尾鷲市","pref":"三重県","kind":"municipality","lat":34.07,"lon":136.18},
+  {"code":"24208","name":"名張市","pref":"三重県","kind":"municipality","lat":34.62,"lon":136.09},
+  {"code":"24207","name":"鈴鹿市","pref":"三重県","kind":"municipality","lat":34.88,"lon":136.58},
+  {"code":"24","name":"三重県","pref":"三重県","kind":"prefecture","lat":34.73,"lon":136.5},
+  {"code":"06206","name":"寒河江市","pref":"山形県","kind":"municipality","lat":38.38,"lon":140.27},
+  {"code":"06361","name":"金山町","pref":"山形県","kind":"municipality","lat":38.884,"lon":140.337},
+  {"code":"06381","name":"高畠町","pref":"山形県","kind":"municipality","lat":38.003,"lon":140.191},
+  {"code":"06201","name":"山形市","pref":"山形県","kind":"municipality","lat":38.25,"lon":140.33},
+  {"code":"06301","name":"山辺町","pref":"山形県","kind":"municipality","lat":38.291,"lon":140.267},
+  {"code":"06204","name":"酒田市","pref":"山形県","kind":"municipality","lat":38.91,"lon":139.83},
+  {"code":"06363","name":"舟形町","pref":"山形県","kind":"municipality","lat":38.689,"lon":140.319},
+  {"code":"06207","name":"上山市","pref":"山形県","kind":"municipality","lat":38.15,"lon":140.27},
+  {"code":"06205","name":"新庄市","pref":"山形県","kind":"municipality","lat":38.76,"lon":140.3},
+  {"code":"06208","name":"村山市","pref":"山形県","kind":"municipality","lat":38.47,"lon":140.414},
+  {"code":"06341","name":"大石田町","pref":"山形県","kind":"municipality","lat":38.597,"lon":140.374},
+  {"code":"06209","name":"長井市","pref":"山形県","kind":"municipality","lat":38.1,"lon":140.03},
+  {"code":"06203","name":"鶴岡市","pref":"山形県","kind":"municipality","lat":38.72,"lon":139.82},
+  {"code":"06210","name":"天童市","pref":"山形県","kind":"municipality","lat":38.354,"lon":140.37},
+  {"code":"06211","name":"東根市","pref":"山形県","kind":"municipality","lat":38.439,"lon":140.401},
+  {"code":"06213","name":"南陽市","pref":"山形県","kind":"municipality","lat":38.043,"lon":140.113},
+  {"code":"06212","name":"尾花沢市","pref":"山形県","kind":"municipality","lat":38.603,"lon":140.402},
+  {"code":"06202","name":"米沢市","pref":"山形県","kind":"municipality","lat":37.92,"lon":140.11},
+  {"code":"06461","name":"遊佐町","pref":"山形県","kind":"municipality","lat":39.016,"lon":139.929},
+  {"code":"06","name":"山形県","pref":"山形県","kind":"prefecture","lat":38.25,"lon":140.33},
+  {"code":"35502","name":"阿武町","pref":"山口県","kind":"municipality","lat":34.5,"lon":131.467},
+  {"code":"35202","name":"宇部市","pref":"山口県","kind":"municipality","lat":33.94,"lon":131.24},
+  {"code":"35201","name":"下関市","pref":"山口県","kind":"municipality","lat":33.95,"lon":130.94},
+  {"code":"35207","name":"下松市","pref":"山口県","kind":"municipality","lat":34.01,"lon":131.86},
+  {"code":"35208","name":"岩国市","pref":"山口県","kind":"municipality","lat":34.16,"lon":132.22},
+  {"code":"35210","name":"光市","pref":"山口県","kind":"municipality","lat":33.96,"lon":131.94},
+  {"code":"35203","name":"山口市","pref":"山口県","kind":"municipality","lat":34.17,"lon":131.47},
+  {"code":"35216","name":"山陽小野田市","pref":"山口県","kind":"municipality","lat":34,"lon":131.17},
+  {"code":"35215","name":"周南市","pref":"山口県","kind":"municipality","lat":34.06,"lon":131.8},
+  {"code":"35341","name":"上関町","pref":"山口県","kind":"municipality","lat":33.833,"lon":132.109},
+  {"code":"35211","name":"長門市","pref":"山口県","kind":"municipality","lat":34.35,"lon":131.17},
+  {"code":"35343","name":"田布施町","pref":"山口県","kind":"municipality","lat":33.95,"lon":132.067},
+  {"code":"35204","name":"萩市","pref":"山口県","kind":"municipality","lat":34.4,"lon":131.39},
+  {"code":"35213","name":"美祢市","pref":"山口県","kind":"municipality","lat":34.16,"lon":131.2},
+  {"code":"35344","name":"平生町","pref":"山口県","kind":"municipality","lat":33.938,"lon":132.072},
+  {"code":"35206","name":"防府市","pref":"山口県","kind":"municipality","lat":34.05,"lon":131.56},
+  {"code":"35212","name":"柳井市","pref":"山口県","kind":"municipality","lat":33.96,"lon":132.1},
+  {"code":"35321","name":"和木町","pref":"山口県","kind":"municipality","lat":34.2,"lon":132.217},
+  {"code":"35","name":"山口県","pref":"山口県","kind":"prefecture","lat":34.17,"lon":131.47},
+  {"code":"19213","name":"甲州市","pref":"山梨県","kind":"municipality","lat":35.7,"lon":138.73},
+  {"code":"19210","name":"甲斐市","pref":"山梨県","kind":"municipality","lat":35.67,"lon":138.51},
+  {"code":"19201","name":"甲府市","pref":"山梨県","kind":"municipality","lat":35.66,"lon":138.56},
+  {"code":"19205","name":"山梨市","pref":"山梨県","kind":"municipality","lat":35.69,"lon":138.68},
+  {"code":"19384","name":"昭和町","pref":"山梨県","kind":"municipality","lat":35.628,"lon":138.535},
+  {"code":"19212","name":"上野原市","pref":"山梨県","kind":"municipality","lat":35.62,"lon":139.11},
+  {"code":"19364","name":"早川町","pref":"山梨県","kind":"municipality","lat":35.45,"lon":138.35},
+  {"code":"19206","name":"大月市","pref":"山梨県","kind":"municipality","lat":35.61,"lon":138.94},
+  {"code":"19214","name":"中央市","pref":"山梨県","kind":"municipality","lat":35.6,"lon":138.52},
+  {"code":"19211","name":"笛吹市","pref":"山梨県","kind":"municipality","lat":35.64,"lon":138.63},
+  {"code":"19204","name":"都留市","pref":"山梨県","kind":"municipality","lat":35.55,"lon":138.9},
+  {"code":"19208","name":"南アルプス市","pref":"山梨県","kind":"municipality","lat":35.61,"lon":138.46},
+  {"code":"19366","name":"南部町","pref":"山梨県","kind":"municipality","lat":35.283,"lon":138.45},
+  {"code":"19207","name":"韮崎市","pref":"山梨県","kind":"municipality","lat":35.71,"lon":138.45},
+  {"code":"19424","name":"忍野村","pref":"山梨県","kind":"municipality","lat":35.459,"lon":138.859},
+  {"code":"19430","name":"富士河口湖町","pref":"山梨県","kind":"municipality","lat":35.489,"lon":138.688},
+  {"code":"19202","name":"富士吉田市","pref":"山梨県","kind":"municipality","lat":35.48,"lon":138.8},
+  {"code":"19209","name":"北杜市","pref":"山梨県","kind":"municipality","lat":35.77,"lon":138.41},
+  {"code":"19429","name":"鳴沢村","pref":"山梨県","kind":"municipality","lat":35.483,"lon":138.701},
+  {"code":"19","name":"山梨県","pref":"山梨県","kind":"prefecture","lat":35.66,"lon":138.56},
+  {"code":"25204","name":"近江八幡市","pref":"滋賀県","kind":"municipality","lat":35.13,"lon":136.09},
+  {"code":"25208","name":"栗東市","pref":"滋賀県","kind":"municipality","lat":35.02,"lon":135.99},
+  {"code":"25211","name":"湖南市","pref":"滋賀県","kind":"municipality","lat":35,"lon":136.08},
+  {"code":"25209","name":"甲賀市","pref":"滋賀県","kind":"municipality","lat":34.96,"lon":136.16},
+  {"code":"25442","name":"甲良町","pref":"滋賀県","kind":"municipality","lat":35.204,"lon":136.261},
+  {"code":"25212","name":"高島市","pref":"滋賀県","kind":"municipality","lat":35.36,"lon":136.03},
+  {"code":"25207","name":"守山市","pref":"滋賀県","kind":"municipality","lat":35.05,"lon":135.99},
+  {"code":"25206","name":"草津市","pref":"滋賀県","kind":"municipality","lat":35.02,"lon":135.96},
+  {"code":"25443","name":"多賀町","pref":"滋賀県","kind":"municipality","lat":35.226,"lon":136.286},
+  {"code":"25201","name":"大津市","pref":"滋賀県","kind":"municipality","lat":35.01,"lon":135.85},
+  {"code":"25203","name":"長浜市","pref":"滋賀県","kind":"municipality","lat":35.37,"lon":136.26},
+  {"code":"25213","name":"東近江市","pref":"滋賀県","kind":"municipality","lat":35.11,"lon":136.21},
+  {"code":"25383","name":"日野町","pref":"滋賀県","kind":"municipality","lat":35,"lon":136.25},
+  {"code":"25202","name":"彦根市","pref":"滋賀県","kind":"municipality","lat":35.27,"lon":136.26},
+  {"code":"25214","name":"米原市","pref":"滋賀県","kind":"municipality","lat":35.31,"lon":136.29},
+  {"code":"25441","name":"豊郷町","pref":"滋賀県","kind":"municipality","lat":35.2,"lon":136.23},
+  {"code":"25210","name":"野洲市","pref":"滋賀県","kind":"municipality","lat":35.07,"lon":136.02},
+  {"code":"25","name":"滋賀県","pref":"滋賀県","kind":"prefecture","lat":35.01,"lon":135.85},
+  {"code":"46219","name":"いちき串木野市","pref":"鹿児島県","kind":"municipality","lat":31.71,"lon":130.26},
+  {"code":"46206","name":"阿久根市","pref":"鹿児島県","kind":"municipality","lat":32.01,"lon":130.19},
+  {"code":"46225","name":"姶良市","pref":"鹿児島県","kind":"municipality","lat":31.73,"lon":130.62},
+  {"code":"46224","name":"伊佐市","pref":"鹿児島県","kind":"municipality","lat":32.05,"lon":130.61},
+  {"code":"46532","name":"伊仙町","pref":"鹿児島県","kind":"municipality","lat":27.676,"lon":128.937},
+  {"code":"46524","name":"宇検村","pref":"鹿児島県","kind":"municipality","lat":28.3,"lon":129.233},
+  {"code":"46222","name":"奄美市","pref":"鹿児島県","kind":"municipality","lat":28.38,"lon":129.49},
+  {"code":"46215","name":"薩摩川内市","pref":"鹿児島県","kind":"municipality","lat":31.81,"lon":130.3},
+  {"code":"46221","name":"志布志市","pref":"鹿児島県","kind":"municipality","lat":31.48,"lon":131.1},
+  {"code":"46210","name":"指宿市","pref":"鹿児島県","kind":"municipality","lat":31.24,"lon":130.63},
+  {"code":"46203","name":"鹿屋市","pref":"鹿児島県","kind":"municipality","lat":31.37,"lon":130.85},
+  {"code":"46201","name":"鹿児島市","pref":"鹿児島県","kind":"municipality","lat":31.59,"lon":130.55},
+  {"code":"46208","name":"出水市","pref":"鹿児島県","kind":"municipality","lat":32.08,"lon":130.35},
+  {"code":"46214","name":"垂水市","pref":"鹿児島県","kind":"municipality","lat":31.48,"lon":130.69},
+  {"code":"46213","name":"西之表市","pref":"鹿児島県","kind":"municipality","lat":30.73,"lon":130.99},
+  {"code":"46217","name":"曽於市","pref":"鹿児島県","kind":"municipality","lat":31.69,"lon":131.02},
+  {"code":"46468","name":"大崎町","pref":"鹿児島県","kind":"municipality","lat":31.425,"lon":131.022},
+  {"code":"46534","name":"知名町","pref":"鹿児島県","kind":"municipality","lat":27.333,"lon":128.567},
+  {"code":"46531","name":"天城町","pref":"鹿児島県","kind":"municipality","lat":27.817,"lon":128.9},
+  {"code":"46220","name":"南さつま市","pref":"鹿児島県","kind":"municipality","lat":31.41,"lon":130.32},
+  {"code":"46223","name":"南九州市","pref":"鹿児島県","kind":"municipality","lat":31.38,"lon":130.43},
+  {"code":"46216","name":"日置市","pref":"鹿児島県","kind":"municipality","lat":31.63,"lon":130.39},
+  {"code":"46204","name":"枕崎市","pref":"鹿児島県","kind":"municipality","lat":31.26,"lon":130.29},
+  {"code":"46218","name":"霧島市","pref":"鹿児島県","kind":"municipality","lat":31.74,"lon":130.76},
+  {"code":"46527","name":"龍郷町","pref":"鹿児島県","kind":"municipality","lat":28.45,"lon":129.6},
+  {"code":"46533","name":"和泊町","pref":"鹿児島県","kind":"municipality","lat":27.383,"lon":128.65},
+  {"code":"46","name":"鹿児島県","pref":"鹿児島県","kind":"prefecture","lat":31.59,"lon":130.55},
+  {"code":"05214","name":"にかほ市","pref":"秋田県","kind":"municipality","lat":39.271,"lon":139.939},
+  {"code":"05203","name":"横手市","pref":"秋田県","kind":"municipality","lat":39.31,"lon":140.56},
+  {"code":"05211","name":"潟上市","pref":"秋田県","kind":"municipality","lat":39.879,"lon":139.998},
+  {"code":"05209","name":"鹿角市","pref":"秋田県","kind":"municipality","lat":40.208,"lon":140.783},
+  {"code":"05201","name":"秋田市","pref":"秋田県","kind":"municipality","lat":39.72,"lon":140.1},
+  {"code":"05303","name":"小坂町","pref":"秋田県","kind":"municipality","lat":40.379,"lon":140.731},
+  {"code":"05215","name":"仙北市","pref":"秋田県","kind":"municipality","lat":39.709,"lon":140.747},
+  {"code":"05204","name":"大館市","pref":"秋田県","kind":"municipality","lat":40.27,"lon":140.55},
+  {"code":"05212","name":"大仙市","pref":"秋田県","kind":"municipality","lat":39.45,"lon":140.47},
+  {"code":"05206","name":"男鹿市","pref":"秋田県","kind":"municipality","lat":39.88,"lon":139.84},
+  {"code":"05207","name":"湯沢市","pref":"秋田県","kind":"municipality","lat":39.16,"lon":140.49},
+  {"code":"05202","name":"能代市","pref":"秋田県","kind":"municipality","lat":40.21,"lon":140.02},
+  {"code":"05363","name":"八郎潟町","pref":"秋田県","kind":"municipality","lat":39.933,"lon":140.083},
+  {"code":"05213","name":"北秋田市","pref":"秋田県","kind":"municipality","lat":40.2,"lon":140.394},
+  {"code":"05210","name":"由利本荘市","pref":"秋田県","kind":"municipality","lat":39.38,"lon":140.04},
+  {"code":"05","name":"秋田県","pref":"秋田県","kind":"prefecture","lat":39.72,"lon":140.1},
+  {"code":"15223","name":"阿賀野市","pref":"新潟県","kind":"municipality","lat":37.83,"lon":139.22},
+  {"code":"15213","name":"燕市","pref":"新潟県","kind":"municipality","lat":37.67,"lon":138.92},
+  {"code":"15209","name":"加茂市","pref":"新潟県","kind":"municipality","lat":37.66,"lon":139.04},
+  {"code":"15504","name":"刈羽村","pref":"新潟県","kind":"municipality","lat":37.43,"lon":138.619},
+  {"code":"15225","name":"魚沼市","pref":"新潟県","kind":"municipality","lat":37.23,"lon":138.96},
+  {"code":"15211","name":"見附市","pref":"新潟県","kind":"municipality","lat":37.53,"lon":138.9},
+  {"code":"15218","name":"五泉市","pref":"新潟県","kind":"municipality","lat":37.74,"lon":139.17},
+  {"code":"15224","name":"佐渡市","pref":"新潟県","kind":"municipality","lat":38.03,"lon":138.38},
+  {"code":"15204","name":"三条市","pref":"新潟県","kind":"municipality","lat":37.63,"lon":138.96},
+  {"code":"15216","name":"糸魚川市","pref":"新潟県","kind":"municipality","lat":37.04,"lon":137.86},
+  {"code":"15210","name":"十日町市","pref":"新潟県","kind":"municipality","lat":37.13,"lon":138.75},
+  {"code":"15405","name":"出雲崎町","pref":"新潟県","kind":"municipality","lat":37.533,"lon":138.683},
+  {"code":"15208","name":"小千谷市","pref":"新潟県","kind":"municipality","lat":37.31,"lon":138.79},
+  {"code":"15222","name":"上越市","pref":"新潟県","kind":"municipality","lat":37.14,"lon":138.24},
+  {"code":"15100","name":"新潟市","pref":"新潟県","kind":"municipality","lat":37.9,"lon":139.02},
+  {"code":"15206","name":"新発田市","pref":"新潟県","kind":"municipality","lat":37.94,"lon":139.32},
+  {"code":"15307","name":"聖籠町","pref":"新潟県","kind":"municipality","lat":37.983,"lon":139.255},
+  {"code":"15212","name":"村上市","pref":"新潟県","kind":"municipality","lat":38.22,"lon":139.48},
+  {"code":"15227","name":"胎内市","pref":"新潟県","kind":"municipality","lat":38.06,"lon":139.4},
+  {"code":"15202","name":"長岡市","pref":"新潟県","kind":"municipality","lat":37.44,"lon":138.85},
+  {"code":"15361","name":"田上町","pref":"新潟県","kind":"municipality","lat":37.711,"lon":139.072},
+  {"code":"15461","name":"湯沢町","pref":"新潟県","kind":"municipality","lat":36.938,"lon":138.813},
+  {"code":"15226","name":"南魚沼市","pref":"新潟県","kind":"municipality","lat":37.06,"lon":138.87},
+  {"code":"15205","name":"柏崎市","pref":"新潟県","kind":"municipality","lat":37.37,"lon":138.55},
+  {"code":"15217","name":"妙高市","pref":"新潟県","kind":"municipality","lat":37.02,"lon":138.25},
+  {"code":"15342","name":"弥彦村","pref":"新潟県","kind":"municipality","lat":37.7,"lon":138.833},
+  {"code":"15","name":"新潟県","pref":"新潟県","kind":"prefecture","lat":37.9,"lon":139.02},
+  {"code":"14218","name":"綾瀬市","pref":"神奈川県","kind":"municipality","lat":35.43,"lon":139.42},
+  {"code":"14214","name":"伊勢原市","pref":"神奈川県","kind":"municipality","lat":35.39,"lon":139.31},
+  {"code":"14201","name":"横須賀市","pref":"神奈川県","kind":"municipality","lat":35.27,"lon":139.66},
+  {"code":"14100","name":"横浜市","pref":"神奈川県","kind":"municipality","lat":35.44,"lon":139.63},
+  {"code":"14215","name":"海老名市","pref":"神奈川県","kind":"municipality","lat":35.45,"lon":139.39},
+  {"code":"14204","name":"鎌倉市","pref":"神奈川県","kind":"municipality","lat":35.31,"lon":139.55},
+  {"code":"14207","name":"茅ヶ崎市","pref":"神奈川県","kind":"municipality","lat":35.33,"lon":139.4},
+  {"code":"14212","name":"厚木市","pref":"神奈川県","kind":"municipality","lat":35.44,"lon":139.36},
+  {"code":"14216","name":"座間市","pref":"神奈川県","kind":"municipality","lat":35.48,"lon":139.4},
+  {"code":"14210","name":"三浦市","pref":"神奈川県","kind":"municipality","lat":35.14,"lon":139.61},
+  {"code":"14364","name":"山北町","pref":"神奈川県","kind":"municipality","lat":35.363,"lon":139.08},
+  {"code":"14206","name":"小田原市","pref":"神奈川県","kind":"municipality","lat":35.25,"lon":139.15},
+  {"code":"14211","name":"秦野市","pref":"神奈川県","kind":"municipality","lat":35.37,"lon":139.22},
+  {"code":"14208","name":"逗子市","pref":"神奈川県","kind":"municipality","lat":35.29,"lon":139.58},
+  {"code":"14130","name":"川崎市","pref":"神奈川県","kind":"municipality","lat":35.53,"lon":139.7},
+  {"code":"14150","name":"相模原市","pref":"神奈川県","kind":"municipality","lat":35.57,"lon":139.37},
+  {"code":"14341","name":"大磯町","pref":"神奈川県","kind":"municipality","lat":35.316,"lon":139.316},
+  {"code":"14213","name":"大和市","pref":"神奈川県","kind":"municipality","lat":35.47,"lon":139.46},
+  {"code":"14384","name":"湯河原町","pref":"神奈川県","kind":"municipality","lat":35.15,"lon":139.067},
+  {"code":"14205","name":"藤沢市","pref":"神奈川県","kind":"municipality","lat":35.33,"lon":139.49},
+  {"code":"14217","name":"南足柄市","pref":"神奈川県","kind":"municipality","lat":35.32,"lon":139.1},
+  {"code":"14342","name":"二宮町","pref":"神奈川県","kind":"municipality","lat":35.302,"lon":139.256},
+  {"code":"14382","name":"箱根町","pref":"神奈川県","kind":"municipality","lat":35.189,"lon":139.026},
+  {"code":"14203","name":"平塚市","pref":"神奈川県","kind":"municipality","lat":35.33,"lon":139.35},
+  {"code":"14301","name":"葉山町","pref":"神奈川県","kind":"municipality","lat":35.277,"lon":139.577},
+  {"code":"14","name":"神奈川県","pref":"神奈川県","kind":"prefecture","lat":35.44,"lon":139.63},
+  {"code":"02209","name":"つがる市","pref":"青森県","kind":"municipality","lat":40.804,"lon":140.403},
+  {"code":"02208","name":"むつ市","pref":"青森県","kind":"municipality","lat":41.29,"lon":141.18},
+  {"code":"02406","name":"横浜町","pref":"青森県","kind":"municipality","lat":41.083,"lon":141.25},
+  {"code":"02205","name":"五所川原市","pref":"青森県","kind":"municipality","lat":40.804,"lon":140.441},
+  {"code":"02202","name":"弘前市","pref":"青森県","kind":"municipality","lat":40.6,"lon":140.46},
+  {"code":"02204","name":"黒石市","pref":"青森県","kind":"municipality","lat":40.646,"lon":140.584},
+  {"code":"02303","name":"今別町","pref":"青森県","kind":"municipality","lat":41.175,"lon":140.484},
+  {"code":"02426","name":"佐井村","pref":"青森県","kind":"municipality","lat":41.43,"lon":140.864},
+  {"code":"02441","name":"三戸町","pref":"青森県","kind":"municipality","lat":40.373,"lon":141.257},
+  {"code":"02207","name":"三沢市","pref":"青森県","kind":"municipality","lat":40.687,"lon":141.39},
+  {"code":"02402","name":"七戸町","pref":"青森県","kind":"municipality","lat":40.691,"lon":141.155},
+  {"code":"02206","name":"十和田市","pref":"青森県","kind":"municipality","lat":40.62,"lon":141.211},
+  {"code":"02323","name":"深浦町","pref":"青森県","kind":"municipality","lat":40.641,"lon":139.932},
+  {"code":"02201","name":"青森市","pref":"青森県","kind":"municipality","lat":40.82,"lon":140.75},
+  {"code":"02423","name":"大間町","pref":"青森県","kind":"municipality","lat":41.527,"lon":140.911},
+  {"code":"02362","name":"大鰐町","pref":"青森県","kind":"municipality","lat":40.52,"lon":140.569},
+  {"code":"02384","name":"鶴田町","pref":"青森県","kind":"municipality","lat":40.752,"lon":140.432},
+  {"code":"02443","name":"田子町","pref":"青森県","kind":"municipality","lat":40.334,"lon":141.15},
+  {"code":"02367","name":"田舎館村","pref":"青森県","kind":"municipality","lat":40.631,"lon":140.555},
+  {"code":"02361","name":"藤崎町","pref":"青森県","kind":"municipality","lat":40.653,"lon":140.5},
+  {"code":"02203","name":"八戸市","pref":"青森県","kind":"municipality","lat":40.51,"lon":141.48},
+  {"code":"02381","name":"板柳町","pref":"青森県","kind":"municipality","lat":40.695,"lon":140.455},
+  {"code":"02210","name":"平川市","pref":"青森県","kind":"municipality","lat":40.587,"lon":140.571},
+  {"code":"02301","name":"平内町","pref":"青森県","kind":"municipality","lat":40.92,"lon":140.956},
+  {"code":"02304","name":"蓬田村","pref":"青森県","kind":"municipality","lat":40.98,"lon":140.655},
+  {"code":"02321","name":"鰺ヶ沢町","pref":"青森県","kind":"municipality","lat":40.774,"lon":140.203},
+  {"code":"02","name":"青森県","pref":"青森県","kind":"prefecture","lat":40.82,"lon":140.75},
+  {"code":"22208","name":"伊東市","pref":"静岡県","kind":"municipality","lat":34.97,"lon":139.09},
+  {"code":"22225","name":"伊豆の国市","pref":"静岡県","kind":"municipality","lat":35.04,"lon":138.93},
+  {"code":"22222","name":"伊豆市","pref":"静岡県","kind":"municipality","lat":34.94,"lon":138.98},
+  {"code":"22219","name":"下田市","pref":"静岡県","kind":"municipality","lat":34.67,"lon":138.94},
+  {"code":"22213","name":"掛川市","pref":"静岡県","kind":"municipality","lat":34.77,"lon":138.01},
+  {"code":"22224","name":"菊川市","pref":"静岡県","kind":"municipality","lat":34.76,"lon":138.08},
+  {"code":"22221","name":"湖西市","pref":"静岡県","kind":"municipality","lat":34.72,"lon":137.53},
+  {"code":"22223","name":"御前崎市","pref":"静岡県","kind":"municipality","lat":34.63,"lon":138.13},
+  {"code":"22215","name":"御殿場市","pref":"静岡県","kind":"municipality","lat":35.3,"lon":138.93},
+  {"code":"22206","name":"三島市","pref":"静岡県","kind":"municipality","lat":35.11,"lon":138.91},
+  {"code":"22305","name":"松崎町","pref":"静岡県","kind":"municipality","lat":34.753,"lon":138.776},
+  {"code":"22203","name":"沼津市","pref":"静岡県","kind":"municipality","lat":35.1,"lon":138.86},
+  {"code":"22212","name":"焼津市","pref":"静岡県","kind":"municipality","lat":34.86,"lon":138.31},
+  {"code":"22461","name":"森町","pref":"静岡県","kind":"municipality","lat":34.833,"lon":137.933},
+  {"code":"22220","name":"裾野市","pref":"静岡県","kind":"municipality","lat":35.23,"lon":138.91},
+  {"code":"22100","name":"静岡市","pref":"静岡県","kind":"municipality","lat":34.97,"lon":138.38},
+  {"code":"22216","name":"袋井市","pref":"静岡県","kind":"municipality","lat":34.75,"lon":137.92},
+  {"code":"22209","name":"島田市","pref":"静岡県","kind":"municipality","lat":34.83,"lon":138.17},
+  {"code":"22214","name":"藤枝市","pref":"静岡県","kind":"municipality","lat":34.87,"lon":138.25},
+  {"code":"22205","name":"熱海市","pref":"静岡県","kind":"municipality","lat":35.1,"lon":139.07},
+  {"code":"22211","name":"磐田市","pref":"静岡県","kind":"municipality","lat":34.71,"lon":137.85},
+  {"code":"22130","name":"浜松市","pref":"静岡県","kind":"municipality","lat":34.71,"lon":137.72},
+  {"code":"22207","name":"富士宮市","pref":"静岡県","kind":"municipality","lat":35.22,"lon":138.61},
+  {"code":"22210","name":"富士市","pref":"静岡県","kind":"municipality","lat":35.16,"lon":138.67},
+  {"code":"22226","name":"牧之原市","pref":"静岡県","kind":"municipality","lat":34.74,"lon":138.22},
+  {"code":"22","name":"静岡県","pref":"静岡県","kind":"prefecture","lat":34.97,"lon":138.38},
+  {"code":"17209","name":"かほく市","pref":"石川県","kind":"municipality","lat":36.72,"lon":136.7},
+  {"code":"17207","name":"羽咋市","pref":"石川県","kind":"municipality","lat":36.89,"lon":136.78},
+  {"code":"17206","name":"加賀市","pref":"石川県","kind":"municipality","lat":36.3,"lon":136.35},
+  {"code":"17201","name":"金沢市","pref":"石川県","kind":"municipality","lat":36.56,"lon":136.65},
+  {"code":"17461","name":"穴水町","pref":"石川県","kind":"municipality","lat":37.22,"lon":136.9},
+  {"code":"17384","name":"志賀町","pref":"石川県","kind":"municipality","lat":37.12,"lon":136.76},
+  {"code":"17202","name":"七尾市","pref":"石川県","kind":"municipality","lat":37.04,"lon":136.96},
+  {"code":"17205","name":"珠洲市","pref":"石川県","kind":"municipality","lat":37.43,"lon":137.26},
+  {"code":"17203","name":"小松市","pref":"石川県","kind":"municipality","lat":36.4,"lon":136.45},
+  {"code":"17407","name":"中能登町","pref":"石川県","kind":"municipality","lat":36.96,"lon":136.86},
+  {"code":"17361","name":"津幡町","pref":"石川県","kind":"municipality","lat":36.67,"lon":136.74},
+  {"code":"17463","name":"能登町","pref":"石川県","kind":"municipality","lat":37.3,"lon":137.14},
+  {"code":"17211","name":"能美市","pref":"石川県","kind":"municipality","lat":36.44,"lon":136.5},
+  {"code":"17210","name":"白山市","pref":"石川県","kind":"municipality","lat":36.51,"lon":136.57},
+  {"code":"17386","name":"宝達志水町","pref":"石川県","kind":"municipality","lat":36.83,"lon":136.8},
+  {"code":"17212","name":"野々市市","pref":"石川県","kind":"municipality","lat":36.53,"lon":136.61},
+  {"code":"17204","name":"輪島市","pref":"石川県","kind":"municipality","lat":37.39,"lon":136.9},
+  {"code":"17","name":"石川県","pref":"石川県","kind":"prefecture","lat":36.56,"lon":136.65},
+  {"code":"12238","name":"いすみ市","pref":"千葉県","kind":"municipality","lat":35.23,"lon":140.405},
+  {"code":"12215","name":"旭市","pref":"千葉県","kind":"municipality","lat":35.71,"lon":140.64},
+  {"code":"12421","name":"一宮町","pref":"千葉県","kind":"municipality","lat":35.372,"lon":140.38},
+  {"code":"12231","name":"印西市","pref":"千葉県","kind":"municipality","lat":35.835,"lon":140.164},
+  {"code":"12227","name":"浦安市","pref":"千葉県","kind":"municipality","lat":35.65,"lon":139.89},
+  {"code":"12222","name":"我孫子市","pref":"千葉県","kind":"municipality","lat":35.86,"lon":140.03},
+  {"code":"12224","name":"鎌ケ谷市","pref":"千葉県","kind":"municipality","lat":35.76,"lon":139.99},
+  {"code":"12223","name":"鴨川市","pref":"千葉県","kind":"municipality","lat":35.11,"lon":140.1},
+  {"code":"12205","name":"館山市","pref":"千葉県","kind":"municipality","lat":34.99,"lon":139.86},
+  {"code":"12225","name":"君津市","pref":"千葉県","kind":"municipality","lat":35.33,"lon":139.89},
+  {"code":"12236","name":"香取市","pref":"千葉県","kind":"municipality","lat":35.898,"lon":140.499},
+  {"code":"12212","name":"佐倉市","pref":"千葉県","kind":"municipality","lat":35.72,"lon":140.22},
+  {"code":"12237","name":"山武市","pref":"千葉県","kind":"municipality","lat":35.628,"lon":140.418},
+  {"code":"12228","name":"四街道市","pref":"千葉県","kind":"municipality","lat":35.66,"lon":140.16},
+  {"code":"12219","name":"市原市","pref":"千葉県","kind":"municipality","lat":35.51,"lon":140.08},
+  {"code":"12203","name":"市川市","pref":"千葉県","kind":"municipality","lat":35.72,"lon":139.92},
+  {"code":"12409","name":"芝山町","pref":"千葉県","kind":"municipality","lat":35.683,"lon":140.433},
+  {"code":"12322","name":"酒々井町","pref":"千葉県","kind":"municipality","lat":35.717,"lon":140.267},
+  {"code":"12216","name":"習志野市","pref":"千葉県","kind":"municipality","lat":35.68,"lon":140.02},
+  {"code":"12218","name":"勝浦市","pref":"千葉県","kind":"municipality","lat":35.15,"lon":140.31},
+  {"code":"12207","name":"松戸市","pref":"千葉県","kind":"municipality","lat":35.78,"lon":139.9},
+  {"code":"12342","name":"神崎町","pref":"千葉県","kind":"municipality","lat":35.9,"lon":140.4},
+  {"code":"12211","name":"成田市","pref":"千葉県","kind":"municipality","lat":35.77,"lon":140.31},
+  {"code":"12100","name":"千葉市","pref":"千葉県","kind":"municipality","lat":35.6,"lon":140.1},
+  {"code":"12204","name":"船橋市","pref":"千葉県","kind":"municipality","lat":35.7,"lon":139.98},
+  {"code":"12235","name":"匝瑳市","pref":"千葉県","kind":"municipality","lat":35.715,"lon":140.553},
+  {"code":"12229","name":"袖ケ浦市","pref":"千葉県","kind":"municipality","lat":35.414,"lon":140.021},
+  {"code":"12347","name":"多古町","pref":"千葉県","kind":"municipality","lat":35.733,"lon":140.467},
+  {"code":"12441","name":"大多喜町","pref":"千葉県","kind":"municipality","lat":35.288,"lon":140.244},
+  {"code":"12239","name":"大網白里市","pref":"千葉県","kind":"municipality","lat":35.512,"lon":140.353},
+  {"code":"12202","name":"銚子市","pref":"千葉県","kind":"municipality","lat":35.73,"lon":140.82},
+  {"code":"12427","name":"長南町","pref":"千葉県","kind":"municipality","lat":35.397,"lon":140.235},
+  {"code":"12213","name":"東金市","pref":"千葉県","kind":"municipality","lat":35.56,"lon":140.36},
+  {"code":"12234","name":"南房総市","pref":"千葉県","kind":"municipality","lat":35.031,"lon":139.927},
+  {"code":"12217","name":"柏市","pref":"千葉県","kind":"municipality","lat":35.86,"lon":139.97},
+  {"code":"12232","name":"白井市","pref":"千葉県","kind":"municipality","lat":35.8,"lon":140.067},
+  {"code":"12230","name":"八街市","pref":"千葉県","kind":"municipality","lat":35.65,"lon":140.317},
+  {"code":"12221","name":"八千代市","pref":"千葉県","kind":"municipality","lat":35.72,"lon":140.09},
+  {"code":"12226","name":"富津市","pref":"千葉県","kind":"municipality","lat":35.3,"lon":139.85},
+  {"code":"12233","name":"富里市","pref":"千葉県","kind":"municipality","lat":35.745,"lon":140.404},
+  {"code":"12210","name":"茂原市","pref":"千葉県","kind":"municipality","lat":35.42,"lon":140.29},
+  {"code":"12206","name":"木更津市","pref":"千葉県","kind":"municipality","lat":35.38,"lon":139.92},
+  {"code":"12208","name":"野田市","pref":"千葉県","kind":"municipality","lat":35.94,"lon":139.86},
+  {"code":"12220","name":"流山市","pref":"千葉県","kind":"municipality","lat":35.85,"lon":139.9},
+  {"code":"12","name":"千葉県","pref":"千葉県","kind":"prefecture","lat":35.6,"lon":140.1},
+  {"code":"27211","name":"茨木市","pref":"大阪府","kind":"municipality","lat":34.81,"lon":135.56},
+  {"code":"27222","name":"羽曳野市","pref":"大阪府","kind":"municipality","lat":34.55,"lon":135.6},
+  {"code":"27216","name":"河内長野市","pref":"大阪府","kind":"municipality","lat":34.45,"lon":135.56},
+  {"code":"27208","name":"貝塚市","pref":"大阪府","kind":"municipality","lat":34.44,"lon":135.35},
+  {"code":"27202","name":"岸和田市","pref":"大阪府","kind":"municipality","lat":34.46,"lon":135.37},
+  {"code":"27230","name":"交野市","pref":"大阪府","kind":"municipality","lat":34.78,"lon":135.68},
+  {"code":"27225","name":"高石市","pref":"大阪府","kind":"municipality","lat":34.52,"lon":135.43},
+  {"code":"27207","name":"高槻市","pref":"大阪府","kind":"municipality","lat":34.84,"lon":135.61},
+  {"code":"27232","name":"阪南市","pref":"大阪府","kind":"municipality","lat":34.35,"lon":135.24},
+  {"code":"27140","name":"堺市","pref":"大阪府","kind":"municipality","lat":34.57,"lon":135.48},
+  {"code":"27229","name":"四條畷市","pref":"大阪府","kind":"municipality","lat":34.73,"lon":135.64},
+  {"code":"27209","name":"守口市","pref":"大阪府","kind":"municipality","lat":34.73,"lon":135.56},
+  {"code":"27217","name":"松原市","pref":"大阪府","kind":"municipality","lat":34.57,"lon":135.55},
+  {"code":"27215","name":"寝屋川市","pref":"大阪府","kind":"municipality","lat":34.76,"lon":135.62},
+  {"code":"27205","name":"吹田市","pref":"大阪府","kind":"municipality","lat":34.76,"lon":135.51},
+  {"code":"27224","name":"摂津市","pref":"大阪府","kind":"municipality","lat":34.77,"lon":135.56},
+  {"code":"27213","name":"泉佐野市","pref":"大阪府","kind":"municipality","lat":34.4,"lon":135.31},
+  {"code":"27206","name":"泉大津市","pref":"大阪府","kind":"municipality","lat":34.5,"lon":135.4},
+  {"code":"27228","name":"泉南市","pref":"大阪府","kind":"municipality","lat":34.37,"lon":135.29},
+  {"code":"27381","name":"太子町","pref":"大阪府","kind":"municipality","lat":34.52,"lon":135.636},
+  {"code":"27231","name":"大阪狭山市","pref":"大阪府","kind":"municipality","lat":34.5,"lon":135.55},
+  {"code":"27100","name":"大阪市","pref":"大阪府","kind":"municipality","lat":34.69,"lon":135.5},
+  {"code":"27218","name":"大東市","pref":"大阪府","kind":"municipality","lat":34.71,"lon":135.62},
+  {"code":"27204","name":"池田市","pref":"大阪府","kind":"municipality","lat":34.82,"lon":135.43},
+  {"code":"27362","name":"田尻町","pref":"大阪府","kind":"municipality","lat":34.427,"lon":135.246},
+  {"code":"27227","name":"東大阪市","pref":"大阪府","kind":"municipality","lat":34.67,"lon":135.6},
+  {"code":"27226","name":"藤井寺市","pref":"大阪府","kind":"municipality","lat":34.57,"lon":135.59},
+  {"code":"27221","name":"柏原市","pref":"大阪府","kind":"municipality","lat":34.58,"lon":135.62},
+  {"code":"27212","name":"八尾市","pref":"大阪府","kind":"municipality","lat":34.62,"lon":135.6},
+  {"code":"27214","name":"富田林市","pref":"大阪府","kind":"municipality","lat":34.5,"lon":135.59},
+  {"code":"27203","name":"豊中市","pref":"大阪府","kind":"municipality","lat":34.78,"lon":135.46},
+  {"code":"27210","name":"枚方市","pref":"大阪府","kind":"municipality","lat":34.81,"lon":135.64},
+  {"code":"27220","name":"箕面市","pref":"大阪府","kind":"municipality","lat":34.82,"lon":135.47},
+  {"code":"27223","name":"門真市","pref":"大阪府","kind":"municipality","lat":34.74,"lon":135.59},
+  {"code":"27219","name":"和泉市","pref":"大阪府","kind":"municipality","lat":34.48,"lon":135.42},
+  {"code":"27","name":"大阪府","pref":"大阪府","kind":"prefecture","lat":34.69,"lon":135.5},
+  {"code":"44211","name":"宇佐市","pref":"大分県","kind":"municipality","lat":33.53,"lon":131.34},
+  {"code":"44206","name":"臼杵市","pref":"大分県","kind":"municipality","lat":33.12,"lon":131.8},
+  {"code":"44210","name":"杵築市","pref":"大分県","kind":"municipality","lat":33.41,"lon":131.61},
+  {"code":"44214","name":"国東市","pref":"大分県","kind":"municipality","lat":33.56,"lon":131.73},
+  {"code":"44205","name":"佐伯市","pref":"大分県","kind":"municipality","lat":32.96,"lon":131.89},
+  {"code":"44201","name":"大分市","pref":"大分県","kind":"municipality","lat":33.23,"lon":131.6},
+  {"code":"44208","name":"竹田市","pref":"大分県","kind":"municipality","lat":32.96,"lon":131.39},
+  {"code":"44203","name":"中津市","pref":"大分県","kind":"municipality","lat":33.59,"lon":131.18},
+  {"code":"44207","name":"津久見市","pref":"大分県","kind":"municipality","lat":33.07,"lon":131.86},
+  {"code":"44341","name":"日出町","pref":"大分県","kind":"municipality","lat":33.371,"lon":131.53},
+  {"code":"44204","name":"日田市","pref":"大分県","kind":"municipality","lat":33.32,"lon":130.94},
+  {"code":"44202","name":"別府市","pref":"大分県","kind":"municipality","lat":33.28,"lon":131.49},
+  {"code":"44209","name":"豊後高田市","pref":"大分県","kind":"municipality","lat":33.56,"lon":131.44},
+  {"code":"44212","name":"豊後大野市","pref":"大分県","kind":"municipality","lat":32.97,"lon":131.58},
+  {"code":"44213","name":"由布市","pref":"大分県","kind":"municipality","lat":33.19,"lon":131.42},
+  {"code":"44","name":"大分県","pref":"大分県","kind":"prefecture","lat":33.23,"lon":131.6},
+  {"code":"42210","name":"壱岐市","pref":"長崎県","kind":"municipality","lat":33.75,"lon":129.68},
+  {"code":"42213","name":"雲仙市","pref":"長崎県","kind":"municipality","lat":32.83,"lon":130.16},
+  {"code":"42211","name":"五島市","pref":"長崎県","kind":"municipality","lat":32.69,"lon":128.83},
+  {"code":"42202","name":"佐世保市","pref":"長崎県","kind":"municipality","lat":33.17,"lon":129.72},
+  {"code":"42308","name":"時津町","pref":"長崎県","kind":"municipality","lat":32.833,"lon":129.85},
+  {"code":"42383","name":"小値賀町","pref":"長崎県","kind":"municipality","lat":33.183,"lon":129.067},
+  {"code":"42208","name":"松浦市","pref":"長崎県","kind":"municipality","lat":33.33,"lon":129.7},
+  {"code":"42212","name":"西海市","pref":"長崎県","kind":"municipality","lat":32.92,"lon":129.65},
+  {"code":"42322","name":"川棚町","pref":"長崎県","kind":"municipality","lat":33.067,"lon":129.867},
+  {"code":"42209","name":"対馬市","pref":"長崎県","kind":"municipality","lat":34.2,"lon":129.28},
+  {"code":"42205","name":"大村市","pref":"長崎県","kind":"municipality","lat":32.9,"lon":129.95},
+  {"code":"42201","name":"長崎市","pref":"長崎県","kind":"municipality","lat":32.75,"lon":129.87},
+  {"code":"42203","name":"島原市","pref":"長崎県","kind":"municipality","lat":32.78,"lon":130.36},
+  {"code":"42214","name":"南島原市","pref":"長崎県","kind":"municipality","lat":32.65,"lon":130.25},
+  {"code":"42207","name":"平戸市","pref":"長崎県","kind":"municipality","lat":33.35,"lon":129.55},
+  {"code":"42204","name":"諫早市","pref":"長崎県","kind":"municipality","lat":32.84,"lon":130.04},
+  {"code":"42","name":"長崎県","pref":"長崎県","kind":"prefecture","lat":32.75,"lon":129.87},
+  {"code":"20220","name":"安曇野市","pref":"長野県","kind":"municipality","lat":36.3,"lon":137.9},
+  {"code":"20209","name":"伊那市","pref":"長野県","kind":"municipality","lat":35.84,"lon":137.96},
+  {"code":"20602","name":"栄村","pref":"長野県","kind":"municipality","lat":36.988,"lon":138.577},
+  {"code":"20215","name":"塩尻市","pref":"長野県","kind":"municipality","lat":36.11,"lon":137.95},
+  {"code":"20204","name":"岡谷市","pref":"長野県","kind":"municipality","lat":36.06,"lon":138.04},
+  {"code":"20361","name":"下諏訪町","pref":"長野県","kind":"municipality","lat":36.071,"lon":138.082},
+  {"code":"20411","name":"下條村","pref":"長野県","kind":"municipality","lat":35.397,"lon":137.786},
+  {"code":"20214","name":"茅野市","pref":"長野県","kind":"municipality","lat":36,"lon":138.15},
+  {"code":"20388","name":"宮田村","pref":"長野県","kind":"municipality","lat":35.767,"lon":137.95},
+  {"code":"20210","name":"駒ヶ根市","pref":"長野県","kind":"municipality","lat":35.73,"lon":137.93},
+  {"code":"20321","name":"軽井沢町","pref":"長野県","kind":"municipality","lat":36.35,"lon":138.633},
+  {"code":"20363","name":"原村","pref":"長野県","kind":"municipality","lat":35.967,"lon":138.55},
+  {"code":"20323","name":"御代田町","pref":"長野県","kind":"municipality","lat":36.337,"lon":138.513},
+  {"code":"20217","name":"佐久市","pref":"長野県","kind":"municipality","lat":36.24,"lon":138.47},
+  {"code":"20521","name":"坂城町","pref":"長野県","kind":"municipality","lat":36.467,"lon":138.183},
+  {"code":"20208","name":"小諸市","pref":"長野県","kind":"municipality","lat":36.32,"lon":138.42},
+  {"code":"20541","name":"小布施町","pref":"長野県","kind":"municipality","lat":36.696,"lon":138.314},
+  {"code":"20202","name":"松本市","pref":"長野県","kind":"municipality","lat":36.23,"lon":137.97},
+  {"code":"20422","name":"上松町","pref":"長野県","kind":"municipality","lat":35.785,"lon":137.693},
+  {"code":"20203","name":"上田市","pref":"長野県","kind":"municipality","lat":36.4,"lon":138.25},
+  {"code":"20206","name":"諏訪市","pref":"長野県","kind":"municipality","lat":36.04,"lon":138.11},
+  {"code":"20207","name":"須坂市","pref":"長野県","kind":"municipality","lat":36.65,"lon":138.3},
+  {"code":"20349","name":"青木村","pref":"長野県","kind":"municipality","lat":36.369,"lon":138.126},
+  {"code":"20218","name":"千曲市","pref":"長野県","kind":"municipality","lat":36.53,"lon":138.12},
+  {"code":"20414","name":"泰阜村","pref":"長野県","kind":"municipality","lat":35.378,"lon":137.846},
+  {"code":"20212","name":"大町市","pref":"長野県","kind":"municipality","lat":36.5,"lon":137.86},
+  {"code":"20382","name":"辰野町","pref":"長野県","kind":"municipality","lat":35.984,"lon":137.997},
+  {"code":"20481","name":"池田町","pref":"長野県","kind":"municipality","lat":36.417,"lon":137.883},
+  {"code":"20211","name":"中野市","pref":"長野県","kind":"municipality","lat":36.74,"lon":138.37},
+  {"code":"20201","name":"長野市","pref":"長野県","kind":"municipality","lat":36.64,"lon":138.18},
+  {"code":"20350","name":"長和町","pref":"長野県","kind":"municipality","lat":36.284,"lon":138.248},
+  {"code":"20219","name":"東御市","pref":"長野県","kind":"municipality","lat":36.36,"lon":138.39},
+  {"code":"20385","name":"南箕輪村","pref":"長野県","kind":"municipality","lat":35.873,"lon":137.975},
+  {"code":"20423","name":"南木曽町","pref":"長野県","kind":"municipality","lat":35.609,"lon":137.611},
+  {"code":"20485","name":"白馬村","pref":"長野県","kind":"municipality","lat":36.698,"lon":137.862},
+  {"code":"20213","name":"飯山市","pref":"長野県","kind":"municipality","lat":36.85,"lon":138.36},
+  {"code":"20205","name":"飯田市","pref":"長野県","kind":"municipality","lat":35.51,"lon":137.82},
+  {"code":"20384","name":"飯島町","pref":"長野県","kind":"municipality","lat":35.667,"lon":137.933},
+  {"code":"20362","name":"富士見町","pref":"長野県","kind":"municipality","lat":35.901,"lon":138.25},
+  {"code":"20446","name":"麻績村","pref":"長野県","kind":"municipality","lat":36.45,"lon":138.05},
+  {"code":"20432","name":"木曽町","pref":"長野県","kind":"municipality","lat":35.84,"lon":137.69},
+  {"code":"20425","name":"木祖村","pref":"長野県","kind":"municipality","lat":35.84,"lon":137.69},
+  {"code":"20","name":"長野県","pref":"長野県","kind":"prefecture","lat":36.64,"lon":138.18},
+  {"code":"31204","name":"境港市","pref":"鳥取県","kind":"municipality","lat":35.54,"lon":133.23},
+  {"code":"31364","name":"三朝町","pref":"鳥取県","kind":"municipality","lat":35.41,"lon":133.895},
+  {"code":"31325","name":"若桜町","pref":"鳥取県","kind":"municipality","lat":35.333,"lon":134.4},
+  {"code":"31203","name":"倉吉市","pref":"鳥取県","kind":"municipality","lat":35.42,"lon":133.82},
+  {"code":"31328","name":"智頭町","pref":"鳥取県","kind":"municipality","lat":35.267,"lon":134.233},
+  {"code":"31201","name":"鳥取市","pref":"鳥取県","kind":"municipality","lat":35.5,"lon":134.23},
+  {"code":"31384","name":"日吉津村","pref":"鳥取県","kind":"municipality","lat":35.44,"lon":133.381},
+  {"code":"31202","name":"米子市","pref":"鳥取県","kind":"municipality","lat":35.42,"lon":133.33},
+  {"code":"31","name":"鳥取県","pref":"鳥取県","kind":"prefecture","lat":35.5,"lon":134.23},
+  {"code":"32206","name":"安来市","pref":"島根県","kind":"municipality","lat":35.42,"lon":133.25},
+  {"code":"32209","name":"雲南市","pref":"島根県","kind":"municipality","lat":35.29,"lon":132.9},
+  {"code":"32204","name":"益田市","pref":"島根県","kind":"municipality","lat":34.67,"lon":131.83},
+  {"code":"32525","name":"海士町","pref":"島根県","kind":"municipality","lat":36.093,"lon":133.092},
+  {"code":"32207","name":"江津市","pref":"島根県","kind":"municipality","lat":35.01,"lon":132.21},
+  {"code":"32203","name":"出雲市","pref":"島根県","kind":"municipality","lat":35.36,"lon":132.75},
+  {"code":"32201","name":"松江市","pref":"島根県","kind":"municipality","lat":35.46,"lon":133.05},
+  {"code":"32441","name":"川本町","pref":"島根県","kind":"municipality","lat":34.983,"lon":132.5},
+  {"code":"32205","name":"大田市","pref":"島根県","kind":"municipality","lat":35.19,"lon":132.49},
+  {"code":"32501","name":"津和野町","pref":"島根県","kind":"municipality","lat":34.467,"lon":131.767},
+  {"code":"32202","name":"浜田市","pref":"島根県","kind":"municipality","lat":34.89,"lon":132.08},
+  {"code":"32","name":"島根県","pref":"島根県","kind":"prefecture","lat":35.46,"lon":133.05},
+  {"code":"13228","name":"あきる野市","pref":"東京都","kind":"municipality","lat":35.729,"lon":139.232},
+  {"name":"伊豆大島","pref":"東京都","kind":"municipality","lat":34.75,"lon":139.35},
+  {"code":"13225","name":"稲城市","pref":"東京都","kind":"municipality","lat":35.63,"lon":139.5},
+  {"code":"13227","name":"羽村市","pref":"東京都","kind":"municipality","lat":35.762,"lon":139.32},
+  {"code":"13122","name":"葛飾区","pref":"東京都","kind":"municipality","lat":35.74,"lon":139.84},
+  {"code":"13123","name":"江戸川区","pref":"東京都","kind":"municipality","lat":35.69,"lon":139.87},
+  {"code":"13108","name":"江東区","pref":"東京都","kind":"municipality","lat":35.67,"lon":139.82},
+  {"code":"13103","name":"港区","pref":"東京都","kind":"municipality","lat":35.65,"lon":139.75},
+  {"code":"13118","name":"荒川区","pref":"東京都","kind":"municipality","lat":35.73,"lon":139.78},
+  {"code":"13214","name":"国分寺市","pref":"東京都","kind":"municipality","lat":35.7,"lon":139.48},
+  {"code":"13215","name":"国立市","pref":"東京都","kind":"municipality","lat":35.68,"lon":139.44},
+  {"code":"13219","name":"狛江市","pref":"東京都","kind":"municipality","lat":35.63,"lon":139.57},
+  {"code":"13204","name":"三鷹市","pref":"東京都","kind":"municipality","lat":35.68,"lon":139.55},
+  {"code":"13381","name":"三宅村","pref":"東京都","kind":"municipality","lat":34.09,"lon":139.52},
+  {"name":"三宅島","pref":"東京都","kind":"municipality","lat":34.08,"lon":139.52},
+  {"code":"13113","name":"渋谷区","pref":"東京都","kind":"municipality","lat":35.66,"lon":139.69},
+  {"code":"13421","name":"小笠原村","pref":"東京都","kind":"municipality","lat":27.097,"lon":142.204},
+  {"code":"13210","name":"小金井市","pref":"東京都","kind":"municipality","lat":35.7,"lon":139.5},
+  {"code":"13211","name":"小平市","pref":"東京都","kind":"municipality","lat":35.72,"lon":139.47},
+  {"code":"13207","name":"昭島市","pref":"東京都","kind":"municipality","lat":35.7,"lon":139.35},
+  {"code":"13104","name":"新宿区","pref":"東京都","kind":"municipality","lat":35.69,"lon":139.7},
+  {"name":"新島","pref":"東京都","kind":"municipality","lat":34.37,"lon":139.25},
+  {"code":"13364","name":"神津島村","pref":"東京都","kind":"municipality","lat":34.2,"lon":139.133},
+  {"code":"13115","name":"杉並区","pref":"東京都","kind":"municipality","lat":35.69,"lon":139.63},
+  {"code":"13112","name":"世田谷区","pref":"東京都","kind":"municipality","lat":35.64,"lon":139.65},
+  {"code":"13221","name":"清瀬市","pref":"東京都","kind":"municipality","lat":35.78,"lon":139.52},
+  {"code":"13229","name":"西東京市","pref":"東京都","kind":"municipality","lat":35.72,"lon":139.53},
+  {"code":"13205","name":"青梅市","pref":"東京都","kind":"municipality","lat":35.78,"lon":139.27},
+  {"code":"13101","name":"千代田区","pref":"東京都","kind":"municipality","lat":35.69,"lon":139.75},
+  {"code":"13121","name":"足立区","pref":"東京都","kind":"municipality","lat":35.77,"lon":139.8},
+  {"code":"13224","name":"多摩市","pref":"東京都","kind":"municipality","lat":35.63,"lon":139.44},
+  {"code":"13106","name":"台東区","pref":"東京都","kind":"municipality","lat":35.71,"lon":139.78},
+  {"code":"13111","name":"大田区","pref":"東京都","kind":"municipality","lat":35.56,"lon":139.71},
+  {"code":"13361","name":"大島町","pref":"東京都","kind":"municipality","lat":34.748,"lon":139.362},
+  {"code":"13102","name":"中央区","pref":"東京都","kind":"municipality","lat":35.67,"lon":139.77},
+  {"code":"13114","name":"中野区","pref":"東京都","kind":"municipality","lat":35.7,"lon":139.66},
+  {"code":"13209","name":"町田市","pref":"東京都","kind":"municipality","lat":35.54,"lon":139.44},
+  {"code":"13208","name":"調布市","pref":"東京都","kind":"municipality","lat":35.65,"lon":139.54},
+  {"code":"13222","name":"東久留米市","pref":"東京都","kind":"municipality","lat":35.76,"lon":139.52},
+  {"code":"13213","name":"東村山市","pref":"東京都","kind":"municipality","lat":35.76,"lon":139.46},
+  {"code":"13220","name":"東大和市","pref":"東京都","kind":"municipality","lat":35.74,"lon":139.42},
+  {"code":"13212","name":"日野市","pref":"東京都","kind":"municipality","lat":35.67,"lon":139.39},
+  {"code":"13201","name":"八王子市","pref":"東京都","kind":"municipality","lat":35.65,"lon":139.33},
+  {"code":"13401","name":"八丈町","pref":"東京都","kind":"municipality","lat":33.103,"lon":139.779},
+  {"name":"八丈島","pref":"東京都","kind":"municipality","lat":33.11,"lon":139.78},
+  {"code":"13119","name":"板橋区","pref":"東京都","kind":"municipality","lat":35.75,"lon":139.7},
+  {"code":"13109","name":"品川区","pref":"東京都","kind":"municipality","lat":35.61,"lon":139.73},
+  {"code":"13206","name":"府中市","pref":"東京都","kind":"municipality","lat":35.67,"lon":139.48},
+  {"code":"13223","name":"武蔵村山市","pref":"東京都","kind":"municipality","lat":35.742,"lon":139.426},
+  {"code":"13203","name":"武蔵野市","pref":"東京都","kind":"municipality","lat":35.7,"lon":139.57},
+  {"code":"13218","name":"福生市","pref":"東京都","kind":"municipality","lat":35.74,"lon":139.32},
+  {"code":"13105","name":"文京区","pref":"東京都","kind":"municipality","lat":35.71,"lon":139.75},
+  {"code":"13116","name":"豊島区","pref":"東京都","kind":"municipality","lat":35.73,"lon":139.71},
+  {"code":"13117","name":"北区","pref":"東京都","kind":"municipality","lat":35.75,"lon":139.73},
+  {"code":"13107","name":"墨田区","pref":"東京都","kind":"municipality","lat":35.71,"lon":139.8},
+  {"code":"13110","name":"目黒区","pref":"東京都","kind":"municipality","lat":35.64,"lon":139.69},
+  {"code":"13362","name":"利島村","pref":"東京都","kind":"municipality","lat":35.761,"lon":139.745},
+  {"code":"13202","name":"立川市","pref":"東京都","kind":"municipality","lat":35.69,"lon":139.4},
+  {"code":"13120","name":"練馬区","pref":"東京都","kind":"municipality","lat":35.73,"lon":139.65},
+  {"code":"13","name":"東京都","pref":"東京都","kind":"prefecture","lat":35.68,"lon":139.76},
+  {"code":"36204","name":"阿南市","pref":"徳島県","kind":"municipality","lat":33.92,"lon":134.66},
+  {"code":"36206","name":"阿波市","pref":"徳島県","kind":"municipality","lat":34.09,"lon":134.25},
+  {"code":"36205","name":"吉野川市","pref":"徳島県","kind":"municipality","lat":34.07,"lon":134.35},
+  {"code":"36321","name":"佐那河内村","pref":"徳島県","kind":"municipality","lat":33.993,"lon":134.453},
+  {"code":"36208","name":"三好市","pref":"徳島県","kind":"municipality","lat":34.02,"lon":133.8},
+  {"code":"36203","name":"小松島市","pref":"徳島県","kind":"municipality","lat":34,"lon":134.58},
+  {"code":"36401","name":"松茂町","pref":"徳島県","kind":"municipality","lat":34.134,"lon":134.581},
+  {"code":"36341","name":"石井町","pref":"徳島県","kind":"municipality","lat":34.068,"lon":134.442},
+  {"code":"36201","name":"徳島市","pref":"徳島県","kind":"municipality","lat":34.07,"lon":134.55},
+  {"code":"36207","name":"美馬市","pref":"徳島県","kind":"municipality","lat":34.05,"lon":134.16},
+  {"code":"36202","name":"鳴門市","pref":"徳島県","kind":"municipality","lat":34.17,"lon":134.6},
+  {"code":"36","name":"徳島県","pref":"徳島県","kind":"prefecture","lat":34.07,"lon":134.55},
+  {"code":"09214","name":"さくら市","pref":"栃木県","kind":"municipality","lat":36.721,"lon":139.988},
+  {"code":"09201","name":"宇都宮市","pref":"栃木県","kind":"municipality","lat":36.55,"lon":139.88},
+  {"code":"09342","name":"益子町","pref":"栃木県","kind":"municipality","lat":36.467,"lon":140.1},
+  {"code":"09216","name":"下野市","pref":"栃木県","kind":"municipality","lat":36.413,"lon":139.866},
+  {"code":"09204","name":"佐野市","pref":"栃木県","kind":"municipality","lat":36.31,"lon":139.57},
+  {"code":"09344","name":"市貝町","pref":"栃木県","kind":"municipality","lat":36.543,"lon":140.102},
+  {"code":"09205","name":"鹿沼市","pref":"栃木県","kind":"municipality","lat":36.56,"lon":139.75},
+  {"code":"09208","name":"小山市","pref":"栃木県","kind":"municipality","lat":36.31,"lon":139.8},
+  {"code":"09301","name":"上三川町","pref":"栃木県","kind":"municipality","lat":36.433,"lon":139.917},
+  {"code":"09209","name":"真岡市","pref":"栃木県","kind":"municipality","lat":36.44,"lon":140.01},
+  {"code":"09361","name":"壬生町","pref":"栃木県","kind":"municipality","lat":36.417,"lon":139.8},
+  {"code":"09202","name":"足利市","pref":"栃木県","kind":"municipality","lat":36.33,"lon":139.45},
+  {"code":"09210","name":"大田原市","pref":"栃木県","kind":"municipality","lat":36.87,"lon":140.01},
+  {"code":"09203","name":"栃木市","pref":"栃木県","kind":"municipality","lat":36.38,"lon":139.73},
+  {"code":"09215","name":"那須烏山市","pref":"栃木県","kind":"municipality","lat":36.652,"lon":140.161},
+  {"code":"09213","name":"那須塩原市","pref":"栃木県","kind":"municipality","lat":36.96,"lon":139.99},
+  {"code":"09407","name":"那須町","pref":"栃木県","kind":"municipality","lat":37.042,"lon":140.094},
+  {"code":"09206","name":"日光市","pref":"栃木県","kind":"municipality","lat":36.71,"lon":139.69},
+  {"code":"09343","name":"茂木町","pref":"栃木県","kind":"municipality","lat":36.517,"lon":140.183},
+  {"code":"09364","name":"野木町","pref":"栃木県","kind":"municipality","lat":36.228,"lon":139.734},
+  {"code":"09211","name":"矢板市","pref":"栃木県","kind":"municipality","lat":36.8,"lon":139.933},
+  {"code":"09","name":"栃木県","pref":"栃木県","kind":"prefecture","lat":36.55,"lon":139.88},
+  {"code":"29212","name":"宇陀市","pref":"奈良県","kind":"municipality","lat":34.53,"lon":135.95},
+  {"code":"29425","name":"王寺町","pref":"奈良県","kind":"municipality","lat":34.599,"lon":135.702},
+  {"code":"29443","name":"下市町","pref":"奈良県","kind":"municipality","lat":34.371,"lon":135.788},
+  {"code":"29427","name":"河合町","pref":"奈良県","kind":"municipality","lat":34.247,"lon":135.859},
+  {"code":"29205","name":"橿原市","pref":"奈良県","kind":"municipality","lat":34.5,"lon":135.79},
+  {"code":"29211","name":"葛城市","pref":"奈良県","kind":"municipality","lat":34.49,"lon":135.72},
+  {"code":"29441","name":"吉野町","pref":"奈良県","kind":"municipality","lat":34.396,"lon":135.858},
+  {"code":"29207","name":"五條市","pref":"奈良県","kind":"municipality","lat":34.35,"lon":135.69},
+  {"code":"29208","name":"御所市","pref":"奈良県","kind":"municipality","lat":34.46,"lon":135.73},
+  {"code":"29210","name":"香芝市","pref":"奈良県","kind":"municipality","lat":34.54,"lon":135.7},
+  {"code":"29206","name":"桜井市","pref":"奈良県","kind":"municipality","lat":34.51,"lon":135.84},
+  {"code":"29424","name":"上牧町","pref":"奈良県","kind":"municipality","lat":34.564,"lon":135.706},
+  {"code":"29209","name":"生駒市","pref":"奈良県","kind":"municipality","lat":34.69,"lon":135.7},
+  {"code":"29203","name":"大和郡山市","pref":"奈良県","kind":"municipality","lat":34.64,"lon":135.78},
+  {"code":"29202","name":"大和高田市","pref":"奈良県","kind":"municipality","lat":34.51,"lon":135.74},
+  {"code":"29204","name":"天理市","pref":"奈良県","kind":"municipality","lat":34.6,"lon":135.83},
+  {"code":"29363","name":"田原本町","pref":"奈良県","kind":"municipality","lat":34.554,"lon":135.793},
+  {"code":"29201","name":"奈良市","pref":"奈良県","kind":"municipality","lat":34.68,"lon":135.8},
+  {"code":"29402","name":"明日香村","pref":"奈良県","kind":"municipality","lat":34.481,"lon":135.82},
+  {"code":"29","name":"奈良県","pref":"奈良県","kind":"prefecture","lat":34.68,"lon":135.8},
+  {"code":"16206","name":"滑川市","pref":"富山県","kind":"municipality","lat":36.76,"lon":137.35},
+  {"code":"16204","name":"魚津市","pref":"富山県","kind":"municipality","lat":36.82,"lon":137.41},
+  {"code":"16202","name":"高岡市","pref":"富山県","kind":"municipality","lat":36.75,"lon":137.01},
+  {"code":"16207","name":"黒部市","pref":"富山県","kind":"municipality","lat":36.87,"lon":137.44},
+  {"code":"16211","name":"射水市","pref":"富山県","kind":"municipality","lat":36.73,"lon":137.08},
+  {"code":"16209","name":"小矢部市","pref":"富山県","kind":"municipality","lat":36.67,"lon":136.86},
+  {"code":"16322","name":"上市町","pref":"富山県","kind":"municipality","lat":36.7,"lon":137.367},
+  {"code":"16343","name":"朝日町","pref":"富山県","kind":"municipality","lat":36.946,"lon":137.56},
+  {"code":"16208","name":"砺波市","pref":"富山県","kind":"municipality","lat":36.63,"lon":136.96},
+  {"code":"16210","name":"南砺市","pref":"富山県","kind":"municipality","lat":36.56,"lon":136.87},
+  {"code":"16342","name":"入善町","pref":"富山県","kind":"municipality","lat":36.937,"lon":137.501},
+  {"code":"16205","name":"氷見市","pref":"富山県","kind":"municipality","lat":36.85,"lon":136.97},
+  {"code":"16201","name":"富山市","pref":"富山県","kind":"municipality","lat":36.69,"lon":137.21},
+  {"code":"16","name":"富山県","pref":"富山県","kind":"prefecture","lat":36.69,"lon":137.21},
+  {"code":"18208","name":"あわら市","pref":"福井県","kind":"municipality","lat":36.21,"lon":136.22},
+  {"code":"18209","name":"越前市","pref":"福井県","kind":"municipality","lat":35.9,"lon":136.16},
+  {"code":"18423","name":"越前町","pref":"福井県","kind":"municipality","lat":35.886,"lon":136.171},
+  {"code":"18481","name":"高浜町","pref":"福井県","kind":"municipality","lat":35.49,"lon":135.55},
+  {"code":"18210","name":"坂井市","pref":"福井県","kind":"municipality","lat":36.16,"lon":136.22},
+  {"code":"18207","name":"鯖江市","pref":"福井県","kind":"municipality","lat":35.95,"lon":136.18},
+  {"code":"18206","name":"勝山市","pref":"福井県","kind":"municipality","lat":36.06,"lon":136.5},
+  {"code":"18204","name":"小浜市","pref":"福井県","kind":"municipality","lat":35.49,"lon":135.74},
+  {"code":"18205","name":"大野市","pref":"福井県","kind":"municipality","lat":35.98,"lon":136.48},
+  {"code":"18382","name":"池田町","pref":"福井県","kind":"municipality","lat":35.892,"lon":136.342},
+  {"code":"18202","name":"敦賀市","pref":"福井県","kind":"municipality","lat":35.65,"lon":136.05},
+  {"code":"18201","name":"福井市","pref":"福井県","kind":"municipality","lat":36.06,"lon":136.22},
+  {"code":"18","name":"福井県","pref":"福井県","kind":"prefecture","lat":36.06,"lon":136.22},
+  {"code":"40225","name":"うきは市","pref":"福岡県","kind":"municipality","lat":33.34,"lon":130.76},
+  {"code":"40625","name":"みやこ町","pref":"福岡県","kind":"municipality","lat":33.699,"lon":130.92},
+  {"code":"40229","name":"みやま市","pref":"福岡県","kind":"municipality","lat":33.15,"lon":130.47},
+  {"code":"40381","name":"芦屋町","pref":"福岡県","kind":"municipality","lat":33.873,"lon":130.654},
+  {"code":"40341","name":"宇美町","pref":"福岡県","kind":"municipality","lat":33.568,"lon":130.51},
+  {"code":"40227","name":"嘉麻市","pref":"福岡県","kind":"municipality","lat":33.56,"lon":130.73},
+  {"code":"40621","name":"苅田町","pref":"福岡県","kind":"municipality","lat":33.783,"lon":130.983},
+  {"code":"40642","name":"吉富町","pref":"福岡県","kind":"municipality","lat":33.602,"lon":131.176},
+  {"code":"40203","name":"久留米市","pref":"福岡県","kind":"municipality","lat":33.31,"lon":130.51},
+  {"code":"40226","name":"宮若市","pref":"福岡県","kind":"municipality","lat":33.71,"lon":130.63},
+  {"code":"40223","name":"古賀市","pref":"福岡県","kind":"municipality","lat":33.73,"lon":130.47},
+  {"code":"40544","name":"広川町","pref":"福岡県","kind":"municipality","lat":33.243,"lon":130.552},
+  {"code":"40213","name":"行橋市","pref":"福岡県","kind":"municipality","lat":33.73,"lon":130.97},
+  {"code":"40601","name":"香春町","pref":"福岡県","kind":"municipality","lat":33.669,"lon":130.843},
+  {"code":"40343","name":"志免町","pref":"福岡県","kind":"municipality","lat":33.587,"lon":130.487},
+  {"code":"40230","name":"糸島市","pref":"福岡県","kind":"municipality","lat":33.55,"lon":130.19},
+  {"code":"40342","name":"篠栗町","pref":"福岡県","kind":"municipality","lat":33.616,"lon":130.551},
+  {"code":"40220","name":"宗像市","pref":"福岡県","kind":"municipality","lat":33.8,"lon":130.54},
+  {"code":"40218","name":"春日市","pref":"福岡県","kind":"municipality","lat":33.53,"lon":130.47},
+  {"code":"40216","name":"小郡市","pref":"福岡県","kind":"municipality","lat":33.39,"lon":130.55},
+  {"code":"40401","name":"小竹町","pref":"福岡県","kind":"municipality","lat":33.691,"lon":130.712},
+  {"code":"40345","name":"新宮町","pref":"福岡県","kind":"municipality","lat":33.714,"lon":130.431},
+  {"code":"40344","name":"須恵町","pref":"福岡県","kind":"municipality","lat":33.591,"lon":130.504},
+  {"code":"40609","name":"赤村","pref":"福岡県","kind":"municipality","lat":33.599,"lon":130.874},
+  {"code":"40605","name":"川崎町","pref":"福岡県","kind":"municipality","lat":33.6,"lon":130.815},
+  {"code":"40221","name":"太宰府市","pref":"福岡県","kind":"municipality","lat":33.51,"lon":130.52},
+  {"code":"40212","name":"大川市","pref":"福岡県","kind":"municipality","lat":33.2,"lon":130.38},
+  {"code":"40503","name":"大刀洗町","pref":"福岡県","kind":"municipality","lat":33.4,"lon":130.617},
+  {"code":"40202","name":"大牟田市","pref":"福岡県","kind":"municipality","lat":33.02,"lon":130.44},
+  {"code":"40219","name":"大野城市","pref":"福岡県","kind":"municipality","lat":33.53,"lon":130.47},
+  {"code":"40211","name":"筑後市","pref":"福岡県","kind":"municipality","lat":33.2,"lon":130.5},
+  {"code":"40217","name":"筑紫野市","pref":"福岡県","kind":"municipality","lat":33.49,"lon":130.51},
+  {"code":"40215","name":"中間市","pref":"福岡県","kind":"municipality","lat":33.81,"lon":130.71},
+  {"code":"40228","name":"朝倉市","pref":"福岡県","kind":"municipality","lat":33.42,"lon":130.66},
+  {"code":"40204","name":"直方市","pref":"福岡県","kind":"municipality","lat":33.74,"lon":130.72},
+  {"code":"40602","name":"添田町","pref":"福岡県","kind":"municipality","lat":33.572,"lon":130.854},
+  {"code":"40206","name":"田川市","pref":"福岡県","kind":"municipality","lat":33.63,"lon":130.8},
+  {"code":"40231","name":"那珂川市","pref":"福岡県","kind":"municipality","lat":33.5,"lon":130.42},
+  {"code":"40210","name":"八女市","pref":"福岡県","kind":"municipality","lat":33.21,"lon":130.55},
+  {"code":"40205","name":"飯塚市","pref":"福岡県","kind":"municipality","lat":33.64,"lon":130.68},
+  {"code":"40130","name":"福岡市","pref":"福岡県","kind":"municipality","lat":33.59,"lon":130.4},
+  {"code":"40224","name":"福津市","pref":"福岡県","kind":"municipality","lat":33.76,"lon":130.49},
+  {"code":"40214","name":"豊前市","pref":"福岡県","kind":"municipality","lat":33.61,"lon":131.12},
+  {"code":"40100","name":"北九州市","pref":"福岡県","kind":"municipality","lat":33.88,"lon":130.87},
+  {"code":"40207","name":"柳川市","pref":"福岡県","kind":"municipality","lat":33.16,"lon":130.4},
+  {"code":"40","name":"福岡県","pref":"福岡県","kind":"prefecture","lat":33.59,"lon":130.4},
+  {"code":"07204","name":"いわき市","pref":"福島県","kind":"municipality","lat":37.05,"lon":140.88},
+  {"code":"07213","name":"伊達市","pref":"福島県","kind":"municipality","lat":37.81,"lon":140.56},
+  {"code":"07202","name":"会津若松市","pref":"福島県","kind":"municipality","lat":37.49,"lon":139.93},
+  {"code":"07447","name":"会津美里町","pref":"福島県","kind":"municipality","lat":37.409,"lon":139.813},
+  {"code":"07208","name":"喜多方市","pref":"福島県","kind":"municipality","lat":37.65,"lon":139.87},
+  {"code":"07301","name":"桑折町","pref":"福島県","kind":"municipality","lat":37.833,"lon":140.517},
+  {"code":"07203","name":"郡山市","pref":"福島県","kind":"municipality","lat":37.39,"lon":140.37},
+  {"code":"07521","name":"三春町","pref":"福島県","kind":"municipality","lat":37.433,"lon":140.483},
+  {"code":"07207","name":"須賀川市","pref":"福島県","kind":"municipality","lat":37.28,"lon":140.37},
+  {"code":"07501","name":"石川町","pref":"福島県","kind":"municipality","lat":37.15,"lon":140.45},
+  {"code":"07464","name":"泉崎村","pref":"福島県","kind":"municipality","lat":37.159,"lon":140.297},
+  {"code":"07504","name":"浅川町","pref":"福島県","kind":"municipality","lat":37.083,"lon":140.414},
+  {"code":"07209","name":"相馬市","pref":"福島県","kind":"municipality","lat":37.79,"lon":140.91},
+  {"code":"07367","name":"只見町","pref":"福島県","kind":"municipality","lat":37.35,"lon":139.317},
+  {"code":"07481","name":"棚倉町","pref":"福島県","kind":"municipality","lat":37.03,"lon":140.383},
+  {"code":"07408","name":"猪苗代町","pref":"福島県","kind":"municipality","lat":37.567,"lon":140.117},
+  {"code":"07211","name":"田村市","pref":"福島県","kind":"municipality","lat":37.431,"lon":140.603},
+  {"code":"07212","name":"南相馬市","pref":"福島県","kind":"municipality","lat":37.63,"lon":140.96},
+  {"code":"07210","name":"二本松市","pref":"福島県","kind":"municipality","lat":37.58,"lon":140.43},
+  {"code":"07205","name":"白河市","pref":"福島県","kind":"municipality","lat":37.13,"lon":140.21},
+  {"code":"07483","name":"塙町","pref":"福島県","kind":"municipality","lat":36.947,"lon":140.416},
+  {"code":"07543","name":"富岡町","pref":"福島県","kind":"municipality","lat":37.333,"lon":141.017},
+  {"code":"07201","name":"福島市","pref":"福島県","kind":"municipality","lat":37.76,"lon":140.47},
+  {"code":"07214","name":"本宮市","pref":"福島県","kind":"municipality","lat":37.514,"lon":140.401},
+  {"code":"07466","name":"矢吹町","pref":"福島県","kind":"municipality","lat":37.2,"lon":140.317},
+  {"code":"07423","name":"柳津町","pref":"福島県","kind":"municipality","lat":37.524,"lon":139.722},
+  {"code":"07547","name":"浪江町","pref":"福島県","kind":"municipality","lat":37.483,"lon":141},
+  {"code":"07","name":"福島県","pref":"福島県","kind":"prefecture","lat":37.76,"lon":140.47},
+  {"code":"28229","name":"たつの市","pref":"兵庫県","kind":"municipality","lat":34.86,"lon":134.54},
+  {"code":"28206","name":"芦屋市","pref":"兵庫県","kind":"municipality","lat":34.73,"lon":135.3},
+  {"code":"28207","name":"伊丹市","pref":"兵庫県","kind":"municipality","lat":34.78,"lon":135.41},
+  {"code":"28381","name":"稲美町","pref":"兵庫県","kind":"municipality","lat":34.748,"lon":134.913},
+  {"code":"28210","name":"加古川市","pref":"兵庫県","kind":"municipality","lat":34.76,"lon":134.83},
+  {"code":"28220","name":"加西市","pref":"兵庫県","kind":"municipality","lat":34.93,"lon":134.84},
+  {"code":"28228","name":"加東市","pref":"兵庫県","kind":"municipality","lat":34.93,"lon":135.08},
+  {"code":"28216","name":"高砂市","pref":"兵庫県","kind":"municipality","lat":34.76,"lon":134.79},
+  {"code":"28501","name":"佐用町","pref":"兵庫県","kind":"municipality","lat":35.003,"lon":134.359},
+  {"code":"28219","name":"三田市","pref":"兵庫県","kind":"municipality","lat":34.88,"lon":135.22},
+  {"code":"28215","name":"三木市","pref":"兵庫県","kind":"municipality","lat":34.79,"lon":135.02},
+  {"code":"28227","name":"宍粟市","pref":"兵庫県","kind":"municipality","lat":35,"lon":134.59},
+  {"code":"28205","name":"洲本市","pref":"兵庫県","kind":"municipality","lat":34.34,"lon":134.89},
+  {"code":"28218","name":"小野市","pref":"兵庫県","kind":"municipality","lat":34.85,"lon":134.93},
+  {"code":"28481","name":"上郡町","pref":"兵庫県","kind":"municipality","lat":34.875,"lon":134.362},
+  {"code":"28446","name":"神河町","pref":"兵庫県","kind":"municipality","lat":35.076,"lon":134.74},
+  {"code":"28100","name":"神戸市","pref":"兵庫県","kind":"municipality","lat":34.69,"lon":135.19},
+  {"code":"28204","name":"西宮市","pref":"兵庫県","kind":"municipality","lat":34.73,"lon":135.34},
+  {"code":"28213","name":"西脇市","pref":"兵庫県","kind":"municipality","lat":34.97,"lon":134.98},
+  {"code":"28212","name":"赤穂市","pref":"兵庫県","kind":"municipality","lat":34.75,"lon":134.39},
+  {"code":"28217","name":"川西市","pref":"兵庫県","kind":"municipality","lat":34.83,"lon":135.41},
+  {"code":"28208","name":"相生市","pref":"兵庫県","kind":"municipality","lat":34.8,"lon":134.47},
+  {"code":"28223","name":"丹波市","pref":"兵庫県","kind":"municipality","lat":35.17,"lon":135.03},
+  {"code":"28221","name":"丹波篠山市","pref":"兵庫県","kind":"municipality","lat":35.07,"lon":135.21},
+  {"code":"28226","name":"淡路市","pref":"兵庫県","kind":"municipality","lat":34.43,"lon":134.91},
+  {"code":"28225","name":"朝来市","pref":"兵庫県","kind":"municipality","lat":35.29,"lon":134.83},
+  {"code":"28224","name":"南あわじ市","pref":"兵庫県","kind":"municipality","lat":34.3,"lon":134.77},
+  {"code":"28202","name":"尼崎市","pref":"兵庫県","kind":"municipality","lat":34.73,"lon":135.41},
+  {"code":"28201","name":"姫路市","pref":"兵庫県","kind":"municipality","lat":34.81,"lon":134.69},
+  {"code":"28214","name":"宝塚市","pref":"兵庫県","kind":"municipality","lat":34.8,"lon":135.35},
+  {"code":"28209","name":"豊岡市","pref":"兵庫県","kind":"municipality","lat":35.54,"lon":134.82},
+  {"code":"28203","name":"明石市","pref":"兵庫県","kind":"municipality","lat":34.64,"lon":134.99},
+  {"code":"28222","name":"養父市","pref":"兵庫県","kind":"municipality","lat":35.31,"lon":134.76},
+  {"code":"28","name":"兵庫県","pref":"兵庫県","kind":"prefecture","lat":34.69,"lon":135.19},
+  {"code":"01609","name":"えりも町","pref":"北海道","kind":"municipality","lat":42.02,"lon":143.15},
+  {"code":"01371","name":"せたな町","pref":"北海道","kind":"municipality","lat":42.451,"lon":139.851},
+  {"code":"01395","name":"ニセコ町","pref":"北海道","kind":"municipality","lat":42.809,"lon":140.686},
+  {"code":"01586","name":"むかわ町","pref":"北海道","kind":"municipality","lat":42.572,"lon":141.926},
+  {"code":"01456","name":"愛別町","pref":"北海道","kind":"municipality","lat":43.907,"lon":142.577},
+  {"code":"01204","name":"旭川市","pref":"北海道","kind":"municipality","lat":43.77,"lon":142.36},
+  {"code":"01216","name":"芦別市","pref":"北海道","kind":"municipality","lat":43.51,"lon":142.186},
+  {"code":"01585","name":"安平町","pref":"北海道","kind":"municipality","lat":42.817,"lon":141.833},
+  {"code":"01233","name":"伊達市","pref":"北海道","kind":"municipality","lat":42.468,"lon":140.868},
+  {"code":"01484","name":"羽幌町","pref":"北海道","kind":"municipality","lat":44.358,"lon":141.702},
+  {"code":"01436","name":"雨竜町","pref":"北海道","kind":"municipality","lat":43.639,"lon":141.888},
+  {"code":"01607","name":"浦河町","pref":"北海道","kind":"municipality","lat":42.16,"lon":142.77},
+  {"code":"01555","name":"遠軽町","pref":"北海道","kind":"municipality","lat":44.048,"lon":143.545},
+  {"code":"01367","name":"奥尻町","pref":"北海道","kind":"municipality","lat":42.172,"lon":139.512},
+  {"code":"01364","name":"乙部町","pref":"北海道","kind":"municipality","lat":41.968,"lon":140.138},
+  {"code":"01631","name":"音更町","pref":"北海道","kind":"municipality","lat":42.992,"lon":143.2},
+  {"code":"01227","name":"歌志内市","pref":"北海道","kind":"municipality","lat":43.517,"lon":142.05},
+  {"code":"01210","name":"岩見沢市","pref":"北海道","kind":"municipality","lat":43.2,"lon":141.77},
+  {"code":"01402","name":"岩内町","pref":"北海道","kind":"municipality","lat":42.974,"lon":140.509},
+  {"code":"01398","name":"喜茂別町","pref":"北海道","kind":"municipality","lat":42.79,"lon":140.935},
+  {"code":"01399","name":"京極町","pref":"北海道","kind":"municipality","lat":42.863,"lon":140.906},
+  {"code":"01561","name":"興部町","pref":"北海道","kind":"municipality","lat":44.469,"lon":143.12},
+  {"code":"01400","name":"倶知安町","pref":"北海道","kind":"municipality","lat":42.901,"lon":140.741},
+  {"code":"01206","name":"釧路市","pref":"北海道","kind":"municipality","lat":42.98,"lon":144.38},
+  {"code":"01661","name":"釧路町","pref":"北海道","kind":"municipality","lat":42.975,"lon":144.375},
+  {"code":"01429","name":"栗山町","pref":"北海道","kind":"municipality","lat":43.055,"lon":141.784},
+  {"code":"01231","name":"恵庭市","pref":"北海道","kind":"municipality","lat":42.894,"lon":141.576},
+  {"code":"01430","name":"月形町","pref":"北海道","kind":"municipality","lat":43.335,"lon":141.669},
+  {"code":"01406","name":"古平町","pref":"北海道","kind":"municipality","lat":43.273,"lon":140.638},
+  {"code":"01662","name":"厚岸町","pref":"北海道","kind":"municipality","lat":43.036,"lon":144.853},
+  {"code":"01642","name":"広尾町","pref":"北海道","kind":"municipality","lat":42.282,"lon":143.298},
+  {"code":"01639","name":"更別村","pref":"北海道","kind":"municipality","lat":42.656,"lon":143.187},
+  {"code":"01217","name":"江別市","pref":"北海道","kind":"municipality","lat":43.1,"lon":141.53},
+  {"code":"01393","name":"黒松内町","pref":"北海道","kind":"municipality","lat":42.668,"lon":140.306},
+  {"code":"01223","name":"根室市","pref":"北海道","kind":"municipality","lat":43.33,"lon":145.58},
+  {"code":"01226","name":"砂川市","pref":"北海道","kind":"municipality","lat":43.486,"lon":141.906},
+  {"code":"01100","name":"札幌市","pref":"北海道","kind":"municipality","lat":43.06,"lon":141.35},
+  {"code":"01222","name":"三笠市","pref":"北海道","kind":"municipality","lat":43.256,"lon":141.888},
+  {"code":"01632","name":"士幌町","pref":"北海道","kind":"municipality","lat":43.167,"lon":143.25},
+  {"code":"01634","name":"鹿追町","pref":"北海道","kind":"municipality","lat":43.105,"lon":142.999},
+  {"code":"01343","name":"鹿部町","pref":"北海道","kind":"municipality","lat":42.03,"lon":140.823},
+  {"code":"01205","name":"室蘭市","pref":"北海道","kind":"municipality","lat":42.31,"lon":140.97},
+  {"code":"01392","name":"寿都町","pref":"北海道","kind":"municipality","lat":42.788,"lon":140.226},
+  {"code":"01485","name":"初山別村","pref":"北海道","kind":"municipality","lat":44.534,"lon":141.77},
+  {"code":"01547","name":"小清水町","pref":"北海道","kind":"municipality","lat":43.859,"lon":144.465},
+  {"code":"01203","name":"小樽市","pref":"北海道","kind":"municipality","lat":43.19,"lon":140.99},
+  {"code":"01331","name":"松前町","pref":"北海道","kind":"municipality","lat":41.427,"lon":140.103},
+  {"code":"01438","name":"沼田町","pref":"北海道","kind":"municipality","lat":43.803,"lon":141.939},
+  {"code":"01362","name":"上ノ国町","pref":"北海道","kind":"municipality","lat":41.803,"lon":140.111},
+  {"code":"01425","name":"上砂川町","pref":"北海道","kind":"municipality","lat":43.483,"lon":141.984},
+  {"code":"01633","name":"上士幌町","pref":"北海道","kind":"municipality","lat":43.235,"lon":143.285},
+  {"code":"01457","name":"上川町","pref":"北海道","kind":"municipality","lat":43.84,"lon":142.771},
+  {"code":"01460","name":"上富良野町","pref":"北海道","kind":"municipality","lat":43.456,"lon":142.469},
+  {"code":"01610","name":"新ひだか町","pref":"北海道","kind":"municipality","lat":42.33,"lon":142.36},
+  {"code":"01604","name":"新冠町","pref":"北海道","kind":"municipality","lat":42.35,"lon":142.317},
+  {"code":"01635","name":"新得町","pref":"北海道","kind":"municipality","lat":43.075,"lon":142.835},
+  {"code":"01228","name":"深川市","pref":"北海道","kind":"municipality","lat":43.708,"lon":142.039},
+  {"code":"01396","name":"真狩村","pref":"北海道","kind":"municipality","lat":42.758,"lon":140.803},
+  {"code":"01407","name":"仁木町","pref":"北海道","kind":"municipality","lat":43.15,"lon":140.767},
+  {"code":"01636","name":"清水町","pref":"北海道","kind":"municipality","lat":43.006,"lon":142.885},
+  {"code":"01562","name":"西興部村","pref":"北海道","kind":"municipality","lat":44.331,"lon":142.949},
+  {"code":"01235","name":"石狩市","pref":"北海道","kind":"municipality","lat":43.24,"lon":141.354},
+  {"code":"01409","name":"赤井川村","pref":"北海道","kind":"municipality","lat":43.083,"lon":140.817},
+  {"code":"01218","name":"赤平市","pref":"北海道","kind":"municipality","lat":43.551,"lon":142.053},
+  {"code":"01224","name":"千歳市","pref":"北海道","kind":"municipality","lat":42.82,"lon":141.65},
+  {"code":"01463","name":"占冠村","pref":"北海道","kind":"municipality","lat":43,"lon":142.417},
+  {"code":"01575","name":"壮瞥町","pref":"北海道","kind":"municipality","lat":42.556,"lon":140.886},
+  {"code":"01481","name":"増毛町","pref":"北海道","kind":"municipality","lat":43.852,"lon":141.521},
+  {"code":"01647","name":"足寄町","pref":"北海道","kind":"municipality","lat":43.237,"lon":143.543},
+  {"code":"01207","name":"帯広市","pref":"北海道","kind":"municipality","lat":42.92,"lon":143.19},
+  {"code":"01564","name":"大空町","pref":"北海道","kind":"municipality","lat":43.913,"lon":144.169},
+  {"code":"01641","name":"大樹町","pref":"北海道","kind":"municipality","lat":42.502,"lon":143.272},
+  {"code":"01452","name":"鷹栖町","pref":"北海道","kind":"municipality","lat":43.843,"lon":142.354},
+  {"code":"01560","name":"滝上町","pref":"北海道","kind":"municipality","lat":44.189,"lon":143.075},
+  {"code":"01225","name":"滝川市","pref":"北海道","kind":"municipality","lat":43.55,"lon":141.91},
+  {"code":"01644","name":"池田町","pref":"北海道","kind":"municipality","lat":42.921,"lon":143.452},
+  {"code":"01214","name":"稚内市","pref":"北海道","kind":"municipality","lat":45.41,"lon":141.67},
+  {"code":"01550","name":"置戸町","pref":"北海道","kind":"municipality","lat":43.68,"lon":143.59},
+  {"code":"01434","name":"秩父別町","pref":"北海道","kind":"municipality","lat":43.767,"lon":141.967},
+  {"code":"01638","name":"中札内村","pref":"北海道","kind":"municipality","lat":42.7,"lon":143.133},
+  {"code":"01471","name":"中川町","pref":"北海道","kind":"municipality","lat":44.814,"lon":142.078},
+  {"code":"01513","name":"中頓別町","pref":"北海道","kind":"municipality","lat":44.974,"lon":142.293},
+  {"code":"01692","name":"中標津町","pref":"北海道","kind":"municipality","lat":43.55,"lon":144.97},
+  {"code":"01461","name":"中富良野町","pref":"北海道","kind":"municipality","lat":43.403,"lon":142.423},
+  {"code":"01428","name":"長沼町","pref":"北海道","kind":"municipality","lat":43.006,"lon":141.69},
+  {"code":"01347","name":"長万部町","pref":"北海道","kind":"municipality","lat":42.509,"lon":140.377},
+  {"code":"01667","name":"鶴居村","pref":"北海道","kind":"municipality","lat":43.25,"lon":144.296},
+  {"code":"01665","name":"弟子屈町","pref":"北海道","kind":"municipality","lat":43.48,"lon":144.496},
+  {"code":"01487","name":"天塩町","pref":"北海道","kind":"municipality","lat":44.879,"lon":141.742},
+  {"code":"01230","name":"登別市","pref":"北海道","kind":"municipality","lat":42.452,"lon":141.179},
+  {"code":"01453","name":"東神楽町","pref":"北海道","kind":"municipality","lat":43.697,"lon":142.451},
+  {"code":"01458","name":"東川町","pref":"北海道","kind":"municipality","lat":43.699,"lon":142.51},
+  {"code":"01303","name":"当別町","pref":"北海道","kind":"municipality","lat":43.217,"lon":141.517},
+  {"code":"01454","name":"当麻町","pref":"北海道","kind":"municipality","lat":43.821,"lon":142.518},
+  {"code":"01213","name":"苫小牧市","pref":"北海道","kind":"municipality","lat":42.63,"lon":141.6},
+  {"code":"01483","name":"苫前町","pref":"北海道","kind":"municipality","lat":44.305,"lon":141.654},
+  {"code":"01424","name":"奈井江町","pref":"北海道","kind":"municipality","lat":43.418,"lon":141.888},
+  {"code":"01601","name":"日高町","pref":"北海道","kind":"municipality","lat":42.48,"lon":142.07},
+  {"code":"01668","name":"白糠町","pref":"北海道","kind":"municipality","lat":42.963,"lon":144.089},
+  {"code":"01578","name":"白老町","pref":"北海道","kind":"municipality","lat":42.55,"lon":141.35},
+  {"code":"01202","name":"函館市","pref":"北海道","kind":"municipality","lat":41.76,"lon":140.73},
+  {"code":"01346","name":"八雲町","pref":"北海道","kind":"municipality","lat":42.254,"lon":140.269},
+  {"code":"01455","name":"比布町","pref":"北海道","kind":"municipality","lat":43.869,"lon":142.474},
+  {"code":"01215","name":"美唄市","pref":"北海道","kind":"municipality","lat":43.325,"lon":141.859},
+  {"code":"01459","name":"美瑛町","pref":"北海道","kind":"municipality","lat":43.584,"lon":142.46},
+  {"code":"01469","name":"美深町","pref":"北海道","kind":"municipality","lat":44.475,"lon":142.343},
+  {"code":"01664","name":"標茶町","pref":"北海道","kind":"municipality","lat":43.278,"lon":144.563},
+  {"code":"01512","name":"浜頓別町","pref":"北海道","kind":"municipality","lat":45.133,"lon":142.383},
+  {"code":"01229","name":"富良野市","pref":"北海道","kind":"municipality","lat":43.35,"lon":142.383},
+  {"code":"01332","name":"福島町","pref":"北海道","kind":"municipality","lat":41.48,"lon":140.253},
+  {"code":"01602","name":"平取町","pref":"北海道","kind":"municipality","lat":42.583,"lon":142.133},
+  {"code":"01571","name":"豊浦町","pref":"北海道","kind":"municipality","lat":42.573,"lon":140.708},
+  {"code":"01645","name":"豊頃町","pref":"北海道","kind":"municipality","lat":42.826,"lon":143.552},
+  {"code":"01516","name":"豊富町","pref":"北海道","kind":"municipality","lat":45.102,"lon":141.775},
+  {"code":"01208","name":"北見市","pref":"北海道","kind":"municipality","lat":43.8,"lon":143.89},
+  {"code":"01234","name":"北広島市","pref":"北海道","kind":"municipality","lat":42.976,"lon":141.567},
+  {"code":"01236","name":"北斗市","pref":"北海道","kind":"municipality","lat":41.816,"lon":140.635},
+  {"code":"01437","name":"北竜町","pref":"北海道","kind":"municipality","lat":43.783,"lon":141.917},
+  {"code":"01520","name":"幌延町","pref":"北海道","kind":"municipality","lat":45.017,"lon":141.851},
+  {"code":"01472","name":"幌加内町","pref":"北海道","kind":"municipality","lat":44.012,"lon":142.152},
+  {"code":"01433","name":"妹背牛町","pref":"北海道","kind":"municipality","lat":43.688,"lon":141.959},
+  {"code":"01643","name":"幕別町","pref":"北海道","kind":"municipality","lat":45.371,"lon":141.821},
+  {"code":"01221","name":"名寄市","pref":"北海道","kind":"municipality","lat":44.35,"lon":142.46},
+  {"code":"01211","name":"網走市","pref":"北海道","kind":"municipality","lat":44.02,"lon":144.27},
+  {"code":"01334","name":"木古内町","pref":"北海道","kind":"municipality","lat":41.683,"lon":140.43},
+  {"code":"01219","name":"紋別市","pref":"北海道","kind":"municipality","lat":44.353,"lon":143.353},
+  {"code":"01427","name":"由仁町","pref":"北海道","kind":"municipality","lat":43.007,"lon":141.784},
+  {"code":"01563","name":"雄武町","pref":"北海道","kind":"municipality","lat":44.578,"lon":142.961},
+  {"code":"01209","name":"夕張市","pref":"北海道","kind":"municipality","lat":43.05,"lon":141.97},
+  {"code":"01408","name":"余市町","pref":"北海道","kind":"municipality","lat":43.204,"lon":140.77},
+  {"code":"01694","name":"羅臼町","pref":"北海道","kind":"municipality","lat":44.018,"lon":145.192},
+  {"code":"01648","name":"陸別町","pref":"北海道","kind":"municipality","lat":43.471,"lon":143.746},
+  {"code":"01397","name":"留寿都村","pref":"北海道","kind":"municipality","lat":42.734,"lon":140.873},
+  {"code":"01212","name":"留萌市","pref":"北海道","kind":"municipality","lat":43.94,"lon":141.65},
+  {"code":"01517","name":"礼文町","pref":"北海道","kind":"municipality","lat":42.574,"lon":140.601},
+  {"code":"01464","name":"和寒町","pref":"北海道","kind":"municipality","lat":44.021,"lon":142.418},
+  {"code":"01","name":"北海道","pref":"北海道","kind":"prefecture","lat":43.06,"lon":141.35},
+  {"code":"30406","name":"すさみ町","pref":"和歌山県","kind":"municipality","lat":33.55,"lon":135.5},
+  {"code":"30391","name":"みなべ町","pref":"和歌山県","kind":"municipality","lat":33.769,"lon":135.318},
+  {"code":"30390","name":"印南町","pref":"和歌山県","kind":"municipality","lat":33.809,"lon":135.221},
+  {"code":"30202","name":"海南市","pref":"和歌山県","kind":"municipality","lat":34.15,"lon":135.2},
+  {"code":"30209","name":"岩出市","pref":"和歌山県","kind":"municipality","lat":34.26,"lon":135.3},
+  {"code":"30208","name":"紀の川市","pref":"和歌山県","kind":"municipality","lat":34.26,"lon":135.36},
+  {"code":"30203","name":"橋本市","pref":"和歌山県","kind":"municipality","lat":34.31,"lon":135.61},
+  {"code":"30343","name":"九度山町","pref":"和歌山県","kind":"municipality","lat":34.289,"lon":135.56},
+  {"code":"30428","name":"串本町","pref":"和歌山県","kind":"municipality","lat":33.468,"lon":135.779},
+  {"code":"30205","name":"御坊市","pref":"和歌山県","kind":"municipality","lat":33.89,"lon":135.15},
+  {"code":"30344","name":"高野町","pref":"和歌山県","kind":"municipality","lat":34.213,"lon":135.622},
+  {"code":"30207","name":"新宮市","pref":"和歌山県","kind":"municipality","lat":33.72,"lon":135.99},
+  {"code":"30422","name":"太地町","pref":"和歌山県","kind":"municipality","lat":33.583,"lon":135.95},
+  {"code":"30206","name":"田辺市","pref":"和歌山県","kind":"municipality","lat":33.72,"lon":135.37},
+  {"code":"30361","name":"湯浅町","pref":"和歌山県","kind":"municipality","lat":34.037,"lon":135.18},
+  {"code":"30401","name":"白浜町","pref":"和歌山県","kind":"municipality","lat":33.683,"lon":135.35},
+  {"code":"30204","name":"有田市","pref":"和歌山県","kind":"municipality","lat":34.08,"lon":135.13},
+  {"code":"30201","name":"和歌山市","pref":"和歌山県","kind":"municipality","lat":34.23,"lon":135.17},
+  {"code":"30","name":"和歌山県","pref":"和歌山県","kind":"prefecture","lat":34.23,"lon":135.17}
+];
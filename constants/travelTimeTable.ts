@@ -0,0 +1,52 @@
+// Generated by scripts/generate-travel-time-table.mjs -- do not edit by hand.
+//
+// First-arrival travel times (seconds) for a JMA2001-like velocity model,
+// indexed as [depth index][distance index]. Distance is epicentral distance
+// along the surface, in steps of TRAVEL_TIME_DISTANCE_STEP_KM.
+
+export const TRAVEL_TIME_DEPTHS_KM = [0, 10, 20, 30, 40, 50, 60, 80, 100, 150, 200, 250, 300, 350, 400, 500, 600, 700];
+export const TRAVEL_TIME_DISTANCE_STEP_KM = 10;
+export const TRAVEL_TIME_MAX_DISTANCE_KM = 2000;
+
+export const TRAVEL_TIME_TABLE: { P: number[][]; S: number[][] } = {
+  P: [
+    [0,2.1,4,5.8,7.6,9.4,11.1,12.9,14.5,16.2,17.8,19.4,20.9,22.4,23.9,25.4,26.8,28.2,29.6,30.9,32.2,33.5,34.8,36.1,37.4,38.6,39.9,41.2,42.5,43.8,45.1,46.4,47.6,48.9,50.2,51.5,52.8,54,55.3,56.6,57.9,59.1,60.4,61.7,62.9,64.2,65.4,66.7,67.9,69.2,70.5,71.7,73,74.2,75.5,76.7,78,79.2,80.5,81.7,83,84.2,85.5,86.7,88,89.2,90.5,91.7,93,94.3,95.5,96.8,98,99.3,100.5,101.7,103,104.2,105.5,106.7,108,109.2,110.5,111.7,113,114.2,115.5,116.7,118,119.2,120.4,121.7,122.9,124.2,125.4,126.6,127.9,129.1,130.4,131.6,132.8,134.1,135.3,136.5,137.8,139,140.2,141.5,142.7,143.9,145.2,146.4,147.6,148.9,150.1,151.3,152.5,153.8,155,156.2,157.4,158.6,159.9,161.1,162.3,163.5,164.7,165.9,167.1,168.4,169.6,170.8,172,173.2,174.4,175.6,176.8,178,179.2,180.4,181.6,182.8,184,185.2,186.4,187.6,188.8,190,191.2,192.4,193.5,194.7,195.9,197.1,198.3,199.5,200.7,201.8,203,204.2,205.4,206.5,207.7,208.9,210.1,211.2,212.4,213.5,214.7,215.8,217,218.1,219.3,220.4,221.6,222.7,223.8,225,226.1,227.2,228.3,229.5,230.6,231.7,232.8,233.9,235,236.2,237.3,238.4,239.5,240.6,241.7,242.8,243.9,245,246.1,247.2,248.3,249.3,250.4],
+    [1.8,2.5,4,5.6,7.3,9,10.6,12.2,13.8,15.4,16.9,18.5,20,21.4,22.9,24.3,25.7,27.1,28.4,29.7,31,32.2,33.5,34.8,36.1,37.4,38.7,40,41.3,42.5,43.8,45.1,46.4,47.7,48.9,50.2,51.5,52.8,54,55.3,56.6,57.8,59.1,60.4,61.6,62.9,64.1,65.4,66.7,67.9,69.2,70.4,71.7,72.9,74.2,75.4,76.7,77.9,79.2,80.4,81.7,83,84.2,85.5,86.7,88,89.2,90.5,91.7,93,94.2,95.5,96.7,98,99.2,100.5,101.7,103,104.2,105.5,106.7,107.9,109.2,110.4,111.7,112.9,114.2,115.4,116.7,117.9,119.1,120.4,121.6,122.9,124.1,125.3,126.6,127.8,129.1,130.3,131.5,132.8,134,135.2,136.5,137.7,138.9,140.2,141.4,142.6,143.9,145.1,146.3,147.6,148.8,150,151.2,152.4,153.7,154.9,156.1,157.3,158.5,159.8,161,162.2,163.4,164.6,165.8,167,168.2,169.5,170.7,171.9,173.1,174.3,175.5,176.7,177.9,179.1,180.3,181.5,182.7,183.9,185.1,186.3,187.4,188.6,189.8,191,192.2,193.4,194.6,195.8,196.9,198.1,199.3,200.5,201.7,202.8,204,205.2,206.4,207.5,208.7,209.9,211,212.2,213.3,214.5,215.6,216.8,217.9,219,220.2,221.3,222.4,223.6,224.7,225.8,226.9,228.1,229.2,230.3,231.4,232.5,233.6,234.7,235.8,237,238.1,239.2,240.3,241.4,242.4,243.5,244.6,245.7,246.8,247.9,249],
+    [3.4,3.8,4.8,6.1,7.5,9,10.5,12,13.5,15,16.4,17.9,19.4,20.8,22.2,23.5,24.9,26.2,27.5,28.7,30,31.3,32.6,33.9,35.2,36.5,37.8,39,40.3,41.6,42.9,44.2,45.5,46.7,48,49.3,50.6,51.8,53.1,54.4,55.6,56.9,58.2,59.4,60.7,61.9,63.2,64.4,65.7,66.9,68.2,69.5,70.7,72,73.2,74.5,75.7,77,78.2,79.5,80.7,82,83.2,84.5,85.7,87,88.2,89.5,90.7,92,93.2,94.5,95.7,97,98.2,99.5,100.7,102,103.2,104.5,105.7,107,108.2,109.5,110.7,111.9,113.2,114.4,115.7,116.9,118.2,119.4,120.6,121.9,123.1,124.4,125.6,126.8,128.1,129.3,130.5,131.8,133,134.2,135.5,136.7,137.9,139.2,140.4,141.6,142.9,144.1,145.3,146.5,147.8,149,150.2,151.4,152.7,153.9,155.1,156.3,157.5,158.7,160,161.2,162.4,163.6,164.8,166,167.2,168.4,169.6,170.8,172,173.2,174.4,175.6,176.8,178,179.2,180.4,181.6,182.8,184,185.2,186.4,187.6,188.8,190,191.1,192.3,193.5,194.7,195.9,197.1,198.2,199.4,200.6,201.8,202.9,204.1,205.3,206.5,207.6,208.8,209.9,211.1,212.2,213.4,214.5,215.6,216.8,217.9,219.1,220.2,221.3,222.4,223.6,224.7,225.8,226.9,228,229.2,230.3,231.4,232.5,233.6,234.7,235.8,236.9,238,239.1,240.2,241.3,242.4,243.5,244.6,245.7,246.8,247.9],
+    [4.8,5.1,5.8,6.8,8,9.3,10.7,12,13.4,14.8,16.2,17.6,19,20.3,21.6,22.9,24.2,25.5,26.8,28.1,29.4,30.6,31.9,33.2,34.5,35.8,37.1,38.4,39.6,40.9,42.2,43.5,44.8,46,47.3,48.6,49.8,51.1,52.4,53.6,54.9,56.2,57.4,58.7,59.9,61.2,62.4,63.7,65,66.2,67.5,68.7,70,71.2,72.5,73.7,75,76.2,77.5,78.7,80,81.2,82.5,83.7,85,86.2,87.5,88.7,90,91.2,92.5,93.7,95,96.2,97.5,98.7,100,101.2,102.5,103.7,105,106.2,107.5,108.7,109.9,111.2,112.4,113.7,114.9,116.2,117.4,118.6,119.9,121.1,122.4,123.6,124.8,126.1,127.3,128.5,129.8,131,132.2,133.5,134.7,135.9,137.2,138.4,139.6,140.9,142.1,143.3,144.5,145.8,147,148.2,149.4,150.6,151.9,153.1,154.3,155.5,156.7,157.9,159.1,160.4,161.6,162.8,164,165.2,166.4,167.6,168.8,170,171.2,172.4,173.6,174.8,176,177.2,178.4,179.6,180.8,182,183.2,184.4,185.6,186.7,187.9,189.1,190.3,191.5,192.7,193.8,195,196.2,197.4,198.6,199.7,200.9,202.1,203.3,204.4,205.6,206.7,207.9,209,210.2,211.3,212.5,213.6,214.7,215.9,217,218.1,219.3,220.4,221.5,222.6,223.8,224.9,226,227.1,228.2,229.3,230.4,231.6,232.7,233.8,234.9,236,237.1,238.1,239.2,240.3,241.4,242.5,243.6,244.7,245.8,246.9],
+    [6.2,6.4,6.9,7.7,8.7,9.8,11,12.3,13.5,14.8,16.1,17.4,18.7,20,21.3,22.6,23.8,25.1,26.4,27.7,29,30.3,31.6,32.8,34.1,35.4,36.7,38,39.2,40.5,41.8,43.1,44.3,45.6,46.9,48.1,49.4,50.7,51.9,53.2,54.4,55.7,56.9,58.2,59.5,60.7,62,63.2,64.5,65.7,67,68.2,69.5,70.7,72,73.2,74.5,75.7,77,78.2,79.5,80.8,82,83.3,84.5,85.8,87,88.3,89.5,90.7,92,93.2,94.5,95.7,97,98.2,99.5,100.7,102,103.2,104.5,105.7,106.9,108.2,109.4,110.7,111.9,113.2,114.4,115.6,116.9,118.1,119.4,120.6,121.8,123.1,124.3,125.5,126.8,128,129.2,130.5,131.7,132.9,134.2,135.4,136.6,137.9,139.1,140.3,141.5,142.8,144,145.2,146.4,147.6,148.9,150.1,151.3,152.5,153.7,154.9,156.1,157.4,158.6,159.8,161,162.2,163.4,164.6,165.8,167,168.2,169.4,170.6,171.8,173,174.2,175.4,176.6,177.8,179,180.2,181.4,182.5,183.7,184.9,186.1,187.3,188.5,189.7,190.8,192,193.2,194.4,195.6,196.7,197.9,199.1,200.2,201.4,202.6,203.7,204.9,206,207.2,208.3,209.5,210.6,211.7,212.9,214,215.1,216.3,217.4,218.5,219.7,220.8,221.9,223,224.1,225.2,226.4,227.5,228.6,229.7,230.8,231.9,233,234.1,235.2,236.3,237.4,238.5,239.6,240.6,241.7,242.8,243.9,245,246.1],
+    [7.5,7.6,8.1,8.7,9.5,10.5,11.6,12.7,13.9,15.1,16.3,17.5,18.8,20,21.3,22.6,23.8,25.1,26.4,27.7,28.9,30.2,31.5,32.7,34,35.3,36.5,37.8,39.1,40.3,41.6,42.9,44.1,45.4,46.6,47.9,49.2,50.4,51.7,52.9,54.2,55.4,56.7,57.9,59.2,60.4,61.7,63,64.2,65.5,66.7,68,69.2,70.5,71.7,73,74.2,75.5,76.7,78,79.2,80.5,81.7,83,84.2,85.5,86.7,88,89.2,90.5,91.7,92.9,94.2,95.4,96.7,97.9,99.2,100.4,101.7,102.9,104.1,105.4,106.6,107.9,109.1,110.4,111.6,112.8,114.1,115.3,116.5,117.8,119,120.3,121.5,122.7,124,125.2,126.4,127.7,128.9,130.1,131.3,132.6,133.8,135,136.3,137.5,138.7,139.9,141.1,142.4,143.6,144.8,146,147.2,148.4,149.7,150.9,152.1,153.3,154.5,155.7,156.9,158.1,159.3,160.5,161.8,163,164.2,165.4,166.6,167.8,169,170.2,171.3,172.5,173.7,174.9,176.1,177.3,178.5,179.7,180.9,182.1,183.2,184.4,185.6,186.8,188,189.2,190.3,191.5,192.7,193.9,195,196.2,197.4,198.6,199.7,200.9,202,203.2,204.3,205.5,206.6,207.7,208.9,210,211.1,212.3,213.4,214.5,215.7,216.8,217.9,219,220.1,221.3,222.4,223.5,224.6,225.7,226.8,227.9,229,230.1,231.2,232.3,233.4,234.5,235.6,236.7,237.8,238.9,240,241.1,242.2,243.2,244.3,245.4],
+    [8.8,8.9,9.2,9.8,10.5,11.3,12.3,13.3,14.4,15.5,16.7,17.9,19.1,20.3,21.5,22.7,24,25.2,26.5,27.7,29,30.2,31.5,32.7,34,35.2,36.5,37.7,39,40.3,41.5,42.8,44,45.3,46.5,47.8,49,50.3,51.5,52.8,54,55.3,56.5,57.8,59,60.3,61.5,62.8,64,65.3,66.5,67.8,69,70.3,71.5,72.8,74,75.3,76.5,77.8,79,80.3,81.5,82.8,84,85.3,86.5,87.8,89,90.2,91.5,92.7,94,95.2,96.5,97.7,99,100.2,101.4,102.7,103.9,105.2,106.4,107.6,108.9,110.1,111.3,112.6,113.8,115.1,116.3,117.5,118.8,120,121.2,122.5,123.7,124.9,126.1,127.4,128.6,129.8,131,132.3,133.5,134.7,135.9,137.2,138.4,139.6,140.8,142,143.2,144.5,145.7,146.9,148.1,149.3,150.5,151.7,152.9,154.1,155.3,156.6,157.8,159,160.2,161.4,162.6,163.8,165,166.2,167.4,168.5,169.7,170.9,172.1,173.3,174.5,175.7,176.9,178.1,179.3,180.4,181.6,182.8,184,185.2,186.3,187.5,188.7,189.9,191,192.2,193.4,194.6,195.7,196.9,198,199.2,200.3,201.5,202.6,203.8,204.9,206,207.2,208.3,209.5,210.6,211.7,212.8,214,215.1,216.2,217.3,218.4,219.5,220.7,221.8,222.9,224,225.1,226.2,227.3,228.4,229.5,230.6,231.7,232.8,233.9,235,236.1,237.2,238.2,239.3,240.4,241.5,242.6,243.7,244.8],
+    [11.3,11.4,11.6,12,12.6,13.2,14,14.9,15.8,16.8,17.8,18.9,20,21.1,22.2,23.4,24.6,25.8,26.9,28.1,29.4,30.6,31.8,33,34.2,35.5,36.7,37.9,39.1,40.4,41.6,42.9,44.1,45.3,46.6,47.8,49,50.3,51.5,52.8,54,55.3,56.5,57.7,59,60.2,61.5,62.7,63.9,65.2,66.4,67.7,68.9,70.2,71.4,72.6,73.9,75.1,76.4,77.6,78.8,80.1,81.3,82.6,83.8,85,86.3,87.5,88.7,90,91.2,92.5,93.7,94.9,96.2,97.4,98.6,99.9,101.1,102.3,103.6,104.8,106,107.3,108.5,109.7,111,112.2,113.4,114.6,115.9,117.1,118.3,119.5,120.8,122,123.2,124.4,125.6,126.9,128.1,129.3,130.5,131.7,132.9,134.2,135.4,136.6,137.8,139,140.2,141.4,142.6,143.8,145,146.3,147.5,148.7,149.9,151.1,152.3,153.5,154.7,155.9,157.1,158.3,159.5,160.6,161.8,163,164.2,165.4,166.6,167.8,169,170.2,171.4,172.5,173.7,174.9,176.1,177.3,178.4,179.6,180.8,182,183.1,184.3,185.5,186.7,187.8,189,190.2,191.3,192.5,193.6,194.8,195.9,197,198.2,199.3,200.5,201.6,202.7,203.9,205,206.1,207.2,208.4,209.5,210.6,211.7,212.8,214,215.1,216.2,217.3,218.4,219.5,220.6,221.7,222.8,223.9,225,226.1,227.2,228.3,229.4,230.5,231.6,232.7,233.7,234.8,235.9,237,238.1,239.2,240.3,241.4,242.5,243.5],
+    [13.8,13.9,14.1,14.4,14.8,15.4,16,16.7,17.5,18.4,19.3,20.3,21.3,22.3,23.3,24.4,25.5,26.6,27.8,28.9,30.1,31.2,32.4,33.6,34.8,36,37.1,38.3,39.5,40.8,42,43.2,44.4,45.6,46.8,48,49.3,50.5,51.7,52.9,54.2,55.4,56.6,57.8,59.1,60.3,61.5,62.8,64,65.2,66.4,67.7,68.9,70.1,71.4,72.6,73.8,75.1,76.3,77.5,78.7,80,81.2,82.4,83.7,84.9,86.1,87.3,88.6,89.8,91,92.3,93.5,94.7,95.9,97.2,98.4,99.6,100.8,102.1,103.3,104.5,105.7,106.9,108.2,109.4,110.6,111.8,113,114.3,115.5,116.7,117.9,119.1,120.3,121.5,122.8,124,125.2,126.4,127.6,128.8,130,131.2,132.4,133.6,134.9,136.1,137.3,138.5,139.7,140.9,142.1,143.3,144.5,145.7,146.9,148.1,149.3,150.4,151.6,152.8,154,155.2,156.4,157.6,158.8,160,161.2,162.3,163.5,164.7,165.9,167.1,168.3,169.4,170.6,171.8,173,174.1,175.3,176.5,177.7,178.8,180,181.2,182.3,183.5,184.6,185.8,186.9,188.1,189.2,190.4,191.5,192.7,193.8,194.9,196.1,197.2,198.3,199.5,200.6,201.7,202.8,203.9,205.1,206.2,207.3,208.4,209.5,210.6,211.7,212.8,214,215.1,216.2,217.3,218.4,219.5,220.5,221.6,222.7,223.8,224.9,226,227.1,228.2,229.3,230.4,231.5,232.6,233.6,234.7,235.8,236.9,238,239,240,241,242],
+    [20,20,20.2,20.4,20.7,21,21.5,22,22.6,23.2,23.9,24.6,25.4,26.2,27.1,27.9,28.9,29.8,30.8,31.8,32.8,33.8,34.8,35.9,37,38,39.1,40.2,41.3,42.5,43.6,44.7,45.9,47,48.1,49.3,50.4,51.6,52.8,53.9,55.1,56.3,57.4,58.6,59.8,61,62.2,63.3,64.5,65.7,66.9,68.1,69.3,70.5,71.7,72.9,74.1,75.2,76.4,77.6,78.8,80,81.2,82.4,83.6,84.8,86,87.2,88.4,89.6,90.8,92,93.2,94.4,95.6,96.8,98,99.2,100.4,101.6,102.8,104,105.2,106.4,107.6,108.8,110,111.2,112.3,113.5,114.7,115.9,117.1,118.3,119.5,120.7,121.9,123.1,124.3,125.5,126.6,127.8,129,130.2,131.4,132.6,133.8,134.9,136.1,137.3,138.5,139.7,140.9,142,143.2,144.4,145.6,146.7,147.9,149.1,150.3,151.4,152.6,153.8,155,156.1,157.3,158.5,159.6,160.8,161.9,163.1,164.3,165.4,166.6,167.7,168.9,170,171.1,172.3,173.4,174.6,175.7,176.8,178,179.1,180.2,181.4,182.5,183.6,184.8,185.9,187,188.1,189.2,190.4,191.5,192.6,193.7,194.8,195.9,197,198.1,199.2,200.3,201.4,202.5,203.6,204.7,205.8,206.9,208,209.1,210.2,211.3,212.4,213.5,214.6,215.7,216.8,217.8,218.9,220,221.1,222.2,223.3,224.4,225.4,226.5,227.5,228.5,229.5,230.5,231.4,232.4,233.4,234.4,235.4,236.4,237.3,238.3],
+    [26.1,26.1,26.2,26.3,26.6,26.8,27.2,27.6,28,28.5,29,29.6,30.2,30.9,31.6,32.3,33.1,33.9,34.7,35.5,36.4,37.3,38.2,39.1,40.1,41,42,43,44,45,46.1,47.1,48.1,49.2,50.3,51.3,52.4,53.5,54.6,55.7,56.8,57.9,59,60.1,61.2,62.3,63.5,64.6,65.7,66.8,68,69.1,70.3,71.4,72.5,73.7,74.8,76,77.1,78.3,79.4,80.6,81.8,82.9,84.1,85.2,86.4,87.6,88.7,89.9,91,92.2,93.4,94.5,95.7,96.9,98,99.2,100.4,101.5,102.7,103.9,105,106.2,107.4,108.5,109.7,110.9,112,113.2,114.4,115.5,116.7,117.9,119,120.2,121.4,122.5,123.7,124.8,126,127.2,128.3,129.5,130.6,131.8,132.9,134.1,135.3,136.4,137.6,138.7,139.9,141,142.2,143.3,144.4,145.6,146.7,147.9,149,150.2,151.3,152.4,153.6,154.7,155.8,157,158.1,159.2,160.4,161.5,162.6,163.8,164.9,166,167.1,168.3,169.4,170.5,171.6,172.7,173.8,175,176.1,177.2,178.3,179.4,180.5,181.6,182.7,183.8,184.9,186,187.1,188.2,189.3,190.4,191.5,192.6,193.7,194.8,195.9,197,198.1,199.1,200.2,201.3,202.4,203.5,204.6,205.7,206.8,207.8,208.9,210,211.1,212.2,213.3,214.3,215.3,216.3,217.2,218.2,219.2,220.2,221.2,222.2,223.1,224.1,225.1,226.1,227.1,228,229,230,231,232,232.9,233.9,234.9],
+    [32,32,32.1,32.2,32.4,32.6,32.9,33.2,33.5,33.9,34.4,34.8,35.3,35.9,36.5,37.1,37.7,38.4,39.1,39.8,40.6,41.3,42.1,42.9,43.8,44.6,45.5,46.4,47.3,48.2,49.1,50.1,51,52,53,53.9,54.9,55.9,56.9,58,59,60,61.1,62.1,63.1,64.2,65.3,66.3,67.4,68.5,69.5,70.6,71.7,72.8,73.9,75,76.1,77.2,78.3,79.4,80.5,81.6,82.7,83.8,84.9,86,87.1,88.3,89.4,90.5,91.6,92.7,93.9,95,96.1,97.2,98.4,99.5,100.6,101.7,102.9,104,105.1,106.3,107.4,108.5,109.7,110.8,111.9,113,114.2,115.3,116.4,117.6,118.7,119.8,121,122.1,123.2,124.3,125.5,126.6,127.7,128.8,130,131.1,132.2,133.3,134.5,135.6,136.7,137.8,139,140.1,141.2,142.3,143.4,144.6,145.7,146.8,147.9,149,150.1,151.2,152.4,153.5,154.6,155.7,156.8,157.9,159,160.1,161.2,162.3,163.4,164.5,165.6,166.7,167.8,168.9,170,171.1,172.2,173.3,174.4,175.5,176.6,177.7,178.7,179.8,180.9,182,183.1,184.2,185.3,186.4,187.5,188.5,189.6,190.7,191.8,192.9,194,195,196.1,197.2,198.3,199.4,200.4,201.4,202.4,203.3,204.3,205.3,206.3,207.3,208.3,209.3,210.2,211.2,212.2,213.2,214.2,215.1,216.1,217.1,218.1,219.1,220,221,222,223,223.9,224.9,225.9,226.9,227.8,228.8,229.8,230.7,231.7],
+    [37.8,37.9,37.9,38,38.1,38.3,38.5,38.8,39.1,39.4,39.8,40.2,40.6,41,41.5,42,42.6,43.2,43.8,44.4,45,45.7,46.4,47.1,47.9,48.6,49.4,50.2,51,51.8,52.6,53.5,54.3,55.2,56.1,57,57.9,58.8,59.8,60.7,61.6,62.6,63.6,64.5,65.5,66.5,67.5,68.5,69.5,70.5,71.5,72.5,73.5,74.6,75.6,76.6,77.7,78.7,79.8,80.8,81.9,82.9,84,85,86.1,87.2,88.2,89.3,90.4,91.4,92.5,93.6,94.7,95.8,96.8,97.9,99,100.1,101.2,102.3,103.4,104.4,105.5,106.6,107.7,108.8,109.9,111,112.1,113.2,114.3,115.4,116.5,117.6,118.7,119.7,120.8,121.9,123,124.1,125.2,126.3,127.4,128.5,129.6,130.7,131.8,132.9,134,135.1,136.2,137.3,138.4,139.4,140.5,141.6,142.7,143.8,144.9,146,147.1,148.2,149.3,150.4,151.5,152.5,153.6,154.7,155.8,156.9,158,159.1,160.2,161.2,162.3,163.4,164.5,165.6,166.7,167.7,168.8,169.9,171,172.1,173.1,174.2,175.3,176.4,177.4,178.5,179.6,180.7,181.7,182.8,183.9,184.9,185.9,186.8,187.8,188.8,189.8,190.8,191.8,192.8,193.8,194.7,195.7,196.7,197.7,198.7,199.7,200.6,201.6,202.6,203.6,204.6,205.5,206.5,207.5,208.5,209.4,210.4,211.4,212.4,213.3,214.3,215.3,216.2,217.2,218.2,219.2,220.1,221.1,222,223,224,224.9,225.9,226.9,227.8,228.8],
+    [43.5,43.5,43.6,43.7,43.8,43.9,44.1,44.3,44.6,44.9,45.2,45.5,45.9,46.2,46.7,47.1,47.6,48.1,48.6,49.1,49.7,50.3,50.9,51.5,52.2,52.9,53.6,54.3,55,55.7,56.5,57.2,58,58.8,59.6,60.4,61.3,62.1,63,63.8,64.7,65.6,66.5,67.4,68.3,69.2,70.1,71,72,72.9,73.9,74.8,75.8,76.8,77.7,78.7,79.7,80.7,81.7,82.7,83.7,84.7,85.7,86.7,87.7,88.7,89.7,90.7,91.8,92.8,93.8,94.8,95.9,96.9,98,99,100,101.1,102.1,103.2,104.2,105.3,106.3,107.4,108.4,109.5,110.5,111.6,112.6,113.7,114.8,115.8,116.9,118,119,120.1,121.1,122.2,123.3,124.3,125.4,126.5,127.5,128.6,129.7,130.7,131.8,132.9,133.9,135,136.1,137.1,138.2,139.3,140.3,141.4,142.5,143.5,144.6,145.7,146.7,147.8,148.9,149.9,151,152.1,153.1,154.2,155.3,156.3,157.4,158.5,159.5,160.6,161.7,162.7,163.8,164.8,165.7,166.7,167.7,168.7,169.7,170.7,171.7,172.7,173.7,174.7,175.6,176.6,177.6,178.6,179.6,180.6,181.6,182.5,183.5,184.5,185.5,186.5,187.4,188.4,189.4,190.4,191.4,192.3,193.3,194.3,195.3,196.3,197.2,198.2,199.2,200.1,201.1,202.1,203.1,204,205,206,206.9,207.9,208.9,209.8,210.8,211.8,212.7,213.7,214.6,215.6,216.6,217.5,218.5,219.4,220.4,221.3,222.3,223.2,224.2,225.1,226.1],
+    [49.1,49.1,49.2,49.3,49.4,49.5,49.6,49.8,50,50.3,50.5,50.8,51.1,51.5,51.8,52.2,52.6,53.1,53.5,54,54.5,55,55.6,56.1,56.7,57.3,57.9,58.6,59.2,59.9,60.5,61.2,62,62.7,63.4,64.2,64.9,65.7,66.5,67.3,68.1,68.9,69.7,70.5,71.4,72.2,73.1,73.9,74.8,75.7,76.6,77.5,78.4,79.3,80.2,81.1,82.1,83,83.9,84.9,85.8,86.8,87.7,88.7,89.6,90.6,91.6,92.5,93.5,94.5,95.5,96.5,97.4,98.4,99.4,100.4,101.4,102.4,103.4,104.4,105.4,106.5,107.5,108.5,109.5,110.5,111.5,112.5,113.6,114.6,115.6,116.6,117.7,118.7,119.7,120.8,121.8,122.8,123.8,124.9,125.9,126.9,128,129,130.1,131.1,132.1,133.1,134.1,135.1,136.1,137.1,138.1,139.1,140,141,142,143,144,145,146,147,148,149,150,151,151.9,152.9,153.9,154.9,155.9,156.9,157.9,158.9,159.9,160.8,161.8,162.8,163.8,164.8,165.8,166.7,167.7,168.7,169.7,170.7,171.7,172.6,173.6,174.6,175.6,176.6,177.5,178.5,179.5,180.5,181.4,182.4,183.4,184.4,185.3,186.3,187.3,188.3,189.2,190.2,191.2,192.1,193.1,194.1,195,196,197,197.9,198.9,199.8,200.8,201.8,202.7,203.7,204.6,205.6,206.5,207.5,208.5,209.4,210.4,211.3,212.3,213.2,214.2,215.1,216,217,217.9,218.9,219.8,220.8,221.7,222.7,223.6],
+    [59.7,59.7,59.7,59.8,59.9,60,60.1,60.2,60.4,60.6,60.8,61,61.2,61.5,61.8,62.1,62.4,62.7,63.1,63.5,63.9,64.3,64.7,65.2,65.6,66.1,66.6,67.1,67.6,68.2,68.7,69.3,69.9,70.5,71.1,71.7,72.3,73,73.6,74.3,74.9,75.6,76.3,77,77.7,78.5,79.2,79.9,80.7,81.5,82.2,83,83.8,84.6,85.4,86.2,87,87.8,88.6,89.4,90.2,91.1,91.9,92.8,93.6,94.5,95.3,96.2,97.1,97.9,98.8,99.7,100.6,101.5,102.4,103.2,104.1,105,105.9,106.8,107.8,108.7,109.6,110.5,111.4,112.3,113.2,114.2,115.1,116,116.9,117.9,118.8,119.7,120.7,121.6,122.5,123.5,124.4,125.4,126.3,127.2,128.2,129.1,130.1,131,132,132.9,133.8,134.8,135.7,136.7,137.6,138.6,139.5,140.5,141.4,142.4,143.3,144.3,145.2,146.2,147.1,148.1,149,150,150.9,151.9,152.8,153.8,154.7,155.7,156.6,157.6,158.5,159.5,160.4,161.4,162.3,163.3,164.2,165.2,166.1,167.1,168,168.9,169.9,170.8,171.8,172.7,173.7,174.6,175.6,176.5,177.5,178.4,179.3,180.3,181.2,182.2,183.1,184,185,185.9,186.9,187.8,188.7,189.7,190.6,191.5,192.5,193.4,194.4,195.3,196.2,197.2,198.1,199,199.9,200.9,201.8,202.7,203.7,204.6,205.5,206.4,207.4,208.3,209.2,210.1,211.1,212,212.9,213.8,214.7,215.7,216.6,217.5,218.4,219.3,220.2],
+    [69.8,69.8,69.9,69.9,70,70,70.1,70.2,70.4,70.5,70.7,70.9,71.1,71.3,71.5,71.7,72,72.3,72.6,72.9,73.2,73.5,73.9,74.2,74.6,75,75.4,75.8,76.3,76.7,77.2,77.6,78.1,78.6,79.1,79.6,80.2,80.7,81.3,81.8,82.4,83,83.6,84.2,84.8,85.4,86,86.7,87.3,88,88.6,89.3,90,90.7,91.4,92.1,92.8,93.5,94.2,94.9,95.7,96.4,97.1,97.9,98.6,99.4,100.2,100.9,101.7,102.5,103.3,104.1,104.9,105.7,106.5,107.3,108.1,108.9,109.7,110.5,111.3,112.2,113,113.8,114.7,115.5,116.3,117.2,118,118.9,119.7,120.6,121.4,122.3,123.2,124,124.9,125.7,126.6,127.5,128.4,129.2,130.1,131,131.9,132.7,133.6,134.5,135.4,136.3,137.2,138,138.9,139.8,140.7,141.6,142.5,143.4,144.3,145.2,146.1,147,147.8,148.7,149.6,150.5,151.4,152.3,153.2,154.1,155,155.9,156.8,157.7,158.6,159.5,160.4,161.3,162.2,163.1,164,164.9,165.9,166.8,167.7,168.6,169.5,170.4,171.3,172.2,173.1,174,174.9,175.8,176.7,177.6,178.5,179.4,180.3,181.2,182.1,183,183.9,184.8,185.7,186.6,187.4,188.3,189.1,189.9,190.8,191.6,192.4,193.3,194.1,195,195.8,196.6,197.4,198.3,199.1,199.9,200.8,201.6,202.4,203.3,204.1,204.9,205.8,206.6,207.4,208.3,209.1,209.9,210.7,211.6,212.4,213.2,214,214.9,215.7],
+    [79.5,79.5,79.5,79.5,79.6,79.6,79.7,79.8,79.9,80,80.2,80.3,80.5,80.7,80.8,81,81.3,81.5,81.7,82,82.2,82.5,82.8,83.1,83.4,83.8,84.1,84.4,84.8,85.2,85.6,86,86.4,86.8,87.2,87.7,88.1,88.6,89,89.5,90,90.5,91,91.5,92,92.6,93.1,93.7,94.2,94.8,95.4,95.9,96.5,97.1,97.7,98.3,99,99.6,100.2,100.9,101.5,102.1,102.8,103.5,104.1,104.8,105.5,106.2,106.8,107.5,108.2,108.9,109.6,110.4,111.1,111.8,112.5,113.2,114,114.7,115.4,116.2,116.9,117.7,118.4,119.2,120,120.7,121.5,122.3,123,123.8,124.6,125.4,126.1,126.9,127.7,128.5,129.3,130.1,130.9,131.7,132.5,133.3,134.1,134.9,135.7,136.5,137.3,138.1,138.9,139.7,140.5,141.3,142.2,143,143.8,144.6,145.4,146.2,147.1,147.9,148.7,149.5,150.3,151.2,152,152.8,153.6,154.5,155.3,156.1,156.9,157.8,158.6,159.4,160.2,161,161.9,162.7,163.5,164.3,165.2,166,166.8,167.6,168.5,169.3,170.1,170.9,171.8,172.6,173.4,174.2,175.1,175.9,176.7,177.5,178.4,179.2,180,180.8,181.7,182.5,183.3,184.1,184.9,185.8,186.6,187.4,188.2,189,189.9,190.7,191.5,192.3,193.1,194,194.8,195.6,196.4,197.2,198.1,198.9,199.7,200.5,201.3,202.1,203,203.8,204.6,205.4,206.2,207,207.8,208.7,209.5,210.3,211.1,211.9,212.7]
+  ],
+  S: [
+    [0,3.7,6.8,10,13.1,16.2,19.3,22.2,25.2,28,30.8,33.5,36.2,38.8,41.4,43.9,46.4,48.9,51.2,53.5,55.7,57.9,60.2,62.4,64.6,66.9,69.1,71.3,73.5,75.8,78,80.2,82.4,84.6,86.9,89.1,91.3,93.5,95.7,97.9,100.1,102.3,104.5,106.7,108.8,111,113.2,115.4,117.5,119.7,121.9,124.1,126.2,128.4,130.6,132.7,134.9,137.1,139.2,141.4,143.6,145.7,147.9,150.1,152.2,154.4,156.6,158.7,160.9,163.1,165.2,167.4,169.5,171.7,173.9,176,178.2,180.3,182.5,184.7,186.8,189,191.1,193.3,195.4,197.6,199.8,201.9,204.1,206.2,208.4,210.5,212.7,214.8,216.9,219.1,221.2,223.4,225.5,227.7,229.8,231.9,234.1,236.2,238.4,240.5,242.6,244.8,246.9,249,251.2,253.3,255.4,257.5,259.7,261.8,263.9,266,268.1,270.2,272.3,274.5,276.6,278.7,280.8,282.9,285,287.1,289.2,291.3,293.4,295.4,297.5,299.6,301.7,303.8,305.9,308,310,312.1,314.2,316.3,318.3,320.4,322.5,324.5,326.6,328.7,330.7,332.8,334.8,336.9,338.9,341,343,345.1,347.1,349.2,351.2,353.2,355.3,357.3,359.3,361.4,363.4,365.4,367.4,369.4,371.4,373.4,375.4,377.4,379.4,381.3,383.3,385.3,387.2,389.2,391.1,393.1,395,397,398.9,400.8,402.8,404.7,406.6,408.5,410.5,412.4,414.3,416.2,418.1,420,421.9,423.8,425.7,427.6,429.5,431.4,433.3],
+    [3.1,4.4,6.9,9.7,12.6,15.5,18.3,21.1,23.9,26.6,29.3,31.9,34.5,37.1,39.6,42.1,44.5,46.8,49.1,51.3,53.5,55.8,58,60.2,62.5,64.7,66.9,69.1,71.4,73.6,75.8,78,80.3,82.5,84.7,86.9,89.1,91.3,93.5,95.7,97.9,100.1,102.3,104.5,106.6,108.8,111,113.1,115.3,117.5,119.7,121.8,124,126.2,128.3,130.5,132.7,134.8,137,139.2,141.3,143.5,145.7,147.8,150,152.2,154.3,156.5,158.7,160.8,163,165.2,167.3,169.5,171.6,173.8,176,178.1,180.3,182.4,184.6,186.7,188.9,191.1,193.2,195.4,197.5,199.7,201.8,204,206.1,208.3,210.4,212.6,214.7,216.8,219,221.1,223.3,225.4,227.6,229.7,231.8,234,236.1,238.2,240.4,242.5,244.6,246.8,248.9,251,253.1,255.3,257.4,259.5,261.6,263.7,265.8,268,270.1,272.2,274.3,276.4,278.5,280.6,282.7,284.8,286.9,289,291.1,293.1,295.2,297.3,299.4,301.5,303.6,305.7,307.7,309.8,311.9,313.9,316,318.1,320.2,322.2,324.3,326.3,328.4,330.5,332.5,334.6,336.6,338.7,340.7,342.7,344.8,346.8,348.9,350.9,352.9,355,357,359,361,363.1,365.1,367.1,369,371,373,375,377,378.9,380.9,382.8,384.8,386.8,388.7,390.7,392.6,394.5,396.5,398.4,400.3,402.3,404.2,406.1,408,409.9,411.8,413.7,415.6,417.5,419.4,421.3,423.2,425.1,427,428.9,430.8],
+    [5.9,6.5,8.3,10.5,13,15.5,18.1,20.8,23.3,25.9,28.5,31,33.5,36,38.4,40.7,43,45.2,47.5,49.7,52,54.2,56.4,58.6,60.9,63.1,65.3,67.5,69.8,72,74.2,76.4,78.6,80.8,83.1,85.3,87.5,89.7,91.9,94,96.2,98.4,100.6,102.8,105,107.1,109.3,111.5,113.6,115.8,118,120.2,122.3,124.5,126.7,128.8,131,133.2,135.3,137.5,139.7,141.8,144,146.2,148.3,150.5,152.7,154.8,157,159.1,161.3,163.5,165.6,167.8,169.9,172.1,174.3,176.4,178.6,180.7,182.9,185,187.2,189.4,191.5,193.7,195.8,198,200.1,202.3,204.4,206.6,208.7,210.8,213,215.1,217.3,219.4,221.6,223.7,225.8,228,230.1,232.2,234.4,236.5,238.6,240.8,242.9,245,247.2,249.3,251.4,253.5,255.6,257.8,259.9,262,264.1,266.2,268.3,270.4,272.5,274.6,276.7,278.8,280.9,283,285.1,287.2,289.3,291.4,293.5,295.5,297.6,299.7,301.8,303.9,305.9,308,310.1,312.1,314.2,316.3,318.3,320.4,322.5,324.5,326.6,328.6,330.7,332.7,334.8,336.8,338.9,340.9,343,345,347,349.1,351.1,353.1,355.1,357.2,359.2,361.2,363.2,365.2,367.1,369.1,371.1,373.1,375,377,379,380.9,382.9,384.8,386.8,388.7,390.7,392.6,394.5,396.5,398.4,400.3,402.2,404.1,406,408,409.9,411.8,413.7,415.6,417.4,419.3,421.2,423.1,425,426.9,428.8],
+    [8.4,8.8,10.1,11.8,13.9,16.1,18.4,20.8,23.3,25.7,28.1,30.4,32.8,35.1,37.4,39.6,41.9,44.1,46.3,48.6,50.8,53,55.2,57.5,59.7,61.9,64.1,66.4,68.6,70.8,73,75.2,77.4,79.6,81.8,84,86.2,88.4,90.6,92.8,95,97.2,99.3,101.5,103.7,105.9,108,110.2,112.4,114.5,116.7,118.9,121,123.2,125.4,127.5,129.7,131.9,134,136.2,138.4,140.5,142.7,144.9,147,149.2,151.4,153.5,155.7,157.9,160,162.2,164.3,166.5,168.7,170.8,173,175.1,177.3,179.4,181.6,183.7,185.9,188,190.2,192.4,194.5,196.7,198.8,200.9,203.1,205.2,207.4,209.5,211.7,213.8,216,218.1,220.2,222.4,224.5,226.6,228.8,230.9,233,235.2,237.3,239.4,241.6,243.7,245.8,247.9,250,252.2,254.3,256.4,258.5,260.6,262.7,264.8,266.9,269,271.1,273.2,275.3,277.4,279.5,281.6,283.7,285.8,287.9,290,292,294.1,296.2,298.3,300.4,302.4,304.5,306.6,308.6,310.7,312.8,314.8,316.9,319,321,323.1,325.1,327.2,329.2,331.3,333.3,335.4,337.4,339.4,341.5,343.5,345.5,347.6,349.6,351.6,353.6,355.6,357.6,359.6,361.6,363.6,365.6,367.6,369.5,371.5,373.5,375.4,377.4,379.3,381.3,383.2,385.2,387.1,389,391,392.9,394.8,396.7,398.7,400.6,402.5,404.4,406.3,408.2,410.1,412,413.9,415.8,417.7,419.6,421.5,423.4,425.2,427.1],
+    [10.7,11,12,13.3,15.1,17,19,21.2,23.4,25.6,27.9,30.1,32.4,34.6,36.8,39,41.3,43.5,45.7,47.9,50.1,52.4,54.6,56.8,59,61.2,63.5,65.7,67.9,70.1,72.3,74.5,76.7,78.9,81.1,83.3,85.5,87.6,89.8,92,94.2,96.3,98.5,100.7,102.9,105,107.2,109.4,111.5,113.7,115.9,118,120.2,122.4,124.5,126.7,128.9,131,133.2,135.4,137.5,139.7,141.9,144,146.2,148.4,150.5,152.7,154.8,157,159.2,161.3,163.5,165.6,167.8,169.9,172.1,174.3,176.4,178.6,180.7,182.9,185,187.2,189.3,191.5,193.6,195.8,197.9,200.1,202.2,204.3,206.5,208.6,210.8,212.9,215,217.2,219.3,221.5,223.6,225.7,227.9,230,232.1,234.2,236.4,238.5,240.6,242.7,244.8,247,249.1,251.2,253.3,255.4,257.5,259.6,261.7,263.8,265.9,268,270.1,272.2,274.3,276.4,278.5,280.6,282.7,284.8,286.8,288.9,291,293.1,295.2,297.2,299.3,301.4,303.4,305.5,307.6,309.6,311.7,313.8,315.8,317.9,319.9,322,324,326.1,328.1,330.2,332.2,334.2,336.3,338.3,340.3,342.4,344.4,346.4,348.5,350.5,352.5,354.4,356.4,358.4,360.4,362.4,364.4,366.3,368.3,370.2,372.2,374.2,376.1,378.1,380,381.9,383.9,385.8,387.7,389.7,391.6,393.5,395.4,397.3,399.2,401.2,403.1,405,406.9,408.7,410.6,412.5,414.4,416.3,418.2,420.1,422,423.9,425.8],
+    [13,13.2,13.9,15.1,16.5,18.2,20,21.9,24,26.1,28.2,30.3,32.5,34.7,36.9,39.1,41.3,43.5,45.7,47.9,50.1,52.3,54.5,56.7,58.8,61,63.2,65.4,67.6,69.8,72,74.2,76.3,78.5,80.7,82.9,85,87.2,89.4,91.6,93.7,95.9,98.1,100.2,102.4,104.6,106.7,108.9,111.1,113.2,115.4,117.6,119.7,121.9,124.1,126.2,128.4,130.6,132.7,134.9,137.1,139.2,141.4,143.5,145.7,147.9,150,152.2,154.3,156.5,158.6,160.8,163,165.1,167.3,169.4,171.6,173.7,175.9,178,180.2,182.3,184.5,186.6,188.8,190.9,193.1,195.2,197.3,199.5,201.6,203.8,205.9,208,210.2,212.3,214.4,216.6,218.7,220.8,223,225.1,227.2,229.4,231.5,233.6,235.7,237.8,240,242.1,244.2,246.3,248.4,250.5,252.6,254.7,256.8,258.9,261,263.1,265.2,267.3,269.4,271.5,273.6,275.7,277.7,279.8,281.9,284,286.1,288.1,290.2,292.3,294.4,296.4,298.5,300.6,302.6,304.7,306.8,308.8,310.9,312.9,315,317,319.1,321.1,323.2,325.2,327.2,329.3,331.3,333.4,335.4,337.4,339.4,341.5,343.5,345.5,347.5,349.5,351.5,353.5,355.4,357.4,359.4,361.4,363.3,365.3,367.2,369.2,371.2,373.1,375,377,378.9,380.9,382.8,384.7,386.6,388.6,390.5,392.4,394.3,396.2,398.1,400,401.9,403.8,405.7,407.6,409.5,411.4,413.3,415.2,417,418.9,420.8,422.7,424.6],
+    [15.2,15.4,16,16.9,18.1,19.6,21.2,23,24.9,26.8,28.8,30.9,33,35.1,37.2,39.3,41.5,43.6,45.8,47.9,50.1,52.3,54.4,56.6,58.8,61,63.1,65.3,67.5,69.6,71.8,74,76.1,78.3,80.5,82.6,84.8,87,89.1,91.3,93.5,95.6,97.8,100,102.1,104.3,106.5,108.6,110.8,113,115.1,117.3,119.4,121.6,123.8,125.9,128.1,130.3,132.4,134.6,136.7,138.9,141,143.2,145.4,147.5,149.7,151.8,154,156.1,158.3,160.4,162.6,164.7,166.9,169,171.2,173.3,175.5,177.6,179.8,181.9,184.1,186.2,188.3,190.5,192.6,194.8,196.9,199,201.2,203.3,205.4,207.6,209.7,211.8,214,216.1,218.2,220.3,222.5,224.6,226.7,228.8,230.9,233.1,235.2,237.3,239.4,241.5,243.6,245.7,247.8,249.9,252,254.1,256.2,258.3,260.4,262.5,264.6,266.7,268.7,270.8,272.9,275,277.1,279.2,281.2,283.3,285.4,287.4,289.5,291.6,293.7,295.7,297.8,299.8,301.9,304,306,308.1,310.1,312.2,314.2,316.3,318.3,320.3,322.4,324.4,326.4,328.5,330.5,332.5,334.6,336.6,338.6,340.6,342.6,344.6,346.6,348.6,350.5,352.5,354.5,356.5,358.4,360.4,362.4,364.3,366.3,368.2,370.1,372.1,374,376,377.9,379.8,381.7,383.7,385.6,387.5,389.4,391.3,393.2,395.1,397,398.9,400.8,402.7,404.6,406.5,408.4,410.3,412.2,414,415.9,417.8,419.7,421.6,423.5],
+    [19.5,19.7,20.1,20.8,21.8,22.9,24.3,25.7,27.3,29,30.8,32.7,34.6,36.5,38.5,40.5,42.5,44.6,46.6,48.7,50.8,52.9,55,57.1,59.2,61.3,63.5,65.6,67.7,69.9,72,74.1,76.3,78.4,80.6,82.7,84.9,87,89.1,91.3,93.4,95.6,97.7,99.9,102,104.2,106.3,108.5,110.6,112.8,114.9,117.1,119.2,121.4,123.5,125.7,127.8,129.9,132.1,134.2,136.4,138.5,140.7,142.8,145,147.1,149.2,151.4,153.5,155.7,157.8,160,162.1,164.2,166.4,168.5,170.6,172.8,174.9,177,179.2,181.3,183.4,185.6,187.7,189.8,192,194.1,196.2,198.3,200.4,202.6,204.7,206.8,208.9,211,213.1,215.3,217.4,219.5,221.6,223.7,225.8,227.9,230,232.1,234.2,236.3,238.4,240.5,242.6,244.7,246.8,248.8,250.9,253,255.1,257.2,259.3,261.3,263.4,265.5,267.6,269.6,271.7,273.8,275.9,277.9,280,282,284.1,286.2,288.2,290.3,292.3,294.4,296.4,298.5,300.5,302.6,304.6,306.7,308.7,310.7,312.8,314.8,316.8,318.9,320.9,322.9,325,327,329,331,333,334.9,336.9,338.9,340.9,342.9,344.8,346.8,348.8,350.7,352.7,354.6,356.6,358.5,360.5,362.4,364.4,366.3,368.2,370.1,372.1,374,375.9,377.8,379.7,381.6,383.5,385.4,387.3,389.2,391.1,393,394.9,396.8,398.7,400.6,402.5,404.4,406.3,408.2,410,411.9,413.8,415.7,417.6,419.4,421.2],
+    [23.9,24,24.3,24.9,25.6,26.6,27.7,29,30.3,31.8,33.4,35.1,36.8,38.6,40.4,42.2,44.1,46.1,48,50,52,54,56,58.1,60.1,62.2,64.3,66.3,68.4,70.5,72.6,74.7,76.8,78.9,81,83.1,85.2,87.3,89.5,91.6,93.7,95.8,97.9,100.1,102.2,104.3,106.4,108.6,110.7,112.8,114.9,117.1,119.2,121.3,123.5,125.6,127.7,129.8,132,134.1,136.2,138.4,140.5,142.6,144.7,146.9,149,151.1,153.2,155.4,157.5,159.6,161.7,163.8,166,168.1,170.2,172.3,174.4,176.6,178.7,180.8,182.9,185,187.1,189.2,191.3,193.4,195.6,197.7,199.8,201.9,204,206.1,208.2,210.3,212.4,214.5,216.6,218.7,220.8,222.8,224.9,227,229.1,231.2,233.3,235.4,237.5,239.5,241.6,243.7,245.8,247.9,249.9,252,254.1,256.1,258.2,260.3,262.3,264.4,266.5,268.5,270.6,272.6,274.7,276.8,278.8,280.9,282.9,285,287,289,291.1,293.1,295.2,297.2,299.2,301.3,303.3,305.3,307.4,309.4,311.4,313.4,315.4,317.4,319.4,321.4,323.4,325.4,327.4,329.3,331.3,333.3,335.3,337.2,339.2,341.1,343.1,345.1,347,348.9,350.9,352.8,354.8,356.7,358.6,360.6,362.5,364.4,366.3,368.2,370.1,372,374,375.9,377.8,379.6,381.5,383.4,385.3,387.2,389.1,391,392.9,394.8,396.7,398.6,400.4,402.3,404.2,406.1,408,409.9,411.7,413.5,415.2,416.9,418.6],
+    [34.6,34.7,34.9,35.2,35.7,36.4,37.1,38,39,40.1,41.3,42.6,43.9,45.3,46.8,48.4,49.9,51.6,53.2,55,56.7,58.5,60.3,62.1,64,65.8,67.7,69.6,71.5,73.5,75.4,77.4,79.3,81.3,83.3,85.3,87.3,89.3,91.3,93.3,95.3,97.4,99.4,101.4,103.5,105.5,107.5,109.6,111.6,113.7,115.7,117.8,119.9,121.9,124,126,128.1,130.2,132.2,134.3,136.4,138.5,140.5,142.6,144.7,146.7,148.8,150.9,153,155,157.1,159.2,161.2,163.3,165.4,167.5,169.5,171.6,173.7,175.7,177.8,179.9,182,184,186.1,188.2,190.2,192.3,194.4,196.4,198.5,200.6,202.6,204.7,206.7,208.8,210.9,212.9,215,217,219.1,221.1,223.2,225.2,227.3,229.4,231.4,233.5,235.5,237.5,239.6,241.6,243.7,245.7,247.8,249.8,251.8,253.9,255.9,257.9,260,262,264,266.1,268.1,270.1,272.1,274.1,276.2,278.2,280.2,282.2,284.2,286.2,288.1,290.1,292.1,294.1,296.1,298.1,300,302,304,305.9,307.9,309.9,311.8,313.8,315.7,317.7,319.6,321.6,323.5,325.4,327.4,329.3,331.2,333.2,335.1,337,338.9,340.9,342.8,344.7,346.6,348.5,350.4,352.3,354.2,356.1,358,359.9,361.8,363.7,365.5,367.4,369.3,371.2,373.1,375,376.9,378.8,380.6,382.5,384.4,386.3,388.2,390,391.9,393.6,395.3,397,398.7,400.4,402.1,403.8,405.5,407.2,408.9,410.6,412.3],
+    [45.1,45.1,45.3,45.6,46,46.4,47,47.7,48.4,49.3,50.2,51.2,52.3,53.4,54.6,55.9,57.2,58.6,60,61.5,63,64.5,66.1,67.7,69.3,71,72.7,74.4,76.1,77.9,79.7,81.5,83.3,85.1,86.9,88.8,90.6,92.5,94.4,96.3,98.2,100.1,102,104,105.9,107.8,109.8,111.7,113.7,115.6,117.6,119.6,121.5,123.5,125.5,127.5,129.5,131.5,133.5,135.4,137.4,139.4,141.4,143.4,145.5,147.5,149.5,151.5,153.5,155.5,157.5,159.5,161.5,163.6,165.6,167.6,169.6,171.6,173.6,175.7,177.7,179.7,181.7,183.7,185.8,187.8,189.8,191.8,193.8,195.8,197.9,199.9,201.9,203.9,205.9,207.9,209.9,211.9,214,216,218,220,222,224,226,228,230,232,234,236,238,240,242,243.9,245.9,247.9,249.9,251.9,253.9,255.8,257.8,259.8,261.8,263.7,265.7,267.7,269.6,271.6,273.5,275.5,277.5,279.4,281.4,283.3,285.3,287.2,289.1,291.1,293,295,296.9,298.8,300.7,302.7,304.6,306.5,308.4,310.4,312.3,314.2,316.1,318,319.9,321.8,323.7,325.6,327.5,329.4,331.3,333.2,335.1,337,338.9,340.7,342.6,344.5,346.4,348.3,350.2,352.1,353.9,355.8,357.7,359.6,361.5,363.3,365.2,367.1,368.9,370.7,372.4,374.1,375.8,377.5,379.2,380.9,382.6,384.3,386,387.7,389.4,391.1,392.8,394.5,396.2,397.9,399.6,401.3,403,404.7,406.3],
+    [55.4,55.4,55.6,55.8,56.1,56.4,56.9,57.4,58,58.7,59.5,60.3,61.1,62.1,63.1,64.1,65.3,66.4,67.6,68.9,70.2,71.5,72.9,74.3,75.7,77.2,78.7,80.3,81.8,83.4,85,86.6,88.3,89.9,91.6,93.3,95,96.8,98.5,100.3,102,103.8,105.6,107.4,109.2,111.1,112.9,114.7,116.6,118.4,120.3,122.2,124,125.9,127.8,129.7,131.6,133.5,135.4,137.3,139.2,141.1,143.1,145,146.9,148.8,150.8,152.7,154.6,156.6,158.5,160.4,162.4,164.3,166.3,168.2,170.2,172.1,174.1,176,178,179.9,181.9,183.8,185.8,187.7,189.7,191.7,193.6,195.6,197.5,199.5,201.4,203.4,205.3,207.3,209.2,211.2,213.2,215.1,217.1,219,221,222.9,224.9,226.8,228.7,230.7,232.6,234.6,236.5,238.5,240.4,242.3,244.3,246.2,248.1,250.1,252,253.9,255.9,257.8,259.7,261.6,263.6,265.5,267.4,269.3,271.2,273.2,275.1,277,278.9,280.8,282.7,284.6,286.5,288.4,290.3,292.2,294.1,296,297.9,299.8,301.7,303.6,305.4,307.3,309.2,311.1,313,314.9,316.8,318.7,320.5,322.4,324.3,326.2,328.1,329.9,331.8,333.7,335.5,337.4,339.3,341.2,343,344.9,346.7,348.4,350.1,351.8,353.5,355.2,356.9,358.6,360.3,362,363.7,365.4,367.1,368.8,370.5,372.2,373.9,375.6,377.3,379,380.7,382.4,384,385.7,387.4,389.1,390.8,392.5,394.1,395.8,397.5,399.2,400.8],
+    [65.5,65.5,65.6,65.8,66,66.3,66.7,67.1,67.6,68.2,68.8,69.5,70.2,71,71.8,72.7,73.7,74.7,75.7,76.8,77.9,79.1,80.3,81.5,82.8,84.1,85.4,86.8,88.2,89.6,91.1,92.5,94,95.5,97.1,98.6,100.2,101.8,103.4,105,106.7,108.3,110,111.6,113.3,115,116.8,118.5,120.2,122,123.7,125.5,127.2,129,130.8,132.6,134.4,136.2,138,139.8,141.6,143.5,145.3,147.1,149,150.8,152.6,154.5,156.3,158.2,160.1,161.9,163.8,165.7,167.5,169.4,171.3,173.2,175,176.9,178.8,180.7,182.6,184.5,186.3,188.2,190.1,192,193.9,195.8,197.7,199.6,201.5,203.4,205.3,207.2,209.1,211,212.8,214.7,216.6,218.5,220.4,222.3,224.2,226.1,228,229.9,231.8,233.7,235.6,237.5,239.4,241.2,243.1,245,246.9,248.8,250.7,252.6,254.5,256.4,258.2,260.1,262,263.9,265.8,267.7,269.5,271.4,273.3,275.2,277.1,278.9,280.8,282.7,284.6,286.4,288.3,290.2,292.1,293.9,295.8,297.7,299.5,301.4,303.3,305.1,307,308.8,310.7,312.6,314.4,316.3,318.1,319.8,321.5,323.2,325,326.7,328.4,330.1,331.8,333.5,335.2,336.9,338.6,340.3,342,343.7,345.4,347.1,348.8,350.5,352.2,353.9,355.6,357.3,359,360.6,362.3,364,365.7,367.4,369.1,370.8,372.4,374.1,375.8,377.5,379.1,380.8,382.5,384.1,385.8,387.5,389.1,390.8,392.5,394.1,395.8],
+    [75.3,75.3,75.4,75.6,75.8,76,76.3,76.7,77.1,77.6,78.1,78.7,79.3,80,80.7,81.5,82.3,83.2,84.1,85,86,87,88.1,89.2,90.3,91.5,92.6,93.9,95.1,96.4,97.7,99,100.4,101.7,103.1,104.6,106,107.4,108.9,110.4,111.9,113.4,115,116.5,118.1,119.7,121.3,122.9,124.5,126.2,127.8,129.4,131.1,132.8,134.5,136.2,137.9,139.6,141.3,143,144.7,146.4,148.2,149.9,151.7,153.4,155.2,157,158.7,160.5,162.3,164.1,165.9,167.7,169.5,171.3,173.1,174.9,176.7,178.5,180.3,182.1,183.9,185.8,187.6,189.4,191.2,193.1,194.9,196.7,198.5,200.4,202.2,204.1,205.9,207.7,209.6,211.4,213.3,215.1,216.9,218.8,220.6,222.5,224.3,226.2,228,229.9,231.7,233.6,235.4,237.2,239.1,240.9,242.8,244.6,246.5,248.3,250.2,252,253.9,255.7,257.6,259.4,261.2,263.1,264.9,266.8,268.6,270.5,272.3,274.1,276,277.8,279.7,281.5,283.3,285,286.7,288.5,290.2,291.9,293.6,295.3,297,298.7,300.4,302.1,303.9,305.6,307.3,309,310.7,312.4,314.1,315.8,317.5,319.2,320.9,322.6,324.3,326,327.7,329.4,331.1,332.8,334.4,336.1,337.8,339.5,341.2,342.9,344.6,346.3,347.9,349.6,351.3,353,354.6,356.3,358,359.7,361.3,363,364.7,366.3,368,369.7,371.3,373,374.6,376.3,377.9,379.6,381.3,382.9,384.5,386.2,387.8,389.5,391.1],
+    [85,85,85.1,85.2,85.4,85.6,85.9,86.2,86.6,87,87.4,87.9,88.5,89.1,89.7,90.4,91.1,91.8,92.6,93.4,94.3,95.2,96.2,97.1,98.1,99.2,100.2,101.3,102.4,103.6,104.8,105.9,107.2,108.4,109.7,111,112.3,113.6,115,116.4,117.7,119.2,120.6,122,123.5,124.9,126.4,127.9,129.4,131,132.5,134,135.6,137.2,138.8,140.3,141.9,143.6,145.2,146.8,148.4,150.1,151.7,153.4,155.1,156.7,158.4,160.1,161.8,163.5,165.2,166.9,168.6,170.3,172,173.7,175.5,177.2,178.9,180.7,182.4,184.2,185.9,187.7,189.4,191.2,192.9,194.7,196.5,198.2,200,201.8,203.6,205.3,207.1,208.9,210.7,212.5,214.2,216,217.8,219.6,221.4,223.2,225,226.8,228.5,230.3,232,233.7,235.4,237.1,238.8,240.6,242.3,244,245.7,247.4,249.1,250.9,252.6,254.3,256,257.7,259.4,261.1,262.9,264.6,266.3,268,269.7,271.4,273.1,274.8,276.5,278.2,280,281.7,283.4,285.1,286.8,288.5,290.2,291.9,293.6,295.3,297,298.7,300.4,302.1,303.8,305.4,307.1,308.8,310.5,312.2,313.9,315.6,317.3,319,320.6,322.3,324,325.7,327.4,329,330.7,332.4,334.1,335.7,337.4,339.1,340.7,342.4,344.1,345.7,347.4,349,350.7,352.4,354,355.7,357.3,359,360.6,362.3,363.9,365.6,367.2,368.8,370.5,372.1,373.8,375.4,377,378.7,380.3,381.9,383.6,385.2,386.8],
+    [103.3,103.3,103.3,103.4,103.6,103.7,103.9,104.2,104.4,104.8,105.1,105.5,105.9,106.4,106.9,107.4,107.9,108.5,109.2,109.8,110.5,111.2,111.9,112.7,113.5,114.3,115.2,116.1,117,117.9,118.9,119.9,120.9,121.9,122.9,124,125.1,126.2,127.3,128.5,129.7,130.8,132,133.3,134.5,135.8,137,138.3,139.6,140.9,142.2,143.6,144.9,146.3,147.7,149,150.4,151.8,153.3,154.7,156.1,157.6,159,160.5,162,163.4,164.9,166.4,167.9,169.4,170.9,172.5,174,175.5,177.1,178.6,180.2,181.7,183.3,184.8,186.4,188,189.6,191.1,192.7,194.3,195.9,197.5,199.1,200.7,202.3,203.9,205.5,207.1,208.8,210.4,212,213.6,215.2,216.9,218.5,220.1,221.8,223.4,225,226.6,228.3,229.9,231.6,233.2,234.8,236.5,238.1,239.8,241.4,243,244.7,246.3,248,249.6,251.2,252.9,254.5,256.2,257.8,259.5,261.1,262.8,264.4,266,267.7,269.3,271,272.6,274.2,275.9,277.5,279.2,280.8,282.5,284.1,285.7,287.4,289,290.6,292.3,293.9,295.6,297.2,298.8,300.5,302.1,303.7,305.4,307,308.6,310.3,311.9,313.5,315.1,316.8,318.4,320,321.6,323.3,324.9,326.5,328.1,329.8,331.4,333,334.6,336.2,337.8,339.5,341.1,342.7,344.3,345.9,347.5,349.1,350.7,352.3,353.9,355.5,357.1,358.7,360.3,361.9,363.5,365.1,366.7,368.3,369.9,371.5,373.1,374.7,376.3,377.9,379.4,380.9],
+    [120.8,120.8,120.9,120.9,121,121.2,121.3,121.5,121.7,122,122.3,122.6,122.9,123.3,123.7,124.1,124.6,125,125.5,126.1,126.6,127.2,127.8,128.4,129.1,129.8,130.5,131.2,131.9,132.7,133.5,134.3,135.2,136,136.9,137.8,138.7,139.6,140.6,141.6,142.6,143.6,144.6,145.6,146.7,147.8,148.8,150,151.1,152.2,153.3,154.5,155.7,156.9,158.1,159.3,160.5,161.7,163,164.2,165.5,166.8,168,169.3,170.7,172,173.3,174.6,176,177.3,178.7,180,181.4,182.8,184.2,185.6,187,188.4,189.8,191.2,192.6,194,195.5,196.9,198.4,199.8,201.3,202.7,204.2,205.7,207.1,208.6,210.1,211.6,213.1,214.5,216,217.5,219,220.5,222.1,223.6,225.1,226.6,228.1,229.6,231.2,232.7,234.2,235.7,237.3,238.8,240.3,241.9,243.4,245,246.5,248,249.6,251.1,252.7,254.2,255.8,257.3,258.9,260.4,262,263.5,265.1,266.6,268.2,269.8,271.3,272.9,274.4,276,277.6,279.1,280.7,282.2,283.8,285.4,286.9,288.5,290,291.6,293.2,294.7,296.3,297.9,299.4,301,302.5,304.1,305.7,307.2,308.8,310.3,311.9,313.5,315,316.6,318.1,319.7,321.2,322.8,324.3,325.7,327.2,328.6,330.1,331.5,332.9,334.4,335.8,337.3,338.7,340.1,341.6,343,344.5,345.9,347.3,348.8,350.2,351.7,353.1,354.5,356,357.4,358.8,360.3,361.7,363.1,364.6,366,367.4,368.9,370.3,371.7,373.2],
+    [137.5,137.5,137.5,137.6,137.7,137.8,137.9,138.1,138.3,138.5,138.7,139,139.2,139.5,139.9,140.2,140.6,141,141.4,141.8,142.3,142.8,143.3,143.8,144.3,144.9,145.5,146.1,146.7,147.4,148,148.7,149.4,150.1,150.9,151.6,152.4,153.2,154,154.9,155.7,156.6,157.4,158.3,159.2,160.2,161.1,162,163,164,165,166,167,168,169.1,170.1,171.2,172.3,173.4,174.5,175.6,176.7,177.8,179,180.1,181.3,182.5,183.6,184.8,186,187.2,188.5,189.7,190.9,192.1,193.4,194.6,195.9,197.2,198.4,199.7,201,202.3,203.6,204.9,206.2,207.5,208.8,210.2,211.5,212.8,214.2,215.5,216.9,218.2,219.6,220.9,222.3,223.7,225,226.4,227.8,229.2,230.6,231.9,233.3,234.7,236.1,237.5,238.9,240.3,241.7,243.1,244.5,245.9,247.3,248.8,250.2,251.6,253,254.4,255.8,257.3,258.7,260.1,261.5,262.9,264.4,265.8,267.2,268.6,270.1,271.5,272.9,274.3,275.8,277.2,278.6,280,281.5,282.9,284.3,285.7,287.2,288.6,290,291.5,292.9,294.3,295.7,297.2,298.6,300,301.4,302.9,304.3,305.7,307.1,308.6,310,311.4,312.8,314.3,315.7,317.1,318.5,319.9,321.4,322.8,324.2,325.6,327,328.5,329.9,331.3,332.7,334.1,335.6,337,338.4,339.8,341.2,342.6,344.1,345.5,346.9,348.3,349.7,351.1,352.5,353.9,355.3,356.8,358.2,359.6,361,362.4,363.8,365.2,366.6,368]
+  ],
+};
@@ -0,0 +1,90 @@
+// JMA 津波予報区 (tsunami forecast regions) -> rough coastal polylines as [lat, lon] points.
+// These are coarse hand-made approximations (a few points along each coast) used only to
+// draw the colored coastline overlay; they are not survey-accurate boundaries.
+// Keys match the 'name' of areas in P2P Quake code 552 messages.
+
+export const TSUNAMI_FORECAST_AREAS: { [key: string]: [number, number][] } = {
+  // --- Hokkaido ---
+  "北海道太平洋沿岸東部": [[43.38, 145.80], [43.03, 144.85], [42.98, 144.38], [42.60, 143.60], [42.10, 143.30]],
+  "北海道太平洋沿岸中部": [[42.10, 143.30], [41.93, 143.24], [42.16, 142.77], [42.48, 142.07], [42.63, 141.60]],
+  "北海道太平洋沿岸西部": [[42.63, 141.60], [42.31, 140.97], [42.05, 140.65], [41.76, 140.73], [41.43, 140.10]],
+  "北海道日本海沿岸北部": [[45.52, 141.94], [45.41, 141.67], [44.80, 141.75], [43.94, 141.65], [43.33, 140.45]],
+  "北海道日本海沿岸南部": [[43.33, 140.45], [42.80, 140.22], [42.20, 139.85], [41.87, 140.12], [41.43, 140.10]],
+  "オホーツク海沿岸": [[45.52, 141.94], [45.00, 142.55], [44.35, 143.30], [44.02, 144.27], [43.75, 145.10], [43.38, 145.80]],
+
+  // --- Tohoku ---
+  "青森県日本海沿岸": [[41.25, 140.35], [40.95, 140.25], [40.65, 139.93], [40.50, 139.95]],
+  "陸奥湾": [[41.25, 140.65], [40.90, 140.75], [40.95, 141.20], [41.29, 141.18]],
+  "青森県太平洋沿岸": [[41.50, 141.45], [41.10, 141.38], [40.51, 141.48], [40.45, 141.65]],
+  "岩手県": [[40.45, 141.70], [40.19, 141.77], [39.64, 141.94], [39.27, 141.88], [39.01, 141.62]],
+  "宮城県": [[39.01, 141.62], [38.90, 141.57], [38.43, 141.50], [38.31, 141.02], [37.95, 140.92]],
+  "福島県": [[37.95, 140.92], [37.63, 141.02], [37.30, 141.03], [37.05, 140.88], [36.87, 140.80]],
+  "秋田県": [[40.50, 139.95], [40.21, 140.02], [39.88, 139.84], [39.72, 140.05], [39.38, 140.04], [39.10, 139.90]],
+  "山形県": [[39.10, 139.90], [38.91, 139.83], [38.72, 139.72], [38.55, 139.55]],
+
+  // --- Kanto ---
+  "茨城県": [[36.87, 140.80], [36.59, 140.65], [36.36, 140.60], [35.95, 140.75], [35.74, 140.87]],
+  "千葉県九十九里・外房": [[35.74, 140.87], [35.55, 140.45], [35.25, 140.40], [35.12, 140.15], [34.90, 139.90]],
+  "千葉県内房": [[34.90, 139.90], [35.05, 139.83], [35.30, 139.90], [35.45, 140.00]],
+  "東京湾内湾": [[35.45, 140.00], [35.62, 140.05], [35.65, 139.80], [35.45, 139.65], [35.28, 139.70]],
+  "相模湾・三浦半島": [[35.28, 139.70], [35.14, 139.62], [35.30, 139.45], [35.25, 139.15], [35.10, 139.08]],
+  "伊豆諸島": [[34.75, 139.40], [34.35, 139.25], [34.08, 139.53], [33.10, 139.80]],
+  "小笠原諸島": [[27.10, 142.20], [27.07, 142.22], [26.65, 142.16], [24.78, 141.32]],
+
+  // --- Chubu ---
+  "静岡県": [[35.10, 139.08], [34.67, 138.95], [34.90, 138.75], [34.95, 138.38], [34.60, 138.20], [34.68, 137.75]],
+  "愛知県外海": [[34.68, 137.75], [34.62, 137.30], [34.58, 137.02]],
+  "伊勢・三河湾": [[34.58, 137.02], [34.78, 137.10], [34.75, 136.95], [35.00, 136.85], [34.70, 136.55], [34.50, 136.85]],
+  "三重県南部": [[34.50, 136.85], [34.30, 136.80], [34.07, 136.20], [33.90, 136.10], [33.72, 136.00]],
+  "新潟県上中下越": [[38.55, 139.55], [38.10, 139.40], [37.92, 139.05], [37.55, 138.75], [37.15, 138.25], [36.98, 137.80]],
+  "佐渡": [[38.30, 138.50], [38.05, 138.23], [37.80, 138.25], [37.90, 138.55]],
+  "富山県": [[36.98, 137.80], [36.80, 137.40], [36.80, 137.10], [36.95, 136.95]],
+  "石川県能登": [[36.95, 136.95], [37.25, 137.10], [37.50, 137.35], [37.40, 136.90], [37.10, 136.70], [36.75, 136.70]],
+  "石川県加賀": [[36.75, 136.70], [36.55, 136.55], [36.35, 136.30], [36.25, 136.15]],
+  "福井県": [[36.25, 136.15], [36.00, 136.05], [35.75, 136.00], [35.65, 135.90], [35.50, 135.50]],
+
+  // --- Kinki ---
+  "京都府": [[35.50, 135.50], [35.60, 135.30], [35.75, 135.20], [35.65, 134.90]],
+  "兵庫県北部": [[35.65, 134.90], [35.65, 134.60], [35.60, 134.35]],
+  "兵庫県瀬戸内海沿岸": [[34.65, 135.40], [34.69, 135.18], [34.63, 134.95], [34.75, 134.50], [34.70, 134.30]],
+  "淡路島南部": [[34.35, 134.90], [34.22, 134.80], [34.18, 134.70]],
+  "大阪府": [[34.72, 135.42], [34.55, 135.45], [34.40, 135.30], [34.30, 135.10]],
+  "和歌山県": [[34.30, 135.10], [34.23, 135.17], [33.90, 135.15], [33.73, 135.37], [33.45, 135.77], [33.72, 136.00]],
+
+  // --- Chugoku ---
+  "鳥取県": [[35.60, 134.35], [35.55, 134.00], [35.50, 133.60], [35.45, 133.30]],
+  "島根県出雲・石見": [[35.45, 133.30], [35.55, 133.05], [35.40, 132.70], [35.05, 132.25], [34.70, 131.85], [34.55, 131.60]],
+  "隠岐": [[36.30, 133.30], [36.20, 133.10], [36.05, 133.00]],
+  "岡山県": [[34.70, 134.30], [34.60, 134.00], [34.50, 133.70], [34.48, 133.45]],
+  "広島県": [[34.48, 133.45], [34.40, 133.10], [34.25, 132.55], [34.35, 132.35], [34.20, 132.20]],
+  "山口県日本海沿岸": [[34.55, 131.60], [34.40, 131.40], [34.35, 131.00], [34.15, 130.90]],
+  "山口県瀬戸内海沿岸": [[34.20, 132.20], [33.95, 132.10], [34.00, 131.80], [34.05, 131.40], [33.95, 131.00]],
+
+  // --- Shikoku ---
+  "徳島県": [[34.20, 134.60], [34.05, 134.60], [33.85, 134.70], [33.60, 134.40], [33.25, 134.18]],
+  "香川県": [[34.20, 134.60], [34.35, 134.05], [34.25, 133.75], [34.05, 133.60]],
+  "愛媛県瀬戸内海沿岸": [[34.05, 133.60], [33.95, 133.20], [34.05, 132.95], [33.85, 132.70], [33.60, 132.40]],
+  "愛媛県宇和海沿岸": [[33.60, 132.40], [33.45, 132.40], [33.22, 132.55], [32.95, 132.50]],
+  "高知県": [[33.25, 134.18], [33.50, 133.90], [33.50, 133.55], [33.30, 133.25], [32.90, 133.00], [32.75, 132.95], [32.95, 132.50]],
+
+  // --- Kyushu ---
+  "福岡県瀬戸内海沿岸": [[33.95, 131.00], [33.85, 130.95], [33.70, 131.05], [33.60, 131.20]],
+  "福岡県日本海沿岸": [[34.15, 130.90], [33.90, 130.60], [33.60, 130.40], [33.55, 130.15]],
+  "佐賀県北部": [[33.55, 130.15], [33.50, 129.95], [33.40, 129.85]],
+  "長崎県西方": [[33.40, 129.85], [33.35, 129.55], [33.00, 129.60], [32.75, 129.85], [32.60, 129.75], [32.69, 128.83]],
+  "壱岐・対馬": [[34.65, 129.45], [34.20, 129.28], [33.75, 129.68]],
+  "有明・八代海": [[33.15, 130.30], [32.98, 130.43], [32.80, 130.60], [32.50, 130.60], [32.21, 130.40]],
+  "熊本県天草灘沿岸": [[32.55, 130.05], [32.40, 130.00], [32.20, 130.10]],
+  "大分県瀬戸内海沿岸": [[33.60, 131.20], [33.60, 131.45], [33.60, 131.70], [33.28, 131.49], [33.23, 131.60]],
+  "大分県豊後水道沿岸": [[33.23, 131.60], [33.12, 131.80], [32.96, 131.89], [32.80, 131.95]],
+  "宮崎県": [[32.80, 131.95], [32.58, 131.66], [32.10, 131.50], [31.90, 131.45], [31.60, 131.37], [31.40, 131.30]],
+  "鹿児島県東部": [[31.40, 131.30], [31.45, 131.10], [31.20, 130.95], [31.00, 130.70], [31.25, 130.65], [31.59, 130.55]],
+  "鹿児島県西部": [[32.08, 130.30], [31.81, 130.20], [31.55, 130.25], [31.26, 130.29], [31.20, 130.55]],
+  "種子島・屋久島地方": [[30.73, 130.99], [30.45, 130.95], [30.35, 130.65], [30.25, 130.45]],
+  "奄美群島・トカラ列島": [[29.85, 129.85], [29.10, 129.25], [28.38, 129.49], [27.80, 128.90], [27.05, 128.40]],
+
+  // --- Okinawa ---
+  "沖縄本島地方": [[26.85, 128.25], [26.59, 127.97], [26.33, 127.80], [26.21, 127.68], [26.10, 127.70]],
+  "大東島地方": [[25.95, 131.25], [25.83, 131.23], [24.45, 131.18]],
+  "宮古島・八重山地方": [[24.80, 125.28], [24.72, 125.15], [24.34, 124.15], [24.45, 123.00]],
+};
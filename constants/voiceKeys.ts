@@ -0,0 +1,92 @@
+// 音声パックの素材キーと、その素材で読み上げる内容
+// 地名は "place:<名称>" のキーで追加できる（例: "place:石川県能登地方"）。素材のない地名は音声合成で読み上げる
+
+export const PLACE_KEY_PREFIX = 'place:';
+
+export const VOICE_CLIP_KEYS: { [key: string]: string } = {
+  // --- 数字 ---
+  "0": "ゼロ", "1": "いち", "2": "に", "3": "さん", "4": "よん",
+  "5": "ご", "6": "ろく", "7": "なな", "8": "はち", "9": "きゅう",
+  "10": "じゅう",
+  "100": "ひゃく",
+  "1000": "せん",
+  "10000": "まん",
+  "100000000": "おく",
+
+  // 音の変わる数（services/japaneseNumerals.ts で使い分ける）
+  "0_rei": "れい",         // 7.0（ななてんれい）、0時（れいじ）
+  "1_geminate": "いっ",    // いっぷん、いってん、いっせんまん
+  "6_geminate": "ろっ",    // ろっぷん、ろっキロメートル
+  "8_geminate": "はっ",    // はっぷん、はってん、はっキロメートル
+  "10_geminate": "じゅっ", // じゅっぷん、じゅってん、じゅっキロメートル
+  "100_geminate": "ひゃっ", // ひゃっぷん、ひゃっキロメートル
+  "4_yo": "よ",            // よじ
+  "7_shichi": "しち",      // しちじ
+  "9_ku": "く",            // くじ
+  "300": "さんびゃく",
+  "600": "ろっぴゃく",
+  "800": "はっぴゃく",
+  "300_geminate": "さんびゃっ", // さんびゃっぷん、さんびゃっキロメートル
+  "600_geminate": "ろっぴゃっ", // ろっぴゃっぷん
+  "800_geminate": "はっぴゃっ", // はっぴゃっぷん
+  "3000": "さんぜん",
+  "8000": "はっせん",
+
+  // --- 単位・区切り ---
+  "point": "てん", // 小数点
+  "ji": "じ",      // 時
+  "fun": "ふん",   // 分
+  "pun": "ぷん",   // 分（いっぷん、さんぷん、じゅっぷん など）
+  "byou": "びょう", // 秒
+  "km": "キロメートル",
+  "goro": "ごろ",
+
+  // --- 時間 ---
+  "gozen": "ごぜん",
+  "gogo": "ごご",
+
+  // --- 地震用語 ---
+  "jishin": "地震",
+  "sokuhou": "速報",
+  "eew_yohou": "緊急地震速報、予報",
+  "eew_keihou": "緊急地震速報、警報",
+  "eew_saishuuhou": "緊急地震速報、最終報",
+  "eew_torikeshi": "先ほどの緊急地震速報は取り消されました",
+  "yosou_saidai": "予想される最大震度は",
+  "keikai": "強い揺れに警戒してください",
+
+  "shindo": "震度",
+  "jaku": "弱",
+  "kyou": "強",
+
+  "shingen": "震源地は",
+  "magnitude": "マグニチュード",
+  "fukasa": "深さは",
+  "gokuasai": "ごく浅い",
+  "saidai": "最大",
+
+  "desu": "です",
+  "arimasita": "ありました",
+  "kaijo": "解除されました",
+
+  // --- 津波 ---
+  "tsunami_daikeihou": "大津波警報",
+  "tsunami_keihou": "津波警報",
+  "tsunami_chuuihou": "津波注意報",
+  "tsunami_yohou": "津波予報",
+  "tsunami_keihou_chuuihou": "津波警報・注意報は",
+  "happyou": "が発表されました",
+  "tsunami_nashi": "この地震による津波の心配はありません",
+  "tsunami_jakkan": "若干の海面変動があるかもしれませんが、被害の心配はありません",
+  "tsunami_chousa": "津波の有無については現在調査中です",
+  "tsunami_fumei": "津波の有無は不明です",
+  "hinan": "沿岸部の方は直ちに高台へ避難してください",
+
+  // --- 現在地カウントダウン ---
+  "ato": "あと",
+  "toutatsu": "揺れが到達します",
+
+  // --- 通知音 ---
+  "chime": "チャイム音（ピンポンパンポン）",
+  "ping": "単発通知音",
+};
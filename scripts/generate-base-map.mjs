@@ -0,0 +1,216 @@
+// Generates the bundled base maps in public/maps/
+//
+//   japan-low.topo.json, japan-mid.topo.json
+//     objects: prefectures (Polygon/MultiPolygon, properties.nam_ja), coastline (LineString)
+//   japan-high.topo.json (only with --municipalities; the app skips the level without it)
+//     objects: as above, plus municipalities
+//   world-low.topo.json
+//     objects: countries (properties.name)
+//
+// Usage:
+//   node scripts/generate-base-map.mjs --japan ne_10m_admin_1_states_provinces.geojson \
+//     --world node_modules/world-atlas/countries-50m.json [--municipalities N03.geojson]
+//
+// Sources of the committed files (all public domain):
+//   japan: Natural Earth 1:10m Admin 1 – States, Provinces
+//     (https://www.naturalearthdata.com/downloads/10m-cultural-vectors/), as GeoJSON;
+//     only features with adm0_a3 = JPN are used, named by name_ja
+//   world: Natural Earth 1:50m countries from the world-atlas devDependency (TopoJSON)
+//   municipalities (optional): 国土数値情報 行政区域データ (N03), converted to GeoJSON
+// Any GeoJSON with properties.nam_ja / name_ja per prefecture works for --japan.
+//
+// Rings are simplified with Douglas-Peucker per level of detail, then quantized
+// and delta-encoded as TopoJSON arcs (one arc per ring; arcs are not shared).
+// Coastlines are the source segments used by exactly one prefecture ring.
+
+import { readFileSync, writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { feature } from 'topojson-client';
+import { simplifyLine, simplifyPolygons, toPolygons } from './simplify.mjs';
+
+// Douglas-Peucker tolerance in degrees
+const LODS = { low: 0.02, mid: 0.005, high: 0.001 };
+const WORLD_TOLERANCE = 0.05;
+const QUANTIZATION = 1e5;
+
+const OUT_DIR = fileURLToPath(new URL('../public/maps/', import.meta.url));
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) args[argv[i].replace(/^--/, '')] = argv[i + 1];
+  return args;
+};
+
+// GeoJSON FeatureCollection, or the first object of a TopoJSON topology
+const readGeoJSON = (path) => {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  if (data.type !== 'Topology') return data;
+  const [name] = Object.keys(data.objects);
+  return feature(data, data.objects[name]);
+};
+
+// Natural Earth admin-1 covers the whole world; keep Japan's prefectures
+const japanFeatures = (collection) => ({
+  ...collection,
+  features: collection.features.filter(f => f.properties?.adm0_a3 === undefined || f.properties.adm0_a3 === 'JPN'),
+});
+
+// --- Coastline extraction ---
+
+const pointKey = ([x, y]) => `${x.toFixed(6)},${y.toFixed(6)}`;
+const segmentKey = (a, b) => {
+  const ka = pointKey(a), kb = pointKey(b);
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+};
+
+const extractCoastlines = (features) => {
+  const rings = features.flatMap(f => toPolygons(f.geometry).flat());
+  const counts = new Map();
+  rings.forEach(ring => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const key = segmentKey(ring[i], ring[i + 1]);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  });
+
+  const lines = [];
+  rings.forEach(ring => {
+    const n = ring.length - 1;
+    const isCoast = (i) => counts.get(segmentKey(ring[i % n], ring[(i + 1) % n])) === 1;
+    const start = Array.from({ length: n }, (_, i) => i).find(i => !isCoast(i));
+    if (start === undefined) {
+      lines.push(ring); // Island: whole ring is coastline
+      return;
+    }
+    let current = null;
+    for (let j = 1; j <= n; j++) {
+      const i = (start + j) % n;
+      if (isCoast(i)) {
+        if (!current) current = [ring[i]];
+        current.push(ring[(i + 1) % n]);
+      } else if (current) {
+        lines.push(current);
+        current = null;
+      }
+    }
+    if (current) lines.push(current);
+  });
+  return lines;
+};
+
+// --- TopoJSON encoding ---
+
+const createTopology = (bbox) => {
+  const [x0, y0, x1, y1] = bbox;
+  const scale = [(x1 - x0) / (QUANTIZATION - 1) || 1, (y1 - y0) / (QUANTIZATION - 1) || 1];
+  const arcs = [];
+  const addArc = (points) => {
+    let px = 0, py = 0;
+    const arc = [];
+    points.forEach(([x, y]) => {
+      const qx = Math.round((x - x0) / scale[0]);
+      const qy = Math.round((y - y0) / scale[1]);
+      if (arc.length > 0 && qx === px && qy === py) return;
+      arc.push([qx - px, qy - py]);
+      px = qx; py = qy;
+    });
+    arcs.push(arc);
+    return arcs.length - 1;
+  };
+  return { arcs, addArc, transform: { scale, translate: [x0, y0] } };
+};
+
+const boundsOf = (coordinateLists) => {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  coordinateLists.forEach(points => points.forEach(([x, y]) => {
+    if (x < x0) x0 = x; if (x > x1) x1 = x;
+    if (y < y0) y0 = y; if (y > y1) y1 = y;
+  }));
+  return [x0, y0, x1, y1];
+};
+
+const polygonGeometry = (topo, polygons, properties, id) => {
+  const arcs = polygons.map(rings => rings.map(ring => [topo.addArc(ring)]));
+  return arcs.length === 1
+    ? { type: 'Polygon', arcs: arcs[0], properties, ...(id !== undefined ? { id } : {}) }
+    : { type: 'MultiPolygon', arcs, properties, ...(id !== undefined ? { id } : {}) };
+};
+
+const writeTopology = (name, topo, objects) => {
+  const topology = { type: 'Topology', transform: topo.transform, objects, arcs: topo.arcs };
+  const json = JSON.stringify(topology);
+  writeFileSync(`${OUT_DIR}${name}.topo.json`, json);
+  console.log(`${name}.topo.json: ${(json.length / 1024).toFixed(0)} KB, ${topo.arcs.length} arcs`);
+};
+
+// --- Main ---
+
+const buildJapan = (japan, municipalities) => {
+  const coastlines = extractCoastlines(japan.features);
+
+  Object.entries(LODS).forEach(([lod, tolerance]) => {
+    // Natural Earth has no more detail than the mid level, so 'high' only adds municipalities
+    if (lod === 'high' && !municipalities) {
+      rmSync(`${OUT_DIR}japan-high.topo.json`, { force: true });
+      return;
+    }
+    const prefectures = japan.features.map(f => ({
+      properties: { nam_ja: f.properties.nam_ja || f.properties.name_ja, id: f.properties.id ?? f.id },
+      polygons: simplifyPolygons(toPolygons(f.geometry), tolerance),
+    }));
+    const coast = coastlines.map(line => simplifyLine(line, tolerance)).filter(line => line.length >= 2);
+    const muni = lod === 'high' && municipalities
+      ? municipalities.features.map(f => ({
+          properties: { name: [f.properties.N03_003, f.properties.N03_004].filter(Boolean).join('') || f.properties.name, code: f.properties.N03_007 },
+          polygons: simplifyPolygons(toPolygons(f.geometry), tolerance),
+        }))
+      : null;
+
+    const topo = createTopology(boundsOf(prefectures.flatMap(p => p.polygons.flat())));
+    const objects = {
+      prefectures: {
+        type: 'GeometryCollection',
+        geometries: prefectures.map(p => polygonGeometry(topo, p.polygons, p.properties)),
+      },
+      coastline: {
+        type: 'GeometryCollection',
+        geometries: coast.map(line => ({ type: 'LineString', arcs: [topo.addArc(line)] })),
+      },
+    };
+    if (muni) {
+      objects.municipalities = {
+        type: 'GeometryCollection',
+        geometries: muni.filter(m => m.polygons.length > 0).map(m => polygonGeometry(topo, m.polygons, m.properties)),
+      };
+    }
+    writeTopology(`japan-${lod}`, topo, objects);
+  });
+};
+
+const buildWorld = (world) => {
+  const countries = world.features.map(f => ({
+    id: f.id,
+    properties: { name: f.properties?.name },
+    polygons: simplifyPolygons(toPolygons(f.geometry), WORLD_TOLERANCE),
+  }));
+  const topo = createTopology(boundsOf(countries.flatMap(c => c.polygons.flat())));
+  writeTopology('world-low', topo, {
+    countries: {
+      type: 'GeometryCollection',
+      geometries: countries.filter(c => c.polygons.length > 0).map(c => polygonGeometry(topo, c.polygons, c.properties, c.id)),
+    },
+  });
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.japan && !args.world) {
+    console.error('Usage: node scripts/generate-base-map.mjs --japan admin1.geojson --world countries.json [--municipalities N03.geojson]');
+    process.exit(1);
+  }
+  mkdirSync(OUT_DIR, { recursive: true });
+  if (args.japan) buildJapan(japanFeatures(readGeoJSON(args.japan)), args.municipalities ? readGeoJSON(args.municipalities) : null);
+  if (args.world) buildWorld(readGeoJSON(args.world));
+};
+
+main();
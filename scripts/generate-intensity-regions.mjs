@@ -0,0 +1,226 @@
+// Generates constants/intensityRegions.ts
+//
+// Polygons for the JMA seismic-intensity regions (地震情報／細分区域).
+//
+// With --source, the polygons are the official boundaries: the 地震情報／細分区域
+// layer of JMA's 予報区等GISデータ (https://www.data.jma.go.jp/developer/gis.html),
+// converted from Shapefile to GeoJSON (e.g. with mapshaper or ogr2ogr) and
+// simplified here. Region names are read from properties.<name-field> and must
+// match the table below; parts of the same region are merged into one feature.
+//
+// Without --source, each region is the Voronoi cell of its representative point
+// among the regions of the same prefecture. This is only an approximation; the
+// map clips every region to its prefecture outline at render time, so the cells
+// only need to cover the prefecture.
+//
+// Usage:
+//   node scripts/generate-intensity-regions.mjs [--source regions.geojson] [--name-field name]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Delaunay } from 'd3-delaunay';
+import { simplifyPolygons, toPolygons } from './simplify.mjs';
+
+// Margin (degrees) added around each prefecture's points for the Voronoi extent
+const EXTENT_MARGIN_DEG = 3;
+// Douglas-Peucker tolerance (degrees) for the official polygons
+const SOURCE_TOLERANCE = 0.01;
+
+// Prefecture -> region -> representative point [lat, lon]
+const REGIONS = {
+  "北海道": {
+    "石狩地方北部": [43.45, 141.45], "石狩地方中部": [43.06, 141.35], "石狩地方南部": [42.85, 141.60],
+    "渡島地方北部": [42.25, 140.35], "渡島地方東部": [41.85, 140.75], "渡島地方西部": [41.55, 140.15],
+    "檜山地方": [42.05, 140.15],
+    "後志地方北部": [43.15, 140.75], "後志地方東部": [42.85, 140.75], "後志地方西部": [42.60, 140.05],
+    "空知地方北部": [43.85, 141.95], "空知地方中部": [43.45, 141.85], "空知地方南部": [43.10, 141.85],
+    "上川地方北部": [44.35, 142.45], "上川地方中部": [43.75, 142.55], "上川地方南部": [43.25, 142.50],
+    "留萌地方中北部": [44.55, 141.80], "留萌地方南部": [43.90, 141.65],
+    "宗谷地方北部": [45.30, 141.85], "宗谷地方南部": [44.85, 142.35], "北海道利尻礼文": [45.25, 141.15],
+    "網走地方": [43.85, 144.30], "北見地方": [43.80, 143.75], "紋別地方": [44.25, 143.25],
+    "胆振地方西部": [42.50, 140.85], "胆振地方中東部": [42.70, 141.80],
+    "日高地方西部": [42.55, 142.15], "日高地方中部": [42.35, 142.45], "日高地方東部": [42.15, 143.00],
+    "十勝地方北部": [43.25, 143.20], "十勝地方中部": [42.90, 143.20], "十勝地方南部": [42.45, 143.30],
+    "釧路地方北部": [43.40, 144.40], "釧路地方中南部": [43.00, 144.30],
+    "根室地方北部": [43.95, 145.00], "根室地方中部": [43.45, 144.95], "根室地方南部": [43.30, 145.55],
+  },
+  "青森県": { "青森県津軽北部": [40.95, 140.55], "青森県津軽南部": [40.55, 140.40], "青森県三八上北": [40.55, 141.35], "青森県下北": [41.30, 141.10] },
+  "岩手県": { "岩手県沿岸北部": [40.00, 141.75], "岩手県沿岸南部": [39.15, 141.75], "岩手県内陸北部": [39.85, 141.15], "岩手県内陸南部": [39.15, 141.10] },
+  "宮城県": { "宮城県北部": [38.65, 141.10], "宮城県中部": [38.30, 140.85], "宮城県南部": [37.95, 140.70] },
+  "秋田県": { "秋田県沿岸北部": [40.15, 140.10], "秋田県沿岸南部": [39.50, 140.10], "秋田県内陸北部": [40.20, 140.60], "秋田県内陸南部": [39.45, 140.50] },
+  "山形県": { "山形県庄内": [38.80, 139.85], "山形県最上": [38.75, 140.30], "山形県村山": [38.35, 140.30], "山形県置賜": [37.95, 140.05] },
+  "福島県": { "福島県中通り": [37.40, 140.40], "福島県浜通り": [37.35, 140.90], "福島県会津": [37.40, 139.75] },
+  "茨城県": { "茨城県北部": [36.55, 140.40], "茨城県南部": [36.05, 140.15] },
+  "栃木県": { "栃木県北部": [36.85, 139.75], "栃木県南部": [36.45, 139.80] },
+  "群馬県": { "群馬県北部": [36.70, 138.95], "群馬県南部": [36.35, 139.05] },
+  "埼玉県": { "埼玉県北部": [36.10, 139.40], "埼玉県南部": [35.90, 139.60], "埼玉県秩父": [35.95, 139.00] },
+  "千葉県": { "千葉県北東部": [35.70, 140.50], "千葉県北西部": [35.70, 140.05], "千葉県南部": [35.15, 140.05] },
+  "東京都": {
+    "東京都２３区": [35.69, 139.75], "東京都多摩東部": [35.68, 139.45], "東京都多摩西部": [35.78, 139.15],
+    "伊豆大島": [34.74, 139.39], "新島": [34.37, 139.26], "神津島": [34.21, 139.14], "三宅島": [34.08, 139.53],
+    "八丈島": [33.11, 139.79], "小笠原": [27.09, 142.19],
+  },
+  "神奈川県": { "神奈川県東部": [35.45, 139.55], "神奈川県西部": [35.35, 139.15] },
+  "新潟県": { "新潟県上越": [37.10, 138.25], "新潟県中越": [37.35, 138.85], "新潟県下越": [37.85, 139.35], "新潟県佐渡": [38.05, 138.40] },
+  "富山県": { "富山県東部": [36.70, 137.35], "富山県西部": [36.65, 136.95] },
+  "石川県": { "石川県能登": [37.15, 136.90], "石川県加賀": [36.45, 136.55] },
+  "福井県": { "福井県嶺北": [36.05, 136.30], "福井県嶺南": [35.50, 135.85] },
+  "山梨県": { "山梨県中・西部": [35.60, 138.50], "山梨県東部・富士五湖": [35.55, 138.85] },
+  "長野県": { "長野県北部": [36.65, 138.20], "長野県中部": [36.20, 137.95], "長野県南部": [35.65, 137.85] },
+  "岐阜県": { "岐阜県飛騨": [36.10, 137.20], "岐阜県美濃東部": [35.45, 137.35], "岐阜県美濃中西部": [35.50, 136.75] },
+  "静岡県": { "静岡県伊豆": [34.85, 138.95], "静岡県東部": [35.15, 138.75], "静岡県中部": [35.00, 138.30], "静岡県西部": [34.80, 137.80] },
+  "愛知県": { "愛知県東部": [34.85, 137.45], "愛知県西部": [35.10, 136.95] },
+  "三重県": { "三重県北部": [35.00, 136.50], "三重県中部": [34.60, 136.40], "三重県南部": [34.05, 136.15] },
+  "滋賀県": { "滋賀県北部": [35.45, 136.20], "滋賀県南部": [35.05, 136.10] },
+  "京都府": { "京都府北部": [35.50, 135.25], "京都府南部": [35.00, 135.70] },
+  "大阪府": { "大阪府北部": [34.78, 135.50], "大阪府南部": [34.45, 135.45] },
+  "兵庫県": { "兵庫県北部": [35.45, 134.80], "兵庫県南東部": [34.80, 135.15], "兵庫県南西部": [34.90, 134.60], "兵庫県淡路島": [34.40, 134.85] },
+  "奈良県": { "奈良県": [34.45, 135.85] },
+  "和歌山県": { "和歌山県北部": [34.10, 135.35], "和歌山県南部": [33.70, 135.55] },
+  "鳥取県": { "鳥取県東部": [35.40, 134.30], "鳥取県中部": [35.40, 133.80], "鳥取県西部": [35.35, 133.40] },
+  "島根県": { "島根県東部": [35.30, 132.90], "島根県西部": [34.80, 132.10], "島根県隠岐": [36.20, 133.20] },
+  "岡山県": { "岡山県北部": [35.05, 133.80], "岡山県南部": [34.70, 133.85] },
+  "広島県": { "広島県北部": [34.80, 132.80], "広島県南東部": [34.50, 133.20], "広島県南西部": [34.40, 132.45] },
+  "山口県": { "山口県北部": [34.35, 131.45], "山口県東部": [34.05, 132.00], "山口県中部": [34.10, 131.55], "山口県西部": [34.05, 131.00] },
+  "徳島県": { "徳島県北部": [34.05, 134.35], "徳島県南部": [33.75, 134.45] },
+  "香川県": { "香川県東部": [34.30, 134.15], "香川県西部": [34.20, 133.80] },
+  "愛媛県": { "愛媛県東予": [33.95, 133.20], "愛媛県中予": [33.80, 132.80], "愛媛県南予": [33.30, 132.55] },
+  "高知県": { "高知県東部": [33.55, 134.05], "高知県中部": [33.60, 133.50], "高知県西部": [33.05, 132.90] },
+  "福岡県": { "福岡県福岡": [33.58, 130.40], "福岡県北九州": [33.85, 130.85], "福岡県筑豊": [33.65, 130.75], "福岡県筑後": [33.25, 130.55] },
+  "佐賀県": { "佐賀県北部": [33.40, 129.95], "佐賀県南部": [33.25, 130.25] },
+  "長崎県": {
+    "長崎県北部": [33.20, 129.70], "長崎県南西部": [32.80, 129.90], "長崎県島原半島": [32.75, 130.25],
+    "長崎県対馬": [34.40, 129.30], "長崎県壱岐": [33.78, 129.72], "長崎県五島": [32.75, 128.85],
+  },
+  "熊本県": { "熊本県阿蘇": [32.95, 131.10], "熊本県熊本": [32.75, 130.75], "熊本県球磨": [32.25, 130.85], "熊本県天草・芦北": [32.40, 130.25] },
+  "大分県": { "大分県北部": [33.50, 131.45], "大分県中部": [33.20, 131.55], "大分県南部": [32.90, 131.75], "大分県西部": [33.20, 131.10] },
+  "宮崎県": { "宮崎県北部平野部": [32.45, 131.55], "宮崎県北部山沿い": [32.60, 131.20], "宮崎県南部平野部": [31.90, 131.35], "宮崎県南部山沿い": [32.00, 131.00] },
+  "鹿児島県": {
+    "鹿児島県薩摩": [31.70, 130.45], "鹿児島県大隅": [31.35, 130.90], "鹿児島県十島村": [29.80, 129.90],
+    "鹿児島県甑島": [31.75, 129.80], "鹿児島県種子島": [30.55, 130.95], "鹿児島県屋久島": [30.35, 130.55],
+    "鹿児島県奄美北部": [28.35, 129.45], "鹿児島県奄美南部": [27.70, 128.90],
+  },
+  "沖縄県": {
+    "沖縄県本島北部": [26.65, 128.05], "沖縄県本島中南部": [26.30, 127.75], "沖縄県久米島": [26.35, 126.80],
+    "大東島": [25.85, 131.25], "宮古島": [24.78, 125.30], "石垣島": [24.40, 124.18], "与那国島": [24.47, 123.00], "西表島": [24.33, 123.82],
+  },
+};
+
+const round = (v) => Math.round(v * 100) / 100;
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) args[argv[i].replace(/^--/, '')] = argv[i + 1];
+  return args;
+};
+
+// Twice the signed area in (lon, lat); positive = counter-clockwise
+const signedArea = (ring) => ring.reduce((sum, [x0, y0], i) => {
+  const [x1, y1] = ring[(i + 1) % ring.length];
+  return sum + (x0 * y1 - x1 * y0);
+}, 0);
+
+// d3-geo expects clockwise exterior rings and counter-clockwise holes (the opposite of RFC 7946)
+const orientRing = (ring, exterior) => {
+  const clockwise = signedArea(ring) < 0;
+  return clockwise === exterior ? ring : ring.slice().reverse();
+};
+
+const buildVoronoiFeatures = () => {
+  const features = [];
+  for (const [pref, regions] of Object.entries(REGIONS)) {
+    const names = Object.keys(regions);
+    const points = names.map(n => [regions[n][1], regions[n][0]]); // [lon, lat]
+    const lons = points.map(p => p[0]);
+    const lats = points.map(p => p[1]);
+    const extent = [
+      Math.min(...lons) - EXTENT_MARGIN_DEG, Math.min(...lats) - EXTENT_MARGIN_DEG,
+      Math.max(...lons) + EXTENT_MARGIN_DEG, Math.max(...lats) + EXTENT_MARGIN_DEG,
+    ];
+
+    const cells = names.length === 1
+      ? [[[extent[0], extent[1]], [extent[2], extent[1]], [extent[2], extent[3]], [extent[0], extent[3]], [extent[0], extent[1]]]]
+      : names.map((_, i) => Delaunay.from(points).voronoi(extent).cellPolygon(i));
+
+    names.forEach((name, i) => {
+      const ring = cells[i].map(([x, y]) => [round(x), round(y)]);
+      features.push({
+        type: 'Feature',
+        properties: { name, pref, center: [regions[name][1], regions[name][0]] },
+        geometry: { type: 'Polygon', coordinates: [orientRing(ring, true)] },
+      });
+    });
+  }
+  return features;
+};
+
+const buildSourceFeatures = (source, nameField) => {
+  const prefByRegion = new Map();
+  Object.entries(REGIONS).forEach(([pref, regions]) => Object.keys(regions).forEach(name => prefByRegion.set(name, pref)));
+
+  const partsByRegion = new Map();
+  source.features.forEach(f => {
+    const name = f.properties?.[nameField];
+    if (!prefByRegion.has(name)) {
+      console.warn(`Skipping unknown region "${name}"`);
+      return;
+    }
+    if (!partsByRegion.has(name)) partsByRegion.set(name, []);
+    partsByRegion.get(name).push(...toPolygons(f.geometry));
+  });
+
+  const features = [];
+  prefByRegion.forEach((pref, name) => {
+    const parts = partsByRegion.get(name);
+    if (!parts) {
+      console.warn(`No polygon for region "${name}"`);
+      return;
+    }
+    const polygons = simplifyPolygons(parts, SOURCE_TOLERANCE)
+      .map(rings => rings.map((ring, i) => orientRing(ring.map(([x, y]) => [round(x), round(y)]), i === 0)));
+    const [lat, lon] = REGIONS[pref][name];
+    features.push({
+      type: 'Feature',
+      properties: { name, pref, center: [lon, lat] },
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons },
+    });
+  });
+  return features;
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const official = Boolean(args.source);
+  const features = official
+    ? buildSourceFeatures(JSON.parse(readFileSync(args.source, 'utf8')), args['name-field'] ?? 'name')
+    : buildVoronoiFeatures();
+  const body = features.map(f => `    ${JSON.stringify(f)}`).join(',\n');
+  const description = official
+    ? `// JMA seismic-intensity regions (地震情報／細分区域) as GeoJSON, simplified from
+// the official boundaries in JMA's 予報区等GISデータ.`
+    : `// JMA seismic-intensity regions (地震情報／細分区域) as GeoJSON. Polygons are
+// approximate cells that must be clipped to their prefecture outline when drawn.`;
+  const out = `// Generated by scripts/generate-intensity-regions.mjs -- do not edit by hand.
+//
+${description}
+
+import { IntensityRegionCollection } from '../types';
+
+// Approximate cells meet along lines that are not the official borders, so the map
+// fills them without drawing outlines
+export const INTENSITY_REGIONS_OFFICIAL = ${official};
+
+export const INTENSITY_REGIONS: IntensityRegionCollection = {
+  type: 'FeatureCollection',
+  features: [
+${body}
+  ],
+};
+`;
+  writeFileSync(fileURLToPath(new URL('../constants/intensityRegions.ts', import.meta.url)), out);
+  console.log(`${features.length} regions (${official ? 'official' : 'Voronoi approximation'})`);
+};
+
+main();
@@ -0,0 +1,177 @@
+// Generates constants/stationDatabase.ts
+//
+// Usage:
+//   node scripts/generate-station-database.mjs [--stations stations.csv] [--municipalities municipalities.csv]
+//
+// Both CSV files are UTF-8 with a header row:
+//   stations.csv        code,name,pref,lat,lon,municipality   (JMA 震度観測点, e.g. "4620030,輪島市鳳至町,石川県,37.39,136.90,輪島市")
+//   municipalities.csv  code,name,pref,lat,lon                (市町村等（地震）, JIS municipality code)
+//
+// Sources:
+//   stations.csv / municipalities.csv: the 震度観測点 and 市町村等（地震） sheets of
+//     the code tables in JMA's 気象庁防災情報XML technical materials
+//     (https://xml.kishou.go.jp/tec_material.html), saved as CSV with the columns above.
+//     They are not redistributed here; without them the database has no stations.
+//   Municipality and prefecture codes: the 全国地方公共団体コード list bundled with
+//     the jp-local-gov devDependency (JIS X 0402 / X 0401, check digit dropped).
+//   Municipality positions without the CSV: GeoNames populated places (CC BY 4.0,
+//     https://www.geonames.org) from the cities.json devDependency, matched to the
+//     code list by the romanized reading within the prefecture. Names that match
+//     places far apart, or nothing at all, are left out.
+//
+// The hand-maintained table in constants/stationCoordinates.ts is always merged
+// in for names the lists lack, ahead of the GeoNames positions; its entries get
+// their code from the list above when the name is unique within the prefecture.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { allCodes } from 'jp-local-gov';
+import { matchKey, romanize } from './romaji.mjs';
+
+const require = createRequire(import.meta.url);
+
+// GeoNames places sharing a name further apart than this (degrees, lat + lon) are ambiguous
+const MAX_PLACE_SPREAD_DEG = 0.3;
+// Reading suffixes dropped before matching ("わじまし" -> "わじま"); GeoNames mostly omits them
+const READING_SUFFIXES = { '市': ['し'], '区': ['く'], '町': ['まち', 'ちょう'], '村': ['むら', 'そん'] };
+const GEONAMES_SUFFIX = /[ -](shi|ch[oō]|machi|mura|son|ku)$/i;
+
+const PREF_PATTERN = /^(北海道|東京都|京都府|大阪府|.{2,3}県)$/;
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) args[argv[i].replace(/^--/, '')] = argv[i + 1];
+  return args;
+};
+
+const readCsv = (path) => {
+  const [header, ...rows] = readFileSync(path, 'utf8').trim().split(/\r?\n/);
+  const columns = header.split(',').map(c => c.trim());
+  return rows.map(row => {
+    const values = row.split(',').map(v => v.trim());
+    return Object.fromEntries(columns.map((c, i) => [c, values[i]]));
+  });
+};
+
+const round = (v) => Math.round(parseFloat(v) * 1000) / 1000;
+
+// "名前": [lat, lon] entries, in file order; a prefecture entry starts its group
+const readLegacyTable = () => {
+  const src = readFileSync(fileURLToPath(new URL('../constants/stationCoordinates.ts', import.meta.url)), 'utf8');
+  const records = [];
+  let pref = '';
+  for (const [, name, lat, lon] of src.matchAll(/"([^"]+)":\s*\[([\d.]+),\s*([\d.]+)\]/g)) {
+    const isPref = PREF_PATTERN.test(name);
+    if (isPref) pref = name;
+    records.push({ name, pref, kind: isPref ? 'prefecture' : 'municipality', lat: round(lat), lon: round(lon) });
+  }
+  return records;
+};
+
+// "pref:name" -> JIS code (5 digits for municipalities and Tokyo's wards, 2 for prefectures).
+// Wards of designated cities are left out: the table names the city, not the ward.
+const readLocalGovCodes = () => {
+  const codes = new Map();
+  const duplicates = new Set();
+  allCodes.forEach(pref => {
+    codes.set(`${pref.name}:${pref.name}`, pref.code.slice(0, 2));
+    pref.municipalities.forEach(m => {
+      const key = `${pref.name}:${m.name}`;
+      if (codes.has(key)) duplicates.add(key);
+      codes.set(key, m.code.slice(0, 5));
+    });
+  });
+  duplicates.forEach(key => codes.delete(key));
+  return codes;
+};
+
+// Municipalities of the code list, without the wards of designated cities
+const readLocalGovMunicipalities = () => allCodes.flatMap(pref => pref.municipalities.map(m => ({
+  code: m.code.slice(0, 5), name: m.name, ruby: m.ruby, pref: pref.name, prefRuby: pref.ruby,
+})));
+
+const readingKey = (name, ruby) => {
+  const suffix = (READING_SUFFIXES[name.slice(-1)] ?? []).find(s => ruby.endsWith(s));
+  return matchKey(romanize(suffix ? ruby.slice(0, -suffix.length) : ruby));
+};
+
+// "pref|reading" -> [lat, lon] of the GeoNames place with that name, unless ambiguous
+const readGeoNamesPlaces = () => {
+  const admin1 = new Map(require('cities.json/admin1.json')
+    .filter(a => a.code.startsWith('JP.'))
+    .map(a => [a.code.slice(3), matchKey(a.name)]));
+  const places = new Map();
+  require('cities.json').forEach(c => {
+    if (c.country !== 'JP' || !admin1.has(c.admin1)) return;
+    const key = `${admin1.get(c.admin1)}|${matchKey(c.name.replace(GEONAMES_SUFFIX, ''))}`;
+    if (!places.has(key)) places.set(key, []);
+    places.get(key).push([parseFloat(c.lat), parseFloat(c.lng)]);
+  });
+
+  const positions = new Map();
+  places.forEach((points, key) => {
+    const lats = points.map(p => p[0]);
+    const lons = points.map(p => p[1]);
+    const spread = Math.max(...lats) - Math.min(...lats) + Math.max(...lons) - Math.min(...lons);
+    if (spread <= MAX_PLACE_SPREAD_DEG) positions.set(key, points[0]);
+  });
+  return positions;
+};
+
+// Prefecture readings without 都/府/県, as GeoNames names them ("Ishikawa")
+const prefectureKey = (name, ruby) => matchKey(romanize(name === '北海道' ? ruby : ruby.replace(/(けん|ふ|と)$/, '')));
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const records = new Map(); // key: kind + name + pref
+
+  const add = (record) => {
+    const key = `${record.kind}:${record.pref}:${record.name}`;
+    if (!records.has(key)) records.set(key, record);
+  };
+
+  if (args.stations) {
+    readCsv(args.stations).forEach(r => add({
+      code: r.code, name: r.name, pref: r.pref, kind: 'station',
+      municipality: r.municipality || undefined, lat: round(r.lat), lon: round(r.lon),
+    }));
+  }
+  if (args.municipalities) {
+    readCsv(args.municipalities).forEach(r => add({
+      code: r.code, name: r.name, pref: r.pref, kind: 'municipality', lat: round(r.lat), lon: round(r.lon),
+    }));
+  }
+  const localGovCodes = readLocalGovCodes();
+  readLegacyTable().forEach(r => add({ code: localGovCodes.get(`${r.pref}:${r.name}`), ...r }));
+
+  const places = readGeoNamesPlaces();
+  readLocalGovMunicipalities().forEach(m => {
+    if (!localGovCodes.has(`${m.pref}:${m.name}`)) return; // Same name twice in the prefecture
+    const position = places.get(`${prefectureKey(m.pref, m.prefRuby)}|${readingKey(m.name, m.ruby)}`);
+    if (!position) return;
+    add({ code: m.code, name: m.name, pref: m.pref, kind: 'municipality', lat: round(position[0]), lon: round(position[1]) });
+  });
+
+  const sorted = Array.from(records.values())
+    .sort((a, b) => a.pref.localeCompare(b.pref, 'ja') || a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name, 'ja'));
+  const body = sorted.map(r => `  ${JSON.stringify(r)}`).join(',\n');
+  const counts = ['station', 'municipality', 'prefecture'].map(k => {
+    const ofKind = sorted.filter(r => r.kind === k);
+    return `${ofKind.length} ${k} (${ofKind.filter(r => r.code).length} with code)`;
+  }).join(', ');
+
+  const out = `// Generated by scripts/generate-station-database.mjs -- do not edit by hand.
+// ${counts}
+
+import { StationRecord } from '../types';
+
+export const STATION_DATABASE: StationRecord[] = [
+${body}
+];
+`;
+  writeFileSync(fileURLToPath(new URL('../constants/stationDatabase.ts', import.meta.url)), out);
+  console.log(counts);
+};
+
+main();
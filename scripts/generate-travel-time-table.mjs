@@ -0,0 +1,147 @@
+// Generates constants/travelTimeTable.ts
+//
+// First-arrival P/S travel times for a 1D velocity model approximating JMA2001
+// (Ueno et al., 2002), computed by ray shooting through thin layers after an
+// earth-flattening transform. Run with: node scripts/generate-travel-time-table.mjs
+
+import { writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const EARTH_RADIUS_KM = 6371;
+const VP_VS_RATIO = 1.73;
+const LAYER_KM = 2;
+const MODEL_BOTTOM_KM = 1000;
+const RAY_SAMPLES = 4000;
+const RAYS_PER_LAYER = 8;
+
+export const DEPTHS_KM = [0, 10, 20, 30, 40, 50, 60, 80, 100, 150, 200, 250, 300, 350, 400, 500, 600, 700];
+export const DISTANCE_STEP_KM = 10;
+export const MAX_DISTANCE_KM = 2000;
+
+// [depth km, Vp km/s], linearly interpolated
+const VP_MODEL = [
+  [0, 4.8], [3, 5.5], [10, 6.0], [20, 6.6], [30, 7.1], [40, 7.7], [60, 7.9],
+  [100, 8.0], [200, 8.3], [300, 8.7], [400, 9.0], [420, 9.4], [500, 9.7],
+  [650, 10.2], [670, 10.7], [800, 11.1], [1000, 11.5],
+];
+
+const vpAt = (z) => {
+  for (let i = 1; i < VP_MODEL.length; i++) {
+    const [z1, v1] = VP_MODEL[i];
+    const [z0, v0] = VP_MODEL[i - 1];
+    if (z <= z1) return v0 + (v1 - v0) * (z - z0) / (z1 - z0);
+  }
+  return VP_MODEL[VP_MODEL.length - 1][1];
+};
+
+// Flattened layers: thickness and velocity
+const buildLayers = (phase) => {
+  const layers = [];
+  for (let z = 0; z < MODEL_BOTTOM_KM; z += LAYER_KM) {
+    const mid = z + LAYER_KM / 2;
+    const v = vpAt(mid) / (phase === 'S' ? VP_VS_RATIO : 1);
+    const zf0 = -EARTH_RADIUS_KM * Math.log((EARTH_RADIUS_KM - z) / EARTH_RADIUS_KM);
+    const zf1 = -EARTH_RADIUS_KM * Math.log((EARTH_RADIUS_KM - z - LAYER_KM) / EARTH_RADIUS_KM);
+    layers.push({ h: zf1 - zf0, v: v * EARTH_RADIUS_KM / (EARTH_RADIUS_KM - mid) });
+  }
+  return layers;
+};
+
+// Distance and time through layers [from, to) for ray parameter p; null if the ray turns inside
+const traverse = (layers, from, to, p) => {
+  let x = 0, t = 0;
+  for (let i = from; i < to; i++) {
+    const { h, v } = layers[i];
+    const s = p * v;
+    if (s >= 1) return null;
+    const c = Math.sqrt(1 - s * s);
+    x += h * s / c;
+    t += h / (v * c);
+  }
+  return { x, t };
+};
+
+const computeRow = (layers, depthKm) => {
+  const src = Math.round(depthKm / LAYER_KM);
+  const times = new Array(MAX_DISTANCE_KM / DISTANCE_STEP_KM + 1).fill(Infinity);
+
+  // Fold one branch of (x, t) samples into the row, keeping the first arrival
+  const addBranch = (samples) => {
+    for (let i = 1; i < samples.length; i++) {
+      const a = samples[i - 1], b = samples[i];
+      const lo = Math.min(a.x, b.x), hi = Math.max(a.x, b.x);
+      for (let k = Math.ceil(lo / DISTANCE_STEP_KM); k * DISTANCE_STEP_KM <= hi && k < times.length; k++) {
+        const d = k * DISTANCE_STEP_KM;
+        const t = hi === lo ? Math.min(a.t, b.t) : a.t + (b.t - a.t) * (d - a.x) / (b.x - a.x);
+        if (t < times[k]) times[k] = t;
+      }
+    }
+  };
+
+  let vMaxAbove = 0;
+  for (let i = 0; i < src; i++) vMaxAbove = Math.max(vMaxAbove, layers[i].v);
+  if (src === 0) vMaxAbove = layers[0].v;
+  const pMax = 1 / vMaxAbove;
+
+  // Up-going rays, sampled by take-off angle
+  const up = [];
+  if (src > 0) {
+    for (let n = 0; n < RAY_SAMPLES; n++) {
+      const ray = traverse(layers, 0, src, pMax * Math.sin((Math.PI / 2) * n / RAY_SAMPLES));
+      if (ray) up.push(ray);
+    }
+  }
+
+  // Down-going rays, sampled by turning layer (several rays per layer)
+  const down = [];
+  for (let i = src; i < layers.length; i++) {
+    for (let n = 0; n < RAYS_PER_LAYER; n++) {
+      const v = layers[i].v + (i + 1 < layers.length ? (layers[i + 1].v - layers[i].v) * n / RAYS_PER_LAYER : 0);
+      const p = 1 / (v * (1 + 1e-9));
+      if (p >= pMax) continue;
+      const above = traverse(layers, 0, src, p);
+      const below = traverse(layers, src, i + 1, p);
+      if (!above || !below) continue;
+      down.push({ x: above.x + 2 * below.x, t: above.t + 2 * below.t });
+    }
+  }
+  if (src === 0) times[0] = 0;
+  addBranch(up);
+  addBranch(down);
+
+  // Fill any remaining gaps (shadow zones) by nearest-neighbour slowness
+  for (let k = 1; k < times.length; k++) {
+    if (!isFinite(times[k])) times[k] = times[k - 1] + DISTANCE_STEP_KM * pMax;
+  }
+  return times.map(t => Math.round(t * 10) / 10);
+};
+
+const formatRows = (rows) => rows.map(r => `    [${r.join(',')}]`).join(',\n');
+
+const main = () => {
+  const p = DEPTHS_KM.map(d => computeRow(buildLayers('P'), d));
+  const s = DEPTHS_KM.map(d => computeRow(buildLayers('S'), d));
+
+  const out = `// Generated by scripts/generate-travel-time-table.mjs -- do not edit by hand.
+//
+// First-arrival travel times (seconds) for a JMA2001-like velocity model,
+// indexed as [depth index][distance index]. Distance is epicentral distance
+// along the surface, in steps of TRAVEL_TIME_DISTANCE_STEP_KM.
+
+export const TRAVEL_TIME_DEPTHS_KM = [${DEPTHS_KM.join(', ')}];
+export const TRAVEL_TIME_DISTANCE_STEP_KM = ${DISTANCE_STEP_KM};
+export const TRAVEL_TIME_MAX_DISTANCE_KM = ${MAX_DISTANCE_KM};
+
+export const TRAVEL_TIME_TABLE: { P: number[][]; S: number[][] } = {
+  P: [
+${formatRows(p)}
+  ],
+  S: [
+${formatRows(s)}
+  ],
+};
+`;
+  writeFileSync(fileURLToPath(new URL('../constants/travelTimeTable.ts', import.meta.url)), out);
+};
+
+main();
@@ -0,0 +1,70 @@
+// Douglas-Peucker simplification of GeoJSON polygon coordinates, shared by the map generators.
+// Tolerances are in degrees.
+
+const perpendicularDistance = ([x, y], [x1, y1], [x2, y2]) => {
+  const dx = x2 - x1, dy = y2 - y1;
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(x - x1, y - y1);
+  return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / len;
+};
+
+export const simplifyLine = (points, tolerance) => {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack = [[0, points.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop();
+    let maxDist = 0, index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = perpendicularDistance(points[i], points[start], points[end]);
+      if (d > maxDist) { maxDist = d; index = i; }
+    }
+    if (maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// Closed ring: split at the farthest point so both halves have distinct endpoints
+export const simplifyRing = (ring, tolerance) => {
+  if (ring.length <= 4) return ring;
+  let far = 1, farDist = 0;
+  for (let i = 1; i < ring.length - 1; i++) {
+    const d = Math.hypot(ring[i][0] - ring[0][0], ring[i][1] - ring[0][1]);
+    if (d > farDist) { farDist = d; far = i; }
+  }
+  const a = simplifyLine(ring.slice(0, far + 1), tolerance);
+  const b = simplifyLine(ring.slice(far), tolerance);
+  const out = a.concat(b.slice(1));
+  return out.length >= 4 ? out : null; // Collapsed (small island)
+};
+
+export const ringArea = (ring) => {
+  let area = 0;
+  for (let i = 0, n = ring.length - 1; i < n; i++) area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  return Math.abs(area / 2);
+};
+
+export const simplifyPolygons = (polygons, tolerance) => {
+  const out = polygons
+    .map(rings => {
+      const exterior = simplifyRing(rings[0], tolerance);
+      if (!exterior) return null;
+      return [exterior, ...rings.slice(1).map(r => simplifyRing(r, tolerance)).filter(Boolean)];
+    })
+    .filter(Boolean);
+  if (out.length > 0) return out;
+  // Keep at least the largest polygon so no feature disappears
+  const largest = polygons.slice().sort((p, q) => ringArea(q[0]) - ringArea(p[0]))[0];
+  return largest ? [[largest[0]]] : [];
+};
+
+export const toPolygons = (geometry) => {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
@@ -0,0 +1,167 @@
+import { AlertChannel, Announcement, AnnouncementToken } from '../types';
+import { renderAnnouncement } from './announcements';
+import { soundService } from './SoundService';
+import { speechService } from './SpeechService';
+
+// Higher numbers preempt lower ones; an interrupted announcement is played again from the start
+const PRIORITY = {
+  eewWarning: 100,
+  countdown: 90,
+  eewCancel: 85,
+  tsunamiWarning: 80,
+  eewForecast: 70,
+  eewFinal: 60,
+  tsunami: 50,
+  quake: 40,
+};
+
+// A countdown number is useless once the next one is due
+const COUNTDOWN_TTL_MS = 1500;
+
+interface QueuedAnnouncement {
+  tokens: AnnouncementToken[];
+  priority: number;
+  key: string; // A newer announcement with the same key replaces this one
+  seq: number;
+  expiresAt?: number;
+  superseded?: boolean;
+}
+
+const getPriority = (announcement: Announcement): number => {
+  switch (announcement.kind) {
+    case 'eew':
+      if (announcement.phase === 'cancel') return PRIORITY.eewCancel;
+      if (announcement.phase === 'final') return PRIORITY.eewFinal;
+      return announcement.eew.isWarning ? PRIORITY.eewWarning : PRIORITY.eewForecast;
+    case 'countdown':
+      return PRIORITY.countdown;
+    case 'tsunami': {
+      const grade = announcement.forecast.maxGrade;
+      return grade === 'MajorWarning' || grade === 'Warning' ? PRIORITY.tsunamiWarning : PRIORITY.tsunami;
+    }
+    case 'quake':
+      return PRIORITY.quake;
+  }
+};
+
+const getKey = (announcement: Announcement): string => {
+  switch (announcement.kind) {
+    case 'eew': return `eew:${announcement.eew.eventId ?? announcement.eew.occurredTime ?? ''}`;
+    case 'countdown': return 'countdown';
+    case 'tsunami': return 'tsunami';
+    case 'quake': return `quake:${announcement.quake.earthquake.time}`;
+  }
+};
+
+type PlaybackGroup =
+  | { type: 'cue'; token: Extract<AnnouncementToken, { type: 'cue' }> }
+  | { type: 'clips'; keys: string[] }
+  | { type: 'speech'; texts: string[] };
+
+// Consecutive speech tokens are joined so clips play back to back and synthesis reads one sentence
+const groupTokens = (tokens: AnnouncementToken[]): PlaybackGroup[] => {
+  const groups: PlaybackGroup[] = [];
+  tokens.forEach(token => {
+    const last = groups[groups.length - 1];
+    if (token.type === 'cue') {
+      groups.push({ type: 'cue', token });
+    } else if (soundService.hasClips(token.keys)) {
+      if (last?.type === 'clips') last.keys.push(...token.keys);
+      else groups.push({ type: 'clips', keys: [...token.keys] });
+    } else {
+      if (last?.type === 'speech') last.texts.push(token.text);
+      else groups.push({ type: 'speech', texts: [token.text] });
+    }
+  });
+  return groups;
+};
+
+/**
+ * Plays announcements one at a time in priority order. Each token uses recorded
+ * clips when all of its clips exist and speech synthesis otherwise.
+ */
+class AnnouncementService {
+  private queue: QueuedAnnouncement[] = [];
+  private current: QueuedAnnouncement | null = null;
+  private generation = 0; // Bumped on interrupt so a stopped playback loop exits
+  private seq = 0;
+
+  // Cue sounds play for the 'sound' channel and spoken parts for 'speech' (see alert profiles)
+  public announce(announcement: Announcement, channels: AlertChannel[] = ['sound', 'speech']) {
+    if (!soundService.enabled) return;
+
+    const tokens = renderAnnouncement(announcement)
+      .filter(token => channels.includes(token.type === 'cue' ? 'sound' : 'speech'));
+    if (tokens.length === 0) return;
+
+    const item: QueuedAnnouncement = {
+      tokens,
+      priority: getPriority(announcement),
+      key: getKey(announcement),
+      seq: this.seq++,
+      expiresAt: announcement.kind === 'countdown' ? Date.now() + COUNTDOWN_TTL_MS : undefined,
+    };
+
+    this.queue = this.queue.filter(queued => queued.key !== item.key);
+    if (this.current?.key === item.key) this.current.superseded = true;
+    this.enqueue(item);
+
+    if (this.current && item.priority > this.current.priority) {
+      const interrupted = this.interrupt();
+      if (interrupted && !interrupted.superseded) this.enqueue(interrupted);
+    }
+    this.playNext();
+  }
+
+  // Drops everything queued and stops what is playing
+  public clear() {
+    this.queue = [];
+    this.interrupt();
+  }
+
+  private enqueue(item: QueuedAnnouncement) {
+    const index = this.queue.findIndex(queued =>
+      queued.priority < item.priority || (queued.priority === item.priority && queued.seq > item.seq));
+    if (index === -1) this.queue.push(item);
+    else this.queue.splice(index, 0, item);
+  }
+
+  private interrupt(): QueuedAnnouncement | null {
+    const interrupted = this.current;
+    this.current = null;
+    this.generation++;
+    soundService.stopClips();
+    soundService.stopCues();
+    speechService.cancel();
+    return interrupted;
+  }
+
+  private playNext() {
+    if (this.current) return;
+    const now = Date.now();
+    this.queue = this.queue.filter(item => item.expiresAt === undefined || item.expiresAt > now);
+    const item = this.queue.shift();
+    if (item) this.play(item);
+  }
+
+  private async play(item: QueuedAnnouncement) {
+    this.current = item;
+    const generation = this.generation;
+
+    for (const group of groupTokens(item.tokens)) {
+      try {
+        if (group.type === 'cue') await soundService.playCue(group.token.cue);
+        else if (group.type === 'clips') await soundService.playClips(group.keys);
+        else await speechService.speakAndWait(group.texts.join('。'));
+      } catch (e) {
+        console.warn('Announcement playback failed', e);
+      }
+      if (generation !== this.generation) return;
+    }
+
+    this.current = null;
+    this.playNext();
+  }
+}
+
+export const announcementService = new AnnouncementService();
@@ -1,58 +1,20 @@
-// =============================================================================
-// 【設定】音声合成用素材 (Base64コード入力欄)
-// =============================================================================
-// 以下の各キーに対応する音声ファイルのBase64文字列を入力してください。
-// 例: "data:audio/mp3;base64,AAAA..." または "AAAA..."
-
-const VOICE_ASSETS: { [key: string]: string } = {
-  // --- 数字 ---
-  "0": "", "1": "", "2": "", "3": "", "4": "", 
-  "5": "", "6": "", "7": "", "8": "", "9": "",
-  "10": "",   // 「じゅう」
-  "100": "",  // 「ひゃく」
-  "1000": "", // 「せん」
-
-  // --- 単位・区切り ---
-  "point": "", // 小数点「てん」
-  "ji": "",    // 「じ」 (時)
-  "fun": "",   // 「ふん」 (分)
-  "byou": "",  // 「びょう」 (秒)
-  "km": "",    // 「キロメートル」
-  
-  // --- 時間 ---
-  "gozen": "", // 「ごぜん」
-  "gogo": "",  // 「ごご」
-
-  // --- 地震用語 ---
-  "jishin": "",   // 「地震」
-  "sokuhou": "",  // 「速報」
-  "eew_yohou": "",  // 「緊急地震速報、予報」
-  "eew_keihou": "", // 「緊急地震速報、警報」
-  
-  "shindo": "",   // 「震度」
-  "jaku": "",     // 「弱」
-  "kyou": "",     // 「強」
-  
-  "shingen": "",     // 「震源地は」
-  "magnitude": "",   // 「マグニチュード」
-  "fukasa": "",      // 「深さは」
-  
-  "desu": "",        // 「です」
-  "arimasita": "",   // 「ありました」
-  "kaijo": "",       // 「解除されました」
-  
-  // --- その他通知音 ---
-  "chime": "",       // チャイム音（ピンポンパンポン）
-  "ping": "",        // 単発通知音
-};
-
-// =============================================================================
+import { AnnouncementCue, VoicePack } from '../types';
 
+/**
+ * Sound output: voice clips from the active voice pack, cue sounds and the EEW warning loop.
+ * What is said is decided by the announcement engine (AnnouncementService).
+ */
 export class SoundService {
   private ctx: AudioContext | null = null;
   private loopInterval: number | null = null;
   private _enabled: boolean = false;
+  private clips: { [key: string]: Blob } = {};
   private audioBufferCache: Map<string, AudioBuffer> = new Map();
+  private activeSources: Set<AudioBufferSourceNode> = new Set();
+  // Cue tones, their scheduled follow-up tones and waits, so an interrupt can cut a cue short
+  private cueTones: Set<OscillatorNode> = new Set();
+  private cueTimers: Set<number> = new Set();
+  private cueWaits: Set<() => void> = new Set();
 
   constructor() {
     const AC = window.AudioContext || (window as any).webkitAudioContext;
@@ -68,6 +30,8 @@ export class SoundService {
     }
     if (!val) {
         this.stopAlarm();
+        this.stopClips();
+        this.stopCues();
     }
   }
 
@@ -76,38 +40,50 @@ export class SoundService {
   }
 
   /**
-   * Base64文字列をAudioBufferに変換してキャッシュする
+   * 音声パックを切り替える（null で素材なし＝すべて音声合成）
    */
-  private async getAudioBuffer(key: string): Promise<AudioBuffer | null> {
-      if (!this.ctx) return null;
-      if (this.audioBufferCache.has(key)) return this.audioBufferCache.get(key)!;
-
-      const base64Data = VOICE_ASSETS[key];
-      if (!base64Data) return null;
+  public setVoicePack(pack: VoicePack | null) {
+      this.stopClips();
+      this.clips = pack ? pack.clips : {};
+      this.audioBufferCache.clear();
+  }
 
+  private async decode(blob: Blob): Promise<AudioBuffer | null> {
+      if (!this.ctx) return null;
       try {
-        const cleanBase64 = base64Data.replace(/^data:audio\/.*?;base64,/, '');
-        const binaryString = window.atob(cleanBase64);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        // decodeAudioDataはArrayBufferの所有権を奪うことがあるためスライスを渡す
-        const buffer = await this.ctx.decodeAudioData(bytes.buffer.slice(0));
-        this.audioBufferCache.set(key, buffer);
-        return buffer;
+        return await this.ctx.decodeAudioData(await blob.arrayBuffer());
       } catch (e) {
-        console.warn(`Failed to decode audio for key: ${key}`, e);
+        console.warn("Failed to decode audio clip", e);
         return null;
       }
   }
 
+  /**
+   * 素材をAudioBufferに変換してキャッシュする
+   */
+  private async getAudioBuffer(key: string): Promise<AudioBuffer | null> {
+      if (this.audioBufferCache.has(key)) return this.audioBufferCache.get(key)!;
+
+      const blob = this.clips[key];
+      if (!blob) return null;
+
+      const buffer = await this.decode(blob);
+      if (buffer) this.audioBufferCache.set(key, buffer);
+      return buffer;
+  }
+
+  /**
+   * すべてのキーに素材があるか
+   */
+  public hasClips(keys: string[]): boolean {
+      return !!this.ctx && keys.length > 0 && keys.every(key => !!this.clips[key]);
+  }
+
   /**
    * 音声キーの配列を受け取り、順番に再生する（文をつなげる）
+   * 再生し終わった（または stopClips() で止められた）時点で解決する
    */
-  private async playSequence(keys: string[]) {
+  public async playClips(keys: string[]) {
       if (!this._enabled || !this.ctx) return;
       if (this.ctx.state === 'suspended') this.ctx.resume();
 
@@ -117,125 +93,69 @@ export class SoundService {
           const buf = await this.getAudioBuffer(key);
           if (buf) buffers.push(buf);
       }
+      await this.playBuffers(buffers);
+  }
+
+  /**
+   * 指定した音声パックの素材を試聴する（有効な音声パックやサウンドのON/OFFに関係なく鳴らす）
+   */
+  public async previewClips(pack: VoicePack, keys: string[]) {
+      if (!this.ctx) return;
+      this.stopClips();
+      if (this.ctx.state === 'suspended') await this.ctx.resume();
+
+      const buffers: AudioBuffer[] = [];
+      for (const key of keys) {
+          const buf = pack.clips[key] ? await this.decode(pack.clips[key]) : null;
+          if (buf) buffers.push(buf);
+      }
+      await this.playBuffers(buffers);
+  }
 
-      if (buffers.length === 0) return;
+  private async playBuffers(buffers: AudioBuffer[]) {
+      if (!this.ctx || buffers.length === 0) return;
 
       // 順番に再生スケジュールを組む
       let startTime = this.ctx.currentTime;
       // 少し未来から開始して安定させる
       startTime += 0.1; 
 
-      for (const buffer of buffers) {
-          const source = this.ctx.createBufferSource();
+      const sources = buffers.map(buffer => {
+          const source = this.ctx!.createBufferSource();
           source.buffer = buffer;
-          source.connect(this.ctx.destination);
+          source.connect(this.ctx!.destination);
           source.start(startTime);
           startTime += buffer.duration;
-      }
-  }
-
-  /**
-   * 数字を読み上げるためのキー配列を生成する (0-999まで対応)
-   */
-  private getNumberKeys(num: number): string[] {
-      const keys: string[] = [];
-      let n = Math.floor(num);
-      
-      if (n < 0 || n >= 10000) {
-          // 簡易実装のため、範囲外はそのまま文字化
-          keys.push(n.toString());
-          return keys;
-      }
-
-      // 1000の位 (簡易)
-      if (n >= 1000) {
-          const thousand = Math.floor(n / 1000);
-          n %= 1000;
-          if (thousand > 1) keys.push(thousand.toString());
-          keys.push("1000"); // 「せん」
-      }
-
-      // 100の位
-      if (n >= 100) {
-          const hundred = Math.floor(n / 100);
-          n %= 100;
-          // 100は「ひゃく」 (いっぴゃく とかは考慮せず簡易的に)
-          if (hundred > 1) keys.push(hundred.toString());
-          keys.push("100"); // 「ひゃく」
-      }
-
-      // 10の位
-      if (n >= 10) {
-          const ten = Math.floor(n / 10);
-          n %= 10;
-          if (ten > 1) keys.push(ten.toString());
-          keys.push("10"); // 「じゅう」
-      }
-
-      // 1の位
-      if (n > 0) {
-          keys.push(n.toString());
-      } else if (keys.length === 0) {
-          // 元の数が0の場合
-          keys.push("0");
-      }
-
-      return keys;
+          this.activeSources.add(source);
+          return source;
+      });
+
+      const last = sources[sources.length - 1];
+      await new Promise<void>(resolve => {
+          last.onended = () => resolve();
+      });
+      sources.forEach(source => this.activeSources.delete(source));
   }
 
   /**
-   * 時刻読み上げキー生成
+   * 再生中・予約済みの素材をすべて止める（割り込み用）
    */
-  private getTimeKeys(dateStr?: string): string[] {
-      const d = dateStr ? new Date(dateStr) : new Date();
-      const h = d.getHours();
-      const m = d.getMinutes();
-      
-      const keys: string[] = [];
-      
-      // 午前/午後
-      keys.push(h < 12 ? "gozen" : "gogo");
-      
-      // 時 (12時間表記変換)
-      const hour12 = h % 12 || 12;
-      keys.push(...this.getNumberKeys(hour12));
-      keys.push("ji");
-      
-      // 分
-      if (m === 0) {
-          // ジャストの時は「0分」とは言わないことが多いが、ここでは省略
-      } else {
-          keys.push(...this.getNumberKeys(m));
-          keys.push("fun");
-      }
-      
-      return keys;
-  }
-
-  /**
-   * 震度読み上げキー生成
-   */
-  private getIntensityKeys(scaleStr: string | undefined): string[] {
-      if (!scaleStr) return [];
-      const keys: string[] = ["shindo"];
-      
-      // 例: "5弱" -> "5", "jaku"
-      const numPart = scaleStr.replace(/[弱強\-\+]/g, '');
-      const suffix = scaleStr.includes('弱') || scaleStr.includes('-') ? 'jaku' 
-                   : scaleStr.includes('強') || scaleStr.includes('+') ? 'kyou' 
-                   : null;
-
-      if (numPart) keys.push(numPart);
-      if (suffix) keys.push(suffix);
-      
-      return keys;
+  public stopClips() {
+      this.activeSources.forEach(source => {
+          try {
+              source.stop();
+          } catch (e) {
+              // Not started yet
+          }
+      });
+      this.activeSources.clear();
   }
 
   /**
    * 単純な電子音（フォールバック用）
    */
-  private playTone(freq: number, type: OscillatorType, duration: number, vol: number = 0.5) {
-      if (!this._enabled || !this.ctx) return;
+  private playTone(freq: number, type: OscillatorType, duration: number, vol: number = 0.5): OscillatorNode | null {
+      if (!this._enabled || !this.ctx) return null;
       if (this.ctx.state === 'suspended') this.ctx.resume();
       
       const osc = this.ctx.createOscillator();
@@ -250,95 +170,113 @@ export class SoundService {
       gain.connect(this.ctx.destination);
       osc.start();
       osc.stop(this.ctx.currentTime + duration);
+      return osc;
   }
 
-  // --- Public Methods ---
-
-  // 緊急地震速報（予報）受信時
-  public async playForecast() {
-      // 素材があれば: チャイム -> "緊急地震速報、予報"
-      if (VOICE_ASSETS["chime"] || VOICE_ASSETS["eew_yohou"]) {
-          await this.playSequence(["chime", "eew_yohou"]);
-      } else {
-          this.playTone(660, 'sine', 0.5, 0.3);
-      }
+  /**
+   * 効果音の電子音（delayMs 後に鳴らす。stopCues() で止められる）
+   */
+  private cueTone(delayMs: number, freq: number, type: OscillatorType, duration: number, vol?: number) {
+      this.schedule(delayMs, () => {
+          const osc = this.playTone(freq, type, duration, vol);
+          if (!osc) return;
+          this.cueTones.add(osc);
+          osc.onended = () => this.cueTones.delete(osc);
+      });
   }
 
-  // 地震情報受信時 (例: チャイム -> x時x分頃 -> 地震がありました -> 震源地は [省略] -> マグニチュード x -> 深さは x キロ -> 震度x)
-  public async playQuakeInfo(data?: any) {
-      if (!this._enabled) return;
-      
-      // ベースアセットチェック
-      if (!VOICE_ASSETS["jishin"]) {
-          this.playTone(440, 'sine', 0.5, 0.3);
+  private schedule(ms: number, fn: () => void) {
+      if (ms <= 0) {
+          fn();
           return;
       }
+      const id = window.setTimeout(() => {
+          this.cueTimers.delete(id);
+          fn();
+      }, ms);
+      this.cueTimers.add(id);
+  }
 
-      const seq: string[] = ["chime"];
+  // stopCues() で打ち切られた場合もその時点で解決する
+  private wait(ms: number) {
+      return new Promise<void>(resolve => {
+          const done = () => {
+              this.cueWaits.delete(done);
+              resolve();
+          };
+          this.cueWaits.add(done);
+          this.schedule(ms, done);
+      });
+  }
 
-      // 時刻
-      if (data?.earthquake?.time) {
-          seq.push(...this.getTimeKeys(data.earthquake.time));
-          seq.push("jishin", "arimasita"); // ～地震がありました
-      } else {
-          seq.push("jishin", "sokuhou"); // 地震速報
-      }
+  /**
+   * 鳴っている・予約済みの効果音（電子音）をすべて止める（割り込み用）
+   */
+  public stopCues() {
+      this.cueTimers.forEach(id => window.clearTimeout(id));
+      this.cueTimers.clear();
+      this.cueTones.forEach(osc => {
+          try {
+              osc.stop();
+          } catch (e) {
+              // Already stopped
+          }
+      });
+      this.cueTones.clear();
+      this.cueWaits.forEach(done => done());
+  }
 
-      // マグニチュード読み上げ
-      if (data?.earthquake?.hypocenter?.magnitude && data.earthquake.hypocenter.magnitude !== -1) {
-        seq.push("magnitude");
-        const mag = data.earthquake.hypocenter.magnitude;
-        const magInt = Math.floor(mag);
-        const magDec = Math.round((mag - magInt) * 10);
-        
-        seq.push(...this.getNumberKeys(magInt));
-        if (magDec > 0) {
-            seq.push("point");
-            seq.push(...this.getNumberKeys(magDec));
-        }
-      }
+  // --- Public Methods ---
 
-      // 深さ読み上げ
-      if (data?.earthquake?.hypocenter?.depth !== undefined && data.earthquake.hypocenter.depth !== -1) {
-          const depth = data.earthquake.hypocenter.depth;
-          if (depth === 0) {
-             // ごく浅い (アセットがないのでスキップか、0kmと読む)
-             // seq.push("fukasa", "0", "km"); 
-          } else {
-             seq.push("fukasa"); // 「深さは」
-             seq.push(...this.getNumberKeys(depth));
-             seq.push("km"); // 「キロメートル」
-          }
-      }
+  /**
+   * 読み上げ前の効果音（素材があれば素材、なければ電子音）。鳴り終わった時点で解決する
+   */
+  public async playCue(cue: AnnouncementCue) {
+      if (!this._enabled) return;
 
-      // 震度 (最大震度)
-      if (data?.earthquake?.maxScale) {
-          let scaleStr = "";
-          const s = data.earthquake.maxScale;
-          if (s === 10) scaleStr = "1";
-          if (s === 20) scaleStr = "2";
-          if (s === 30) scaleStr = "3";
-          if (s === 40) scaleStr = "4";
-          if (s === 45) scaleStr = "5弱";
-          if (s === 50) scaleStr = "5強";
-          if (s === 55) scaleStr = "6弱";
-          if (s === 60) scaleStr = "6強";
-          if (s === 70) scaleStr = "7";
-          
-          if (scaleStr) {
-             seq.push(...this.getIntensityKeys(scaleStr)); // 震度〇
-          }
+      switch (cue) {
+          case 'chime':
+              if (this.clips["chime"]) return this.playClips(["chime"]);
+              this.cueTone(0, 440, 'sine', 0.5, 0.3);
+              return this.wait(500);
+          case 'eewForecast':
+              if (this.clips["chime"]) return this.playClips(["chime"]);
+              this.cueTone(0, 660, 'sine', 0.5, 0.3);
+              return this.wait(500);
+          case 'notification':
+              return this.playNotification();
+          // 津波は等級ごとに聞き分けられる電子音
+          case 'MajorWarning':
+              // 低音→高音のサイレン調を3回
+              [0, 1, 2].forEach(i => {
+                  this.cueTone(i * 1000, 440, 'sawtooth', 0.45, 0.4);
+                  this.cueTone(i * 1000 + 500, 880, 'sawtooth', 0.45, 0.4);
+              });
+              return this.wait(3000);
+          case 'Warning':
+              // 2音の警告音を2回
+              [0, 1].forEach(i => {
+                  this.cueTone(i * 900, 660, 'square', 0.35, 0.3);
+                  this.cueTone(i * 900 + 400, 520, 'square', 0.35, 0.3);
+              });
+              return this.wait(1800);
+          case 'Advisory':
+              this.cueTone(0, 587, 'triangle', 0.6, 0.3);
+              this.cueTone(700, 587, 'triangle', 0.6, 0.3);
+              return this.wait(1300);
+          default:
+              this.cueTone(0, 523, 'sine', 0.5, 0.2);
+              return this.wait(500);
       }
-
-      await this.playSequence(seq);
   }
 
   // その他通知（キャンセル、最終報など）
   public async playNotification() {
-      if (VOICE_ASSETS["ping"]) {
-          await this.playSequence(["ping"]);
+      if (this.clips["ping"]) {
+          await this.playClips(["ping"]);
       } else {
-          this.playTone(880, 'sine', 0.3, 0.2);
+          this.cueTone(0, 880, 'sine', 0.3, 0.2);
+          await this.wait(300);
       }
   }
 
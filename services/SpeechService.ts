@@ -27,7 +27,21 @@ class SpeechService {
     // but for earthquakes, we might want to queue them.
     // For urgency, let's cancel previous non-urgent messages.
     this.synth.cancel();
+    this.synth.speak(this.createUtterance(text));
+  }
+
+  // Speaks after anything already queued, resolving when done (parts of a longer announcement)
+  public speakAndWait(text: string): Promise<void> {
+    if (!this.synth || !text) return Promise.resolve();
+    return new Promise(resolve => {
+        const utterance = this.createUtterance(text);
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve();
+        this.synth.speak(utterance);
+    });
+  }
 
+  private createUtterance(text: string): SpeechSynthesisUtterance {
     const utterance = new SpeechSynthesisUtterance(text);
     utterance.lang = 'ja-JP';
     utterance.rate = 1.1; // Slightly faster for alerts
@@ -37,8 +51,7 @@ class SpeechService {
     if (this.voice) {
         utterance.voice = this.voice;
     }
-
-    this.synth.speak(utterance);
+    return utterance;
   }
 
   public cancel() {
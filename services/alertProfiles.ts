@@ -0,0 +1,81 @@
+import { AlertArea, AlertChannel, AlertEventKind, AlertProfile } from '../types';
+
+const STORAGE_KEY = 'quakeMonitor.alertProfiles';
+
+const KINDS: AlertEventKind[] = ['eew', 'quake', 'tsunami'];
+const CHANNELS: AlertChannel[] = ['sound', 'speech', 'notification'];
+
+// Same as before profiles existed: sound and speech for everything
+export const DEFAULT_ALERT_PROFILES: AlertProfile[] = [
+  {
+    id: 'default',
+    name: 'すべての情報',
+    enabled: true,
+    kinds: KINDS,
+    area: { type: 'all' },
+    channels: ['sound', 'speech'],
+  },
+];
+
+export const createAlertProfile = (): AlertProfile => ({
+  id: `profile-${Date.now()}`,
+  name: '新しいプロファイル',
+  enabled: true,
+  kinds: KINDS,
+  area: { type: 'all' },
+  channels: ['sound', 'speech'],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const sanitizeArea = (area: unknown): AlertArea => {
+  if (!isRecord(area)) return { type: 'all' };
+  if (area.type === 'prefectures' && Array.isArray(area.prefectures)) {
+    return { type: 'prefectures', prefectures: area.prefectures.filter((p: unknown): p is string => typeof p === 'string') };
+  }
+  if (area.type === 'radius' && typeof area.radiusKm === 'number' && area.radiusKm > 0) {
+    return { type: 'radius', radiusKm: area.radiusKm };
+  }
+  return { type: 'all' };
+};
+
+const sanitizeProfile = (value: unknown, index: number): AlertProfile => {
+  const p = isRecord(value) ? value : {};
+  const kinds = p.kinds;
+  const channels = p.channels;
+  const quietHours = p.quietHours;
+  return {
+    id: typeof p.id === 'string' ? p.id : `profile-${index}`,
+    name: typeof p.name === 'string' ? p.name : `プロファイル${index + 1}`,
+    enabled: p.enabled !== false,
+    kinds: Array.isArray(kinds) ? KINDS.filter(k => kinds.includes(k)) : KINDS,
+    minScale: typeof p.minScale === 'number' ? p.minScale : undefined,
+    minMagnitude: typeof p.minMagnitude === 'number' ? p.minMagnitude : undefined,
+    area: sanitizeArea(p.area),
+    quietHours: isRecord(quietHours) && typeof quietHours.start === 'string' && typeof quietHours.end === 'string'
+      ? { start: quietHours.start, end: quietHours.end }
+      : undefined,
+    channels: Array.isArray(channels) ? CHANNELS.filter(c => channels.includes(c)) : [],
+  };
+};
+
+export const loadAlertProfiles = (): AlertProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_ALERT_PROFILES;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(sanitizeProfile) : DEFAULT_ALERT_PROFILES;
+  } catch (e) {
+    console.warn("Failed to load alert profiles", e);
+    return DEFAULT_ALERT_PROFILES;
+  }
+};
+
+export const saveAlertProfiles = (profiles: AlertProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Failed to save alert profiles", e);
+  }
+};
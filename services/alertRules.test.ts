@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { AlertProfile, AlertSubject, JMASeismicIntensity } from '../types';
+import { AlertContext, isInPrefecture, isInQuietHours, matchesAlertProfile, resolveAlertChannels } from './alertRules';
+
+const at = (hours: number, minutes: number) => new Date(2024, 0, 1, hours, minutes);
+
+const context: AlertContext = { now: at(12, 0), userLocation: null };
+
+const profile = (overrides: Partial<AlertProfile> = {}): AlertProfile => ({
+  id: 'test',
+  name: 'Test',
+  enabled: true,
+  kinds: ['eew', 'quake', 'tsunami'],
+  area: { type: 'all' },
+  channels: ['sound', 'speech'],
+  ...overrides,
+});
+
+const quake = (overrides: Partial<AlertSubject> = {}): AlertSubject => ({
+  kind: 'quake',
+  scale: JMASeismicIntensity.Scale40,
+  magnitude: 5.2,
+  regions: ['石川県'],
+  latitude: 37.5,
+  longitude: 137.2,
+  ...overrides,
+});
+
+describe('matchesAlertProfile', () => {
+  it('applies the intensity threshold when the event has an intensity', () => {
+    const strong = profile({ minScale: JMASeismicIntensity.Scale50 });
+    expect(matchesAlertProfile(strong, quake(), context)).toBe(false);
+    expect(matchesAlertProfile(strong, quake({ scale: JMASeismicIntensity.Scale50 }), context)).toBe(true);
+    expect(matchesAlertProfile(strong, quake({ scale: JMASeismicIntensity.Scale60 }), context)).toBe(true);
+    // A tsunami forecast has no intensity, so the threshold does not drop it
+    expect(matchesAlertProfile(strong, { kind: 'tsunami', regions: ['石川県能登'] }, context)).toBe(true);
+  });
+
+  it('applies the magnitude threshold', () => {
+    const large = profile({ minMagnitude: 6 });
+    expect(matchesAlertProfile(large, quake(), context)).toBe(false);
+    expect(matchesAlertProfile(large, quake({ magnitude: 6.1 }), context)).toBe(true);
+    expect(matchesAlertProfile(large, quake({ magnitude: undefined }), context)).toBe(true);
+  });
+
+  it('skips disabled profiles and other event kinds', () => {
+    expect(matchesAlertProfile(profile({ enabled: false }), quake(), context)).toBe(false);
+    expect(matchesAlertProfile(profile({ kinds: ['eew'] }), quake(), context)).toBe(false);
+  });
+
+  it('matches prefecture areas by region name', () => {
+    const area = profile({ area: { type: 'prefectures', prefectures: ['石川県', '東京都'] } });
+    expect(matchesAlertProfile(area, quake(), context)).toBe(true);
+    expect(matchesAlertProfile(area, quake({ regions: ['新潟県', '富山県'] }), context)).toBe(false);
+    expect(matchesAlertProfile(area, { kind: 'tsunami', regions: ['東京湾内湾'] }, context)).toBe(true);
+  });
+
+  it('matches a radius around the user location only when both positions are known', () => {
+    const nearby = profile({ area: { type: 'radius', radiusKm: 100 } });
+    const kanazawa: AlertContext = { ...context, userLocation: { latitude: 36.56, longitude: 136.65 } };
+    const tokyo: AlertContext = { ...context, userLocation: { latitude: 35.68, longitude: 139.77 } };
+    expect(matchesAlertProfile(nearby, quake({ latitude: 37.0, longitude: 136.9 }), kanazawa)).toBe(true);
+    expect(matchesAlertProfile(nearby, quake({ latitude: 37.0, longitude: 136.9 }), tokyo)).toBe(false);
+    expect(matchesAlertProfile(nearby, quake(), context)).toBe(false);
+    expect(matchesAlertProfile(nearby, quake({ latitude: undefined, longitude: undefined }), kanazawa)).toBe(false);
+  });
+
+  it('does not fire during quiet hours', () => {
+    const night = profile({ quietHours: { start: '23:00', end: '06:00' } });
+    expect(matchesAlertProfile(night, quake(), { ...context, now: at(2, 0) })).toBe(false);
+    expect(matchesAlertProfile(night, quake(), { ...context, now: at(7, 0) })).toBe(true);
+  });
+});
+
+describe('isInQuietHours', () => {
+  it('handles a range within one day', () => {
+    const lunch = { start: '12:00', end: '13:30' };
+    expect(isInQuietHours(lunch, at(11, 59))).toBe(false);
+    expect(isInQuietHours(lunch, at(12, 0))).toBe(true);
+    expect(isInQuietHours(lunch, at(13, 29))).toBe(true);
+    expect(isInQuietHours(lunch, at(13, 30))).toBe(false);
+  });
+
+  it('wraps a range past midnight', () => {
+    const night = { start: '22:00', end: '07:00' };
+    expect(isInQuietHours(night, at(21, 59))).toBe(false);
+    expect(isInQuietHours(night, at(22, 0))).toBe(true);
+    expect(isInQuietHours(night, at(0, 0))).toBe(true);
+    expect(isInQuietHours(night, at(6, 59))).toBe(true);
+    expect(isInQuietHours(night, at(7, 0))).toBe(false);
+  });
+
+  it('ignores empty and malformed ranges', () => {
+    expect(isInQuietHours({ start: '22:00', end: '22:00' }, at(22, 0))).toBe(false);
+    expect(isInQuietHours({ start: '25:00', end: '07:00' }, at(1, 0))).toBe(false);
+    expect(isInQuietHours({ start: '', end: '07:00' }, at(1, 0))).toBe(false);
+  });
+});
+
+describe('isInPrefecture', () => {
+  it('accepts area names with or without the prefecture suffix', () => {
+    expect(isInPrefecture('石川県能登', '石川県')).toBe(true);
+    expect(isInPrefecture('大阪府北部', '大阪府')).toBe(true);
+    expect(isInPrefecture('東京湾内湾', '東京都')).toBe(true);
+    expect(isInPrefecture('北海道太平洋沿岸東部', '北海道')).toBe(true);
+    expect(isInPrefecture('京都府南部', '東京都')).toBe(false);
+  });
+});
+
+describe('resolveAlertChannels', () => {
+  it('joins the channels of every matching profile', () => {
+    const profiles = [
+      profile({ id: 'all', channels: ['sound'] }),
+      profile({ id: 'strong', minScale: JMASeismicIntensity.Scale50, channels: ['speech', 'notification'] }),
+      profile({ id: 'ishikawa', area: { type: 'prefectures', prefectures: ['石川県'] }, channels: ['sound', 'notification'] }),
+    ];
+    expect(resolveAlertChannels(profiles, quake(), context).sort()).toEqual(['notification', 'sound']);
+    expect(resolveAlertChannels(profiles, quake({ scale: JMASeismicIntensity.Scale55, regions: ['福井県'] }), context).sort())
+      .toEqual(['notification', 'sound', 'speech']);
+  });
+
+  it('returns no channels (banner only) when nothing matches', () => {
+    const profiles = [profile({ kinds: ['tsunami'] }), profile({ quietHours: { start: '00:00', end: '23:59' } })];
+    expect(resolveAlertChannels(profiles, quake(), context)).toEqual([]);
+  });
+});
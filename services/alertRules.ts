@@ -0,0 +1,107 @@
+import {
+  AlertChannel,
+  AlertProfile,
+  AlertQuietHours,
+  AlertSubject,
+  EEWState,
+  P2PQuakeData,
+  TsunamiForecast,
+  UserLocation,
+} from '../types';
+import { parseScale } from './intensityScale';
+import { distanceKm } from './seismology';
+
+// Alert profile evaluation. Pure functions: the current time and user location are passed in.
+
+export interface AlertContext {
+  now: Date;
+  userLocation: UserLocation | null;
+}
+
+const validCoordinate = (value: number | undefined) =>
+  value !== undefined && value > -200 && value !== -1 ? value : undefined;
+
+export const eewAlertSubject = (eew: EEWState): AlertSubject => ({
+  kind: 'eew',
+  scale: parseScale(eew.maxIntensity),
+  // PLUM (assumed hypocenter) reports carry no real magnitude
+  magnitude: eew.isAssumedHypocenter ? undefined : eew.magnitude,
+  regions: Array.from(new Set([...eew.areas, ...(eew.forecastAreas ?? []).map(a => a.name)])),
+  latitude: eew.latitude,
+  longitude: eew.longitude,
+});
+
+export const quakeAlertSubject = (data: P2PQuakeData): AlertSubject => {
+  const hypo = data.earthquake.hypocenter;
+  return {
+    kind: 'quake',
+    scale: data.earthquake.maxScale > 0 ? data.earthquake.maxScale : undefined,
+    magnitude: hypo && hypo.magnitude > 0 ? hypo.magnitude : undefined,
+    regions: Array.from(new Set((data.points ?? []).map(p => p.pref))),
+    latitude: validCoordinate(hypo?.latitude),
+    longitude: validCoordinate(hypo?.longitude),
+  };
+};
+
+export const tsunamiAlertSubject = (forecast: TsunamiForecast): AlertSubject => ({
+  kind: 'tsunami',
+  regions: forecast.areas.map(a => a.name),
+});
+
+const toMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  return h < 24 && m < 60 ? h * 60 + m : null;
+};
+
+export const isInQuietHours = (quietHours: AlertQuietHours, now: Date): boolean => {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+  const t = now.getHours() * 60 + now.getMinutes();
+  return start < end ? t >= start && t < end : t >= start || t < end;
+};
+
+// Area names start with the prefecture, but some drop the 都/府/県 suffix ("東京湾内湾", "石川県能登")
+export const isInPrefecture = (region: string, prefecture: string): boolean =>
+  region.startsWith(prefecture) || (prefecture !== '北海道' && region.startsWith(prefecture.replace(/[都府県]$/, '')));
+
+/**
+ * Whether a profile fires for an event. Thresholds the event has no value for
+ * (magnitude of an intensity-only report, intensity of a tsunami forecast) are
+ * not applied, so such events are not silently dropped. A radius needs both the
+ * user location and the epicenter.
+ */
+export const matchesAlertProfile = (profile: AlertProfile, subject: AlertSubject, context: AlertContext): boolean => {
+  if (!profile.enabled || !profile.kinds.includes(subject.kind)) return false;
+  if (profile.quietHours && isInQuietHours(profile.quietHours, context.now)) return false;
+
+  if (profile.minScale !== undefined && subject.scale !== undefined && subject.scale < profile.minScale) return false;
+  if (profile.minMagnitude !== undefined && subject.magnitude !== undefined && subject.magnitude < profile.minMagnitude) return false;
+
+  const area = profile.area;
+  switch (area.type) {
+    case 'all':
+      return true;
+    case 'prefectures':
+      return subject.regions.some(region => area.prefectures.some(pref => isInPrefecture(region, pref)));
+    case 'radius': {
+      const location = context.userLocation;
+      if (!location || subject.latitude === undefined || subject.longitude === undefined) return false;
+      return distanceKm(location.latitude, location.longitude, subject.latitude, subject.longitude) <= area.radiusKm;
+    }
+  }
+};
+
+/**
+ * Channels to use for an event: the union over every matching profile (none means banner only).
+ */
+export const resolveAlertChannels = (profiles: AlertProfile[], subject: AlertSubject, context: AlertContext): AlertChannel[] => {
+  const channels = new Set<AlertChannel>();
+  profiles
+    .filter(profile => matchesAlertProfile(profile, subject, context))
+    .forEach(profile => profile.channels.forEach(channel => channels.add(channel)));
+  return Array.from(channels);
+};
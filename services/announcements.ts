@@ -0,0 +1,204 @@
+import { Announcement, AnnouncementToken, EEWState, P2PQuakeData, QuakePoint, TsunamiForecast } from '../types';
+import { TSUNAMI_GRADE_LABELS } from './tsunami';
+import { parseP2PTime } from './feeds';
+import { SCALE_LABELS } from './intensityScale';
+import { PLACE_KEY_PREFIX } from '../constants/voiceKeys';
+import { readCount, readDecimal, readDistance, readInteger, readTime } from './japaneseNumerals';
+
+// 構造化された読み上げ内容 (Announcement) -> トークン列
+// 各トークンは音声素材のキー (constants/voiceKeys.ts) と、素材がない場合に音声合成で読む文を持つ
+
+// 各地の震度: 上位何段階まで、最大何都道府県まで読み上げるか
+const ANNOUNCED_SCALE_LEVELS = 2;
+const ANNOUNCED_PREFECTURE_LIMIT = 5;
+// 緊急地震速報・津波の対象地域を最大いくつまで読み上げるか
+const ANNOUNCED_AREA_LIMIT = 5;
+
+const speech = (keys: string[], text: string): AnnouncementToken => ({ type: 'speech', keys, text });
+
+// 551 domesticTsunami -> 読み上げ
+const DOMESTIC_TSUNAMI_TOKENS: { [value: string]: AnnouncementToken } = {
+  None: speech(["tsunami_nashi"], "この地震による津波の心配はありません"),
+  NonEffective: speech(["tsunami_jakkan"], "若干の海面変動があるかもしれませんが、被害の心配はありません"),
+  Checking: speech(["tsunami_chousa"], "津波の有無については現在調査中です"),
+  Unknown: speech(["tsunami_fumei"], "津波の有無は不明です"),
+  Watch: speech(["tsunami_chuuihou", "happyou"], "津波注意報が発表されました"),
+  Warning: speech(["tsunami_keihou", "happyou"], "津波警報が発表されました"),
+  MajorWarning: speech(["tsunami_daikeihou", "happyou"], "大津波警報が発表されました"),
+};
+
+// 津波の等級ごとの音声キー
+const TSUNAMI_VOICE_KEYS: { [key: string]: string } = {
+  MajorWarning: "tsunami_daikeihou",
+  Warning: "tsunami_keihou",
+  Advisory: "tsunami_chuuihou",
+  Forecast: "tsunami_yohou",
+};
+
+const placeKey = (name: string) => `${PLACE_KEY_PREFIX}${name}`;
+
+// "5+" / "5-" 表記を "5強" / "5弱" にそろえる
+const normalizeIntensity = (label: string) => label.replace('+', '強').replace('-', '弱');
+
+/**
+ * 震度読み上げキー生成
+ */
+const getIntensityKeys = (label: string): string[] => {
+  const normalized = normalizeIntensity(label);
+  // 例: "5弱" -> "5", "jaku"
+  const keys = ["shindo", normalized.replace(/[弱強]/g, '')];
+  if (normalized.includes('弱')) keys.push("jaku");
+  if (normalized.includes('強')) keys.push("kyou");
+  return keys;
+};
+
+const magnitudeToken = (magnitude: number): AnnouncementToken =>
+  speech(["magnitude", ...readDecimal(magnitude, 1)], `マグニチュード${magnitude.toFixed(1)}`);
+
+const hypocenterToken = (name: string): AnnouncementToken =>
+  speech(["shingen", placeKey(name), "desu"], `震源地は${name}です`);
+
+/**
+ * 各地の震度: 震度の大きい順に、観測した都道府県をまとめる
+ */
+const getAnnouncedPrefectures = (points: QuakePoint[]): { scale: number, prefs: string[] }[] => {
+  const byScale = new Map<number, string[]>();
+  points.forEach(p => {
+    if (!SCALE_LABELS[p.scale]) return;
+    const prefs = byScale.get(p.scale) ?? [];
+    if (!prefs.includes(p.pref)) prefs.push(p.pref);
+    byScale.set(p.scale, prefs);
+  });
+
+  const groups: { scale: number, prefs: string[] }[] = [];
+  const announced = new Set<string>();
+  const scales = Array.from(byScale.keys()).sort((a, b) => b - a).slice(0, ANNOUNCED_SCALE_LEVELS);
+  for (const scale of scales) {
+    // 上位の震度で読み上げた都道府県は繰り返さない
+    const prefs = byScale.get(scale)!.filter(pref => !announced.has(pref))
+      .slice(0, ANNOUNCED_PREFECTURE_LIMIT - announced.size);
+    if (prefs.length === 0) continue;
+    prefs.forEach(pref => announced.add(pref));
+    groups.push({ scale, prefs });
+    if (announced.size >= ANNOUNCED_PREFECTURE_LIMIT) break;
+  }
+  return groups;
+};
+
+// 緊急地震速報 (例: 緊急地震速報、警報 -> 震源地は〇〇です -> 〇〇、〇〇、強い揺れに警戒してください)
+const renderEEW = (eew: EEWState, phase: 'start' | 'update' | 'final' | 'cancel'): AnnouncementToken[] => {
+  if (phase === 'cancel') {
+    return [{ type: 'cue', cue: 'notification' }, speech(["eew_torikeshi"], "先ほどの緊急地震速報は取り消されました")];
+  }
+
+  // 仮定震源要素 (PLUM法) の震源・規模は実際の推定値ではないので読み上げない
+  const hasParameters = !eew.isAssumedHypocenter && eew.source !== 'p2p-detection';
+  const tokens: AnnouncementToken[] = [];
+
+  if (phase === 'final') {
+    tokens.push({ type: 'cue', cue: 'notification' }, speech(["eew_saishuuhou"], "緊急地震速報、最終報"));
+  } else if (eew.isWarning) {
+    tokens.push(speech(["eew_keihou"], "緊急地震速報、警報"));
+  } else {
+    tokens.push({ type: 'cue', cue: 'eewForecast' }, speech(["eew_yohou"], "緊急地震速報、予報"));
+  }
+
+  if (hasParameters && eew.hypocenterName && phase !== 'final') tokens.push(hypocenterToken(eew.hypocenterName));
+  if (hasParameters && eew.magnitude !== undefined) tokens.push(magnitudeToken(eew.magnitude));
+  if (eew.maxIntensity) {
+    const label = normalizeIntensity(eew.maxIntensity);
+    tokens.push(speech(["yosou_saidai", ...getIntensityKeys(label)], `予想される最大震度は${label}`));
+  }
+
+  if (eew.isWarning && phase !== 'final') {
+    const areas = eew.areas.slice(0, ANNOUNCED_AREA_LIMIT);
+    tokens.push(speech(
+      [...areas.map(placeKey), "keikai"],
+      `${areas.length > 0 ? `${areas.join('、')}、` : ''}強い揺れに警戒してください`,
+    ));
+  }
+  return tokens;
+};
+
+// 地震情報 (例: チャイム -> x時x分頃 地震がありました -> 震源地は〇〇です -> マグニチュード x -> 深さは x キロ -> 震度x 〇〇県 -> 津波の有無)
+const renderQuake = (data: P2PQuakeData): AnnouncementToken[] => {
+  const tokens: AnnouncementToken[] = [{ type: 'cue', cue: 'chime' }];
+  const quake = data.earthquake;
+  const hypo = quake.hypocenter;
+  const hasHypocenter = !!hypo?.name;
+
+  // 時刻
+  const time = quake.time ? parseP2PTime(quake.time) : NaN;
+  if (!isNaN(time) && hasHypocenter) {
+    const d = new Date(time);
+    tokens.push(speech([...readTime(d), "goro", "jishin", "arimasita"], `${d.getHours()}時${d.getMinutes()}分ごろ、地震がありました`));
+  } else {
+    // 震度速報 (震源未確定)
+    tokens.push(speech(["jishin", "sokuhou"], "地震速報です"));
+  }
+
+  if (hypo && hasHypocenter) {
+    tokens.push(hypocenterToken(hypo.name));
+    if (hypo.magnitude > 0) tokens.push(magnitudeToken(hypo.magnitude));
+    if (hypo.depth !== -1) {
+      tokens.push(hypo.depth === 0
+        ? speech(["fukasa", "gokuasai"], "深さはごく浅い")
+        : speech(["fukasa", ...readDistance(hypo.depth)], `深さは${hypo.depth}キロメートル`));
+    }
+  }
+
+  // 震度: 観測点があれば上位の震度と都道府県、なければ最大震度のみ
+  const groups = getAnnouncedPrefectures(data.points ?? []);
+  if (groups.length > 0) {
+    groups.forEach(({ scale, prefs }) => tokens.push(speech(
+      [...getIntensityKeys(SCALE_LABELS[scale]), ...prefs.map(placeKey)],
+      `震度${SCALE_LABELS[scale]}、${prefs.join('、')}`,
+    )));
+  } else if (SCALE_LABELS[quake.maxScale]) {
+    tokens.push(speech(["saidai", ...getIntensityKeys(SCALE_LABELS[quake.maxScale])], `最大震度${SCALE_LABELS[quake.maxScale]}`));
+  }
+
+  // 津波の有無
+  const tsunami = quake.domesticTsunami ? DOMESTIC_TSUNAMI_TOKENS[quake.domesticTsunami] : undefined;
+  if (tsunami) tokens.push(tsunami);
+  return tokens;
+};
+
+// 津波予報 (例: 警告音 -> 大津波警報が発表されました -> 対象地域 -> 直ちに避難してください)
+const renderTsunami = (forecast: TsunamiForecast): AnnouncementToken[] => {
+  if (forecast.cancelled || !forecast.maxGrade) {
+    return [{ type: 'cue', cue: 'notification' }, speech(["tsunami_keihou_chuuihou", "kaijo"], "津波警報・注意報は解除されました")];
+  }
+
+  const grade = forecast.maxGrade;
+  const areas = forecast.areas.filter(a => a.grade === grade).map(a => a.name);
+  const tokens: AnnouncementToken[] = [
+    { type: 'cue', cue: grade },
+    speech([TSUNAMI_VOICE_KEYS[grade], "happyou"], `${TSUNAMI_GRADE_LABELS[grade]}が発表されました`),
+  ];
+  if (areas.length > 0) {
+    const named = areas.slice(0, ANNOUNCED_AREA_LIMIT);
+    const rest = areas.length - named.length;
+    tokens.push(speech(named.map(placeKey), `対象は${named.join('、')}${rest > 0 ? `など${areas.length}区域` : ''}です`));
+  }
+  if (grade === 'MajorWarning' || grade === 'Warning') {
+    tokens.push(speech(["hinan"], "沿岸部の方は直ちに高台へ避難してください"));
+  }
+  return tokens;
+};
+
+// 現在地への主要動到達カウントダウン（0秒で到達の案内）
+const renderCountdown = (seconds: number): AnnouncementToken[] => {
+  if (seconds <= 0) return [speech(["toutatsu"], "揺れが到達します")];
+  if (seconds > 5) return [speech(["ato", ...readCount(seconds, 'byou')], `あと${seconds}秒`)];
+  return [speech(readInteger(seconds), `${seconds}`)];
+};
+
+export const renderAnnouncement = (announcement: Announcement): AnnouncementToken[] => {
+  switch (announcement.kind) {
+    case 'eew': return renderEEW(announcement.eew, announcement.phase);
+    case 'quake': return renderQuake(announcement.quake);
+    case 'tsunami': return renderTsunami(announcement.forecast);
+    case 'countdown': return renderCountdown(announcement.seconds);
+  }
+};
@@ -0,0 +1,315 @@
+import {
+  ArchivedEvent,
+  ArchivedMessage,
+  ArchiveQuery,
+  ArchiveSettings,
+  EEWEvent,
+  P2PMessage,
+  P2PQuakeData,
+  TsunamiForecast,
+  WolfxEEWData,
+} from '../types';
+import { parseP2PTime } from './feeds/P2PQuakeFeed';
+import { parseScale } from './intensityScale';
+
+const DB_NAME = 'quakeMonitor';
+const DB_VERSION = 1;
+const MESSAGE_STORE = 'messages';
+const EVENT_STORE = 'events';
+const SETTINGS_KEY = 'quakeMonitor.archiveSettings';
+
+// Frequent, short-lived P2P codes that get their own (shorter) retention
+const HIGH_VOLUME_CODES = [555, 561, 9611];
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = {
+  retentionDays: 30,
+  highVolumeRetentionHours: 24,
+};
+
+// IDBRequest -> Promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Builds the archive entry for a P2P 551 report.
+ */
+export const toQuakeEvent = (data: P2PQuakeData, receivedAt: number = Date.now()): ArchivedEvent => {
+  const hypo = data.earthquake.hypocenter;
+  const time = parseP2PTime(data.earthquake.time);
+  return {
+    id: data._id,
+    kind: 'quake',
+    time: isNaN(time) ? receivedAt : time,
+    receivedAt,
+    hypocenterName: hypo?.name || undefined,
+    latitude: hypo && hypo.latitude > -200 && hypo.latitude !== -1 ? hypo.latitude : undefined,
+    longitude: hypo && hypo.longitude > -200 && hypo.longitude !== -1 ? hypo.longitude : undefined,
+    magnitude: hypo && hypo.magnitude > 0 ? hypo.magnitude : undefined,
+    maxScale: data.earthquake.maxScale > 0 ? data.earthquake.maxScale : undefined,
+    regions: Array.from(new Set(data.points.map(p => p.pref))),
+    data,
+  };
+};
+
+/**
+ * Builds the archive entry for an EEW event (one entry per EventID, overwritten on update).
+ */
+export const toEEWEvent = (event: EEWEvent, receivedAt: number = Date.now()): ArchivedEvent => {
+  const eew = event.latest;
+  const time = eew.occurredTime ? new Date(eew.occurredTime).getTime() : NaN;
+  return {
+    id: `eew-${event.eventId}`,
+    kind: 'eew',
+    time: isNaN(time) ? event.firstReceivedAt : time,
+    receivedAt,
+    hypocenterName: eew.hypocenterName,
+    latitude: eew.latitude,
+    longitude: eew.longitude,
+    magnitude: eew.magnitude,
+    maxScale: parseScale(eew.maxIntensity),
+    regions: eew.areas,
+    data: event,
+  };
+};
+
+/**
+ * Builds the archive entry for a tsunami forecast.
+ */
+export const toTsunamiEvent = (forecast: TsunamiForecast, receivedAt: number = Date.now()): ArchivedEvent => {
+  const time = new Date(forecast.issuedAt).getTime();
+  return {
+    id: forecast.id,
+    kind: 'tsunami',
+    time: isNaN(time) ? receivedAt : time,
+    receivedAt,
+    regions: forecast.areas.map(a => a.name),
+    data: forecast,
+  };
+};
+
+const matchesQuery = (event: ArchivedEvent, query: ArchiveQuery): boolean => {
+  if (query.kinds && !query.kinds.includes(event.kind)) return false;
+  if (query.minScale !== undefined && (event.maxScale === undefined || event.maxScale < query.minScale)) return false;
+  if (query.minMagnitude !== undefined && (event.magnitude === undefined || event.magnitude < query.minMagnitude)) return false;
+  if (query.region) {
+    const region = query.region;
+    const inHypocenter = event.hypocenterName?.includes(region) ?? false;
+    if (!inHypocenter && !event.regions.some(r => r.includes(region))) return false;
+  }
+  return true;
+};
+
+/**
+ * Persistent archive of received messages and derived events.
+ * All methods fail soft (log and resolve) when IndexedDB is unavailable,
+ * so the app keeps working in private browsing and similar environments.
+ */
+export class EventArchive {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private settings: ArchiveSettings = DEFAULT_ARCHIVE_SETTINGS;
+
+  constructor() {
+    try {
+      const raw = localStorage.getItem(SETTINGS_KEY);
+      if (raw) this.settings = { ...DEFAULT_ARCHIVE_SETTINGS, ...JSON.parse(raw) };
+    } catch (e) {
+      console.warn("Failed to load archive settings", e);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MESSAGE_STORE)) {
+          const messages = db.createObjectStore(MESSAGE_STORE, { keyPath: 'id' });
+          messages.createIndex('receivedAt', 'receivedAt');
+        }
+        if (!db.objectStoreNames.contains(EVENT_STORE)) {
+          const events = db.createObjectStore(EVENT_STORE, { keyPath: 'id' });
+          events.createIndex('time', 'time');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Failed to open archive database", request.error);
+        resolve(null);
+      };
+    });
+    return this.dbPromise;
+  }
+
+  public getSettings(): ArchiveSettings {
+    return this.settings;
+  }
+
+  public updateSettings(settings: ArchiveSettings) {
+    this.settings = settings;
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.warn("Failed to save archive settings", e);
+    }
+    this.prune();
+  }
+
+  public async putP2PMessage(data: P2PMessage, receivedAt: number = Date.now()) {
+    await this.putMessage({ id: data._id, source: 'p2p', code: data.code, receivedAt, payload: data });
+  }
+
+  public async putWolfxMessage(data: WolfxEEWData, receivedAt: number = Date.now()) {
+    const id = `wolfx-${data.EventID}-${data.Serial ?? data.AnnouncedTime}`;
+    await this.putMessage({ id, source: 'wolfx', receivedAt, payload: data });
+  }
+
+  private async putMessage(message: ArchivedMessage) {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      const tx = db.transaction(MESSAGE_STORE, 'readwrite');
+      tx.objectStore(MESSAGE_STORE).put(message);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to archive message", e);
+    }
+  }
+
+  public async putEvent(event: ArchivedEvent) {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      const tx = db.transaction(EVENT_STORE, 'readwrite');
+      tx.objectStore(EVENT_STORE).put(event);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to archive event", e);
+    }
+  }
+
+  /**
+   * Derived events matching the query, newest first.
+   */
+  public async queryEvents(query: ArchiveQuery = {}): Promise<ArchivedEvent[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const range = query.from !== undefined || query.to !== undefined
+      ? IDBKeyRange.bound(query.from ?? 0, query.to ?? Number.MAX_SAFE_INTEGER)
+      : undefined;
+
+    try {
+      const tx = db.transaction(EVENT_STORE, 'readonly');
+      const index = tx.objectStore(EVENT_STORE).index('time');
+      const results: ArchivedEvent[] = [];
+      await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor(range, 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (query.limit !== undefined && results.length >= query.limit)) {
+            resolve();
+            return;
+          }
+          const event = cursor.value as ArchivedEvent;
+          if (matchesQuery(event, query)) results.push(event);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+      return results;
+    } catch (e) {
+      console.warn("Failed to query archive", e);
+      return [];
+    }
+  }
+
+  /**
+   * Raw messages received in [from, to], oldest first.
+   */
+  public async queryMessages(from: number, to: number = Date.now()): Promise<ArchivedMessage[]> {
+    const db = await this.open();
+    if (!db) return [];
+    try {
+      const tx = db.transaction(MESSAGE_STORE, 'readonly');
+      const index = tx.objectStore(MESSAGE_STORE).index('receivedAt');
+      return await promisify(index.getAll(IDBKeyRange.bound(from, to))) as ArchivedMessage[];
+    } catch (e) {
+      console.warn("Failed to query archive", e);
+      return [];
+    }
+  }
+
+  public async countEvents(): Promise<number> {
+    const db = await this.open();
+    if (!db) return 0;
+    try {
+      return await promisify(db.transaction(EVENT_STORE, 'readonly').objectStore(EVENT_STORE).count());
+    } catch (e) {
+      return 0;
+    }
+  }
+
+  /**
+   * Deletes everything older than the retention settings.
+   */
+  public async prune(now: number = Date.now()) {
+    const db = await this.open();
+    if (!db) return;
+
+    const cutoff = now - this.settings.retentionDays * 24 * 60 * 60 * 1000;
+    const highVolumeCutoff = now - this.settings.highVolumeRetentionHours * 60 * 60 * 1000;
+
+    try {
+      const tx = db.transaction([MESSAGE_STORE, EVENT_STORE], 'readwrite');
+      tx.objectStore(EVENT_STORE).index('time').openCursor(IDBKeyRange.upperBound(cutoff)).onsuccess = function () {
+        const cursor = this.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+      tx.objectStore(MESSAGE_STORE).index('receivedAt').openCursor(IDBKeyRange.upperBound(Math.max(cutoff, highVolumeCutoff))).onsuccess = function () {
+        const cursor = this.result;
+        if (!cursor) return;
+        const message = cursor.value as ArchivedMessage;
+        if (message.receivedAt <= cutoff || (message.code !== undefined && HIGH_VOLUME_CODES.includes(message.code))) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to prune archive", e);
+    }
+  }
+
+  public async clear() {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      const tx = db.transaction([MESSAGE_STORE, EVENT_STORE], 'readwrite');
+      tx.objectStore(MESSAGE_STORE).clear();
+      tx.objectStore(EVENT_STORE).clear();
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to clear archive", e);
+    }
+  }
+}
+
+export const eventArchive = new EventArchive();
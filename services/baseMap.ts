@@ -0,0 +1,73 @@
+import type { FeatureCollection, Geometry } from 'geojson';
+import { BaseMapLOD, JapanBaseMap } from '../types';
+import { Topology, topologyToFeatures } from './topojson';
+
+// Generated by scripts/generate-base-map.mjs into public/maps/ (served under the app's base path)
+const BUNDLED_MAP_DIR = `${import.meta.env.BASE_URL}maps/`;
+
+// Minimum zoom (d3-zoom k) per level of detail. Optional levels are only bundled when
+// the maps are generated with extra data (municipality boundaries for 'high').
+export const BASE_MAP_LODS: { lod: BaseMapLOD, minZoom: number, optional?: boolean }[] = [
+  { lod: 'low', minZoom: 0 },
+  { lod: 'mid', minZoom: 3 },
+  { lod: 'high', minZoom: 10, optional: true },
+];
+
+// Optional levels that failed to load are skipped for the rest of the session
+const unavailableLods = new Set<BaseMapLOD>();
+
+export const getLODForZoom = (k: number): BaseMapLOD => {
+  let lod: BaseMapLOD = 'low';
+  BASE_MAP_LODS.forEach(l => { if (k >= l.minZoom && !unavailableLods.has(l.lod)) lod = l.lod; });
+  return lod;
+};
+
+const fetchTopology = async (url: string): Promise<Topology> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  const data = await res.json(); // Also fails on an SPA fallback page
+  if (data?.type !== 'Topology') throw new Error(`${url} is not TopoJSON`);
+  return data as Topology;
+};
+
+const japanCache = new Map<BaseMapLOD, Promise<JapanBaseMap>>();
+let worldCache: Promise<FeatureCollection<Geometry | null>> | null = null;
+
+const loadBundledJapan = async (lod: BaseMapLOD): Promise<JapanBaseMap> => {
+  const topology = await fetchTopology(`${BUNDLED_MAP_DIR}japan-${lod}.topo.json`);
+  return {
+    lod,
+    prefectures: topologyToFeatures(topology, 'prefectures'),
+    coastline: topology.objects.coastline ? topologyToFeatures(topology, 'coastline') : null,
+    municipalities: topology.objects.municipalities ? topologyToFeatures(topology, 'municipalities') : null,
+  };
+};
+
+/**
+ * Japan base map at the given level of detail. Rejects if the file can't be
+ * loaded, so the caller can keep showing what it has. Failed loads are not cached.
+ */
+export const loadJapanBaseMap = (lod: BaseMapLOD): Promise<JapanBaseMap> => {
+  const cached = japanCache.get(lod);
+  if (cached) return cached;
+
+  const promise = loadBundledJapan(lod);
+  japanCache.set(lod, promise);
+  promise.catch(() => {
+    japanCache.delete(lod);
+    if (BASE_MAP_LODS.some(l => l.lod === lod && l.optional)) unavailableLods.add(lod);
+  });
+  return promise;
+};
+
+/**
+ * World countries (GeoJSON FeatureCollection, properties.name).
+ */
+export const loadWorldBaseMap = (): Promise<FeatureCollection<Geometry | null>> => {
+  if (worldCache) return worldCache;
+  const promise = fetchTopology(`${BUNDLED_MAP_DIR}world-low.topo.json`)
+    .then(topology => topologyToFeatures(topology, 'countries'));
+  worldCache = promise;
+  promise.catch(() => { worldCache = null; });
+  return promise;
+};
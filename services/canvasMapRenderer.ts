@@ -0,0 +1,290 @@
+import * as d3 from 'd3';
+import type { Geometry } from 'geojson';
+
+// Marker in projected (unzoomed) coordinates; drawn at a fixed screen size
+export interface MapMarker {
+  id: string;
+  x: number;
+  y: number;
+  type: 'intensity' | 'epicenter' | 'user';
+  scale?: number;
+}
+
+export interface MapLine {
+  geometry: Geometry;
+  color: string;
+}
+
+/**
+ * Box color / label / text color of an intensity marker (JMA scale code).
+ */
+export const getIntensityMarkerStyle = (scale: number): { color: string, text: string, textColor: string } => {
+  switch (scale) {
+    case 10: return { color: '#64748b', text: '1', textColor: '#fff' };
+    case 20: return { color: '#3b82f6', text: '2', textColor: '#fff' };
+    case 30: return { color: '#1d4ed8', text: '3', textColor: '#fff' };
+    case 40: return { color: '#facc15', text: '4', textColor: '#0f172a' };
+    case 45: return { color: '#f97316', text: '5-', textColor: '#0f172a' };
+    case 50: return { color: '#ea580c', text: '5+', textColor: '#0f172a' };
+    case 55: return { color: '#dc2626', text: '6-', textColor: '#fff' };
+    case 60: return { color: '#b91c1c', text: '6+', textColor: '#fff' };
+    case 70: return { color: '#7e22ce', text: '7', textColor: '#fff' };
+    default: return { color: '#334155', text: '?', textColor: '#fff' };
+  }
+};
+
+const PREF_FILL = '#0f172a';
+
+/**
+ * Canvas counterpart of the SVG map layers, for low-end displays.
+ *
+ * Uses the same projection as the SVG map; features are projected once into
+ * Path2D objects and each frame only applies the d3-zoom transform, so panning
+ * and zooming never touch per-feature DOM. Layers mirror the SVG order: world,
+ * prefectures, estimated intensity grid, intensity regions (clipped to their
+ * prefecture), municipality boundaries and coastlines, tsunami forecast lines,
+ * wave fronts, markers, debug dots. Draws are coalesced per frame.
+ */
+export class CanvasMapRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private pathGenerator: d3.GeoPath<any, any>;
+  private transform: d3.ZoomTransform = d3.zoomIdentity;
+  private frame: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  private world: Path2D[] = [];
+  private prefectures: { name?: string, path: Path2D }[] = [];
+  private prefectureFills: string[] = [];
+  private regions: { name: string, clip: Path2D | undefined, path: Path2D }[] = [];
+  private regionFills = new Map<string, string>();
+  private regionOutlines = true;
+  private japanOutline: Path2D | null = null; // Union of prefectures, clips the intensity grid
+  private intensityCells: { x: number, y: number, width: number, height: number, color: string }[] = [];
+  private municipalities: Path2D | null = null;
+  private coastline: Path2D | null = null;
+  private tsunamiLines: { path: Path2D, color: string }[] = [];
+  private waves: { path: Path2D, color: string }[] = [];
+  private markers: MapMarker[] = [];
+  private debugMarkers: { x: number, y: number }[] = [];
+
+  constructor(private canvas: HTMLCanvasElement, projection: d3.GeoProjection) {
+    this.ctx = canvas.getContext('2d')!;
+    this.pathGenerator = d3.geoPath().projection(projection);
+    this.resize();
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.resize());
+      this.resizeObserver.observe(canvas);
+    }
+  }
+
+  setBaseMap(worldFeatures: any[], japanFeatures: any[], regionFeatures: any[], lines: { coastline: any | null, municipalities: any | null }) {
+    this.world = worldFeatures.map(f => this.toPath(f));
+    this.prefectures = japanFeatures.map(f => ({
+      name: f.properties?.nam_ja || f.properties?.name_ja,
+      path: this.toPath(f),
+    }));
+    this.japanOutline = new Path2D();
+    this.prefectures.forEach(p => this.japanOutline!.addPath(p.path));
+    const clips = new Map(this.prefectures.filter(p => p.name).map(p => [p.name!, p.path]));
+    this.regions = regionFeatures
+      .filter(f => clips.has(f.properties.pref))
+      .map(f => ({ name: f.properties.name, clip: clips.get(f.properties.pref), path: this.toPath(f) }));
+    this.municipalities = lines.municipalities ? this.toPath(lines.municipalities) : null;
+    this.coastline = lines.coastline ? this.toPath(lines.coastline) : null;
+    this.prefectureFills = [];
+    this.requestDraw();
+  }
+
+  /** Fill per prefecture, in the order passed to setBaseMap(). */
+  setPrefectureFills(fills: string[]) {
+    this.prefectureFills = fills;
+    this.requestDraw();
+  }
+
+  /** Estimated intensity cells, as projected rectangles. */
+  setIntensityCells(cells: { x: number, y: number, width: number, height: number, color: string }[]) {
+    this.intensityCells = cells;
+    this.requestDraw();
+  }
+
+  /** Fill per intensity region name; unlisted regions are not drawn. */
+  setRegionFills(fills: Map<string, string>, outlined: boolean) {
+    this.regionFills = fills;
+    this.regionOutlines = outlined;
+    this.requestDraw();
+  }
+
+  setTsunamiLines(lines: MapLine[]) {
+    this.tsunamiLines = lines.map(l => ({ path: this.toPath(l.geometry), color: l.color }));
+    this.requestDraw();
+  }
+
+  setWaves(waves: MapLine[]) {
+    this.waves = waves.map(w => ({ path: this.toPath(w.geometry), color: w.color }));
+    this.requestDraw();
+  }
+
+  setMarkers(markers: MapMarker[]) {
+    this.markers = markers;
+    this.requestDraw();
+  }
+
+  setDebugMarkers(points: { x: number, y: number }[]) {
+    this.debugMarkers = points;
+    this.requestDraw();
+  }
+
+  setTransform(transform: d3.ZoomTransform) {
+    this.transform = transform;
+    this.requestDraw();
+  }
+
+  destroy() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.resizeObserver?.disconnect();
+  }
+
+  private resize() {
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = this.canvas.getBoundingClientRect();
+    this.canvas.width = Math.max(1, Math.round(width * dpr));
+    this.canvas.height = Math.max(1, Math.round(height * dpr));
+    this.requestDraw();
+  }
+
+  private toPath(geo: any): Path2D {
+    return new Path2D(this.pathGenerator(geo) || '');
+  }
+
+  private requestDraw() {
+    if (this.frame !== null) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.draw();
+    });
+  }
+
+  private draw() {
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
+    const { x, y, k } = this.transform;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    // Map space: line widths are divided by k to stay constant on screen
+    ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * x, dpr * y);
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+
+    ctx.fillStyle = '#1e293b';
+    ctx.strokeStyle = '#334155';
+    ctx.lineWidth = 0.5 / k;
+    this.world.forEach(p => { ctx.fill(p); ctx.stroke(p); });
+
+    ctx.strokeStyle = '#475569';
+    ctx.lineWidth = 0.8 / k;
+    this.prefectures.forEach((p, i) => {
+      ctx.fillStyle = this.prefectureFills[i] || PREF_FILL;
+      ctx.fill(p.path);
+      ctx.stroke(p.path);
+    });
+
+    if (this.intensityCells.length > 0 && this.japanOutline) {
+      ctx.save();
+      ctx.clip(this.japanOutline);
+      ctx.globalAlpha = 0.55;
+      this.intensityCells.forEach(c => {
+        ctx.fillStyle = c.color;
+        ctx.fillRect(c.x, c.y, c.width, c.height);
+      });
+      ctx.restore();
+    }
+
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 0.5 / k;
+    this.regions.forEach(r => {
+      const fill = this.regionFills.get(r.name);
+      if (!fill || !r.clip) return;
+      ctx.save();
+      ctx.clip(r.clip);
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = fill;
+      ctx.fill(r.path);
+      ctx.globalAlpha = 1;
+      if (this.regionOutlines) ctx.stroke(r.path);
+      ctx.restore();
+    });
+
+    if (this.municipalities) {
+      ctx.strokeStyle = '#334155';
+      ctx.lineWidth = 0.3 / k;
+      ctx.stroke(this.municipalities);
+    }
+    if (this.coastline) {
+      ctx.strokeStyle = '#64748b';
+      ctx.lineWidth = 0.8 / k;
+      ctx.stroke(this.coastline);
+    }
+
+    ctx.lineWidth = 4 / k;
+    this.tsunamiLines.forEach(l => { ctx.strokeStyle = l.color; ctx.stroke(l.path); });
+
+    ctx.lineWidth = 2 / k;
+    this.waves.forEach(w => { ctx.strokeStyle = w.color; ctx.stroke(w.path); });
+
+    // Screen space for fixed-size markers
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    this.markers.forEach(m => this.drawMarker(m, x + m.x * k, y + m.y * k));
+
+    ctx.fillStyle = '#06b6d4';
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 0.5;
+    this.debugMarkers.forEach(d => {
+      ctx.beginPath();
+      ctx.arc(x + d.x * k, y + d.y * k, 3, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+
+  private drawMarker(m: MapMarker, sx: number, sy: number) {
+    const ctx = this.ctx;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    if (m.type === 'intensity') {
+      const style = getIntensityMarkerStyle(m.scale ?? -1);
+      ctx.beginPath();
+      ctx.roundRect(sx - 10, sy - 10, 20, 20, 4);
+      ctx.fillStyle = style.color;
+      ctx.fill();
+      ctx.strokeStyle = '#0f172a';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.font = 'bold 12px sans-serif';
+      ctx.fillStyle = style.textColor;
+      ctx.fillText(style.text, sx, sy);
+    } else if (m.type === 'epicenter') {
+      ctx.font = 'bold 42px sans-serif';
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 4;
+      ctx.strokeText('×', sx, sy);
+      ctx.fillStyle = '#ef4444';
+      ctx.fillText('×', sx, sy);
+    } else {
+      ctx.beginPath();
+      ctx.arc(sx, sy, 12, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(14, 165, 233, 0.25)';
+      ctx.fill();
+      ctx.beginPath();
+      ctx.arc(sx, sy, 5, 0, Math.PI * 2);
+      ctx.fillStyle = '#0ea5e9';
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Announcement } from '../types';
+import { renderAnnouncement } from './announcements';
+import { TSUNAMI_GRADE_LABELS } from './tsunami';
+
+// Desktop notifications (Notification API). The body is the announcement's spoken text.
+
+const EEW_TITLES = {
+  start: '緊急地震速報',
+  update: '緊急地震速報',
+  final: '緊急地震速報（最終報）',
+  cancel: '緊急地震速報（取消）',
+};
+
+export const isNotificationSupported = () => typeof Notification !== 'undefined';
+
+/**
+ * Asks for permission if it has not been decided yet. Resolves true when notifications can be shown.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission !== 'default') return Notification.permission === 'granted';
+  try {
+    return (await Notification.requestPermission()) === 'granted';
+  } catch (e) {
+    console.warn("Notification permission request failed", e);
+    return false;
+  }
+};
+
+const describe = (announcement: Announcement): { title: string; tag: string } | null => {
+  switch (announcement.kind) {
+    case 'eew': {
+      const { eew, phase } = announcement;
+      const title = phase === 'start' || phase === 'update'
+        ? `${EEW_TITLES[phase]}（${eew.isWarning ? '警報' : '予報'}）`
+        : EEW_TITLES[phase];
+      return { title, tag: `eew-${eew.eventId ?? ''}` };
+    }
+    case 'quake':
+      return { title: '地震情報', tag: `quake-${announcement.quake.earthquake.time}` };
+    case 'tsunami': {
+      const grade = announcement.forecast.maxGrade;
+      return { title: grade ? TSUNAMI_GRADE_LABELS[grade] : '津波情報', tag: 'tsunami' };
+    }
+    case 'countdown':
+      return null;
+  }
+};
+
+/**
+ * Shows a notification for an announcement; later ones for the same event replace it.
+ */
+export const showAnnouncementNotification = (announcement: Announcement) => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+  const info = describe(announcement);
+  if (!info) return;
+
+  const body = renderAnnouncement(announcement)
+    .map(token => token.type === 'speech' ? token.text : '')
+    .filter(text => text)
+    .join('。');
+  try {
+    new Notification(info.title, { body, tag: info.tag, lang: 'ja' });
+  } catch (e) {
+    console.warn("Failed to show notification", e);
+  }
+};
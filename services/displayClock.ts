@@ -0,0 +1,11 @@
+// Time source for what is on screen (countdowns, wave fronts, "recent" checks).
+// Live it is the wall clock; during a replay it is the replay's virtual time,
+// so the display looks the way it did when the messages arrived.
+
+let clock: (() => number) | null = null;
+
+export const displayNow = (): number => (clock ? clock() : Date.now());
+
+export const setDisplayClock = (fn: (() => number) | null) => {
+  clock = fn;
+};
@@ -0,0 +1,11 @@
+/**
+ * Saves text as a file through a temporary object URL (exports, drill scenarios).
+ */
+export const downloadTextFile = (filename: string, text: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
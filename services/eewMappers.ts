@@ -0,0 +1,138 @@
+import { EEWForecastArea, EEWState, JMASeismicIntensity, P2PEEWData, P2PEEWDetectionData, WolfxEEWData } from '../types';
+import { parseP2PTime } from './feeds/P2PQuakeFeed';
+import { formatScale } from './intensityScale';
+
+const toISOTime = (p2pTime: string | undefined): string | undefined => {
+  if (!p2pTime) return undefined;
+  const t = parseP2PTime(p2pTime);
+  return isNaN(t) ? undefined : new Date(t).toISOString();
+};
+
+/**
+ * P2P code 556 (緊急地震速報・警報) -> EEWState.
+ * P2P only relays warnings, so isWarning is always true.
+ */
+export const mapP2PEEW = (data: P2PEEWData): EEWState => {
+  const serial = parseInt(data.issue.serial, 10);
+  const ids = { eventId: data.issue.eventId, serial: isNaN(serial) ? undefined : serial };
+
+  if (data.cancelled) {
+    return { isActive: false, isWarning: false, isFinal: true, isCancelled: true, areas: [], source: 'p2p', ...ids, updatedTime: Date.now() };
+  }
+
+  const hypo = data.earthquake?.hypocenter;
+  // scaleTo 99 means "scaleFrom 程度以上", so rank by scaleFrom
+  const maxScale = data.areas.reduce<JMASeismicIntensity>((max, a) => a.scaleFrom > max ? a.scaleFrom : max, JMASeismicIntensity.Unknown);
+  const prefs = Array.from(new Set(data.areas.map(a => a.pref)));
+  const forecastAreas: EEWForecastArea[] = data.areas.map(a => ({
+    name: a.name,
+    intensityFrom: formatScale(a.scaleFrom),
+    intensityTo: a.scaleTo === 99 ? '以上' : formatScale(a.scaleTo),
+    arrivalTime: toISOTime(a.arrivalTime),
+    hasArrived: a.kindCode === '11',
+    isWarning: true,
+  }));
+  const hasLocation = hypo && hypo.latitude > -200 && hypo.longitude > -200;
+
+  return {
+    isActive: true,
+    isWarning: true,
+    isFinal: false,
+    source: 'p2p',
+    ...ids,
+    hypocenterName: hypo?.name,
+    magnitude: hypo && hypo.magnitude !== -1 ? hypo.magnitude : undefined,
+    depth: hypo && hypo.depth !== -1 ? hypo.depth : undefined,
+    latitude: hasLocation ? hypo!.latitude : undefined,
+    longitude: hasLocation ? hypo!.longitude : undefined,
+    isAssumedHypocenter: data.earthquake?.condition === '仮定震源要素',
+    maxIntensity: formatScale(maxScale),
+    areas: prefs,
+    forecastAreas,
+    occurredTime: toISOTime(data.earthquake?.originTime),
+    announcedTime: toISOTime(data.issue.time),
+    title: '緊急地震速報（警報）',
+    updatedTime: Date.now(),
+  };
+};
+
+/**
+ * P2P code 554: peers detected an EEW being issued, without any parameters.
+ * Used only to raise an early, unconfirmed banner when no other source is active.
+ */
+export const mapP2PEEWDetection = (data: P2PEEWDetectionData): EEWState => ({
+  isActive: true,
+  isWarning: false,
+  isFinal: false,
+  source: 'p2p-detection',
+  areas: [],
+  title: data.type === 'Full' ? '緊急地震速報 発表検出' : '緊急地震速報 発表検出（チャイムのみ）',
+  updatedTime: Date.now(),
+});
+
+const parseNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(value.replace(/[^0-9.\-]/g, ''));
+  return isNaN(n) ? undefined : n;
+};
+
+// Wolfx uses "不明" for unknown intensities
+const parseWolfxIntensity = (value: string | undefined): string | undefined =>
+  value && value !== '不明' ? value : undefined;
+
+/**
+ * Wolfx jma_eew -> EEWState.
+ */
+export const mapWolfxEEW = (data: WolfxEEWData): EEWState => {
+  const ids = { eventId: data.EventID, serial: data.Serial };
+
+  if (data.isCancel || data.Title.includes("取消")) {
+    return { isActive: false, isWarning: false, isFinal: true, isCancelled: true, areas: [], source: 'wolfx', ...ids, updatedTime: Date.now() };
+  }
+  const isWarning = data.isWarn ?? (data.Title.includes("警報") || data.Title.includes("Warning"));
+
+  // Magnitude is "Magunitude" (sic) in the current schema
+  const mag = parseNumber(data.Magunitude ?? data.Magnitude);
+  // Depth is numeric, or a string like "10km" in older payloads
+  const depth = parseNumber(data.Depth);
+
+  const forecastAreas: EEWForecastArea[] = (data.WarnArea || []).map(a => ({
+    name: a.Chiiki,
+    intensityFrom: parseWolfxIntensity(a.Shindo2),
+    intensityTo: parseWolfxIntensity(a.Shindo1),
+    arrivalTime: toISOTime(a.Time) ?? a.Time,
+    hasArrived: a.Arrive,
+    isWarning: a.Type === '警報',
+  }));
+
+  const hasLocation = typeof data.Latitude === 'number' && typeof data.Longitude === 'number';
+  const announcedTime = toISOTime(data.AnnouncedTime);
+
+  return {
+    isActive: true,
+    isWarning: isWarning,
+    isFinal: data.isFinal || false,
+    source: 'wolfx',
+    ...ids,
+    hypocenterName: data.Hypocenter,
+    magnitude: mag,
+    depth: depth,
+    latitude: hasLocation ? data.Latitude : undefined,
+    longitude: hasLocation ? data.Longitude : undefined,
+    isAssumedHypocenter: data.isAssumption || false,
+    isSea: data.isSea,
+    accuracy: data.Accuracy ? {
+      epicenter: data.Accuracy.Epicenter,
+      depth: data.Accuracy.Depth,
+      magnitude: data.Accuracy.Magnitude,
+    } : undefined,
+    maxIntensity: parseWolfxIntensity(data.MaxIntensity),
+    areas: forecastAreas.map(a => a.name),
+    forecastAreas,
+    // Waves start at the origin time, not when the report was announced
+    occurredTime: toISOTime(data.OriginTime) ?? announcedTime,
+    announcedTime,
+    title: data.Title,
+    updatedTime: Date.now() // Track for timeout
+  };
+};
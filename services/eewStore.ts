@@ -0,0 +1,145 @@
+import { EEWEvent, EEWReport, EEWState } from '../types';
+
+// Events with no update for this long are no longer shown
+export const EEW_INACTIVITY_TIMEOUT_MS = 20000;
+// Inactive events are kept this long for their history, then dropped
+const EEW_RETENTION_MS = 60 * 60 * 1000;
+
+// Key used for P2P 554 detections, which carry no EventID
+const DETECTION_EVENT_ID = 'p2p-detection';
+
+export const INACTIVE_EEW: EEWState = { isActive: false, isWarning: false, isFinal: false, areas: [] };
+
+const toReport = (state: EEWState, receivedAt: number): EEWReport => ({
+  serial: state.serial,
+  source: state.source,
+  receivedAt,
+  isWarning: state.isWarning,
+  isFinal: !!state.isFinal,
+  isCancelled: !!state.isCancelled,
+  hypocenterName: state.hypocenterName,
+  magnitude: state.magnitude,
+  depth: state.depth,
+  maxIntensity: state.maxIntensity,
+});
+
+const unionAreas = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+/**
+ * Merges a new report into an event's current state.
+ * Wolfx is the primary source for parameters; P2P (556) only contributes
+ * warning areas when Wolfx already covers the event. Stale (lower serial)
+ * reports from the same source never overwrite newer ones.
+ */
+const mergeLatest = (current: EEWState, update: EEWState): EEWState => {
+  if (update.isCancelled) {
+    return { ...current, ...update, isActive: false, areas: [] };
+  }
+
+  if (current.source === 'wolfx' && update.source === 'p2p') {
+    return {
+      ...current,
+      isWarning: current.isWarning || update.isWarning,
+      areas: unionAreas(current.areas, update.areas),
+      forecastAreas: current.forecastAreas?.length ? current.forecastAreas : update.forecastAreas,
+      updatedTime: update.updatedTime,
+    };
+  }
+
+  const isStale = current.source === update.source
+    && current.serial !== undefined && update.serial !== undefined
+    && update.serial < current.serial;
+  if (isStale) return current;
+
+  return {
+    ...update,
+    // Warnings are never downgraded within an event, and known areas are kept
+    isWarning: update.isWarning || current.isWarning,
+    areas: unionAreas(current.areas, update.areas),
+    forecastAreas: update.forecastAreas ?? current.forecastAreas,
+  };
+};
+
+/**
+ * Adds one EEW report (already mapped to EEWState) to the store.
+ * Returns a new array; events are ordered newest first.
+ */
+export const applyEEWUpdate = (events: EEWEvent[], update: EEWState, now: number = Date.now()): EEWEvent[] => {
+  const eventId = update.eventId ?? (update.source === 'p2p-detection' ? DETECTION_EVENT_ID : `unknown-${now}`);
+
+  if (eventId === DETECTION_EVENT_ID) {
+    // A bare detection is only useful while nothing better is known
+    if (events.some(e => e.latest.isActive && e.eventId !== DETECTION_EVENT_ID)) return events;
+  }
+
+  const stamped: EEWState = { ...update, eventId, updatedTime: update.updatedTime ?? now };
+  const existing = events.find(e => e.eventId === eventId);
+  // A real event supersedes the placeholder detection
+  const others = events.filter(e => e.eventId !== eventId && (eventId === DETECTION_EVENT_ID || e.eventId !== DETECTION_EVENT_ID));
+
+  if (!existing) {
+    const created: EEWEvent = {
+      eventId,
+      firstReceivedAt: now,
+      reports: [toReport(stamped, now)],
+      latest: stamped,
+      hasEscalated: false,
+    };
+    return [created, ...others];
+  }
+
+  const latest = mergeLatest(existing.latest, stamped);
+  const updated: EEWEvent = {
+    ...existing,
+    reports: [...existing.reports, toReport(stamped, now)],
+    latest,
+    hasEscalated: existing.hasEscalated || (!existing.latest.isWarning && latest.isWarning),
+  };
+  return [updated, ...others];
+};
+
+/**
+ * Deactivates events that have not been updated recently and drops old ones.
+ * Returns the same array instance when nothing changed.
+ */
+export const expireEEWEvents = (events: EEWEvent[], now: number = Date.now()): EEWEvent[] => {
+  let changed = false;
+  const result: EEWEvent[] = [];
+  events.forEach(e => {
+    const updatedTime = e.latest.updatedTime ?? e.firstReceivedAt;
+    if (now - updatedTime > EEW_RETENTION_MS) {
+      changed = true;
+      return;
+    }
+    if (e.latest.isActive && now - updatedTime > EEW_INACTIVITY_TIMEOUT_MS) {
+      changed = true;
+      result.push({ ...e, latest: { ...e.latest, isActive: false, areas: [] } });
+      return;
+    }
+    result.push(e);
+  });
+  return changed ? result : events;
+};
+
+/**
+ * Active events, most important first: warnings before forecasts, then most recently updated.
+ */
+export const getActiveEEWs = (events: EEWEvent[]): EEWState[] =>
+  events
+    .filter(e => e.latest.isActive)
+    .map(e => e.latest)
+    .sort((a, b) => {
+      if (a.isWarning !== b.isWarning) return a.isWarning ? -1 : 1;
+      return (b.updatedTime ?? 0) - (a.updatedTime ?? 0);
+    });
+
+/**
+ * The single EEW used for audio and header layout.
+ * Falls back to the most recently updated event so final/cancel transitions are visible.
+ */
+export const selectPrimaryEEW = (events: EEWEvent[]): EEWState => {
+  const active = getActiveEEWs(events);
+  if (active.length > 0) return active[0];
+  if (events.length > 0) return { ...events[0].latest, isActive: false };
+  return INACTIVE_EEW;
+};
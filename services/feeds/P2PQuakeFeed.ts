@@ -0,0 +1,131 @@
+import { P2PMessage } from '../../types';
+import { WebSocketFeed, WebSocketFeedOptions } from './QuakeFeed';
+
+export const P2P_WS_URL = 'wss://api.p2pquake.net/v2/ws';
+export const P2P_API_BASE = 'https://api.p2pquake.net/v2';
+
+const SUPPORTED_CODES = [551, 552, 554, 555, 556, 561, 9611];
+// Only reports that stay relevant after an outage are backfilled.
+// EEW (554/556) and peer/user reports (555/561/9611) are too short-lived to replay.
+const BACKFILL_CODES = [551, 552];
+
+// Backfill paging limits (the history API returns newest first)
+const BACKFILL_PAGE_SIZE = 100;
+const BACKFILL_MAX_PAGES = 5;
+// Number of recent _ids kept for de-duplication
+const SEEN_ID_LIMIT = 500;
+
+export interface P2PQuakeFeedOptions extends Partial<WebSocketFeedOptions> {
+  apiBaseUrl?: string;
+}
+
+/**
+ * P2P Quake timestamps look like "2024/01/01 16:10:05.123" (JST, no offset).
+ */
+export const parseP2PTime = (time: string): number => {
+  if (/^\d{4}\/\d{2}\/\d{2} /.test(time)) {
+    return new Date(time.replace(/\//g, '-').replace(' ', 'T') + '+09:00').getTime();
+  }
+  return new Date(time).getTime();
+};
+
+/**
+ * P2P地震情報 WebSocket adapter.
+ * Forwards 551 (地震情報), 552 (津波予報), 554/556 (緊急地震速報),
+ * 555 (ピア数) and 561/9611 (地震感知情報).
+ * After a reconnect, reports issued during the outage are recovered from the
+ * history API and replayed in chronological order.
+ */
+export class P2PQuakeFeed extends WebSocketFeed<P2PMessage> {
+  public readonly id = 'p2p';
+  public readonly name = 'P2P地震情報';
+
+  private apiBaseUrl: string;
+  private seenIds: string[] = [];
+  private lastReceivedTime: number | null = null;
+  private firstConnectedAt: number | null = null;
+  private isBackfilling: boolean = false;
+
+  constructor(options: P2PQuakeFeedOptions = {}) {
+    // P2P has no application-level heartbeat, but peer statistics (code 555)
+    // arrive regularly, so a long silence still indicates a dead stream.
+    super({
+      staleAfterMs: 15 * 60 * 1000,
+      idleTimeoutMs: 30 * 60 * 1000,
+      ...options,
+      url: options.url ?? P2P_WS_URL,
+    });
+    this.apiBaseUrl = options.apiBaseUrl ?? P2P_API_BASE;
+  }
+
+  protected parseMessage(raw: string): P2PMessage | null {
+    const data = JSON.parse(raw) as P2PMessage;
+    if (!SUPPORTED_CODES.includes(data.code)) return null;
+    if (!this.markSeen(data)) return null;
+    return data;
+  }
+
+  protected onConnected(isReconnect: boolean) {
+    if (this.firstConnectedAt === null) this.firstConnectedAt = Date.now();
+    if (isReconnect) {
+      this.backfill().catch(e => console.error(`[${this.id}] Backfill failed`, e));
+    }
+  }
+
+  /**
+   * Records the report as received. Returns false if it was already seen.
+   * Only backfillable codes are tracked; everything else always passes.
+   */
+  private markSeen(data: P2PMessage): boolean {
+    if (!BACKFILL_CODES.includes(data.code)) return true;
+    if (this.seenIds.includes(data._id)) return false;
+    this.seenIds.push(data._id);
+    if (this.seenIds.length > SEEN_ID_LIMIT) this.seenIds.shift();
+
+    const t = parseP2PTime(data.time);
+    if (!isNaN(t) && (this.lastReceivedTime === null || t > this.lastReceivedTime)) {
+      this.lastReceivedTime = t;
+    }
+    return true;
+  }
+
+  /**
+   * Fetches reports newer than the last one received and replays them oldest first.
+   */
+  private async backfill() {
+    if (this.isBackfilling) return;
+    // Read synchronously from onConnected, before any post-reconnect frame updates it
+    const since = this.lastReceivedTime ?? this.firstConnectedAt;
+    if (since === null) return;
+
+    this.isBackfilling = true;
+    try {
+      const missed: P2PMessage[] = [];
+      const codes = BACKFILL_CODES.map(c => `codes=${c}`).join('&');
+
+      pages:
+      for (let page = 0; page < BACKFILL_MAX_PAGES; page++) {
+        const url = `${this.apiBaseUrl}/history?${codes}&limit=${BACKFILL_PAGE_SIZE}&offset=${page * BACKFILL_PAGE_SIZE}`;
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`History API returned ${res.status}`);
+        const items = await res.json() as P2PMessage[];
+
+        for (const item of items) {
+          if (parseP2PTime(item.time) <= since) break pages;
+          // Already delivered live since the socket came back
+          if (this.seenIds.includes(item._id)) continue;
+          missed.push(item);
+        }
+        if (items.length < BACKFILL_PAGE_SIZE) break;
+      }
+
+      missed
+        .sort((a, b) => parseP2PTime(a.time) - parseP2PTime(b.time))
+        .forEach(item => {
+          if (this.markSeen(item)) this.emit(item, { replayed: true });
+        });
+    } finally {
+      this.isBackfilling = false;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FeedStatus } from '../../types';
+import { computeBackoffDelay, WebSocketFeed, WebSocketFeedOptions } from './QuakeFeed';
+
+// Stands in for the browser WebSocket: the test drives open/message/close by hand
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: string[] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(data: string) {
+    this.onmessage?.({ data });
+  }
+}
+
+class TestFeed extends WebSocketFeed<string> {
+  public readonly id = 'test';
+  public readonly name = 'Test';
+
+  protected parseMessage(raw: string) {
+    return raw === 'keepalive' ? null : raw;
+  }
+
+  protected getHeartbeatPayload() {
+    return 'ping';
+  }
+}
+
+const lastSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const createFeed = (options: Partial<WebSocketFeedOptions> = {}) => {
+  const feed = new TestFeed({
+    url: 'ws://localhost/test',
+    initialReconnectDelayMs: 1000,
+    maxReconnectDelayMs: 8000,
+    staleAfterMs: 10000,
+    idleTimeoutMs: 20000,
+    ...options,
+  });
+  const states: FeedStatus['state'][] = [];
+  feed.onStatusChange(status => {
+    if (states[states.length - 1] !== status.state) states.push(status.state);
+  });
+  return { feed, states };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeWebSocket.instances = [];
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('computeBackoffDelay', () => {
+  it('stays within [base/2, base] for the lowest and highest jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoffDelay(0, 1000, 8000)).toBe(500);
+    expect(computeBackoffDelay(2, 1000, 8000)).toBe(2000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(computeBackoffDelay(0, 1000, 8000)).toBe(1000);
+    expect(computeBackoffDelay(2, 1000, 8000)).toBe(4000);
+  });
+
+  it('caps the base at the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(computeBackoffDelay(10, 1000, 8000)).toBe(8000);
+  });
+});
+
+describe('WebSocketFeed', () => {
+  it('reconnects with a growing jittered delay and resets it after a successful open', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const { feed } = createFeed();
+    feed.connect();
+
+    lastSocket().close();
+    expect(feed.getStatus()).toMatchObject({ state: 'backoff', reconnectAttempts: 1, nextRetryAt: Date.now() + 500 });
+
+    vi.advanceTimersByTime(499);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    lastSocket().close();
+    expect(feed.getStatus()).toMatchObject({ state: 'backoff', reconnectAttempts: 2, nextRetryAt: Date.now() + 1000 });
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    lastSocket().open();
+    expect(feed.getStatus()).toMatchObject({ state: 'connected', reconnectAttempts: 0 });
+
+    lastSocket().close();
+    expect(feed.getStatus().nextRetryAt).toBe(Date.now() + 500);
+    feed.disconnect();
+  });
+
+  it('goes stale after staleAfterMs of silence and back to connected on the next frame', () => {
+    const { feed, states } = createFeed();
+    feed.connect();
+    lastSocket().open();
+
+    vi.advanceTimersByTime(10000);
+    expect(feed.getStatus().state).toBe('connected');
+    vi.advanceTimersByTime(1000);
+    expect(feed.getStatus().state).toBe('stale');
+
+    // Keep-alives are dropped by the adapter but still count as activity
+    lastSocket().receive('keepalive');
+    expect(feed.getStatus().state).toBe('connected');
+    expect(states).toEqual(['disconnected', 'connecting', 'connected', 'stale', 'connected']);
+    feed.disconnect();
+  });
+
+  it('drops a silent socket after idleTimeoutMs and opens a new one', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const { feed } = createFeed();
+    feed.connect();
+    const first = lastSocket();
+    first.open();
+
+    vi.advanceTimersByTime(20000);
+    expect(first.closed).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(first.closed).toBe(true);
+    expect(feed.getStatus().state).toBe('backoff');
+
+    vi.advanceTimersByTime(500);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(feed.getStatus().state).toBe('connecting');
+    feed.disconnect();
+  });
+
+  it('sends the heartbeat payload only while the socket is open', () => {
+    const { feed } = createFeed({ heartbeatIntervalMs: 5000 });
+    feed.connect();
+    const socket = lastSocket();
+    socket.open();
+
+    vi.advanceTimersByTime(10000);
+    expect(socket.sent).toEqual(['ping', 'ping']);
+    feed.disconnect();
+  });
+
+  it('emits parsed messages and skips dropped frames', () => {
+    const { feed } = createFeed();
+    const received: string[] = [];
+    feed.onMessage((message, meta) => {
+      expect(meta.replayed).toBe(false);
+      received.push(message);
+    });
+    feed.connect();
+    lastSocket().open();
+    lastSocket().receive('a');
+    lastSocket().receive('keepalive');
+    lastSocket().receive('b');
+
+    expect(received).toEqual(['a', 'b']);
+    expect(feed.getStatus().messageCount).toBe(3);
+    feed.disconnect();
+  });
+
+  it('does not reconnect after disconnect()', () => {
+    const { feed } = createFeed();
+    feed.connect();
+    lastSocket().open();
+    feed.disconnect();
+
+    vi.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(feed.getStatus().state).toBe('disconnected');
+  });
+});
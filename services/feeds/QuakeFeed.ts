@@ -0,0 +1,270 @@
+import { FeedStatus } from '../../types';
+
+export interface FeedMessageMeta {
+  /** True for messages recovered after the fact (e.g. gap backfill), which must not trigger alerts */
+  replayed: boolean;
+}
+
+export type FeedMessageListener<T> = (message: T, meta: FeedMessageMeta) => void;
+export type FeedStatusListener = (status: FeedStatus) => void;
+
+/**
+ * A live data source (WebSocket stream etc.) that delivers parsed messages.
+ * Adapters implement this so the app can add, swap or mock feeds without
+ * touching the component tree.
+ */
+export interface QuakeFeed<T> {
+  readonly id: string;
+  readonly name: string;
+  connect(): void;
+  disconnect(): void;
+  getStatus(): FeedStatus;
+  /** Returns an unsubscribe function */
+  onMessage(listener: FeedMessageListener<T>): () => void;
+  /** Returns an unsubscribe function */
+  onStatusChange(listener: FeedStatusListener): () => void;
+}
+
+export interface WebSocketFeedOptions {
+  url: string;
+  /** First reconnect delay; doubled on every consecutive failure */
+  initialReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** No frame for this long while open -> status becomes 'stale' */
+  staleAfterMs?: number;
+  /** No frame for this long while open -> socket is dropped and reconnected */
+  idleTimeoutMs?: number;
+  /** Interval for sending the adapter's heartbeat payload (0 = never) */
+  heartbeatIntervalMs?: number;
+}
+
+const WATCHDOG_INTERVAL_MS = 1000;
+
+/**
+ * Full-jitter exponential backoff: a random delay in [base/2, base],
+ * where base = initial * 2^attempt capped at max.
+ */
+export const computeBackoffDelay = (attempt: number, initialMs: number, maxMs: number): number => {
+  const base = Math.min(maxMs, initialMs * Math.pow(2, attempt));
+  return Math.round(base / 2 + Math.random() * (base / 2));
+};
+
+/**
+ * Shared WebSocket plumbing for feed adapters.
+ * Subclasses only need to turn a raw frame into a message (or null to ignore it).
+ */
+export abstract class WebSocketFeed<T> implements QuakeFeed<T> {
+  public abstract readonly id: string;
+  public abstract readonly name: string;
+
+  protected url: string;
+  protected initialReconnectDelayMs: number;
+  protected maxReconnectDelayMs: number;
+  protected staleAfterMs: number;
+  protected idleTimeoutMs: number;
+  protected heartbeatIntervalMs: number;
+
+  private ws: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private watchdogTimer: number | null = null;
+  private heartbeatTimer: number | null = null;
+  private shouldRun: boolean = false;
+  private hasConnected: boolean = false;
+  private status: FeedStatus;
+  private messageListeners = new Set<FeedMessageListener<T>>();
+  private statusListeners = new Set<FeedStatusListener>();
+
+  constructor(options: WebSocketFeedOptions) {
+    this.url = options.url;
+    this.initialReconnectDelayMs = options.initialReconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 60000;
+    this.staleAfterMs = options.staleAfterMs ?? 90000;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 180000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 0;
+    this.status = {
+      state: 'disconnected',
+      messageCount: 0,
+      reconnectAttempts: 0,
+    };
+  }
+
+  /**
+   * Parse a raw WebSocket frame. Return null for frames that should be dropped
+   * (unsupported message types, keep-alives, ...).
+   */
+  protected abstract parseMessage(raw: string): T | null;
+
+  /**
+   * Payload sent every heartbeatIntervalMs to keep the connection alive and
+   * provoke a reply. Return null if the server has no application-level ping.
+   */
+  protected getHeartbeatPayload(): string | null {
+    return null;
+  }
+
+  public connect() {
+    this.shouldRun = true;
+    this.clearReconnectTimer();
+    this.open();
+  }
+
+  public disconnect() {
+    this.shouldRun = false;
+    this.clearReconnectTimer();
+    this.teardownSocket();
+    this.updateStatus({ state: 'disconnected', nextRetryAt: undefined });
+  }
+
+  public getStatus(): FeedStatus {
+    return this.status;
+  }
+
+  public onMessage(listener: FeedMessageListener<T>) {
+    this.messageListeners.add(listener);
+    return () => { this.messageListeners.delete(listener); };
+  }
+
+  public onStatusChange(listener: FeedStatusListener) {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  protected updateStatus(patch: Partial<FeedStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.statusListeners.forEach(l => l(this.status));
+  }
+
+  protected emit(message: T, meta: FeedMessageMeta = { replayed: false }) {
+    this.messageListeners.forEach(l => l(message, meta));
+  }
+
+  /**
+   * Called after the socket opens. isReconnect is false only for the very
+   * first successful connection of this feed.
+   */
+  protected onConnected(isReconnect: boolean) {}
+
+  private open() {
+    this.updateStatus({ state: 'connecting', nextRetryAt: undefined });
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url);
+    } catch (e) {
+      console.error(`[${this.id}] Failed to open WebSocket`, e);
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      const isReconnect = this.hasConnected;
+      this.hasConnected = true;
+      this.updateStatus({ state: 'connected', connectedAt: Date.now(), reconnectAttempts: 0 });
+      this.startTimers();
+      this.onConnected(isReconnect);
+    };
+    ws.onmessage = (event) => {
+      this.updateStatus({
+        state: 'connected',
+        lastMessageAt: Date.now(),
+        messageCount: this.status.messageCount + 1,
+      });
+      let message: T | null = null;
+      try {
+        message = this.parseMessage(typeof event.data === 'string' ? event.data : String(event.data));
+      } catch (e) {
+        console.error(`[${this.id}] Parse Error`, e);
+      }
+      if (message) this.emit(message);
+    };
+    ws.onclose = () => {
+      this.stopTimers();
+      this.ws = null;
+      this.scheduleReconnect();
+    };
+    ws.onerror = () => ws.close();
+  }
+
+  private startTimers() {
+    this.stopTimers();
+    this.watchdogTimer = window.setInterval(() => this.checkIdle(), WATCHDOG_INTERVAL_MS);
+
+    if (this.heartbeatIntervalMs > 0) {
+      this.heartbeatTimer = window.setInterval(() => {
+        const payload = this.getHeartbeatPayload();
+        if (payload !== null && this.ws?.readyState === WebSocket.OPEN) {
+          this.ws.send(payload);
+        }
+      }, this.heartbeatIntervalMs);
+    }
+  }
+
+  private stopTimers() {
+    if (this.watchdogTimer) {
+      window.clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      window.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * An open socket can silently stop delivering data (half-open TCP, stalled proxy).
+   * Flag it as stale first, then force a reconnect if it stays silent.
+   */
+  private checkIdle() {
+    if (!this.ws || this.status.state === 'connecting') return;
+    const lastActivity = Math.max(this.status.lastMessageAt ?? 0, this.status.connectedAt ?? 0);
+    const idleMs = Date.now() - lastActivity;
+
+    if (idleMs > this.idleTimeoutMs) {
+      console.warn(`[${this.id}] No data for ${Math.round(idleMs / 1000)}s, reconnecting`);
+      // Closing triggers onclose -> scheduleReconnect
+      this.ws.close();
+    } else if (idleMs > this.staleAfterMs && this.status.state !== 'stale') {
+      this.updateStatus({ state: 'stale' });
+    }
+  }
+
+  private teardownSocket() {
+    this.stopTimers();
+    if (this.ws) {
+      // Detach handlers first so the close doesn't schedule a reconnect
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onclose = null;
+      this.ws.onerror = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldRun) {
+      this.updateStatus({ state: 'disconnected', nextRetryAt: undefined });
+      return;
+    }
+    const attempt = this.status.reconnectAttempts;
+    const delay = computeBackoffDelay(attempt, this.initialReconnectDelayMs, this.maxReconnectDelayMs);
+    this.updateStatus({
+      state: 'backoff',
+      nextRetryAt: Date.now() + delay,
+      reconnectAttempts: attempt + 1,
+    });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { WolfxEEWData } from '../../types';
+import { WebSocketFeed, WebSocketFeedOptions } from './QuakeFeed';
+
+export const WOLFX_WS_URL = 'wss://ws-api.wolfx.jp/jma_eew';
+
+/**
+ * Wolfx JMA EEW WebSocket adapter.
+ */
+export class WolfxFeed extends WebSocketFeed<WolfxEEWData> {
+  public readonly id = 'wolfx';
+  public readonly name = 'Wolfx EEW';
+
+  constructor(options: Partial<WebSocketFeedOptions> = {}) {
+    // Wolfx pushes {"type":"heartbeat"} roughly every minute and answers "ping" with "pong",
+    // so more than 90s of silence means the stream is not really alive.
+    super({
+      staleAfterMs: 90 * 1000,
+      idleTimeoutMs: 150 * 1000,
+      heartbeatIntervalMs: 30 * 1000,
+      ...options,
+      url: options.url ?? WOLFX_WS_URL,
+    });
+  }
+
+  protected getHeartbeatPayload() {
+    return 'ping';
+  }
+
+  protected parseMessage(raw: string): WolfxEEWData | null {
+    if (raw === 'pong') return null;
+    const data = JSON.parse(raw);
+    // heartbeat / pong frames only refresh lastMessageAt (handled by the base class)
+    if (data.Type === 'jma_eew' || data.type === 'jma_eew') {
+      return data as WolfxEEWData;
+    }
+    return null;
+  }
+}
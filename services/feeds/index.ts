@@ -0,0 +1,17 @@
+import { P2PQuakeFeed } from './P2PQuakeFeed';
+import { WolfxFeed } from './WolfxFeed';
+
+export type { QuakeFeed, FeedMessageMeta } from './QuakeFeed';
+export { WebSocketFeed } from './QuakeFeed';
+export { P2PQuakeFeed, P2P_WS_URL, P2P_API_BASE, parseP2PTime } from './P2PQuakeFeed';
+export { WolfxFeed, WOLFX_WS_URL } from './WolfxFeed';
+
+/**
+ * Creates the feeds used by the app.
+ * URLs can be overridden (e.g. to point at a local mock WebSocket server)
+ * via P2P_WS_URL / WOLFX_WS_URL in .env.local.
+ */
+export const createDefaultFeeds = () => ({
+  p2p: new P2PQuakeFeed({ url: process.env.P2P_WS_URL || undefined }),
+  wolfx: new WolfxFeed({ url: process.env.WOLFX_WS_URL || undefined }),
+});
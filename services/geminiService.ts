@@ -1,20 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
-import { JMASeismicIntensity, P2PQuakeData } from "../types";
-
-const formatIntensity = (scale: JMASeismicIntensity): string => {
-  switch (scale) {
-    case 10: return "1";
-    case 20: return "2";
-    case 30: return "3";
-    case 40: return "4";
-    case 45: return "5弱";
-    case 50: return "5強";
-    case 55: return "6弱";
-    case 60: return "6強";
-    case 70: return "7";
-    default: return "不明";
-  }
-};
+import { P2PQuakeData } from "../types";
+import { formatScale } from "./intensityScale";
+import { getDomesticTsunamiLabel } from "./tsunami";
 
 export const getEarthquakeAdvice = async (quake: P2PQuakeData): Promise<string> => {
   if (!process.env.API_KEY) {
@@ -24,7 +11,7 @@ export const getEarthquakeAdvice = async (quake: P2PQuakeData): Promise<string>
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const model = "gemini-3-flash-preview";
 
-  const intensityStr = formatIntensity(quake.earthquake.maxScale);
+  const intensityStr = formatScale(quake.earthquake.maxScale) ?? "不明";
   const location = quake.earthquake.hypocenter?.name || "不明な地域";
   
   const depthVal = quake.earthquake.hypocenter?.depth;
@@ -32,9 +19,7 @@ export const getEarthquakeAdvice = async (quake: P2PQuakeData): Promise<string>
   
   const mag = quake.earthquake.hypocenter?.magnitude !== -1 ? `M${quake.earthquake.hypocenter?.magnitude}` : "不明";
   
-  const tsunamiInfo = quake.earthquake.domesticTsunami === "None" 
-    ? "津波の心配なし" 
-    : quake.earthquake.domesticTsunami;
+  const tsunamiInfo = getDomesticTsunamiLabel(quake.earthquake.domesticTsunami) ?? "津波の心配なし";
 
   const prompt = `
     只今、日本で地震が発生しました。以下の情報に基づき、被災地域または周辺地域の人々に向けた、簡潔で落ち着いた安全確保のアドバイスを3つ箇条書きで提供してください。
@@ -0,0 +1,169 @@
+import { P2PQuakeData, IntensityGrid, IntensityGridCell, JMASeismicIntensity } from '../types';
+import { SOFT_GROUND_AREAS, UPLAND_AVS30 } from '../constants/siteConditions';
+import { estimateIntensity, distanceKm, siteAmplificationFromAVS30 } from './seismology';
+import { stationResolver } from './stationResolver';
+import { GeoGrid, stationIndex } from './spatialIndex';
+
+// Grid resolution (about 10km)
+const CELL_DEG = 0.1;
+// Padding around observations / epicenter, degrees
+const GRID_MARGIN_DEG = 1.0;
+// Observations influence cells up to this distance
+const INFLUENCE_RADIUS_KM = 50;
+// Cells farther than this from any known station/municipality are treated as sea
+const LAND_MASK_KM = 30;
+// Minimum distance in the inverse-distance weights, to avoid spikes at stations
+const MIN_WEIGHT_DISTANCE_KM = 5;
+// Attenuation grids kept for the most recent hypocenters (reports of one event share one)
+const PREDICTION_CACHE_SIZE = 4;
+
+// Representative value of each observed class (midpoint of its range)
+const SCALE_VALUES: { [scale: number]: number } = {
+  [JMASeismicIntensity.Scale10]: 1.0,
+  [JMASeismicIntensity.Scale20]: 2.0,
+  [JMASeismicIntensity.Scale30]: 3.0,
+  [JMASeismicIntensity.Scale40]: 4.0,
+  [JMASeismicIntensity.Scale45]: 4.75,
+  [JMASeismicIntensity.Scale50]: 5.25,
+  [JMASeismicIntensity.Scale55]: 5.75,
+  [JMASeismicIntensity.Scale60]: 6.25,
+  [JMASeismicIntensity.Scale70]: 6.75,
+};
+
+interface Source {
+  lat: number;
+  lon: number;
+  depth: number;
+  magnitude: number;
+}
+
+interface CellSite {
+  land: boolean;
+  amplification: number;
+}
+
+const UPLAND_AMPLIFICATION = siteAmplificationFromAVS30(UPLAND_AVS30);
+
+// Site amplification from the coarse ground classes (plains/basins vs uplands)
+const siteAmplificationAt = (lat: number, lon: number): number => {
+  const area = SOFT_GROUND_AREAS.find(({ bbox: [minLat, minLon, maxLat, maxLon] }) =>
+    lat >= minLat && lat <= maxLat && lon >= minLon && lon <= maxLon);
+  return area ? siteAmplificationFromAVS30(area.avs30) : UPLAND_AMPLIFICATION;
+};
+
+// Land mask and amplification depend only on the cell, so they are worked out once per cell
+const cellSites = new Map<string, CellSite>();
+const cellSite = (i: number, j: number): CellSite => {
+  const key = `${i},${j}`;
+  let site = cellSites.get(key);
+  if (!site) {
+    const lat = (i + 0.5) * CELL_DEG;
+    const lon = (j + 0.5) * CELL_DEG;
+    site = {
+      land: !!stationIndex.nearest(lat, lon, LAND_MASK_KM),
+      amplification: siteAmplificationAt(lat, lon),
+    };
+    cellSites.set(key, site);
+  }
+  return site;
+};
+
+// Attenuation estimates per cell, memoized by hypocenter and magnitude
+const predictionCache = new Map<string, Map<string, number>>();
+const cellPredictions = (source: Source): Map<string, number> => {
+  const key = `${source.lat},${source.lon},${source.depth},${source.magnitude}`;
+  let predictions = predictionCache.get(key);
+  if (predictions) {
+    predictionCache.delete(key); // Re-inserted below as the most recent
+  } else {
+    predictions = new Map();
+    if (predictionCache.size >= PREDICTION_CACHE_SIZE) predictionCache.delete(predictionCache.keys().next().value);
+  }
+  predictionCache.set(key, predictions);
+  return predictions;
+};
+
+const predictAt = (source: Source, lat: number, lon: number, amplification: number) =>
+  estimateIntensity(source.magnitude, source.depth, distanceKm(source.lat, source.lon, lat, lon), amplification);
+
+interface Observation {
+  lat: number;
+  lon: number;
+  intensity: number;
+  residual: number; // Observed minus attenuation estimate (0 without a hypocenter)
+}
+
+/**
+ * Estimated intensity surface for an earthquake report (推計震度分布).
+ *
+ * With a known hypocenter and magnitude, each cell starts from the attenuation
+ * estimate (with the cell's site amplification, see constants/siteConditions.ts) and is corrected by the inverse-distance
+ * weighted residuals of nearby observations, fading to the plain estimate away
+ * from stations. Without them, observations are interpolated directly and cells
+ * beyond the influence radius are left out. Cells far from any known place are
+ * dropped as sea. Returns null when no point resolves below prefecture level.
+ */
+export const estimateIntensityGrid = (quake: P2PQuakeData): IntensityGrid | null => {
+  const hypo = quake.earthquake.hypocenter;
+  const source: Source | null = hypo && hypo.latitude > -200 && hypo.longitude > -200 && hypo.latitude !== -1 && hypo.longitude !== -1 && hypo.magnitude > 0
+    ? { lat: hypo.latitude, lon: hypo.longitude, depth: Math.max(0, hypo.depth), magnitude: hypo.magnitude }
+    : null;
+  const predictions = source ? cellPredictions(source) : null;
+
+  const observations: Observation[] = [];
+  (quake.points || []).forEach(p => {
+    const intensity = SCALE_VALUES[p.scale];
+    if (intensity === undefined) return;
+    const r = stationResolver.resolve(p.addr, { pref: p.pref });
+    if (!r || r.level === 'prefecture') return; // Prefecture fallbacks are too coarse to place
+    const residual = source ? intensity - predictAt(source, r.lat, r.lon, siteAmplificationAt(r.lat, r.lon)) : 0;
+    observations.push({ lat: r.lat, lon: r.lon, intensity, residual });
+  });
+  if (observations.length === 0) return null;
+
+  const observationIndex = new GeoGrid(observations);
+  const priorWeight = 1 / INFLUENCE_RADIUS_KM ** 2; // Pulls the residual back to 0 away from stations
+
+  const lats = observations.map(o => o.lat).concat(source ? [source.lat] : []);
+  const lons = observations.map(o => o.lon).concat(source ? [source.lon] : []);
+  const minLat = Math.max(20, Math.min(...lats) - GRID_MARGIN_DEG);
+  const maxLat = Math.min(46, Math.max(...lats) + GRID_MARGIN_DEG);
+  const minLon = Math.max(122, Math.min(...lons) - GRID_MARGIN_DEG);
+  const maxLon = Math.min(154, Math.max(...lons) + GRID_MARGIN_DEG);
+
+  const cells: IntensityGridCell[] = [];
+  for (let i = Math.floor(minLat / CELL_DEG); i * CELL_DEG <= maxLat; i++) {
+    for (let j = Math.floor(minLon / CELL_DEG); j * CELL_DEG <= maxLon; j++) {
+      const lat = (i + 0.5) * CELL_DEG;
+      const lon = (j + 0.5) * CELL_DEG;
+      const site = cellSite(i, j);
+      if (!site.land) continue;
+
+      const nearby = observationIndex.withinRadius(lat, lon, INFLUENCE_RADIUS_KM);
+      if (!source && nearby.length === 0) continue;
+
+      let weightSum = 0, weighted = 0;
+      nearby.forEach(o => {
+        const w = 1 / Math.max(MIN_WEIGHT_DISTANCE_KM, distanceKm(lat, lon, o.lat, o.lon)) ** 2;
+        weightSum += w;
+        weighted += w * (source ? o.residual : o.intensity);
+      });
+
+      let predicted = 0;
+      if (source) {
+        const key = `${i},${j}`;
+        predicted = predictions.get(key);
+        if (predicted === undefined) {
+          predicted = predictAt(source, lat, lon, site.amplification);
+          predictions.set(key, predicted);
+        }
+      }
+
+      const intensity = source
+        ? predicted + weighted / (weightSum + priorWeight)
+        : weighted / weightSum;
+      if (intensity >= 0.5) cells.push({ lat, lon, intensity: Math.min(7, intensity) });
+    }
+  }
+  return { cellDeg: CELL_DEG, cells };
+};
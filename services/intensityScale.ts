@@ -0,0 +1,21 @@
+import { JMASeismicIntensity } from '../types';
+
+// JMA scale -> label as written in reports
+export const SCALE_LABELS: { [scale: number]: string } = {
+  10: "1", 20: "2", 30: "3", 40: "4", 45: "5弱", 50: "5強", 55: "6弱", 60: "6強", 70: "7",
+};
+
+// Report labels, lowest first
+export const INTENSITY_LABELS: string[] = Object.values(SCALE_LABELS);
+
+// Label -> JMA scale; the "5-" / "5+" forms come from some EEW feeds
+export const INTENSITY_SCALES: { [label: string]: JMASeismicIntensity } = {
+  "1": 10, "2": 20, "3": 30, "4": 40,
+  "5弱": 45, "5-": 45, "5強": 50, "5+": 50,
+  "6弱": 55, "6-": 55, "6強": 60, "6+": 60, "7": 70,
+};
+
+export const formatScale = (scale: JMASeismicIntensity): string | undefined => SCALE_LABELS[scale];
+
+export const parseScale = (label: string | undefined): JMASeismicIntensity | undefined =>
+  label ? INTENSITY_SCALES[label] : undefined;
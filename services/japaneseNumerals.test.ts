@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { readCount, readDecimal, readDistance, readDuration, readInteger, readingOf, readTime } from './japaneseNumerals';
+
+describe('readInteger', () => {
+  it.each([
+    [0, 'ゼロ'],
+    [11, 'じゅういち'],
+    [300, 'さんびゃく'],
+    [608, 'ろっぴゃくはち'],
+    [1000, 'せん'],
+    [3800, 'さんぜんはっぴゃく'],
+    [8000, 'はっせん'],
+    [10000000, 'いっせんまん'],
+    [123456789, 'いちおくにせんさんびゃくよんじゅうごまんろくせんななひゃくはちじゅうきゅう'],
+  ])('%i -> %s', (value, reading) => {
+    expect(readingOf(readInteger(value))).toBe(reading);
+  });
+});
+
+describe('readCount', () => {
+  it.each([
+    [1, 'いっぷん'],
+    [2, 'にふん'],
+    [3, 'さんぷん'],
+    [5, 'ごふん'],
+    [6, 'ろっぷん'],
+    [8, 'はっぷん'],
+    [10, 'じゅっぷん'],
+    [20, 'にじゅっぷん'],
+    [100, 'ひゃっぷん'],
+    [300, 'さんびゃっぷん'],
+    [600, 'ろっぴゃっぷん'],
+    [800, 'はっぴゃっぷん'],
+    [1000, 'せんぷん'],
+    [3000, 'さんぜんぷん'],
+  ])('%i分 -> %s', (value, reading) => {
+    expect(readingOf(readCount(value, 'fun'))).toBe(reading);
+  });
+
+  it.each([
+    [0, 'れいじ'],
+    [4, 'よじ'],
+    [7, 'しちじ'],
+    [9, 'くじ'],
+    [11, 'じゅういちじ'],
+  ])('%i時 -> %s', (value, reading) => {
+    expect(readingOf(readCount(value, 'ji'))).toBe(reading);
+  });
+
+  it('changes the number before キロメートル but not before 秒', () => {
+    expect(readingOf(readCount(8, 'km'))).toBe('はっキロメートル');
+    expect(readingOf(readCount(300, 'km'))).toBe('さんびゃっキロメートル');
+    expect(readingOf(readCount(8, 'byou'))).toBe('はちびょう');
+  });
+});
+
+describe('compound readings', () => {
+  it('reads decimals digit by digit after the point', () => {
+    expect(readingOf(readDecimal(7.0))).toBe('ななてんれい');
+    expect(readingOf(readDecimal(1.5))).toBe('いってんご');
+    expect(readingOf(readDecimal(0.5))).toBe('れいてんご');
+  });
+
+  it('reads clock times in twelve-hour form', () => {
+    expect(readingOf(readTime(new Date(2024, 0, 1, 12, 0)))).toBe('ごごれいじれいふん');
+    expect(readingOf(readTime(new Date(2024, 0, 1, 9, 31)))).toBe('ごぜんくじさんじゅういっぷん');
+  });
+
+  it('reads distances and durations', () => {
+    expect(readingOf(readDistance(99.6))).toBe('ひゃっキロメートル');
+    expect(readingOf(readDuration(90))).toBe('いっぷんさんじゅうびょう');
+    expect(readingOf(readDuration(45))).toBe('よんじゅうごびょう');
+  });
+});
@@ -0,0 +1,161 @@
+import { VOICE_CLIP_KEYS } from '../constants/voiceKeys';
+
+// 数詞の読み上げ -> 音声素材のキー列
+// 助数詞の前で音が変わる数（いっぷん、ろっぴゃく、はっせん、じゅっキロ など）は別の素材キーを使う。
+// 純粋な関数のみなので、readingOf() でかなに戻して読みを確認できる
+
+export type JapaneseCounter = 'ji' | 'fun' | 'byou' | 'km' | 'point';
+
+const MAN = 10000;
+const OKU = 100000000;
+// 億の位まで（それ以上は読み上げに使わない）
+const MAX_INTEGER = 1000000000000 - 1;
+
+// 百・千の連濁と促音化: さんびゃく、ろっぴゃく、はっぴゃく、さんぜん、はっせん
+const IRREGULAR_HUNDREDS: { [digit: number]: string } = { 3: "300", 6: "600", 8: "800" };
+const IRREGULAR_THOUSANDS: { [digit: number]: string } = { 3: "3000", 8: "8000" };
+
+// 助数詞ごとに、直前の素材（数の最後の要素）と助数詞自体の読みの変化
+// 例: 分 1 -> いっ + ぷん、3 -> さん + ぷん、5 -> ご + ふん
+const COUNTER_RULES: { [counter in JapaneseCounter]: { default: string; [last: string]: string | [string, string] } } = {
+  ji: {
+    default: "ji",
+    "0": ["0_rei", "ji"],
+    "4": ["4_yo", "ji"],
+    "7": ["7_shichi", "ji"],
+    "9": ["9_ku", "ji"],
+  },
+  fun: {
+    default: "fun",
+    "0": ["0_rei", "fun"],
+    "1": ["1_geminate", "pun"],
+    "3": ["3", "pun"],
+    "4": ["4", "pun"],
+    "6": ["6_geminate", "pun"],
+    "8": ["8_geminate", "pun"],
+    "10": ["10_geminate", "pun"],
+    "100": ["100_geminate", "pun"],
+    "300": ["300_geminate", "pun"],
+    "600": ["600_geminate", "pun"],
+    "800": ["800_geminate", "pun"],
+    "1000": ["1000", "pun"],
+    "3000": ["3000", "pun"],
+    "8000": ["8000", "pun"],
+    "10000": ["10000", "pun"],
+  },
+  byou: {
+    default: "byou",
+  },
+  km: {
+    default: "km",
+    "6": ["6_geminate", "km"],
+    "8": ["8_geminate", "km"],
+    "10": ["10_geminate", "km"],
+    "100": ["100_geminate", "km"],
+    "300": ["300_geminate", "km"],
+    "600": ["600_geminate", "km"],
+    "800": ["800_geminate", "km"],
+  },
+  point: {
+    default: "point",
+    "0": ["0_rei", "point"],
+    "1": ["1_geminate", "point"],
+    "8": ["8_geminate", "point"],
+    "10": ["10_geminate", "point"],
+  },
+};
+
+/**
+ * 1〜9999 の読み。group は万・億の前（千が「いっせん」になる）
+ */
+const readBelowMan = (n: number, group: boolean): string[] => {
+  const keys: string[] = [];
+  const thousand = Math.floor(n / 1000);
+  const hundred = Math.floor(n / 100) % 10;
+  const ten = Math.floor(n / 10) % 10;
+  const one = n % 10;
+
+  if (thousand === 1) keys.push(...(group ? ["1_geminate", "1000"] : ["1000"]));
+  else if (IRREGULAR_THOUSANDS[thousand]) keys.push(IRREGULAR_THOUSANDS[thousand]);
+  else if (thousand > 1) keys.push(`${thousand}`, "1000");
+
+  if (hundred === 1) keys.push("100");
+  else if (IRREGULAR_HUNDREDS[hundred]) keys.push(IRREGULAR_HUNDREDS[hundred]);
+  else if (hundred > 1) keys.push(`${hundred}`, "100");
+
+  if (ten === 1) keys.push("10");
+  else if (ten > 1) keys.push(`${ten}`, "10");
+
+  if (one > 0) keys.push(`${one}`);
+  return keys;
+};
+
+/**
+ * 整数の読み（0〜9999億9999万9999）。小数部は切り捨て、範囲外は丸める
+ */
+export const readInteger = (value: number): string[] => {
+  const n = Math.min(MAX_INTEGER, Math.max(0, Math.floor(value)));
+  if (n === 0) return ["0"];
+
+  const oku = Math.floor(n / OKU);
+  const man = Math.floor(n / MAN) % MAN;
+  const rest = n % MAN;
+  const keys: string[] = [];
+  if (oku > 0) keys.push(...readBelowMan(oku, true), "100000000");
+  if (man > 0) keys.push(...readBelowMan(man, true), "10000");
+  if (rest > 0) keys.push(...readBelowMan(rest, false));
+  return keys;
+};
+
+/**
+ * 助数詞付きの読み（例: 1分 -> いっぷん、8キロメートル -> はっキロメートル）
+ */
+export const readCount = (value: number, counter: JapaneseCounter): string[] => {
+  const keys = readInteger(value);
+  const rules = COUNTER_RULES[counter];
+  const rule = rules[keys[keys.length - 1]];
+  if (Array.isArray(rule)) return [...keys.slice(0, -1), ...rule];
+  return [...keys, rules.default];
+};
+
+/**
+ * 小数の読み（例: 7.0 -> ななてんれい、0.5 -> れいてんご）。小数部は一桁ずつ読む
+ */
+export const readDecimal = (value: number, fractionDigits: number = 1): string[] => {
+  const [integer, fraction = ''] = Math.max(0, value).toFixed(fractionDigits).split('.');
+  if (!fraction) return readInteger(Number(integer));
+  return [
+    ...readCount(Number(integer), 'point'),
+    ...fraction.split('').map(d => d === '0' ? "0_rei" : d),
+  ];
+};
+
+/**
+ * 時刻の読み（例: ごご さんじ れいふん）。正午は「ごご れいじ」
+ */
+export const readTime = (date: Date): string[] => {
+  const h = date.getHours();
+  return [h < 12 ? "gozen" : "gogo", ...readCount(h % 12, 'ji'), ...readCount(date.getMinutes(), 'fun')];
+};
+
+/**
+ * 距離（キロメートル、整数に丸める）の読み
+ */
+export const readDistance = (km: number): string[] => readCount(Math.round(km), 'km');
+
+/**
+ * 時間の長さの読み（例: 90 -> いっぷん さんじゅうびょう）
+ */
+export const readDuration = (seconds: number): string[] => {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  if (minutes === 0) return readCount(rest, 'byou');
+  return [...readCount(minutes, 'fun'), ...(rest > 0 ? readCount(rest, 'byou') : [])];
+};
+
+/**
+ * キー列を素材の読みに戻す（確認・デバッグ用）
+ */
+export const readingOf = (keys: string[]): string =>
+  keys.map(key => VOICE_CLIP_KEYS[key] ?? `[${key}]`).join('');
@@ -0,0 +1,33 @@
+import { MapSettings } from '../types';
+
+const STORAGE_KEY = 'quakeMonitor.mapSettings';
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  renderer: 'svg',
+  showIntensityEstimate: false,
+};
+
+export const loadMapSettings = (): MapSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_MAP_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<MapSettings>;
+    return {
+      ...DEFAULT_MAP_SETTINGS,
+      ...parsed,
+      renderer: parsed.renderer === 'canvas' ? 'canvas' : 'svg',
+      showIntensityEstimate: parsed.showIntensityEstimate === true,
+    };
+  } catch (e) {
+    console.warn("Failed to load map settings", e);
+    return DEFAULT_MAP_SETTINGS;
+  }
+};
+
+export const saveMapSettings = (settings: MapSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save map settings", e);
+  }
+};
@@ -0,0 +1,106 @@
+import { JMASeismicIntensity, P2PQuakeData, QuakeEvent, QuakeReportType } from '../types';
+import { parseP2PTime } from './feeds/P2PQuakeFeed';
+import { distanceKm } from './seismology';
+
+// Reports whose origin times differ by more than this are different earthquakes
+const ORIGIN_TIME_TOLERANCE_MS = 2 * 60 * 1000;
+// ...as are reports whose hypocenters are further apart than this
+const HYPOCENTER_TOLERANCE_KM = 150;
+// Number of events kept
+const EVENT_LIMIT = 50;
+
+const REPORT_TYPES: QuakeReportType[] = ['ScalePrompt', 'Destination', 'ScaleAndDestination', 'DetailScale', 'Foreign'];
+
+export const getReportType = (report: P2PQuakeData): QuakeReportType =>
+  REPORT_TYPES.includes(report.issue.type as QuakeReportType) ? report.issue.type as QuakeReportType : 'Other';
+
+const hasHypocenter = (report: P2PQuakeData) => {
+  const hypo = report.earthquake.hypocenter;
+  return !!hypo && !!hypo.name && hypo.latitude > -200 && hypo.longitude > -200;
+};
+
+/**
+ * Whether a report describes the same earthquake as an existing event.
+ * ScalePrompt (震度速報) has no hypocenter, so only the origin time is compared then.
+ */
+const belongsTo = (event: QuakeEvent, report: P2PQuakeData): boolean => {
+  const dt = Math.abs(parseP2PTime(event.merged.earthquake.time) - parseP2PTime(report.earthquake.time));
+  if (isNaN(dt) || dt > ORIGIN_TIME_TOLERANCE_MS) return false;
+
+  if (!hasHypocenter(event.merged) || !hasHypocenter(report)) return true;
+  const a = event.merged.earthquake.hypocenter!;
+  const b = report.earthquake.hypocenter!;
+  return a.name === b.name || distanceKm(a.latitude, a.longitude, b.latitude, b.longitude) <= HYPOCENTER_TOLERANCE_KM;
+};
+
+/**
+ * Best-known values: each field comes from the latest report that actually has it.
+ */
+export const mergeQuakeReports = (eventId: string, reports: P2PQuakeData[]): P2PQuakeData => {
+  const latest = reports[reports.length - 1];
+  const newestFirst = [...reports].reverse();
+
+  const withHypocenter = newestFirst.find(hasHypocenter);
+  const hypocenter = withHypocenter ? { ...withHypocenter.earthquake.hypocenter! } : latest.earthquake.hypocenter;
+  if (hypocenter) {
+    // Magnitude and depth can be missing from an otherwise valid hypocenter
+    const withMagnitude = newestFirst.find(r => (r.earthquake.hypocenter?.magnitude ?? -1) > 0);
+    if (hypocenter.magnitude <= 0 && withMagnitude) hypocenter.magnitude = withMagnitude.earthquake.hypocenter!.magnitude;
+    const withDepth = newestFirst.find(r => (r.earthquake.hypocenter?.depth ?? -1) >= 0 && hasHypocenter(r));
+    if (hypocenter.depth < 0 && withDepth) hypocenter.depth = withDepth.earthquake.hypocenter!.depth;
+  }
+
+  const withScale = newestFirst.find(r => r.earthquake.maxScale !== JMASeismicIntensity.Unknown && r.earthquake.maxScale > 0);
+  const withPoints = newestFirst.find(r => r.points && r.points.length > 0);
+  const withTsunami = newestFirst.find(r => r.earthquake.domesticTsunami && r.earthquake.domesticTsunami !== 'Unknown');
+
+  return {
+    ...latest,
+    // Identity and receive time stay those of the first report, so consumers keyed on
+    // them (announcements, auto-zoom) treat later revisions as the same earthquake
+    _id: eventId,
+    time: reports[0].time,
+    earthquake: {
+      ...latest.earthquake,
+      hypocenter,
+      maxScale: withScale ? withScale.earthquake.maxScale : latest.earthquake.maxScale,
+      domesticTsunami: withTsunami ? withTsunami.earthquake.domesticTsunami : latest.earthquake.domesticTsunami,
+    },
+    points: withPoints ? withPoints.points : [],
+  };
+};
+
+const buildEvent = (id: string, reports: P2PQuakeData[], firstReceivedAt: number, updatedAt: number): QuakeEvent => {
+  const sorted = [...reports].sort((a, b) => parseP2PTime(a.issue.time) - parseP2PTime(b.issue.time));
+  return {
+    id,
+    reports: sorted,
+    merged: mergeQuakeReports(id, sorted),
+    reportTypes: Array.from(new Set(sorted.map(getReportType))),
+    firstReceivedAt,
+    updatedAt,
+  };
+};
+
+/**
+ * Adds one 551 report to the event list. Returns a new array, newest earthquake first.
+ * Re-applying a report that is already known returns the same array.
+ */
+export const applyQuakeReport = (events: QuakeEvent[], report: P2PQuakeData, now: number = Date.now()): QuakeEvent[] => {
+  if (events.some(e => e.reports.some(r => r._id === report._id))) return events;
+
+  const target = events.find(e => belongsTo(e, report));
+  const updated = target
+    ? buildEvent(target.id, [...target.reports, report], target.firstReceivedAt, now)
+    : buildEvent(report._id, [report], now, now);
+
+  return [updated, ...events.filter(e => e !== target)]
+    .sort((a, b) => parseP2PTime(b.merged.earthquake.time) - parseP2PTime(a.merged.earthquake.time))
+    .slice(0, EVENT_LIMIT);
+};
+
+/**
+ * Event that a report was merged into.
+ */
+export const findQuakeEventByReport = (events: QuakeEvent[], reportId: string): QuakeEvent | undefined =>
+  events.find(e => e.reports.some(r => r._id === reportId));
@@ -0,0 +1,222 @@
+import { ArchivedMessage, ReplayRecording, ReplayState, ReplayStatus } from '../types';
+import { eventArchive } from './archive';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10];
+
+// Position 0 is slightly before the first message, and playback runs on after
+// the last one so EEWs time out and wave fronts finish as they did live
+const LEAD_IN_MS = 3000;
+const TAIL_MS = 30000;
+const TICK_MS = 100;
+
+// Archive window around an event's origin time
+const ARCHIVE_BEFORE_MS = 2 * 60 * 1000;
+const ARCHIVE_AFTER_MS = 30 * 60 * 1000;
+
+// Only messages that drive the display; peer counts and felt reports are left out
+const REPLAY_P2P_CODES = [551, 552, 554, 556];
+
+const FILE_FORMAT = 'quake-monitor-replay';
+
+export const isReplayable = (message: ArchivedMessage): boolean =>
+  message.source === 'wolfx' || (message.code !== undefined && REPLAY_P2P_CODES.includes(message.code));
+
+export interface ReplayHandlers {
+  // Before messages are dispatched again from the start (backward seek, restart)
+  onReset: () => void;
+  // `now` is the message's receive time; silent messages were skipped over by a seek
+  onMessage: (message: ArchivedMessage, now: number, silent: boolean) => void;
+  // Virtual time advanced (used to expire EEWs)
+  onTick: (now: number) => void;
+  onStateChange: (state: ReplayState) => void;
+}
+
+/**
+ * Plays a recording back in virtual time. Messages are handed out in receive
+ * order once the virtual clock passes their receive time; seeking backwards
+ * resets and re-dispatches everything up to the new position silently.
+ */
+export class ReplayEngine {
+  private messages: ArchivedMessage[];
+  private startTime: number;
+  private duration: number;
+  private position = 0;
+  private speed = 1;
+  private status: ReplayStatus = 'paused';
+  private nextIndex = 0;
+  private timer: number | null = null;
+  private lastTick = 0;
+  private lastEmittedSecond = -1;
+
+  constructor(recording: ReplayRecording, private handlers: ReplayHandlers) {
+    this.messages = recording.messages.filter(isReplayable).sort((a, b) => a.receivedAt - b.receivedAt);
+    const first = this.messages[0]?.receivedAt ?? Date.now();
+    const last = this.messages[this.messages.length - 1]?.receivedAt ?? first;
+    this.startTime = first - LEAD_IN_MS;
+    this.duration = last - this.startTime + TAIL_MS;
+  }
+
+  /** Virtual epoch ms of the current position. */
+  now(): number {
+    return this.startTime + this.position;
+  }
+
+  getState(): ReplayState {
+    return {
+      status: this.status,
+      position: this.position,
+      duration: this.duration,
+      speed: this.speed,
+      startTime: this.startTime,
+    };
+  }
+
+  play() {
+    if (this.status === 'playing') return;
+    if (this.status === 'ended') this.seek(0);
+    this.status = 'playing';
+    this.lastTick = performance.now();
+    this.timer = window.setInterval(this.tick, TICK_MS);
+    this.emit();
+  }
+
+  pause() {
+    if (this.status !== 'playing') return;
+    this.stopTimer();
+    this.status = 'paused';
+    this.emit();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+    this.emit();
+  }
+
+  seek(position: number) {
+    const target = Math.max(0, Math.min(this.duration, position));
+    if (target < this.position) {
+      this.handlers.onReset();
+      this.nextIndex = 0;
+    }
+    this.position = target;
+    this.dispatchDue(true);
+    this.handlers.onTick(this.now());
+    if (this.position >= this.duration) {
+      this.finish();
+    } else if (this.status === 'ended') {
+      this.status = 'paused';
+    }
+    this.emit();
+  }
+
+  /** Jumps to the next message and dispatches it normally (skips quiet stretches between reports). */
+  skipToNext() {
+    const next = this.messages[this.nextIndex];
+    if (!next) return;
+    this.position = Math.max(this.position, next.receivedAt - this.startTime);
+    this.dispatchDue(false);
+    this.handlers.onTick(this.now());
+    this.emit();
+  }
+
+  destroy() {
+    this.stopTimer();
+  }
+
+  private tick = () => {
+    const t = performance.now();
+    this.position = Math.min(this.duration, this.position + (t - this.lastTick) * this.speed);
+    this.lastTick = t;
+    this.dispatchDue(false);
+    this.handlers.onTick(this.now());
+    if (this.position >= this.duration) {
+      this.finish();
+      this.emit();
+      return;
+    }
+    // Controls only show whole seconds
+    if (Math.floor(this.position / 1000) !== this.lastEmittedSecond) this.emit();
+  };
+
+  private dispatchDue(silent: boolean) {
+    const now = this.now();
+    while (this.nextIndex < this.messages.length && this.messages[this.nextIndex].receivedAt <= now) {
+      const message = this.messages[this.nextIndex++];
+      this.handlers.onMessage(message, message.receivedAt, silent);
+    }
+  }
+
+  private finish() {
+    this.stopTimer();
+    this.status = 'ended';
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) window.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private emit() {
+    this.lastEmittedSecond = Math.floor(this.position / 1000);
+    this.handlers.onStateChange(this.getState());
+  }
+}
+
+/**
+ * Archived messages received around an event (origin time in epoch ms).
+ */
+export const loadArchiveRecording = async (time: number, title: string): Promise<ReplayRecording> => {
+  const messages = await eventArchive.queryMessages(time - ARCHIVE_BEFORE_MS, time + ARCHIVE_AFTER_MS);
+  return { title, messages: messages.filter(isReplayable) };
+};
+
+export const serializeRecording = (recording: ReplayRecording): string =>
+  JSON.stringify({ format: FILE_FORMAT, version: 1, ...recording });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isArchivedMessage = (value: unknown): value is ArchivedMessage =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.source === 'p2p' || value.source === 'wolfx') &&
+  typeof value.receivedAt === 'number' &&
+  !!value.payload && typeof value.payload === 'object';
+
+// P2P code from the payload, for messages saved without the top-level code
+const payloadCode = (payload: ArchivedMessage['payload']): number | undefined =>
+  typeof payload === 'object' && payload && 'code' in payload && typeof payload.code === 'number'
+    ? payload.code
+    : undefined;
+
+/**
+ * Reads an exported recording (or a bare array of archived messages).
+ * Throws with a user-facing message when the file can't be used.
+ */
+export const parseReplayFile = (text: string, fallbackTitle = 'インポート'): ReplayRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('JSONとして読み込めません');
+  }
+  const file = isRecord(data) ? data : undefined;
+  const list = Array.isArray(data) ? data : file?.messages;
+  if (!Array.isArray(list)) throw new Error('messages がありません');
+  if (file && file.format !== undefined && file.format !== FILE_FORMAT) {
+    throw new Error(`未対応の形式です: ${String(file.format)}`);
+  }
+
+  const messages = list.filter(isArchivedMessage).map(m => ({
+    ...m,
+    code: m.source === 'p2p' ? (m.code ?? payloadCode(m.payload)) : undefined,
+  }));
+  if (messages.length < list.length) {
+    console.warn(`Replay file: skipped ${list.length - messages.length} malformed messages`);
+  }
+  const replayable = messages.filter(isReplayable);
+  if (replayable.length === 0) throw new Error('再生できる情報がありません');
+
+  const title = typeof file?.title === 'string' ? file.title : fallbackTitle;
+  return { title, messages: replayable };
+};
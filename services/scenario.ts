@@ -0,0 +1,419 @@
+import {
+  ArchivedMessage, JMASeismicIntensity, P2PQuakeData, P2PTsunamiData, ReplayRecording, Scenario,
+  ScenarioEEWStep, ScenarioHypocenter, ScenarioQuakeStep, ScenarioStep, ScenarioTsunamiStep, WolfxEEWData,
+} from '../types';
+import { INTENSITY_LABELS, parseScale } from './intensityScale';
+
+const SCENARIO_FORMAT = 'quake-monitor-scenario';
+const USER_SCENARIOS_KEY = 'quakeMonitor.scenarios';
+
+const QUAKE_REPORT_TYPES = ['ScalePrompt', 'Destination', 'ScaleAndDestination', 'DetailScale'];
+const TSUNAMI_GRADES = ['MajorWarning', 'Warning', 'Watch', 'Unknown'];
+
+// JSON Schema of the scenario file, for authoring in external editors.
+// validateScenario() enforces the same rules (plus value ranges).
+export const SCENARIO_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Quake Monitor drill scenario',
+  type: 'object',
+  required: ['id', 'title', 'hypocenter', 'magnitude', 'steps'],
+  properties: {
+    format: { const: SCENARIO_FORMAT },
+    version: { const: 1 },
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    hypocenter: { $ref: '#/definitions/hypocenter' },
+    magnitude: { type: 'number', minimum: 0, maximum: 10 },
+    steps: { type: 'array', minItems: 1, items: { $ref: '#/definitions/step' } },
+  },
+  definitions: {
+    intensity: { enum: INTENSITY_LABELS },
+    seconds: { type: 'number', minimum: 0 },
+    hypocenter: {
+      type: 'object',
+      required: ['name', 'latitude', 'longitude', 'depth'],
+      properties: {
+        name: { type: 'string' },
+        latitude: { type: 'number', minimum: -90, maximum: 90 },
+        longitude: { type: 'number', minimum: -180, maximum: 180 },
+        depth: { type: 'number', minimum: 0 },
+      },
+    },
+    step: {
+      oneOf: [
+        {
+          type: 'object',
+          required: ['type', 'at', 'magnitude', 'maxIntensity', 'warning'],
+          properties: {
+            type: { const: 'eew' },
+            at: { $ref: '#/definitions/seconds' },
+            magnitude: { type: 'number', minimum: 0, maximum: 10 },
+            maxIntensity: { $ref: '#/definitions/intensity' },
+            warning: { type: 'boolean' },
+            final: { type: 'boolean' },
+            hypocenter: { $ref: '#/definitions/hypocenter' },
+            areas: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name', 'intensity'],
+                properties: {
+                  name: { type: 'string' },
+                  intensity: { $ref: '#/definitions/intensity' },
+                  arrival: { $ref: '#/definitions/seconds' },
+                },
+              },
+            },
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'at'],
+          properties: { type: { const: 'eewCancel' }, at: { $ref: '#/definitions/seconds' } },
+        },
+        {
+          type: 'object',
+          required: ['type', 'at', 'reportType', 'maxIntensity'],
+          properties: {
+            type: { const: 'quake' },
+            at: { $ref: '#/definitions/seconds' },
+            reportType: { enum: QUAKE_REPORT_TYPES },
+            maxIntensity: { $ref: '#/definitions/intensity' },
+            tsunami: { type: 'string' },
+            points: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['pref', 'addr', 'intensity'],
+                properties: {
+                  pref: { type: 'string' },
+                  addr: { type: 'string' },
+                  intensity: { $ref: '#/definitions/intensity' },
+                },
+              },
+            },
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'at', 'areas'],
+          properties: {
+            type: { const: 'tsunami' },
+            at: { $ref: '#/definitions/seconds' },
+            cancelled: { type: 'boolean' },
+            areas: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name', 'grade'],
+                properties: {
+                  name: { type: 'string' },
+                  grade: { enum: TSUNAMI_GRADES },
+                  immediate: { type: 'boolean' },
+                  maxHeight: { type: 'string' },
+                  arrival: { $ref: '#/definitions/seconds' },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+  },
+};
+
+// --- Validation ---
+
+export interface ScenarioValidation {
+  scenario: Scenario | null;
+  errors: string[]; // "steps[2].magnitude: ..." style, empty when valid
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const isOneOf = (v: unknown, options: string[]): v is string => typeof v === 'string' && options.includes(v);
+
+/**
+ * Checks an untrusted value (parsed JSON) against the scenario format.
+ * Collects every problem instead of stopping at the first one, so the editor can list them.
+ */
+export const validateScenario = (value: unknown): ScenarioValidation => {
+  const errors: string[] = [];
+
+  const requireString = (v: unknown, path: string, allowEmpty = false) => {
+    if (typeof v !== 'string' || (!allowEmpty && v.trim() === '')) errors.push(`${path}: 文字列が必要です`);
+  };
+  const requireNumber = (v: unknown, path: string, min: number, max = Infinity) => {
+    if (typeof v !== 'number' || !isFinite(v)) errors.push(`${path}: 数値が必要です`);
+    else if (v < min || v > max) errors.push(`${path}: ${max === Infinity ? `${min}以上` : `${min}〜${max}の範囲`}で指定してください`);
+  };
+  const optionalBoolean = (v: unknown, path: string) => {
+    if (v !== undefined && typeof v !== 'boolean') errors.push(`${path}: true / false が必要です`);
+  };
+  const requireIntensity = (v: unknown, path: string) => {
+    if (!isOneOf(v, INTENSITY_LABELS)) errors.push(`${path}: 震度は ${INTENSITY_LABELS.join(', ')} のいずれかです`);
+  };
+  const requireHypocenter = (v: unknown, path: string) => {
+    if (!isRecord(v)) {
+      errors.push(`${path}: オブジェクトが必要です`);
+      return;
+    }
+    requireString(v.name, `${path}.name`);
+    requireNumber(v.latitude, `${path}.latitude`, -90, 90);
+    requireNumber(v.longitude, `${path}.longitude`, -180, 180);
+    requireNumber(v.depth, `${path}.depth`, 0, 1000);
+  };
+  const optionalArray = (v: unknown, path: string, each: (item: Record<string, unknown>, itemPath: string) => void, required = false) => {
+    if (v === undefined && !required) return;
+    if (!Array.isArray(v)) {
+      errors.push(`${path}: 配列が必要です`);
+      return;
+    }
+    v.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!isRecord(item)) errors.push(`${itemPath}: オブジェクトが必要です`);
+      else each(item, itemPath);
+    });
+  };
+
+  const validateStep = (step: Record<string, unknown>, path: string) => {
+    requireNumber(step.at, `${path}.at`, 0);
+    switch (step.type) {
+      case 'eew':
+        requireNumber(step.magnitude, `${path}.magnitude`, 0, 10);
+        requireIntensity(step.maxIntensity, `${path}.maxIntensity`);
+        if (typeof step.warning !== 'boolean') errors.push(`${path}.warning: true / false が必要です`);
+        optionalBoolean(step.final, `${path}.final`);
+        if (step.hypocenter !== undefined) requireHypocenter(step.hypocenter, `${path}.hypocenter`);
+        optionalArray(step.areas, `${path}.areas`, (a, p) => {
+          requireString(a.name, `${p}.name`);
+          requireIntensity(a.intensity, `${p}.intensity`);
+          if (a.arrival !== undefined) requireNumber(a.arrival, `${p}.arrival`, 0);
+        });
+        break;
+      case 'eewCancel':
+        break;
+      case 'quake':
+        if (!isOneOf(step.reportType, QUAKE_REPORT_TYPES)) {
+          errors.push(`${path}.reportType: ${QUAKE_REPORT_TYPES.join(', ')} のいずれかです`);
+        }
+        requireIntensity(step.maxIntensity, `${path}.maxIntensity`);
+        if (step.tsunami !== undefined) requireString(step.tsunami, `${path}.tsunami`);
+        optionalArray(step.points, `${path}.points`, (p, pp) => {
+          requireString(p.pref, `${pp}.pref`);
+          requireString(p.addr, `${pp}.addr`);
+          requireIntensity(p.intensity, `${pp}.intensity`);
+        });
+        break;
+      case 'tsunami':
+        optionalBoolean(step.cancelled, `${path}.cancelled`);
+        optionalArray(step.areas, `${path}.areas`, (a, p) => {
+          requireString(a.name, `${p}.name`);
+          if (!isOneOf(a.grade, TSUNAMI_GRADES)) errors.push(`${p}.grade: ${TSUNAMI_GRADES.join(', ')} のいずれかです`);
+          optionalBoolean(a.immediate, `${p}.immediate`);
+          if (a.maxHeight !== undefined) requireString(a.maxHeight, `${p}.maxHeight`);
+          if (a.arrival !== undefined) requireNumber(a.arrival, `${p}.arrival`, 0);
+        }, true);
+        break;
+      default:
+        errors.push(`${path}.type: eew, eewCancel, quake, tsunami のいずれかです`);
+    }
+  };
+
+  if (!isRecord(value)) return { scenario: null, errors: ['シナリオはオブジェクトで記述してください'] };
+  if (value.format !== undefined && value.format !== SCENARIO_FORMAT) errors.push(`format: "${SCENARIO_FORMAT}" ではありません`);
+  requireString(value.id, 'id');
+  requireString(value.title, 'title');
+  if (value.description !== undefined) requireString(value.description, 'description', true);
+  requireHypocenter(value.hypocenter, 'hypocenter');
+  requireNumber(value.magnitude, 'magnitude', 0, 10);
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    errors.push('steps: 1件以上のステップが必要です');
+  } else {
+    value.steps.forEach((step: unknown, i) => {
+      if (!isRecord(step)) errors.push(`steps[${i}]: オブジェクトが必要です`);
+      else validateStep(step, `steps[${i}]`);
+    });
+  }
+
+  if (errors.length > 0) return { scenario: null, errors };
+  // Every field has been checked above; the record type can't carry that through
+  const { format, version, ...scenario } = value;
+  return { scenario: scenario as unknown as Scenario, errors };
+};
+
+export const parseScenarioFile = (text: string): ScenarioValidation => {
+  try {
+    return validateScenario(JSON.parse(text));
+  } catch (e) {
+    return { scenario: null, errors: [`JSONとして読み込めません: ${e instanceof Error ? e.message : e}`] };
+  }
+};
+
+export const serializeScenario = (scenario: Scenario): string =>
+  JSON.stringify({ format: SCENARIO_FORMAT, version: 1, ...scenario }, null, 2);
+
+export const createScenarioTemplate = (): Scenario => ({
+  id: `custom-${Date.now()}`,
+  title: '新しいシナリオ',
+  description: '',
+  hypocenter: { name: '和歌山県北部', latitude: 34.23, longitude: 135.17, depth: 10 },
+  magnitude: 6.5,
+  steps: [
+    { type: 'eew', at: 5, magnitude: 6.0, maxIntensity: '4', warning: false, areas: [{ name: '和歌山県北部', intensity: '4' }] },
+    { type: 'eew', at: 10, magnitude: 6.5, maxIntensity: '5強', warning: true, final: true, areas: [{ name: '和歌山県北部', intensity: '5強' }, { name: '大阪府南部', intensity: '5弱' }] },
+    { type: 'quake', at: 90, reportType: 'ScalePrompt', maxIntensity: '5強', points: [{ pref: '和歌山県', addr: '和歌山県北部', intensity: '5強' }] },
+  ],
+});
+
+// --- Conversion to feed messages ---
+
+const toScale = (label: string): JMASeismicIntensity => parseScale(label) ?? JMASeismicIntensity.Unknown;
+
+const parseHeight = (description: string | undefined): number => {
+  if (!description) return -1;
+  const n = parseFloat(description.normalize('NFKC').replace(/[^0-9.]/g, ''));
+  return isNaN(n) ? -1 : n;
+};
+
+/**
+ * Turns a scenario into the feed messages it describes, as if received live:
+ * EEW steps become Wolfx jma_eew payloads (they carry forecasts and final
+ * reports, which P2P 556 does not), quake and tsunami steps P2P 551 / 552.
+ * Step times are relative to `originTime` (epoch ms).
+ */
+export const scenarioToRecording = (scenario: Scenario, originTime: number = Date.now()): ReplayRecording => {
+  const eventId = `sim-${scenario.id}-${originTime}`;
+  const iso = (sec: number) => new Date(originTime + sec * 1000).toISOString();
+  let serial = 0;
+
+  const eewPayload = (step: ScenarioEEWStep): WolfxEEWData => {
+    const hypo: ScenarioHypocenter = step.hypocenter ?? scenario.hypocenter;
+    return {
+      Type: 'jma_eew',
+      Title: step.warning ? '緊急地震速報（警報）' : '緊急地震速報（予報）',
+      EventID: eventId,
+      Serial: ++serial,
+      AnnouncedTime: iso(step.at),
+      OriginTime: iso(0),
+      Hypocenter: hypo.name,
+      Latitude: hypo.latitude,
+      Longitude: hypo.longitude,
+      Magunitude: step.magnitude,
+      Depth: hypo.depth,
+      MaxIntensity: step.maxIntensity,
+      WarnArea: (step.areas ?? []).map(a => ({
+        Chiiki: a.name,
+        Shindo1: a.intensity,
+        Shindo2: a.intensity,
+        Time: a.arrival !== undefined ? iso(a.arrival) : '',
+        Type: step.warning ? '警報' : '予報',
+        Arrive: a.arrival !== undefined && a.arrival <= step.at,
+      })),
+      isWarn: step.warning,
+      isFinal: step.final ?? false,
+      isCancel: false,
+      isTraining: false,
+    };
+  };
+
+  const quakePayload = (step: ScenarioQuakeStep, id: string): P2PQuakeData => {
+    const hasHypocenter = step.reportType !== 'ScalePrompt';
+    return {
+      _id: id,
+      code: 551,
+      time: iso(step.at),
+      issue: { time: iso(step.at), type: step.reportType },
+      earthquake: {
+        time: iso(0),
+        hypocenter: hasHypocenter
+          ? { ...scenario.hypocenter, magnitude: scenario.magnitude }
+          : { name: '', latitude: -200, longitude: -200, depth: -1, magnitude: -1 },
+        maxScale: toScale(step.maxIntensity),
+        domesticTsunami: step.tsunami ?? (hasHypocenter ? 'None' : 'Checking'),
+      },
+      points: (step.points ?? []).map(p => ({
+        pref: p.pref,
+        addr: p.addr,
+        isArea: step.reportType === 'ScalePrompt',
+        scale: toScale(p.intensity),
+      })),
+    };
+  };
+
+  const tsunamiPayload = (step: ScenarioTsunamiStep, id: string): P2PTsunamiData => ({
+    _id: id,
+    code: 552,
+    time: iso(step.at),
+    issue: { source: '気象庁', time: iso(step.at), type: 'Focus' },
+    cancelled: step.cancelled ?? false,
+    areas: step.areas.map(a => ({
+      grade: a.grade,
+      immediate: a.immediate ?? false,
+      name: a.name,
+      firstHeight: a.arrival !== undefined ? { arrivalTime: iso(a.arrival) } : undefined,
+      maxHeight: a.maxHeight ? { description: a.maxHeight, value: parseHeight(a.maxHeight) } : undefined,
+    })),
+  });
+
+  const toMessage = (step: ScenarioStep, index: number): ArchivedMessage => {
+    const id = `${eventId}-${index}`;
+    const receivedAt = originTime + step.at * 1000;
+    switch (step.type) {
+      case 'eew':
+        return { id, source: 'wolfx', receivedAt, payload: eewPayload(step) };
+      case 'eewCancel':
+        return {
+          id, source: 'wolfx', receivedAt,
+          payload: { Type: 'jma_eew', Title: '緊急地震速報（取消）', EventID: eventId, Serial: ++serial, AnnouncedTime: iso(step.at), Hypocenter: '', MaxIntensity: '', isCancel: true },
+        };
+      case 'quake':
+        return { id, source: 'p2p', code: 551, receivedAt, payload: quakePayload(step, id) };
+      case 'tsunami':
+        return { id, source: 'p2p', code: 552, receivedAt, payload: tsunamiPayload(step, id) };
+    }
+  };
+
+  // Serials follow step time, not the order steps were written in
+  const steps = scenario.steps.map((step, i) => ({ step, i })).sort((a, b) => a.step.at - b.step.at || a.i - b.i);
+  return { title: scenario.title, messages: steps.map(({ step, i }) => toMessage(step, i)) };
+};
+
+// --- User scenarios (localStorage) ---
+
+export const loadUserScenarios = (): Scenario[] => {
+  try {
+    const raw = localStorage.getItem(USER_SCENARIOS_KEY);
+    if (!raw) return [];
+    const list = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    // Stored scenarios were validated when saved; drop any that no longer pass
+    return list.map(s => validateScenario(s).scenario).filter((s): s is Scenario => s !== null);
+  } catch (e) {
+    console.warn("Failed to load scenarios", e);
+    return [];
+  }
+};
+
+export const saveUserScenarios = (scenarios: Scenario[]) => {
+  try {
+    localStorage.setItem(USER_SCENARIOS_KEY, JSON.stringify(scenarios));
+  } catch (e) {
+    console.warn("Failed to save scenarios", e);
+  }
+};
+
+/** One-line summary of a step for the editor timeline. */
+export const describeScenarioStep = (step: ScenarioStep): string => {
+  switch (step.type) {
+    case 'eew':
+      return `${step.warning ? '警報' : '予報'}${step.final ? '(最終)' : ''} M${step.magnitude.toFixed(1)} 最大${step.maxIntensity}`;
+    case 'eewCancel':
+      return '緊急地震速報 取消';
+    case 'quake':
+      return `地震情報 ${step.reportType} 最大${step.maxIntensity}`;
+    case 'tsunami':
+      return step.cancelled ? '津波予報 解除' : `津波予報 ${step.areas.length}区域`;
+  }
+};
@@ -0,0 +1,118 @@
+import { EEWState } from '../types';
+import { getTravelTime } from './travelTime';
+import { stationResolver } from './stationResolver';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Surface amplification of PGV relative to engineering bedrock (Vs=600m/s).
+// 1.41 corresponds to an average site (AVS30 ≈ 400m/s), as used for JMA-style estimates.
+export const DEFAULT_SITE_AMPLIFICATION = 1.41;
+
+/**
+ * PGV amplification relative to engineering bedrock for a site's AVS30 (m/s),
+ * log10(ARV) = 1.83 - 0.66 log10(AVS30) (Midorikawa et al. 1994).
+ */
+export const siteAmplificationFromAVS30 = (avs30: number): number =>
+  Math.pow(10, 1.83 - 0.66 * Math.log10(avs30));
+
+/**
+ * Great-circle distance in km.
+ */
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (d: number) => d * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Estimated JMA seismic intensity (continuous value) at a site.
+ *
+ * PGV on bedrock from Si & Midorikawa (1999), treating Mj as Mw (capped at 8.3 where
+ * the relation saturates), the fault distance approximated from the hypocentral distance
+ * and a magnitude-based fault length, then converted with I = 2.68 + 1.72 log10(PGV)
+ * (Midorikawa et al. 1999).
+ */
+export const estimateIntensity = (
+  magnitude: number,
+  depthKm: number,
+  epicentralDistanceKm: number,
+  siteAmplification: number = DEFAULT_SITE_AMPLIFICATION
+): number => {
+  const mw = Math.min(magnitude, 8.3);
+  const depth = Math.max(0, depthKm);
+  const hypocentralKm = Math.sqrt(epicentralDistanceKm ** 2 + depth ** 2);
+
+  // Half of the fault length, L = 10^(0.5Mw - 1.85)
+  const halfFaultKm = Math.pow(10, 0.5 * mw - 1.85) / 2;
+  const faultDistanceKm = Math.max(3, hypocentralKm - halfFaultKm);
+
+  const logPgv600 = 0.58 * mw + 0.0038 * Math.min(depth, 100) - 1.29
+    - Math.log10(faultDistanceKm + 0.0028 * Math.pow(10, 0.5 * mw))
+    - 0.002 * faultDistanceKm;
+  const pgv = Math.pow(10, logPgv600) * siteAmplification;
+
+  return 2.68 + 1.72 * Math.log10(pgv);
+};
+
+/**
+ * Continuous intensity -> JMA label ("5弱" etc.). Returns "0" below 0.5.
+ */
+export const intensityToLabel = (value: number): string => {
+  if (value < 0.5) return "0";
+  if (value < 1.5) return "1";
+  if (value < 2.5) return "2";
+  if (value < 3.5) return "3";
+  if (value < 4.5) return "4";
+  if (value < 5.0) return "5弱";
+  if (value < 5.5) return "5強";
+  if (value < 6.0) return "6弱";
+  if (value < 6.5) return "6強";
+  return "7";
+};
+
+/**
+ * EEW epicenter as [lat, lon], from the report coordinates or by region name.
+ */
+export const resolveEEWEpicenter = (eew: EEWState): [number, number] | null => {
+  if (eew.latitude !== undefined && eew.longitude !== undefined) return [eew.latitude, eew.longitude];
+  if (!eew.hypocenterName) return null;
+  const match = stationResolver.resolve(eew.hypocenterName);
+  return match ? [match.lat, match.lon] : null;
+};
+
+export interface LocalImpact {
+  epicentralDistanceKm: number;
+  intensity: number | null; // null when magnitude is unknown
+  intensityLabel: string | null;
+  sArrivalTime: number | null; // Epoch ms, null when origin time is unknown
+}
+
+/**
+ * Expected shaking at the given point for an EEW.
+ */
+export const computeLocalImpact = (eew: EEWState, latitude: number, longitude: number): LocalImpact | null => {
+  const epicenter = resolveEEWEpicenter(eew);
+  if (!epicenter) return null;
+
+  const epicentralDistanceKm = distanceKm(epicenter[0], epicenter[1], latitude, longitude);
+  const depth = eew.depth ?? 10;
+
+  // Assumed-hypocenter (PLUM) magnitudes are not real estimates
+  const canEstimate = eew.magnitude !== undefined && !eew.isAssumedHypocenter;
+  const intensity = canEstimate ? estimateIntensity(eew.magnitude!, depth, epicentralDistanceKm) : null;
+
+  let sArrivalTime: number | null = null;
+  if (eew.occurredTime) {
+    const originMs = new Date(eew.occurredTime).getTime();
+    if (!isNaN(originMs)) sArrivalTime = originMs + getTravelTime('S', depth, epicentralDistanceKm) * 1000;
+  }
+
+  return {
+    epicentralDistanceKm,
+    intensity,
+    intensityLabel: intensity !== null ? intensityToLabel(intensity) : null,
+    sArrivalTime,
+  };
+};
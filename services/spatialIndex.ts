@@ -0,0 +1,103 @@
+import { StationRecord } from '../types';
+import { STATION_DATABASE } from '../constants/stationDatabase';
+import { distanceKm } from './seismology';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface BBox {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+const KM_PER_DEG_LAT = 111.32;
+
+/**
+ * Fixed-size lat/lon grid over points, for nearest-neighbour, bbox and radius
+ * queries without scanning the whole set. Cell size in degrees; 0.5° keeps a
+ * municipality-density dataset at a handful of points per cell.
+ */
+export class GeoGrid<T extends GeoPoint> {
+  private cells = new Map<string, T[]>();
+
+  constructor(points: T[], private cellDeg = 0.5) {
+    points.forEach(p => {
+      const key = this.key(this.cellOf(p.lat), this.cellOf(p.lon));
+      const cell = this.cells.get(key);
+      if (cell) cell.push(p); else this.cells.set(key, [p]);
+    });
+  }
+
+  inBBox(box: BBox): T[] {
+    const out: T[] = [];
+    for (let i = this.cellOf(box.minLat); i <= this.cellOf(box.maxLat); i++) {
+      for (let j = this.cellOf(box.minLon); j <= this.cellOf(box.maxLon); j++) {
+        this.cells.get(this.key(i, j))?.forEach(p => {
+          if (p.lat >= box.minLat && p.lat <= box.maxLat && p.lon >= box.minLon && p.lon <= box.maxLon) out.push(p);
+        });
+      }
+    }
+    return out;
+  }
+
+  withinRadius(lat: number, lon: number, radiusKm: number): T[] {
+    return this.inBBox(this.bboxAround(lat, lon, radiusKm))
+      .filter(p => distanceKm(lat, lon, p.lat, p.lon) <= radiusKm);
+  }
+
+  /**
+   * Closest point within maxKm, searching outward ring by ring.
+   */
+  nearest(lat: number, lon: number, maxKm = 100, filter?: (p: T) => boolean): { point: T, distanceKm: number } | null {
+    const ci = this.cellOf(lat);
+    const cj = this.cellOf(lon);
+    const kmPerCell = KM_PER_DEG_LAT * this.cellDeg * Math.max(0.01, Math.cos(lat * Math.PI / 180)); // Narrower east-west
+    const maxRing = Math.ceil(maxKm / kmPerCell) + 1;
+    let best: { point: T, distanceKm: number } | null = null;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let i = ci - ring; i <= ci + ring; i++) {
+        for (let j = cj - ring; j <= cj + ring; j++) {
+          if (Math.max(Math.abs(i - ci), Math.abs(j - cj)) !== ring) continue; // Ring border only
+          for (const p of this.cells.get(this.key(i, j)) ?? []) {
+            if (filter && !filter(p)) continue;
+            const d = distanceKm(lat, lon, p.lat, p.lon);
+            if (d <= maxKm && (!best || d < best.distanceKm)) best = { point: p, distanceKm: d };
+          }
+        }
+      }
+      // Anything in a further ring is at least `ring` cells away
+      if (best && best.distanceKm <= ring * kmPerCell) break;
+    }
+    return best;
+  }
+
+  private bboxAround(lat: number, lon: number, radiusKm: number): BBox {
+    const dLat = radiusKm / KM_PER_DEG_LAT;
+    const dLon = radiusKm / (KM_PER_DEG_LAT * Math.max(0.01, Math.cos(lat * Math.PI / 180)));
+    return { minLat: lat - dLat, minLon: lon - dLon, maxLat: lat + dLat, maxLon: lon + dLon };
+  }
+
+  private cellOf(deg: number) {
+    return Math.floor(deg / this.cellDeg);
+  }
+
+  private key(i: number, j: number) {
+    return `${i}:${j}`;
+  }
+}
+
+// Stations and municipalities (prefecture records are capital-city points, not useful as "nearest")
+export const stationIndex = new GeoGrid<StationRecord>(STATION_DATABASE.filter(r => r.kind !== 'prefecture'));
+
+/**
+ * Nearest station/municipality name for a point, e.g. to label the user location.
+ */
+export const nearestPlaceName = (lat: number, lon: number, maxKm = 30): string | null => {
+  const hit = stationIndex.nearest(lat, lon, maxKm);
+  return hit ? hit.point.name : null;
+};
@@ -0,0 +1,151 @@
+import { StationRecord, ResolvedLocation, UnmatchedName } from '../types';
+import { STATION_DATABASE } from '../constants/stationDatabase';
+import { INTENSITY_REGIONS } from '../constants/intensityRegions';
+
+export interface ResolveOptions {
+  pref?: string; // Restricts candidates to this prefecture and is the last-resort fallback
+  track?: boolean; // Record names that don't resolve below prefecture level
+}
+
+const KIND_PRIORITY: Record<StationRecord['kind'], number> = { station: 0, municipality: 1, prefecture: 2 };
+
+/**
+ * Canonical form for matching: full-width -> half-width, no spaces or
+ * parenthesized notes ("（令和6年能登半島地震）"), ヶ/ヵ -> ケ.
+ */
+export const normalizeName = (name: string): string =>
+  name.normalize('NFKC')
+    .replace(/\([^)]*\)/g, '')
+    .replace(/\s+/g, '')
+    .replace(/[ヶヵ]/g, 'ケ');
+
+/**
+ * Name -> coordinates against the generated station database.
+ *
+ * Order: exact station/municipality/prefecture name, exact intensity region,
+ * longest municipality prefix ("輪島市鳳至町" -> 輪島市, "札幌中央区…" -> 札幌市,
+ * "〇〇郡××町" -> ××町), region prefix, prefecture prefix, contained name,
+ * then the given prefecture.
+ */
+class StationResolver {
+  private byName = new Map<string, StationRecord[]>();
+  private prefixKeys: string[] = []; // Stations/municipalities, longest first
+  private regions = new Map<string, [number, number]>(); // [lat, lon]
+  private regionKeys: string[] = [];
+  private prefectures = new Map<string, StationRecord>();
+  private unmatched = new Map<string, UnmatchedName>();
+  private cache = new Map<string, ResolvedLocation | null>(); // "pref|name" -> result
+
+  constructor() {
+    STATION_DATABASE.forEach(r => {
+      const key = normalizeName(r.name);
+      const list = this.byName.get(key);
+      if (list) list.push(r); else this.byName.set(key, [r]);
+      if (r.kind === 'prefecture') this.prefectures.set(r.name, r);
+    });
+    this.prefixKeys = Array.from(this.byName.keys())
+      .filter(k => this.byName.get(k)!.some(r => r.kind !== 'prefecture'))
+      .sort((a, b) => b.length - a.length);
+
+    INTENSITY_REGIONS.features.forEach(f => {
+      const [lon, lat] = f.properties.center;
+      this.regions.set(normalizeName(f.properties.name), [lat, lon]);
+    });
+    this.regionKeys = Array.from(this.regions.keys()).sort((a, b) => b.length - a.length);
+  }
+
+  resolve(name: string, options: ResolveOptions = {}): ResolvedLocation | null {
+    const cacheKey = `${options.pref ?? ''}|${name}`;
+    let result = this.cache.get(cacheKey);
+    if (result === undefined) {
+      result = this.lookup(name, options.pref);
+      this.cache.set(cacheKey, result);
+    }
+    if (options.track && (!result || (result.level === 'prefecture' && !result.isExact))) {
+      this.recordUnmatched(name, options.pref, result?.level);
+    }
+    return result;
+  }
+
+  /** Same as resolve() but as a map-ready [lon, lat]. */
+  resolveLonLat(name: string, options: ResolveOptions = {}): [number, number] | null {
+    const r = this.resolve(name, options);
+    return r ? [r.lon, r.lat] : null;
+  }
+
+  /** Names that fell back to a prefecture or failed, most frequent first. */
+  getUnmatchedNames(): UnmatchedName[] {
+    return Array.from(this.unmatched.values()).sort((a, b) => b.count - a.count);
+  }
+
+  clearUnmatchedNames() {
+    this.unmatched.clear();
+  }
+
+  private lookup(name: string, pref?: string): ResolvedLocation | null {
+    const n = normalizeName(name);
+    if (!n) return null;
+
+    const exact = this.pick(this.byName.get(n), pref);
+    if (exact) return this.toResolved(exact, true);
+
+    const region = this.regions.get(n);
+    if (region) return { name: n, level: 'region', lat: region[0], lon: region[1], isExact: true };
+
+    const prefixed = this.findPrefix(n, pref) || this.findPrefix(n.replace(/^.+?郡/, ''), pref);
+    if (prefixed) return this.toResolved(prefixed, false);
+
+    const regionKey = this.regionKeys.find(k => n.startsWith(k));
+    if (regionKey) {
+      const [lat, lon] = this.regions.get(regionKey)!;
+      return { name: regionKey, level: 'region', lat, lon, isExact: false };
+    }
+
+    const prefMatch = Array.from(this.prefectures.values()).find(r => n.startsWith(normalizeName(r.name)));
+    if (prefMatch) return this.toResolved(prefMatch, false);
+
+    // e.g. hypocenter names that mention a municipality mid-string
+    const contained = this.prefixKeys.find(k => k.length >= 2 && n.includes(k));
+    const containedRecord = contained && this.pick(this.byName.get(contained), pref);
+    if (containedRecord) return this.toResolved(containedRecord, false);
+
+    const prefRecord = pref && this.prefectures.get(pref);
+    return prefRecord ? this.toResolved(prefRecord, false) : null;
+  }
+
+  private findPrefix(n: string, pref?: string): StationRecord | null {
+    if (!n) return null;
+    for (const key of this.prefixKeys) {
+      // Designated-city wards are reported without 市: "札幌中央区" -> 札幌市
+      const wardBase = key.endsWith('市') ? key.slice(0, -1) : null;
+      const matches = n.startsWith(key)
+        || (wardBase !== null && wardBase.length >= 2 && n.startsWith(wardBase) && /^[^市町村]{1,4}区/.test(n.slice(wardBase.length)));
+      if (!matches) continue;
+      const record = this.pick(this.byName.get(key), pref);
+      if (record && record.kind !== 'prefecture') return record;
+    }
+    return null;
+  }
+
+  // Prefer records in the requested prefecture, then finer kinds
+  private pick(records: StationRecord[] | undefined, pref?: string): StationRecord | null {
+    if (!records || records.length === 0) return null;
+    // Same names exist across prefectures (伊達市, 府中市, 中央区...)
+    const candidates = pref ? records.filter(r => r.pref === pref) : records;
+    if (candidates.length === 0) return null;
+    return candidates.slice().sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind])[0];
+  }
+
+  private toResolved(r: StationRecord, isExact: boolean): ResolvedLocation {
+    return { name: r.name, level: r.kind, code: r.code, lat: r.lat, lon: r.lon, isExact };
+  }
+
+  private recordUnmatched(name: string, pref: string | undefined, fallback: ResolvedLocation['level'] | undefined) {
+    const key = `${pref ?? ''}:${name}`;
+    const entry = this.unmatched.get(key);
+    if (entry) entry.count++;
+    else this.unmatched.set(key, { name, pref, count: 1, fallback });
+  }
+}
+
+export const stationResolver = new StationResolver();
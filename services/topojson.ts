@@ -0,0 +1,72 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { GeometryObject, NullObject, Topology } from 'topojson-specification';
+
+// Minimal TopoJSON -> GeoJSON decoding for the bundled base maps
+// (quantized or plain arcs; no topology-aware operations such as merge or mesh)
+
+export type { Topology };
+
+const isNullObject = (g: GeometryObject): g is NullObject => g.type === null;
+
+const decodeArcs = (topology: Topology): Position[][] => {
+  const t = topology.transform;
+  if (!t) return topology.arcs;
+  return topology.arcs.map(arc => {
+    let x = 0, y = 0;
+    return arc.map(([dx, dy]) => {
+      x += dx;
+      y += dy;
+      return [x * t.scale[0] + t.translate[0], y * t.scale[1] + t.translate[1]];
+    });
+  });
+};
+
+/**
+ * Named object of a topology as a GeoJSON FeatureCollection.
+ */
+export const topologyToFeatures = (topology: Topology, objectName: string): FeatureCollection<Geometry | null> => {
+  const object = topology.objects[objectName];
+  if (!object) throw new Error(`TopoJSON object "${objectName}" not found`);
+  const arcs = decodeArcs(topology);
+
+  // Negative indices (~i) are arc i reversed; consecutive arcs share an endpoint
+  const line = (indices: number[]): Position[] => {
+    const points: Position[] = [];
+    indices.forEach((index, n) => {
+      const arc = index < 0 ? arcs[~index].slice().reverse() : arcs[index];
+      points.push(...(n === 0 ? arc : arc.slice(1)));
+    });
+    return points;
+  };
+  const ring = (indices: number[]) => {
+    const points = line(indices);
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) points.push(first);
+    return points;
+  };
+
+  const geometry = (g: GeometryObject): Geometry | null => {
+    if (isNullObject(g)) return null;
+    switch (g.type) {
+      case 'Point': return { type: g.type, coordinates: g.coordinates };
+      case 'MultiPoint': return { type: g.type, coordinates: g.coordinates };
+      case 'LineString': return { type: g.type, coordinates: line(g.arcs) };
+      case 'MultiLineString': return { type: g.type, coordinates: g.arcs.map(line) };
+      case 'Polygon': return { type: g.type, coordinates: g.arcs.map(ring) };
+      case 'MultiPolygon': return { type: g.type, coordinates: g.arcs.map(p => p.map(ring)) };
+      case 'GeometryCollection':
+        return { type: g.type, geometries: g.geometries.map(geometry).filter((c): c is Geometry => c !== null) };
+      default: return null;
+    }
+  };
+
+  const toFeature = (g: GeometryObject): Feature<Geometry | null> => ({
+    type: 'Feature',
+    ...(g.id !== undefined ? { id: g.id } : {}),
+    properties: g.properties || {},
+    geometry: geometry(g),
+  });
+
+  const features = 'geometries' in object ? object.geometries.map(toFeature) : [toFeature(object)];
+  return { type: 'FeatureCollection', features };
+};
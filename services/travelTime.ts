@@ -0,0 +1,62 @@
+import {
+  TRAVEL_TIME_DEPTHS_KM,
+  TRAVEL_TIME_DISTANCE_STEP_KM,
+  TRAVEL_TIME_MAX_DISTANCE_KM,
+  TRAVEL_TIME_TABLE,
+} from '../constants/travelTimeTable';
+
+export type SeismicPhase = 'P' | 'S';
+
+// Depth bracket (lower index and interpolation weight) in the table
+const locateDepth = (depthKm: number): [number, number] => {
+  const depths = TRAVEL_TIME_DEPTHS_KM;
+  const d = Math.min(Math.max(depthKm, 0), depths[depths.length - 1]);
+  let i = 0;
+  while (i < depths.length - 2 && depths[i + 1] < d) i++;
+  return [i, (d - depths[i]) / (depths[i + 1] - depths[i])];
+};
+
+// Travel time at a table column, interpolated between the bracketing depth rows
+const timeAtColumn = (rows: number[][], depthIndex: number, weight: number, column: number) =>
+  rows[depthIndex][column] * (1 - weight) + rows[depthIndex + 1][column] * weight;
+
+/**
+ * Travel time in seconds from a hypocenter at `depthKm` to a surface point
+ * `distanceKm` away (epicentral distance). Beyond the table the last slowness is extrapolated.
+ */
+export const getTravelTime = (phase: SeismicPhase, depthKm: number, distanceKm: number): number => {
+  const rows = TRAVEL_TIME_TABLE[phase];
+  const [depthIndex, weight] = locateDepth(depthKm);
+  const lastColumn = rows[0].length - 1;
+
+  const x = Math.max(0, distanceKm) / TRAVEL_TIME_DISTANCE_STEP_KM;
+  if (x >= lastColumn) {
+    const last = timeAtColumn(rows, depthIndex, weight, lastColumn);
+    const slowness = (last - timeAtColumn(rows, depthIndex, weight, lastColumn - 1)) / TRAVEL_TIME_DISTANCE_STEP_KM;
+    return last + (distanceKm - TRAVEL_TIME_MAX_DISTANCE_KM) * slowness;
+  }
+
+  const column = Math.floor(x);
+  const t0 = timeAtColumn(rows, depthIndex, weight, column);
+  const t1 = timeAtColumn(rows, depthIndex, weight, column + 1);
+  return t0 + (t1 - t0) * (x - column);
+};
+
+/**
+ * Epicentral radius in km of a wave front `elapsedSec` after origin time,
+ * or null while the wave has not yet reached the surface.
+ */
+export const getWaveFrontRadius = (phase: SeismicPhase, depthKm: number, elapsedSec: number): number | null => {
+  if (elapsedSec < getTravelTime(phase, depthKm, 0)) return null;
+
+  // Travel time increases with distance, so bisect on it
+  let lo = 0;
+  let hi = TRAVEL_TIME_MAX_DISTANCE_KM;
+  while (getTravelTime(phase, depthKm, hi) < elapsedSec) hi *= 2;
+  for (let i = 0; i < 30 && hi - lo > 0.1; i++) {
+    const mid = (lo + hi) / 2;
+    if (getTravelTime(phase, depthKm, mid) < elapsedSec) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
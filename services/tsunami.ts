@@ -0,0 +1,79 @@
+import { P2PTsunamiData, P2PTsunamiGrade, TsunamiForecast, TsunamiGrade } from '../types';
+import { parseP2PTime } from './feeds/P2PQuakeFeed';
+
+// Highest first
+export const TSUNAMI_GRADE_ORDER: TsunamiGrade[] = ['MajorWarning', 'Warning', 'Advisory', 'Forecast'];
+
+export const TSUNAMI_GRADE_LABELS: { [key in TsunamiGrade]: string } = {
+  MajorWarning: '大津波警報',
+  Warning: '津波警報',
+  Advisory: '津波注意報',
+  Forecast: '津波予報',
+};
+
+// Map overlay / banner colors, following the JMA coloring convention
+export const TSUNAMI_GRADE_COLORS: { [key in TsunamiGrade]: string } = {
+  MajorWarning: '#a21caf', // Fuchsia 700
+  Warning: '#dc2626', // Red 600
+  Advisory: '#facc15', // Yellow 400
+  Forecast: '#38bdf8', // Sky 400
+};
+
+const fromP2PGrade = (grade: P2PTsunamiGrade): TsunamiGrade => {
+  switch (grade) {
+    case 'MajorWarning': return 'MajorWarning';
+    case 'Warning': return 'Warning';
+    case 'Watch': return 'Advisory';
+    // "Unknown" is treated as an advisory so it is never under-alerted
+    default: return 'Advisory';
+  }
+};
+
+const toISOTime = (p2pTime: string | undefined): string | undefined => {
+  if (!p2pTime) return undefined;
+  const t = parseP2PTime(p2pTime);
+  return isNaN(t) ? undefined : new Date(t).toISOString();
+};
+
+export const compareTsunamiGrade = (a: TsunamiGrade, b: TsunamiGrade) =>
+  TSUNAMI_GRADE_ORDER.indexOf(a) - TSUNAMI_GRADE_ORDER.indexOf(b);
+
+/**
+ * P2P code 552 -> TsunamiForecast. Areas are sorted by grade (highest first).
+ */
+export const parseP2PTsunami = (data: P2PTsunamiData): TsunamiForecast => {
+  const areas = data.cancelled ? [] : data.areas.map(a => ({
+    name: a.name,
+    grade: fromP2PGrade(a.grade),
+    immediate: a.immediate,
+    arrivalTime: toISOTime(a.firstHeight?.arrivalTime),
+    arrivalCondition: a.firstHeight?.condition,
+    maxHeight: a.maxHeight && a.maxHeight.value > 0 ? a.maxHeight.value : undefined,
+    maxHeightDescription: a.maxHeight?.description,
+  })).sort((a, b) => compareTsunamiGrade(a.grade, b.grade));
+
+  return {
+    id: data._id,
+    issuedAt: toISOTime(data.issue?.time ?? data.time) ?? new Date().toISOString(),
+    cancelled: data.cancelled,
+    areas,
+    maxGrade: areas.length > 0 ? areas[0].grade : null,
+  };
+};
+
+/**
+ * Japanese label for QuakeEarthquake.domesticTsunami (551).
+ */
+export const getDomesticTsunamiLabel = (value: string | undefined): string | null => {
+  switch (value) {
+    case undefined:
+    case 'None': return null;
+    case 'Unknown': return '津波の有無は不明';
+    case 'Checking': return '津波の有無を調査中';
+    case 'NonEffective': return '若干の海面変動';
+    case 'Watch': return '津波注意報';
+    case 'Warning': return '津波警報';
+    case 'MajorWarning': return '大津波警報';
+    default: return value;
+  }
+};
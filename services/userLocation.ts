@@ -0,0 +1,30 @@
+import { UserLocation } from '../types';
+
+const STORAGE_KEY = 'quakeMonitor.userLocation';
+
+export const isValidLocation = (latitude: number, longitude: number) =>
+  !isNaN(latitude) && !isNaN(longitude) && latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180;
+
+export const loadUserLocation = (): UserLocation | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as UserLocation;
+    return isValidLocation(parsed.latitude, parsed.longitude) ? parsed : null;
+  } catch (e) {
+    console.warn("Failed to load user location", e);
+    return null;
+  }
+};
+
+export const saveUserLocation = (location: UserLocation | null) => {
+  try {
+    if (location) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(location));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn("Failed to save user location", e);
+  }
+};
@@ -0,0 +1,210 @@
+import { VoicePack } from '../types';
+import { PLACE_KEY_PREFIX, VOICE_CLIP_KEYS } from '../constants/voiceKeys';
+import { readZip } from './zip';
+
+const DB_NAME = 'quakeMonitorVoicePacks';
+const DB_VERSION = 1;
+const PACK_STORE = 'packs';
+const ACTIVE_KEY = 'quakeMonitor.voicePack';
+
+export const MANIFEST_FILE = 'voicepack.json';
+const FILE_FORMAT = 'quake-monitor-voicepack';
+
+export interface VoicePackImport {
+  pack: VoicePack;
+  warnings: string[]; // Clips that were skipped or are never used
+}
+
+const isKnownKey = (key: string) => key in VOICE_CLIP_KEYS || key.startsWith(PLACE_KEY_PREFIX);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Clip paths are relative to the manifest ("clips/shindo.wav", "./ji.mp3")
+const resolvePath = (base: string, path: string): string => {
+  const parts = base ? base.split('/') : [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+/**
+ * Builds a pack from its files (path -> contents). The manifest may sit at the
+ * root or inside a folder, as happens when a folder is zipped.
+ * Throws with a user-facing message when nothing usable is found.
+ */
+export const buildVoicePack = async (files: Map<string, Blob>, now: number = Date.now()): Promise<VoicePackImport> => {
+  const manifestPath = Array.from(files.keys())
+    .filter(path => path === MANIFEST_FILE || path.endsWith(`/${MANIFEST_FILE}`))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!manifestPath) throw new Error(`${MANIFEST_FILE} が見つかりません`);
+  const base = manifestPath.slice(0, -MANIFEST_FILE.length).replace(/\/$/, '');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await files.get(manifestPath)!.text());
+  } catch (e) {
+    throw new Error(`${MANIFEST_FILE} をJSONとして読み込めません`);
+  }
+  if (!isRecord(manifest)) throw new Error(`${MANIFEST_FILE} の形式が正しくありません`);
+  if (manifest.format !== undefined && manifest.format !== FILE_FORMAT) {
+    throw new Error(`未対応の形式です: ${manifest.format}`);
+  }
+  const name = optionalString(manifest.name);
+  if (!name) throw new Error('name がありません');
+  const clipPaths = manifest.clips;
+  if (!isRecord(clipPaths)) throw new Error('clips がありません');
+
+  const warnings: string[] = [];
+  const clips: { [key: string]: Blob } = {};
+  Object.entries(clipPaths).forEach(([key, path]) => {
+    if (typeof path !== 'string') {
+      warnings.push(`${key}: ファイル名が文字列ではありません`);
+      return;
+    }
+    const blob = files.get(resolvePath(base, path));
+    if (!blob) {
+      warnings.push(`${key}: ${path} が見つかりません`);
+      return;
+    }
+    if (!isKnownKey(key)) warnings.push(`${key}: 読み上げに使われないキーです`);
+    clips[key] = blob;
+  });
+  if (Object.keys(clips).length === 0) throw new Error('読み込める音声ファイルがありません');
+
+  return {
+    pack: {
+      id: optionalString(manifest.id) ?? `pack-${now}`,
+      name,
+      author: optionalString(manifest.author),
+      description: optionalString(manifest.description),
+      importedAt: now,
+      clips,
+    },
+    warnings,
+  };
+};
+
+/**
+ * Reads a pack from a selected .zip file or the files of a selected folder.
+ */
+export const importVoicePack = async (selected: FileList | File[]): Promise<VoicePackImport> => {
+  const list = Array.from(selected);
+  if (list.length === 1 && /\.zip$/i.test(list[0].name)) {
+    return buildVoicePack(await readZip(list[0]));
+  }
+  return buildVoicePack(new Map(list.map(file => [file.webkitRelativePath || file.name, file])));
+};
+
+/**
+ * Keys the announcements use that the pack has no clip for (read by speech synthesis instead).
+ */
+export const getMissingVoiceKeys = (pack: VoicePack): string[] =>
+  Object.keys(VOICE_CLIP_KEYS).filter(key => !pack.clips[key]);
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Imported voice packs (IndexedDB) and the active pack's id (localStorage).
+ * Fails soft like the event archive: without IndexedDB there are simply no packs.
+ */
+export class VoicePackStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PACK_STORE)) db.createObjectStore(PACK_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Failed to open voice pack database", request.error);
+        resolve(null);
+      };
+    });
+    return this.dbPromise;
+  }
+
+  public async list(): Promise<VoicePack[]> {
+    const db = await this.open();
+    if (!db) return [];
+    try {
+      const packs = await promisify(db.transaction(PACK_STORE, 'readonly').objectStore(PACK_STORE).getAll()) as VoicePack[];
+      return packs.sort((a, b) => a.importedAt - b.importedAt);
+    } catch (e) {
+      console.warn("Failed to list voice packs", e);
+      return [];
+    }
+  }
+
+  public async get(id: string): Promise<VoicePack | null> {
+    const db = await this.open();
+    if (!db) return null;
+    try {
+      return (await promisify(db.transaction(PACK_STORE, 'readonly').objectStore(PACK_STORE).get(id)) as VoicePack) ?? null;
+    } catch (e) {
+      console.warn("Failed to load voice pack", e);
+      return null;
+    }
+  }
+
+  // Replaces a pack with the same id (re-importing an updated pack)
+  public async put(pack: VoicePack) {
+    const db = await this.open();
+    if (!db) throw new Error('音声パックを保存できません（IndexedDBが使用できません）');
+    await promisify(db.transaction(PACK_STORE, 'readwrite').objectStore(PACK_STORE).put(pack));
+  }
+
+  public async delete(id: string) {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      await promisify(db.transaction(PACK_STORE, 'readwrite').objectStore(PACK_STORE).delete(id));
+    } catch (e) {
+      console.warn("Failed to delete voice pack", e);
+    }
+    if (this.getActiveId() === id) this.setActiveId(null);
+  }
+
+  public getActiveId(): string | null {
+    try {
+      return localStorage.getItem(ACTIVE_KEY);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  public setActiveId(id: string | null) {
+    try {
+      if (id) localStorage.setItem(ACTIVE_KEY, id);
+      else localStorage.removeItem(ACTIVE_KEY);
+    } catch (e) {
+      console.warn("Failed to save voice pack selection", e);
+    }
+  }
+
+  public async loadActive(): Promise<VoicePack | null> {
+    const id = this.getActiveId();
+    return id ? this.get(id) : null;
+  }
+}
+
+export const voicePackStore = new VoicePackStore();
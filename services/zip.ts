@@ -0,0 +1,75 @@
+// Minimal ZIP reader (stored and deflate entries, no ZIP64 or encryption), enough for voice packs
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const UTF8_FLAG = 0x800;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+const CORRUPT_MESSAGE = 'ZIPファイルが壊れています';
+
+const inflateRaw = (data: ArrayBuffer): Promise<Blob> =>
+  new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+/**
+ * Reads every file in a ZIP archive. Returns paths (directories separated by "/") to contents.
+ * Throws with a user-facing message when the archive can't be read.
+ */
+export const readZip = async (file: Blob): Promise<Map<string, Blob>> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+
+  // End of central directory record, searched from the end (it may be followed by a comment)
+  let eocd = -1;
+  const lowest = Math.max(0, buffer.byteLength - EOCD_SIZE - MAX_COMMENT_LENGTH);
+  for (let i = buffer.byteLength - EOCD_SIZE; i >= lowest; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('ZIPファイルとして読み込めません');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, Blob>();
+
+  for (let i = 0; i < count; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > buffer.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error(CORRUPT_MESSAGE);
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    if (offset + CENTRAL_HEADER_SIZE + nameLength > buffer.byteLength) throw new Error(CORRUPT_MESSAGE);
+    // Archives made on Japanese Windows store names in Shift_JIS without the UTF-8 flag
+    const decoder = new TextDecoder(flags & UTF8_FLAG ? 'utf-8' : 'shift_jis');
+    const name = decoder.decode(new Uint8Array(buffer, offset + CENTRAL_HEADER_SIZE, nameLength));
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (localOffset + LOCAL_HEADER_SIZE > buffer.byteLength || view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      throw new Error(CORRUPT_MESSAGE);
+    }
+
+    // Local header lengths can differ from the central directory's
+    const start = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > buffer.byteLength) throw new Error(CORRUPT_MESSAGE);
+    const data = buffer.slice(start, start + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, new Blob([data]));
+    } else if (method === 8) {
+      entries.set(name, await inflateRaw(data));
+    } else {
+      console.warn(`Zip: unsupported compression method ${method} for ${name}`);
+    }
+  }
+  return entries;
+};
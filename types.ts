@@ -41,7 +41,7 @@ export interface QuakeEarthquake {
 
 export interface P2PQuakeData {
   _id: string;
-  code: number; // 551: Earthquake, 554: EEW, 556: EEW Test/Cancel, 9611: User Report
+  code: 551; // Earthquake (other codes have their own types below)
   time: string;
   issue: QuakeIssue;
   earthquake: QuakeEarthquake;
@@ -55,8 +55,124 @@ export interface P2PQuakeData {
   cancelled?: boolean;
 }
 
+// 552: 津波予報
+export type P2PTsunamiGrade = 'MajorWarning' | 'Warning' | 'Watch' | 'Unknown';
+
+export interface P2PTsunamiArea {
+  grade: P2PTsunamiGrade;
+  immediate: boolean; // 直ちに津波来襲と予測
+  name: string;
+  firstHeight?: {
+    arrivalTime?: string;
+    condition?: string; // e.g. "津波到達中と推測", "第１波の到達を確認"
+  };
+  maxHeight?: {
+    description: string; // e.g. "３ｍ", "巨大"
+    value: number; // meters, -1 if unknown
+  };
+}
+
+export interface P2PTsunamiData {
+  _id: string;
+  code: 552;
+  time: string;
+  issue: { source: string; time: string; type: string };
+  cancelled: boolean;
+  areas: P2PTsunamiArea[];
+}
+
+// 554: 緊急地震速報 発表検出 (peers heard an EEW chime; no parameters)
+export interface P2PEEWDetectionData {
+  _id: string;
+  code: 554;
+  time: string;
+  type: 'Full' | 'Chime';
+}
+
+// 555: 各地域ピア数
+export interface P2PAreaPeersData {
+  _id: string;
+  code: 555;
+  time: string;
+  areas: { id: number; peer: number }[];
+}
+
+// 556: 緊急地震速報（警報）
+export interface P2PEEWArea {
+  pref: string;
+  name: string;
+  scaleFrom: JMASeismicIntensity;
+  scaleTo: JMASeismicIntensity | 99; // 99 = "～程度以上"
+  kindCode: string; // 10: 主要動未到達, 11: 既に到達と予測, 19: 到達予想なし (PLUM)
+  arrivalTime?: string;
+}
+
+export interface P2PEEWData {
+  _id: string;
+  code: 556;
+  time: string;
+  test?: boolean;
+  earthquake?: {
+    originTime: string;
+    arrivalTime: string;
+    condition?: string; // "仮定震源要素" for PLUM/assumed hypocenter
+    hypocenter: {
+      name: string;
+      reduceName: string;
+      latitude: number; // -200 if unknown
+      longitude: number; // -200 if unknown
+      depth: number; // -1 if unknown
+      magnitude: number; // -1 if unknown
+    };
+  };
+  issue: { time: string; eventId: string; serial: string };
+  cancelled: boolean;
+  areas: P2PEEWArea[];
+}
+
+// 561: 地震感知情報 (a single user pressed "揺れた")
+export interface P2PUserquakeData {
+  _id: string;
+  code: 561;
+  time: string;
+  area: number; // P2P area code
+}
+
+// 9611: 地震感知情報 解析結果
+export interface P2PUserquakeAreaConfidence {
+  confidence: number;
+  count: number;
+  display: string; // "A" (most likely) ... "F"
+}
+
+export interface P2PUserquakeEvaluationData {
+  _id: string;
+  code: 9611;
+  time: string;
+  count: number;
+  confidence: number; // 0-1
+  started_at: string;
+  updated_at: string;
+  area_confidences: { [areaCode: string]: P2PUserquakeAreaConfidence };
+}
+
+export type P2PMessage =
+  | P2PQuakeData
+  | P2PTsunamiData
+  | P2PEEWDetectionData
+  | P2PAreaPeersData
+  | P2PEEWData
+  | P2PUserquakeData
+  | P2PUserquakeEvaluationData;
+
+export type EEWSource = 'wolfx' | 'p2p' | 'p2p-detection';
+
 export interface EEWState {
   isActive: boolean;
+  source?: EEWSource; // Feed that produced this state (simulation leaves it undefined)
+  eventId?: string; // JMA EventID shared by every report of the same earthquake
+  serial?: number; // Report number (第N報)
+  isCancelled?: boolean;
   isWarning: boolean; // True if it's a "Warning" (Alarm), False if "Forecast"
   isFinal?: boolean; // True if this is the final report
   hypocenterName?: string;
@@ -64,22 +180,410 @@ export interface EEWState {
   depth?: number;
   maxIntensity?: string; // Wolfx often sends string "4", "5+" etc
   areas: string[]; // List of area/prefecture names targeted
-  occurredTime?: string;
+  occurredTime?: string; // Origin time (falls back to announcement time if unknown)
+  announcedTime?: string;
   title?: string;
   updatedTime?: number; // Internal timestamp for timeout logic
+  latitude?: number; // Hypocenter coordinates, when provided by the source
+  longitude?: number;
+  isAssumedHypocenter?: boolean; // PLUM / 仮定震源要素: location and magnitude are not real estimates
+  isSea?: boolean;
+  accuracy?: { epicenter?: string; depth?: string; magnitude?: string };
+  forecastAreas?: EEWForecastArea[]; // Per-region forecast intensities
+}
+
+export interface EEWForecastArea {
+  name: string; // Forecast region, e.g. "石川県能登"
+  intensityFrom?: string; // Lower bound, e.g. "4"
+  intensityTo?: string; // Upper bound, e.g. "5弱" ("以上" if open-ended)
+  arrivalTime?: string; // ISO or "HH:mm:ss" as provided
+  hasArrived: boolean;
+  isWarning: boolean; // Region is under a warning (not just a forecast)
+}
+
+// One received EEW report, kept for the revision history of an event
+export interface EEWReport {
+  serial?: number;
+  source?: EEWSource;
+  receivedAt: number;
+  isWarning: boolean;
+  isFinal: boolean;
+  isCancelled: boolean;
+  hypocenterName?: string;
+  magnitude?: number;
+  depth?: number;
+  maxIntensity?: string;
+}
+
+// All reports of one EEW event (keyed by EventID)
+export interface EEWEvent {
+  eventId: string;
+  firstReceivedAt: number;
+  reports: EEWReport[]; // Oldest first
+  latest: EEWState; // Best-known current state (highest serial, merged across sources)
+  hasEscalated: boolean; // Forecast was upgraded to a warning during the event
+}
+
+// Wolfx API Types (jma_eew)
+export interface WolfxWarnArea {
+  Chiiki: string; // Forecast region name, e.g. "石川県能登"
+  Shindo1: string; // Upper bound of forecast intensity ("5弱")
+  Shindo2: string; // Lower bound of forecast intensity ("4")
+  Time: string; // Expected arrival time ("16:10:30")
+  Type: string; // "予報" | "警報"
+  Arrive: boolean; // Main shock already arrived
 }
 
-// Wolfx API Types (Approximate)
 export interface WolfxEEWData {
   Type: string;
   Title: string;
+  CodeType?: string;
+  Issue?: { Source: string; Status: string };
+  EventID: string;
+  Serial?: number;
+  AnnouncedTime: string; // "2024/01/01 16:10:20" (JST)
+  OriginTime?: string; // "2024/01/01 16:10:05" (JST)
   Hypocenter: string;
-  Magnitude: string;
-  Depth?: string; // "10km" etc
+  Latitude?: number;
+  Longitude?: number;
+  Magunitude?: number; // (sic) Wolfx field name
+  Magnitude?: number | string;
+  Depth?: number | string; // 10 or "10km"
   MaxIntensity: string;
-  AnnouncedTime: string;
-  EventID: string;
-  isCancel?: boolean;
+  Accuracy?: { Epicenter: string; Depth: string; Magnitude: string };
+  MaxIntChange?: { String: string; Reason: string };
+  WarnArea?: WolfxWarnArea[];
+  isSea?: boolean;
+  isTraining?: boolean;
+  isAssumption?: boolean; // Assumed hypocenter (PLUM method / 仮定震源要素)
+  isWarn?: boolean;
   isFinal?: boolean;
-  // Warning areas are not always provided in simple stream, but we can infer state
+  isCancel?: boolean;
+  OriginalText?: string;
+}
+
+// Live Feed Types
+export type FeedConnectionState = 'connecting' | 'connected' | 'stale' | 'backoff' | 'disconnected';
+
+export interface FeedStatus {
+  state: FeedConnectionState;
+  connectedAt?: number; // Epoch ms of the last successful open
+  lastMessageAt?: number; // Epoch ms of the last received frame (including heartbeats)
+  messageCount: number; // Frames received since the feed was created
+  reconnectAttempts: number; // Consecutive failed attempts (reset on open)
+  nextRetryAt?: number; // Epoch ms of the next reconnect attempt while in 'backoff'
+}
+
+// Tsunami Types (normalized from P2P 552)
+export type TsunamiGrade = 'MajorWarning' | 'Warning' | 'Advisory' | 'Forecast';
+
+export interface TsunamiAreaForecast {
+  name: string; // 津波予報区 name
+  grade: TsunamiGrade;
+  immediate: boolean; // Arrival expected immediately
+  arrivalTime?: string; // ISO time of expected first wave
+  arrivalCondition?: string; // e.g. "第１波の到達を確認"
+  maxHeight?: number; // meters
+  maxHeightDescription?: string; // e.g. "３ｍ", "巨大"
+}
+
+export interface TsunamiForecast {
+  id: string;
+  issuedAt: string; // ISO
+  cancelled: boolean;
+  areas: TsunamiAreaForecast[];
+  maxGrade: TsunamiGrade | null; // null when cancelled or no areas
+}
+
+// User Location (for local intensity estimates)
+export interface UserLocation {
+  latitude: number;
+  longitude: number;
+  label?: string;
+}
+
+// Local Archive Types (IndexedDB)
+export type ArchiveSource = 'p2p' | 'wolfx';
+
+// A raw feed message, exactly as received
+export interface ArchivedMessage {
+  id: string; // P2P _id, or "wolfx-<EventID>-<Serial>"
+  source: ArchiveSource;
+  code?: number; // P2P code
+  receivedAt: number; // Epoch ms
+  payload: P2PMessage | WolfxEEWData;
+}
+
+export type ArchivedEventKind = 'quake' | 'eew' | 'tsunami';
+
+// A derived event, indexed for queries
+export interface ArchivedEvent {
+  id: string;
+  kind: ArchivedEventKind;
+  time: number; // Epoch ms of the origin time (issue time if unknown)
+  receivedAt: number;
+  hypocenterName?: string;
+  latitude?: number;
+  longitude?: number;
+  magnitude?: number;
+  maxScale?: JMASeismicIntensity;
+  regions: string[]; // Prefectures / forecast areas involved
+  data: P2PQuakeData | EEWEvent | TsunamiForecast;
+}
+
+export interface ArchiveQuery {
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, inclusive
+  kinds?: ArchivedEventKind[];
+  region?: string; // Substring of the hypocenter name or any region
+  minScale?: JMASeismicIntensity;
+  minMagnitude?: number;
+  limit?: number; // Newest first
+}
+
+export interface ArchiveSettings {
+  retentionDays: number; // Events and reports
+  highVolumeRetentionHours: number; // Peer counts and felt reports (555/561/9611)
+}
+
+// Earthquake Event Correlation (several 551 reports per earthquake)
+export type QuakeReportType = 'ScalePrompt' | 'Destination' | 'ScaleAndDestination' | 'DetailScale' | 'Foreign' | 'Other';
+
+export interface QuakeEvent {
+  id: string; // _id of the first report; stable for the lifetime of the event
+  reports: P2PQuakeData[]; // Revision history, oldest issue first
+  merged: P2PQuakeData; // Best-known values across all reports (carries the event id as _id)
+  reportTypes: QuakeReportType[]; // Report types received so far
+  firstReceivedAt: number;
+  updatedAt: number;
+}
+
+// JMA Seismic-Intensity Regions (地震情報／細分区域), bundled GeoJSON
+export interface IntensityRegionFeature {
+  type: 'Feature';
+  properties: {
+    name: string; // e.g. "石川県能登" (matches QuakePoint.addr when isArea)
+    pref: string;
+    center: [number, number]; // [lon, lat] representative point
+  };
+  geometry:
+    | { type: 'Polygon'; coordinates: [number, number][][] }
+    | { type: 'MultiPolygon'; coordinates: [number, number][][][] }; // Official boundaries with islands
+}
+
+export interface IntensityRegionCollection {
+  type: 'FeatureCollection';
+  features: IntensityRegionFeature[];
+}
+
+// Station / Municipality Database (generated)
+export type StationKind = 'station' | 'municipality' | 'prefecture';
+
+export interface StationRecord {
+  code?: string; // JMA station code, or JIS X 0402 municipality / X 0401 prefecture code, when known
+  name: string; // e.g. "輪島市鳳至町", "輪島市", "石川県"
+  pref: string;
+  kind: StationKind;
+  municipality?: string; // Municipality a station belongs to
+  lat: number;
+  lon: number;
+}
+
+export type ResolveLevel = StationKind | 'region';
+
+export interface ResolvedLocation {
+  name: string; // Matched database name
+  level: ResolveLevel;
+  code?: string;
+  lat: number;
+  lon: number;
+  isExact: boolean;
+}
+
+export interface UnmatchedName {
+  name: string;
+  pref?: string;
+  count: number;
+  fallback?: ResolveLevel; // Coarser level used instead (e.g. prefecture), if any
+}
+
+// Map Display
+export type MapRenderer = 'svg' | 'canvas';
+
+export interface MapSettings {
+  renderer: MapRenderer; // canvas is lighter for low-end wall displays
+  showIntensityEstimate: boolean; // 推計震度 grid overlay for earthquake reports
+}
+
+export interface IntensityGridCell {
+  lat: number; // Cell center
+  lon: number;
+  intensity: number; // Continuous JMA intensity
+}
+
+export interface IntensityGrid {
+  cellDeg: number;
+  cells: IntensityGridCell[]; // Only cells at intensity 0.5 (震度1) or above
+}
+
+// Base Map (bundled TopoJSON)
+export type BaseMapLOD = 'low' | 'mid' | 'high';
+
+export interface JapanBaseMap {
+  lod: BaseMapLOD;
+  prefectures: any; // GeoJSON FeatureCollection (properties.nam_ja)
+  coastline: any | null; // LineStrings
+  municipalities: any | null; // Boundaries, high LOD only (when generated with N03)
+}
+
+// Replay (recorded feed messages played back through the display pipeline)
+export interface ReplayRecording {
+  title: string;
+  messages: ArchivedMessage[]; // Sorted by receivedAt
+}
+
+export type ReplayStatus = 'playing' | 'paused' | 'ended';
+
+export interface ReplayState {
+  status: ReplayStatus;
+  position: number; // ms from the start of the recording
+  duration: number;
+  speed: number;
+  startTime: number; // Epoch ms at position 0
+}
+
+// Drill Scenarios (authored timelines, converted to a ReplayRecording to run)
+export interface ScenarioHypocenter {
+  name: string;
+  latitude: number;
+  longitude: number;
+  depth: number; // km
+}
+
+export interface ScenarioEEWArea {
+  name: string; // 緊急地震速報 region, e.g. "和歌山県北部"
+  intensity: string; // Forecast intensity label ("5弱")
+  arrival?: number; // Seconds after origin time the main shock is expected
+}
+
+export interface ScenarioEEWStep {
+  type: 'eew';
+  at: number; // Seconds after origin time
+  magnitude: number;
+  maxIntensity: string;
+  warning: boolean; // 警報 (otherwise 予報)
+  final?: boolean;
+  hypocenter?: ScenarioHypocenter; // Overrides the scenario hypocenter (early, inaccurate reports)
+  areas?: ScenarioEEWArea[];
+}
+
+export interface ScenarioEEWCancelStep {
+  type: 'eewCancel';
+  at: number;
+}
+
+export interface ScenarioQuakePoint {
+  pref: string;
+  addr: string; // Station or region name
+  intensity: string;
+}
+
+export interface ScenarioQuakeStep {
+  type: 'quake';
+  at: number;
+  reportType: 'ScalePrompt' | 'Destination' | 'ScaleAndDestination' | 'DetailScale';
+  maxIntensity: string;
+  tsunami?: string; // 551 domesticTsunami (None, Checking, Watch, Warning, MajorWarning...)
+  points?: ScenarioQuakePoint[]; // Regions for ScalePrompt, stations otherwise
+}
+
+export interface ScenarioTsunamiArea {
+  name: string; // 津波予報区
+  grade: P2PTsunamiGrade;
+  immediate?: boolean;
+  maxHeight?: string; // e.g. "３ｍ", "巨大"
+  arrival?: number; // Seconds after origin time
+}
+
+export interface ScenarioTsunamiStep {
+  type: 'tsunami';
+  at: number;
+  cancelled?: boolean;
+  areas: ScenarioTsunamiArea[];
+}
+
+export type ScenarioStep = ScenarioEEWStep | ScenarioEEWCancelStep | ScenarioQuakeStep | ScenarioTsunamiStep;
+
+export interface Scenario {
+  id: string;
+  title: string;
+  description?: string;
+  hypocenter: ScenarioHypocenter;
+  magnitude: number; // Final magnitude (used by quake reports)
+  steps: ScenarioStep[];
+}
+
+// Voice Announcements
+export type Announcement =
+  | { kind: 'eew'; phase: 'start' | 'update' | 'final' | 'cancel'; eew: EEWState }
+  | { kind: 'quake'; quake: P2PQuakeData }
+  | { kind: 'tsunami'; forecast: TsunamiForecast }
+  | { kind: 'countdown'; seconds: number }; // Seconds until the S-wave reaches the user location (0: arriving)
+
+// Sound effect played before (or instead of) speech
+export type AnnouncementCue = 'chime' | 'eewForecast' | 'notification' | TsunamiGrade;
+
+// One spoken unit: played from voice clips when every key has a clip, otherwise read by speech synthesis
+export type AnnouncementToken =
+  | { type: 'speech'; keys: string[]; text: string }
+  | { type: 'cue'; cue: AnnouncementCue };
+
+// Voice Packs (recorded clips keyed like "shindo", "place:石川県", stored in IndexedDB)
+export interface VoicePackInfo {
+  id: string;
+  name: string;
+  author?: string;
+  description?: string;
+  importedAt: number;
+}
+
+export interface VoicePack extends VoicePackInfo {
+  clips: { [key: string]: Blob };
+}
+
+// Alert Profiles (which events alert, and through which channels)
+// Banners and the map always update; channels only control sound, speech and desktop notifications
+export type AlertChannel = 'sound' | 'speech' | 'notification';
+export type AlertEventKind = 'eew' | 'quake' | 'tsunami';
+
+export type AlertArea =
+  | { type: 'all' }
+  | { type: 'prefectures'; prefectures: string[] }
+  | { type: 'radius'; radiusKm: number }; // Epicentral distance from the saved user location
+
+export interface AlertQuietHours {
+  start: string; // "HH:mm", local time; the range may wrap past midnight
+  end: string;
+}
+
+export interface AlertProfile {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kinds: AlertEventKind[];
+  minScale?: JMASeismicIntensity; // Observed (quake) or forecast (EEW) maximum intensity
+  minMagnitude?: number;
+  area: AlertArea;
+  quietHours?: AlertQuietHours; // The profile does not fire during these hours
+  channels: AlertChannel[]; // Empty: banner only
+}
+
+// What the rules see of an event
+export interface AlertSubject {
+  kind: AlertEventKind;
+  scale?: JMASeismicIntensity;
+  magnitude?: number;
+  regions: string[]; // Prefectures, EEW areas or tsunami forecast areas
+  latitude?: number;
+  longitude?: number;
 }
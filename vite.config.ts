@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.P2P_WS_URL': JSON.stringify(env.P2P_WS_URL || ''),
+        'process.env.WOLFX_WS_URL': JSON.stringify(env.WOLFX_WS_URL || '')
       },
       resolve: {
         alias: {